@@ -3,24 +3,48 @@
  *
  * This is the root module of the Popcorn Palace NestJS application.
  * It sets up the database connection using TypeORM for PostgreSQL and imports feature modules: MovieModule, 
- * ShowTimeModule, and TicketModule.
+ * TheaterModule, ShowTimeModule, TicketModule, WaitlistModule, CheckInModule, PromoModule, PricingModule,
+ * PurchaseLimitModule and PaymentModule.
  * It also registers the relevant entities for ORM-based persistence.
+ *
+ * The schema is kept up to date by `synchronize`, except for changes it would make by dropping
+ * columns with data: those are made by migrations, which run first on every startup
+ * (see showTimesTheaterId.migration.ts and showTimesTimestamptz.migration.ts).
  */
 
 import { Module } from '@nestjs/common';
 import { TypeOrmModule } from '@nestjs/typeorm';
 import { MovieModule } from './movie/movie.module';
 import { ShowTimeModule } from './showTime/showTime.module';
-import { Movie } from './Movie/movie.entity';
+import { TheaterModule } from './theater/theater.module';
+import { Movie } from './movie/movie.entity';
+import { Theater } from './theater/theater.entity';
 import { ShowTime } from './showTime/showTime.entity';
 import { Booking } from './booking/booking.entity';
+import { SeatHold } from './booking/seatHold.entity';
+import { BlockedSeat } from './booking/blockedSeat.entity';
 import { BookingModule } from './booking/booking.module';
+import { WaitlistEntry } from './waitlist/waitlist.entity';
+import { WaitlistModule } from './waitlist/waitlist.module';
+import { CheckInModule } from './checkin/checkin.module';
+import { IdempotencyKey } from './idempotency/idempotency.entity';
+import { PromoCode } from './promo/promo.entity';
+import { PromoRedemption } from './promo/promoRedemption.entity';
+import { PromoModule } from './promo/promo.module';
+import { PricingModule } from './pricing/pricing.module';
+import { PurchaseLimitModule } from './purchaseLimit/purchaseLimit.module';
+import { PurchaseLimitOverride } from './purchaseLimit/purchaseLimitOverride.entity';
+import { PaymentModule } from './payment/payment.module';
+import { Payment } from './payment/payment.entity';
+import { ShowTimesTheaterId1792433930000 } from './migrations/showTimesTheaterId.migration';
+import { ShowTimesTimestamptz1792437886000 } from './migrations/showTimesTimestamptz.migration';
 
 @Module({
     /**
    * Registers all modules and sets up the PostgreSQL connection using TypeORM.
    * 
-   * - Imports the feature modules for movie, showtime, and ticket logic.
+   * - Imports the feature modules for movie, theater, showtime, ticket, waitlist, check-in, promo code,
+   *   dynamic pricing, purchase limit and payment logic.
    * - Registers TypeORM with PostgreSQL configuration and application entities.
    */
   
@@ -32,9 +56,11 @@ import { BookingModule } from './booking/booking.module';
       username: "popcorn_palace_dor",
       password: "popcorn_palace_dor",
       database: "popcorn_palace_dor",
-      entities: [Movie, ShowTime, Booking],
+      entities: [Movie, Theater, ShowTime, Booking, SeatHold, BlockedSeat, WaitlistEntry, IdempotencyKey, PromoCode, PromoRedemption, PurchaseLimitOverride, Payment],
+      migrations: [ShowTimesTheaterId1792433930000, ShowTimesTimestamptz1792437886000],
+      migrationsRun: true,
       synchronize: true
     }),
-    MovieModule, ShowTimeModule, BookingModule]
+    MovieModule, TheaterModule, ShowTimeModule, BookingModule, WaitlistModule, CheckInModule, PromoModule, PricingModule, PurchaseLimitModule, PaymentModule]
 })
 export class AppModule {}
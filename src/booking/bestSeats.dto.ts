@@ -0,0 +1,63 @@
+/**
+ * bestSeats.dto.ts
+ * 
+ * These Data Transfer Objects (DTOs) define the request to book the best block of adjacent
+ * free seats for a party, and the best block suggested to the client (see seatFinder.ts).
+ */
+
+import { IsUUID, IsInt, Min, IsOptional, IsString, Matches } from "class-validator";
+import { SeatStatusDto } from "./seatMap.dto";
+
+export class BestSeatsBookingDto {
+
+  /**
+   * UUID of the user making the booking.
+   */
+  @IsUUID(undefined, { message: 'User ID must be a valid UUID.' })
+  userId: string;
+
+  /**
+   * ID of the showtime to book.
+   */
+  @IsInt({ message: "Showtime ID must be a valid number." })
+  @Min(1, { message: "Showtime ID must be greater than 0." })
+  showtimeId: number;
+
+  /**
+   * Number of adjacent seats the party needs.
+   */
+  @IsInt({ message: "Party size must be a valid number." })
+  @Min(1, { message: "Party size must be at least 1." })
+  partySize: number;
+
+  /**
+   * (Optional) Promo code to apply to the booking.
+   */
+  @IsOptional()
+  @IsString({ message: "Promo code must be a string." })
+  @Matches(/^[A-Za-z0-9_-]{3,32}$/, { message: "Promo code must be 3-32 letters, digits, dashes or underscores." })
+  promoCode?: string;
+}
+
+export class BestSeatsDto {
+
+  /**
+   * ID of the showtime the seats belong to.
+   */
+  showtimeId: number;
+
+  /**
+   * Label of the row the seats are in.
+   */
+  rowLabel: string;
+
+  /**
+   * The suggested seats, left to right, with their label, category and current price.
+   */
+  seats: Pick<SeatStatusDto, 'seatNumber' | 'seatLabel' | 'seatCategory' | 'price'>[];
+
+  /**
+   * The sum of the current prices of the seats.
+   */
+  totalPrice: number;
+}
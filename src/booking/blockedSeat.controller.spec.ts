@@ -0,0 +1,74 @@
+/**
+ * blockedSeat.controller.spec.ts
+ *
+ * This file contains unit tests for the `BlockedSeatController` in a NestJS application.
+ * It tests the `/blocked-seats` endpoints with a mocked `BlockedSeatService`, verifying:
+ * - Blocked seats are created and listed as returned by the service
+ * - Unblocking returns a confirmation message
+ * - Proper exception propagation when the blocked seat does not exist
+ */
+
+import { Test, TestingModule } from '@nestjs/testing';
+import { NotFoundException } from '@nestjs/common';
+import { BlockedSeatController } from './blockedSeat.controller';
+import { BlockedSeatService } from './blockedSeat.service';
+
+describe('BlockedSeatController', () => {
+  let controller: BlockedSeatController;
+  let mockBlockedSeatService: Partial<Record<keyof BlockedSeatService, jest.Mock>>;
+
+  const blockedSeat = { id: 1, theaterId: 3, showtimeId: null, seatNumber: 4, reason: 'Broken armrest' };
+
+  beforeEach(async () => {
+    mockBlockedSeatService = {
+      blockSeats: jest.fn(),
+      fetchBlockedSeats: jest.fn(),
+      unblockSeat: jest.fn(),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      controllers: [BlockedSeatController],
+      providers: [{ provide: BlockedSeatService, useValue: mockBlockedSeatService }],
+    }).compile();
+
+    controller = module.get<BlockedSeatController>(BlockedSeatController);
+  });
+
+  /**
+   * Should return the newly blocked seats.
+   */
+  it('should block seats', async () => {
+    const data = { theaterId: 3, seatNumbers: [4], reason: 'Broken armrest' };
+    mockBlockedSeatService.blockSeats!.mockResolvedValue([blockedSeat]);
+
+    await expect(controller.blockSeats(data)).resolves.toEqual([blockedSeat]);
+    expect(mockBlockedSeatService.blockSeats).toHaveBeenCalledWith(data);
+  });
+
+  /**
+   * Should list the blocked seats with the given filter.
+   */
+  it('should list blocked seats', async () => {
+    mockBlockedSeatService.fetchBlockedSeats!.mockResolvedValue([blockedSeat]);
+
+    await expect(controller.fetchBlockedSeats(3, undefined)).resolves.toEqual([blockedSeat]);
+    expect(mockBlockedSeatService.fetchBlockedSeats).toHaveBeenCalledWith({ theaterId: 3, showtimeId: undefined });
+  });
+
+  /**
+   * Should confirm that the seat was unblocked.
+   */
+  it('should unblock a seat', async () => {
+    await expect(controller.unblockSeat(1)).resolves.toEqual({ message: 'Blocked seat with ID 1 successfully unblocked.' });
+    expect(mockBlockedSeatService.unblockSeat).toHaveBeenCalledWith(1);
+  });
+
+  /**
+   * Should throw NotFoundException if the blocked seat does not exist.
+   */
+  it('should throw NotFoundException if blocked seat not found', async () => {
+    mockBlockedSeatService.unblockSeat!.mockRejectedValue(new NotFoundException('Blocked seat not found'));
+
+    await expect(controller.unblockSeat(999)).rejects.toThrow(NotFoundException);
+  });
+});
@@ -0,0 +1,68 @@
+/**
+ * blockedSeat.controller.ts
+ *
+ * This controller handles the admin HTTP requests that take seats off sale, either for every
+ * showtime of a theater or for a single showtime, list the blocked seats and put them back on sale.
+ * Validation is handled by BlockSeatsDto; business logic lives in BlockedSeatService.
+ *
+ * Routes:
+ * - POST   /blocked-seats
+ * - GET    /blocked-seats?theaterId=3&showtimeId=7
+ * - DELETE /blocked-seats/:id
+ */
+
+import { Controller, Post, Get, Delete, Body, Param, Query, ParseIntPipe } from '@nestjs/common';
+import { BlockedSeatService } from './blockedSeat.service';
+import { BlockSeatsDto } from './blockedSeat.dto';
+import { BlockedSeat } from './blockedSeat.entity';
+
+@Controller('blocked-seats')
+export class BlockedSeatController {
+  constructor(private readonly blockedSeatService: BlockedSeatService) {}
+
+  /**
+   * POST /blocked-seats
+   *
+   * Takes seats off sale for every showtime of a theater, or for a single showtime.
+   *
+   * @param data - The request body containing theaterId or showtimeId, seatNumbers (or seatLabels) and reason
+   * @returns The newly blocked seats
+   * @throws BadRequestException if both or neither of theaterId and showtimeId are given, or a seat does not exist
+   * @throws NotFoundException if the theater or the showtime does not exist
+   */
+  @Post()
+  async blockSeats(@Body() data: BlockSeatsDto): Promise<BlockedSeat[]> {
+    return await this.blockedSeatService.blockSeats(data);
+  }
+
+  /**
+   * GET /blocked-seats
+   *
+   * Lists the blocked seats, optionally only those of a theater or of a showtime.
+   *
+   * @param theaterId - (Optional) Only list the seats blocked for every showtime of this theater
+   * @param showtimeId - (Optional) Only list the seats blocked for this showtime
+   * @returns The blocked seats
+   */
+  @Get()
+  async fetchBlockedSeats(
+    @Query('theaterId', new ParseIntPipe({ optional: true })) theaterId?: number,
+    @Query('showtimeId', new ParseIntPipe({ optional: true })) showtimeId?: number): Promise<BlockedSeat[]> {
+    return await this.blockedSeatService.fetchBlockedSeats({ theaterId, showtimeId });
+  }
+
+  /**
+   * DELETE /blocked-seats/:id
+   *
+   * Unblocks a seat, putting it back on sale.
+   *
+   * @param id - The blocked seat ID
+   * @returns A message confirming the seat was unblocked
+   * @throws NotFoundException if the blocked seat does not exist
+   */
+  @Delete(':id')
+  async unblockSeat(@Param('id', ParseIntPipe) id: number): Promise<{ message: string }> {
+    await this.blockedSeatService.unblockSeat(id);
+    return { message: `Blocked seat with ID ${id} successfully unblocked.` };
+  }
+}
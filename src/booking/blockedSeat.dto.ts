@@ -0,0 +1,58 @@
+/**
+ * blockedSeat.dto.ts
+ *
+ * This Data Transfer Object (DTO) defines the admin request to take seats off sale, either for
+ * every showtime of a theater or for a single showtime, with the reason they are blocked.
+ */
+
+import { IsInt, Min, IsOptional, IsArray, ArrayNotEmpty, ArrayUnique, IsString, IsNotEmpty, MaxLength, Matches, ValidateIf } from "class-validator";
+
+export class BlockSeatsDto {
+
+  /**
+   * (Optional) The theater whose seats are blocked for every showtime. Give either this or showtimeId.
+   */
+  @IsOptional()
+  @IsInt({ message: "Theater ID must be a valid number." })
+  @Min(1, { message: "Theater ID must be greater than 0." })
+  theaterId?: number;
+
+  /**
+   * (Optional) The showtime the seats are blocked for. Give either this or theaterId.
+   */
+  @IsOptional()
+  @IsInt({ message: "Showtime ID must be a valid number." })
+  @Min(1, { message: "Showtime ID must be greater than 0." })
+  showtimeId?: number;
+
+  /**
+   * Seat numbers to block (1 up to the theater's capacity each, no duplicates).
+   * Required unless `seatLabels` is given.
+   */
+  @ValidateIf(o => o.seatLabels === undefined)
+  @IsArray({ message: "Seat numbers must be an array." })
+  @ArrayNotEmpty({ message: "At least one seat number is required." })
+  @ArrayUnique({ message: "Seat numbers must not repeat." })
+  @IsInt({ each: true, message: "Each seat number must be a valid number." })
+  @Min(1, { each: true, message: "Seat number must be at least 1." })
+  seatNumbers?: number[];
+
+  /**
+   * Seat labels to block (e.g. ["F11", "F12"]), resolved through the theater's layout.
+   * Can be given instead of `seatNumbers`.
+   */
+  @ValidateIf(o => o.seatNumbers === undefined)
+  @IsArray({ message: "Seat labels must be an array." })
+  @ArrayNotEmpty({ message: "At least one seat label is required." })
+  @IsString({ each: true, message: "Each seat label must be a string." })
+  @Matches(/^[A-Za-z]{1,2}\d{1,2}$/, { each: true, message: "Seat label must be a row letter followed by a seat number, e.g. F12." })
+  seatLabels?: string[];
+
+  /**
+   * Why the seats are off sale (e.g. "Broken armrest" or "Press seats").
+   */
+  @IsString({ message: "Reason must be a string." })
+  @IsNotEmpty({ message: "Reason is required." })
+  @MaxLength(255, { message: "Reason must be at most 255 characters." })
+  reason: string;
+}
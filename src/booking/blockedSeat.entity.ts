@@ -0,0 +1,54 @@
+/**
+ * blockedSeat.entity.ts
+ *
+ * This entity defines the structure of the `blocked_seats` table in the database.
+ * A blocked seat is taken off sale by an administrator (e.g. a broken seat, a press seat or a
+ * distancing rule), either permanently for every showtime of a theater or for a single showtime.
+ *
+ * Each row has either a `theaterId` or a `showtimeId`. A seat can only be blocked once per
+ * theater (unique on theaterId + seatNumber) and once per showtime (unique on showtimeId + seatNumber).
+ */
+
+import { Entity, PrimaryGeneratedColumn, Column, CreateDateColumn, Index } from "typeorm";
+
+@Entity({ name: 'blocked_seats' })
+@Index('UQ_blocked_seats_theater_seat', ['theaterId', 'seatNumber'], { unique: true })
+@Index('UQ_blocked_seats_showtime_seat', ['showtimeId', 'seatNumber'], { unique: true })
+export class BlockedSeat {
+
+  /**
+  * Auto-generated ID for the blocked seat (primary key).
+  */
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  /**
+  * The theater whose seat is blocked for every showtime, or null if the block is for one showtime.
+  */
+  @Column({ type: 'int', nullable: true })
+  theaterId: number | null;
+
+  /**
+  * The showtime the seat is blocked for, or null if the block is for every showtime of the theater.
+  */
+  @Column({ type: 'int', nullable: true })
+  showtimeId: number | null;
+
+  /**
+  * The blocked seat number (1 up to the theater's capacity).
+  */
+  @Column({ type: 'int', nullable: false })
+  seatNumber: number;
+
+  /**
+  * Why the seat is off sale (e.g. "Broken armrest"), for admins.
+  */
+  @Column({ type: 'varchar', length: 255, nullable: false })
+  reason: string;
+
+  /**
+  * When the seat was blocked.
+  */
+  @CreateDateColumn({ type: 'timestamp' })
+  createdAt: Date;
+}
@@ -0,0 +1,100 @@
+/**
+ * blockedSeat.repository.ts
+ *
+ * This repository provides raw SQL-based access to the `blocked_seats` table in the database.
+ * It includes logic to:
+ * - Block seats for every showtime of a theater or for a single showtime
+ * - List the blocked seats, optionally for one theater or showtime
+ * - Fetch and unblock a blocked seat
+ *
+ * How blocked seats take seats off sale is part of the seat queries in BookingRepository.
+ */
+
+import { Injectable, InternalServerErrorException } from '@nestjs/common';
+import { DataSource } from 'typeorm';
+import { BlockedSeat } from './blockedSeat.entity';
+
+@Injectable()
+export class BlockedSeatRepository {
+  constructor(private readonly dataSource: DataSource) {}
+
+  /**
+   * Inserts one blocked seat row per seat, for either a theater or a showtime.
+   * Seats that are already blocked for the same theater or showtime are left as they are.
+   *
+   * @param scope - The theater or the showtime the seats are blocked for
+   * @param seatNumbers - The seats to block
+   * @param reason - Why the seats are off sale
+   * @returns the newly blocked seats, in seat order
+   */
+  async addBlockedSeats(
+    scope: Pick<BlockedSeat, 'theaterId' | 'showtimeId'>,
+    seatNumbers: number[],
+    reason: string): Promise<BlockedSeat[]> {
+    try {
+      const result = await this.dataSource.query(
+        `INSERT INTO blocked_seats ("theaterId", "showtimeId", "seatNumber", reason)
+         SELECT $1::int, $2::int, seat, $3 FROM UNNEST($4::int[]) AS seat
+         ON CONFLICT DO NOTHING
+         RETURNING *`,
+        [scope.theaterId, scope.showtimeId, reason, seatNumbers]);
+      return result.sort((a: BlockedSeat, b: BlockedSeat) => a.seatNumber - b.seatNumber);
+    }
+    catch (error) {
+      console.error('DB Error on addBlockedSeats:', error);
+      throw new InternalServerErrorException('Failed to block the seats.');
+    }
+  }
+
+  /**
+   * Lists the blocked seats, optionally only those of a theater or of a showtime.
+   *
+   * @param filter - Optional theater ID and showtime ID to filter by
+   * @returns the blocked seats, theater blocks first, in seat order
+   */
+  async getBlockedSeats(filter: { theaterId?: number; showtimeId?: number } = {}): Promise<BlockedSeat[]> {
+    try {
+      return await this.dataSource.query(
+        `SELECT * FROM blocked_seats
+         WHERE ($1::int IS NULL OR "theaterId" = $1) AND ($2::int IS NULL OR "showtimeId" = $2)
+         ORDER BY "showtimeId" NULLS FIRST, "theaterId", "seatNumber"`,
+        [filter.theaterId ?? null, filter.showtimeId ?? null]);
+    }
+    catch (error) {
+      console.error('DB Error on getBlockedSeats:', error);
+      throw new InternalServerErrorException('Failed to fetch the blocked seats.');
+    }
+  }
+
+  /**
+   * Fetches a blocked seat by its ID.
+   *
+   * @param id - The blocked seat ID
+   * @returns the blocked seat, or null if not found
+   */
+  async fetchBlockedSeatById(id: number): Promise<BlockedSeat | null> {
+    try {
+      const result = await this.dataSource.query(`SELECT * FROM blocked_seats WHERE id = $1`, [id]);
+      return result[0] ?? null;
+    }
+    catch (error) {
+      console.error('DB Error on fetchBlockedSeatById:', error);
+      throw new InternalServerErrorException('Failed to get the blocked seat by ID.');
+    }
+  }
+
+  /**
+   * Deletes a blocked seat, putting the seat back on sale.
+   *
+   * @param id - The blocked seat ID
+   */
+  async deleteBlockedSeat(id: number): Promise<void> {
+    try {
+      await this.dataSource.query(`DELETE FROM blocked_seats WHERE id = $1`, [id]);
+    }
+    catch (error) {
+      console.error('DB Error on deleteBlockedSeat:', error);
+      throw new InternalServerErrorException('Failed to unblock the seat.');
+    }
+  }
+}
@@ -0,0 +1,161 @@
+/**
+ * blockedSeat.service.spec.ts
+ *
+ * This file contains unit tests for the `BlockedSeatService`, which lets administrators take
+ * seats off sale for every showtime of a theater or for a single showtime.
+ *
+ * These tests cover:
+ * - Blocking seats by number or by label, for a theater or for a showtime
+ * - Requiring exactly one of the theater and the showtime
+ * - Rejecting seats outside the theater's layout and missing theaters or showtimes
+ * - Unblocking seats and announcing them as released
+ */
+
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException, NotFoundException } from '@nestjs/common';
+import { BlockedSeatService } from './blockedSeat.service';
+import { BlockedSeatRepository } from './blockedSeat.repository';
+import { BookingEvents } from './booking.events';
+import { ShowTimeRepository } from 'src/showTime/showTime.repository';
+import { TheaterRepository } from 'src/theater/theater.repository';
+
+describe('BlockedSeatService', () => {
+  let service: BlockedSeatService;
+  let mockBlockedSeatRepository: Partial<Record<keyof BlockedSeatRepository, jest.Mock>>;
+  let mockShowTimeRepository: Partial<Record<keyof ShowTimeRepository, jest.Mock>>;
+  let mockTheaterRepository: Partial<Record<keyof TheaterRepository, jest.Mock>>;
+  let mockBookingEvents: Partial<Record<keyof BookingEvents, jest.Mock>>;
+
+  const theater = { id: 3, name: 'Hall 3', rows: [{ label: 'A', seats: 10 }, { label: 'B', seats: 10 }], capacity: 20 };
+
+  beforeEach(async () => {
+    mockBlockedSeatRepository = {
+      addBlockedSeats: jest.fn().mockResolvedValue([]),
+      getBlockedSeats: jest.fn(),
+      fetchBlockedSeatById: jest.fn(),
+      deleteBlockedSeat: jest.fn()
+    };
+
+    mockShowTimeRepository = {
+      fetchShowTimeById: jest.fn().mockResolvedValue({ id: 7, theaterId: 3 }),
+      getUpcomingShowTimeIds: jest.fn().mockResolvedValue([])
+    };
+
+    mockTheaterRepository = {
+      fetchTheaterById: jest.fn().mockResolvedValue(theater)
+    };
+
+    mockBookingEvents = {
+      emitSeatsReleased: jest.fn()
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        BlockedSeatService,
+        { provide: BlockedSeatRepository, useValue: mockBlockedSeatRepository },
+        { provide: 'ShowTimeRepository', useValue: mockShowTimeRepository },
+        { provide: 'TheaterRepository', useValue: mockTheaterRepository },
+        { provide: BookingEvents, useValue: mockBookingEvents },
+      ],
+    }).compile();
+
+    service = module.get<BlockedSeatService>(BlockedSeatService);
+  });
+
+  describe('blockSeats', () => {
+    /**
+     * Should block seats for every showtime of a theater.
+     */
+    it('should block seats of a theater', async () => {
+      const blocked = [{ id: 1, theaterId: 3, showtimeId: null, seatNumber: 4, reason: 'Broken armrest' }];
+      mockBlockedSeatRepository.addBlockedSeats.mockResolvedValue(blocked);
+
+      const result = await service.blockSeats({ theaterId: 3, seatNumbers: [4], reason: '  Broken armrest ' });
+
+      expect(result).toEqual(blocked);
+      expect(mockTheaterRepository.fetchTheaterById).toHaveBeenCalledWith(3);
+      expect(mockBlockedSeatRepository.addBlockedSeats).toHaveBeenCalledWith({ theaterId: 3, showtimeId: null }, [4], 'Broken armrest');
+    });
+
+    /**
+     * Should block seats given by label for a single showtime, checking them against its theater.
+     */
+    it('should block seats of a showtime by label', async () => {
+      await service.blockSeats({ showtimeId: 7, seatLabels: ['B1', 'B2'], reason: 'Press seats' });
+
+      expect(mockTheaterRepository.fetchTheaterById).toHaveBeenCalledWith(3);
+      expect(mockBlockedSeatRepository.addBlockedSeats).toHaveBeenCalledWith({ theaterId: null, showtimeId: 7 }, [11, 12], 'Press seats');
+    });
+
+    /**
+     * Should require exactly one of the theater and the showtime.
+     */
+    it('should throw BadRequestException unless exactly one of theater and showtime is given', async () => {
+      await expect(service.blockSeats({ seatNumbers: [4], reason: 'Broken' })).rejects.toThrow(BadRequestException);
+      await expect(service.blockSeats({ theaterId: 3, showtimeId: 7, seatNumbers: [4], reason: 'Broken' })).rejects.toThrow(BadRequestException);
+      expect(mockBlockedSeatRepository.addBlockedSeats).not.toHaveBeenCalled();
+    });
+
+    /**
+     * Should reject seats that do not exist in the theater's layout.
+     */
+    it('should throw BadRequestException for seats outside the layout', async () => {
+      await expect(service.blockSeats({ theaterId: 3, seatNumbers: [21], reason: 'Broken' })).rejects.toThrow(BadRequestException);
+      await expect(service.blockSeats({ theaterId: 3, seatLabels: ['C1'], reason: 'Broken' })).rejects.toThrow(BadRequestException);
+      expect(mockBlockedSeatRepository.addBlockedSeats).not.toHaveBeenCalled();
+    });
+
+    /**
+     * Should throw NotFoundException if the showtime or the theater does not exist.
+     */
+    it('should throw NotFoundException if the showtime or theater is not found', async () => {
+      mockShowTimeRepository.fetchShowTimeById.mockResolvedValue(null);
+      await expect(service.blockSeats({ showtimeId: 7, seatNumbers: [4], reason: 'Press' })).rejects.toThrow(NotFoundException);
+
+      mockTheaterRepository.fetchTheaterById.mockResolvedValue(null);
+      await expect(service.blockSeats({ theaterId: 9, seatNumbers: [4], reason: 'Broken' })).rejects.toThrow(NotFoundException);
+    });
+  });
+
+  describe('unblockSeat', () => {
+    /**
+     * Should delete the blocked seat, putting it back on sale, and offer it to the showtime's waitlist.
+     */
+    it('should unblock a seat', async () => {
+      mockBlockedSeatRepository.fetchBlockedSeatById.mockResolvedValue({ id: 1, theaterId: null, showtimeId: 7, seatNumber: 12 });
+
+      await service.unblockSeat(1);
+
+      expect(mockBlockedSeatRepository.deleteBlockedSeat).toHaveBeenCalledWith(1);
+      expect(mockShowTimeRepository.getUpcomingShowTimeIds).not.toHaveBeenCalled();
+      expect(mockBookingEvents.emitSeatsReleased).toHaveBeenCalledWith({ showtimeId: 7, seatNumbers: [12] });
+    });
+
+    /**
+     * Should announce a seat blocked for a whole theater as released for each of its upcoming showtimes.
+     */
+    it('should release a seat of a theater for its upcoming showtimes', async () => {
+      mockBlockedSeatRepository.fetchBlockedSeatById.mockResolvedValue({ id: 1, theaterId: 3, showtimeId: null, seatNumber: 4 });
+      mockShowTimeRepository.getUpcomingShowTimeIds.mockResolvedValue([7, 9]);
+
+      await service.unblockSeat(1);
+
+      expect(mockShowTimeRepository.getUpcomingShowTimeIds).toHaveBeenCalledWith(3);
+      expect(mockBookingEvents.emitSeatsReleased.mock.calls).toEqual([
+        [{ showtimeId: 7, seatNumbers: [4] }],
+        [{ showtimeId: 9, seatNumbers: [4] }],
+      ]);
+    });
+
+    /**
+     * Should throw NotFoundException if the blocked seat does not exist.
+     */
+    it('should throw NotFoundException if the blocked seat is not found', async () => {
+      mockBlockedSeatRepository.fetchBlockedSeatById.mockResolvedValue(null);
+
+      await expect(service.unblockSeat(1)).rejects.toThrow(NotFoundException);
+      expect(mockBlockedSeatRepository.deleteBlockedSeat).not.toHaveBeenCalled();
+      expect(mockBookingEvents.emitSeatsReleased).not.toHaveBeenCalled();
+    });
+  });
+});
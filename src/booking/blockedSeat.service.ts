@@ -0,0 +1,102 @@
+/**
+ * blockedSeat.service.ts
+ *
+ * This service lets administrators take seats off sale, with a reason: permanently, for every
+ * showtime of a theater (e.g. a broken seat), or temporarily, for a single showtime (e.g. press
+ * seats or a distancing rule). It verifies:
+ * - Exactly one of the theater and the showtime is given, and it exists
+ * - The seats exist in the theater's layout (seats can be given by number or by label, e.g. "F12")
+ *
+ * Blocking a seat does not cancel a booking or hold already on it; the seat just cannot be
+ * booked or held again. Blocked seats are rejected by BookingService, shown as blocked in the
+ * seat map and left out of the sellable capacity (see BookingRepository).
+ * Unblocking a seat announces it as released, so the waitlists can offer it.
+ */
+
+import { Injectable, BadRequestException, NotFoundException, Inject } from '@nestjs/common';
+import { BlockedSeatRepository } from './blockedSeat.repository';
+import { BlockedSeat } from './blockedSeat.entity';
+import { BlockSeatsDto } from './blockedSeat.dto';
+import { BookingEvents } from './booking.events';
+import { ShowTimeRepository } from 'src/showTime/showTime.repository';
+import { TheaterRepository } from 'src/theater/theater.repository';
+import { resolveSeatNumbers } from 'src/theater/theater.layout';
+
+@Injectable()
+export class BlockedSeatService {
+  constructor(
+    private readonly blockedSeatRepository: BlockedSeatRepository,
+    @Inject('ShowTimeRepository') private readonly showTimeRepository: ShowTimeRepository,
+    @Inject('TheaterRepository') private readonly theaterRepository: TheaterRepository,
+    private readonly bookingEvents: BookingEvents,
+  ) {}
+
+  /**
+   * Blocks seats for every showtime of a theater, or for a single showtime.
+   * Seats that are already blocked for the same theater or showtime are left as they are.
+   *
+   * @param data - The theater or the showtime, the seats (by number or by label) and the reason
+   * @returns the newly blocked seats, in seat order
+   * @throws BadRequestException if both or neither of the theater and the showtime are given,
+   * or if a seat does not exist in the theater
+   * @throws NotFoundException if the theater or the showtime does not exist
+   */
+  async blockSeats(data: BlockSeatsDto): Promise<BlockedSeat[]> {
+    if ((data.theaterId === undefined) === (data.showtimeId === undefined)) {
+      throw new BadRequestException('Provide either a theater ID or a showtime ID.');
+    }
+
+    let theaterId = data.theaterId;
+    if (data.showtimeId !== undefined) {
+      const showtime = await this.showTimeRepository.fetchShowTimeById(data.showtimeId);
+      if (!showtime) {
+        throw new NotFoundException(`Showtime with ID ${data.showtimeId} not found.`);
+      }
+      theaterId = showtime.theaterId;
+    }
+
+    const theater = await this.theaterRepository.fetchTheaterById(theaterId);
+    if (!theater) {
+      throw new NotFoundException(`Theater with ID ${theaterId} not found.`);
+    }
+
+    const seatNumbers = resolveSeatNumbers(theater, data.seatNumbers, data.seatLabels);
+    return await this.blockedSeatRepository.addBlockedSeats(
+      { theaterId: data.theaterId ?? null, showtimeId: data.showtimeId ?? null },
+      seatNumbers,
+      data.reason.trim());
+  }
+
+  /**
+   * Lists the blocked seats, optionally only those of a theater or of a showtime.
+   *
+   * @param filter - Optional theater ID and showtime ID to filter by
+   * @returns the blocked seats
+   */
+  async fetchBlockedSeats(filter: { theaterId?: number; showtimeId?: number }): Promise<BlockedSeat[]> {
+    return await this.blockedSeatRepository.getBlockedSeats(filter);
+  }
+
+  /**
+   * Unblocks a seat, putting it back on sale, and announces it as released for its showtime,
+   * or for every upcoming showtime of its theater.
+   *
+   * @param id - The blocked seat ID
+   * @throws NotFoundException if the blocked seat does not exist
+   */
+  async unblockSeat(id: number): Promise<void> {
+    const blockedSeat = await this.blockedSeatRepository.fetchBlockedSeatById(id);
+    if (!blockedSeat) {
+      throw new NotFoundException(`Blocked seat with ID ${id} not found.`);
+    }
+
+    await this.blockedSeatRepository.deleteBlockedSeat(id);
+
+    const showtimeIds = blockedSeat.showtimeId !== null
+      ? [blockedSeat.showtimeId]
+      : await this.showTimeRepository.getUpcomingShowTimeIds(blockedSeat.theaterId);
+    for (const showtimeId of showtimeIds) {
+      this.bookingEvents.emitSeatsReleased({ showtimeId, seatNumbers: [blockedSeat.seatNumber] });
+    }
+  }
+}
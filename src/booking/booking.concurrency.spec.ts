@@ -0,0 +1,278 @@
+/**
+ * booking.concurrency.spec.ts
+ *
+ * This file contains concurrency tests for the `BookingService`.
+ * It fires many booking requests in parallel against an in-memory stand-in for the
+ * `BookingRepository` that behaves like PostgreSQL where it matters:
+ * - `runWithSeatLock` locks every given showtime in ascending ID order, like the
+ *   `SELECT ... FOR UPDATE` row locks, and rolls back the work's changes to them if it throws
+ * - every query yields to the event loop, so unlocked requests interleave
+ * - inserting a second active booking for a seat fails, like the partial unique index
+ * - a booking written for a showtime the transaction has not locked is recorded, as nothing would protect it
+ *
+ * These tests verify:
+ * - Only one of many parallel requests for the same seat succeeds; the others get a 409 Conflict
+ * - Parallel group bookings never share a seat and stay all-or-nothing
+ * - Parallel exchanges between two showtimes, in both directions, lock both and give each seat once
+ * - Without the lock, the unique index still rejects the losers with a 409 Conflict
+ */
+
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConflictException } from '@nestjs/common';
+import { BookingService } from './booking.service';
+import { BookingRepository } from './booking.repository';
+import { SeatHoldRepository } from './seatHold.repository';
+import { BookingEvents } from './booking.events';
+import { TicketTokenService } from './ticketToken.service';
+import { PromoService } from 'src/promo/promo.service';
+import { PricingService } from 'src/pricing/pricing.service';
+import { PurchaseLimitService } from 'src/purchaseLimit/purchaseLimit.service';
+import { ACTIVE_BOOKING_STATUSES, Booking, BookingStatus } from './booking.entity';
+
+const tick = () => new Promise(resolve => setImmediate(resolve));
+
+const isActive = (booking: Booking) => ACTIVE_BOOKING_STATUSES.includes(booking.status);
+
+/**
+ * The transaction handed to the work, with the showtimes it has locked.
+ */
+interface InMemoryTransaction {
+  showtimeIds: number[];
+}
+
+class InMemoryBookingRepository {
+  bookings: Booking[] = [];
+  unlockedWrites: number[] = [];
+  private locks = new Map<number, Promise<void>>();
+  private nextBookingId = 1;
+
+  constructor(private readonly useLock = true) {}
+
+  async runWithSeatLock<T>(showtimeIds: number[], work: (manager: any) => Promise<T>): Promise<T> {
+    if (!this.useLock) {
+      return work('tx-manager');
+    }
+
+    const orderedIds = [...new Set(showtimeIds)].sort((a, b) => a - b);
+    const releases: (() => void)[] = [];
+    for (const showtimeId of orderedIds) {
+      releases.push(await this.lock(showtimeId));
+    }
+
+    const snapshot = this.bookings.filter(b => orderedIds.includes(b.showtimeId)).map(b => ({ ...b }));
+    try {
+      return await work({ showtimeIds: orderedIds });
+    }
+    catch (error) {
+      this.bookings = [...this.bookings.filter(b => !orderedIds.includes(b.showtimeId)), ...snapshot];
+      throw error;
+    }
+    finally {
+      releases.forEach(release => release());
+    }
+  }
+
+  /**
+   * Waits for the lock of a showtime, and returns the function that releases it.
+   */
+  private async lock(showtimeId: number): Promise<() => void> {
+    const previous = this.locks.get(showtimeId) ?? Promise.resolve();
+    let release: () => void;
+    const current = new Promise<void>(resolve => (release = resolve));
+    this.locks.set(showtimeId, previous.then(() => current));
+
+    await previous;
+    return release;
+  }
+
+  /**
+   * Records a write to a showtime whose lock the transaction does not hold.
+   */
+  private checkLocked(showtimeId: number, manager: InMemoryTransaction | string): void {
+    if (this.useLock && (typeof manager !== 'object' || !manager.showtimeIds.includes(showtimeId))) {
+      this.unlockedWrites.push(showtimeId);
+    }
+  }
+
+  async countOccupiedSeats(showtimeId: number): Promise<number> {
+    await tick();
+    return this.bookings.filter(b => b.showtimeId === showtimeId && isActive(b)).length;
+  }
+
+  async lockUserPurchases(): Promise<void> {
+    await tick();
+  }
+
+  async countUserTickets(userId: string, showtimeId: number): Promise<{ forShowtime: number; today: number }> {
+    await tick();
+    const active = this.bookings.filter(b => b.userId === userId && isActive(b));
+    return { forShowtime: active.filter(b => b.showtimeId === showtimeId).length, today: active.length };
+  }
+
+  async isTheaterFull(showtimeId: number, capacity: number): Promise<boolean> {
+    return (await this.countOccupiedSeats(showtimeId)) >= capacity;
+  }
+
+  async getBookingsForShowTime(showtimeId: number): Promise<Booking[]> {
+    await tick();
+    return this.bookings.filter(b => b.showtimeId === showtimeId && isActive(b));
+  }
+
+  async getTakenSeats(showtimeId: number, seatNumbers: number[]): Promise<number[]> {
+    await tick();
+    return seatNumbers.filter(seat => this.bookings.some(b => b.showtimeId === showtimeId && b.seatNumber === seat && isActive(b)));
+  }
+
+  async getBlockedSeats(): Promise<number[]> {
+    await tick();
+    return [];
+  }
+
+  async countBlockedSeats(): Promise<number> {
+    await tick();
+    return 0;
+  }
+
+  async isSeatTaken(showtimeId: number, seatNumber: number): Promise<boolean> {
+    return (await this.getTakenSeats(showtimeId, [seatNumber])).length > 0;
+  }
+
+  async addNewBooking(booking: Booking, manager: InMemoryTransaction | string): Promise<string> {
+    await tick();
+    this.checkLocked(booking.showtimeId, manager);
+    if (this.bookings.some(b => b.showtimeId === booking.showtimeId && b.seatNumber === booking.seatNumber && isActive(b))) {
+      throw new ConflictException(`Seat number ${booking.seatNumber} is already booked for this showtime.`);
+    }
+    const bookingId = `booking-${this.nextBookingId++}`;
+    this.bookings.push({ ...booking, bookingId, status: BookingStatus.PENDING_PAYMENT } as Booking);
+    return bookingId;
+  }
+
+  async fetchBookingById(bookingId: string): Promise<Booking | null> {
+    await tick();
+    const booking = this.bookings.find(b => b.bookingId === bookingId);
+    return booking ? { ...booking } : null;
+  }
+
+  async releaseExchangedBooking(bookingId: string, manager: InMemoryTransaction | string): Promise<Booking | null> {
+    await tick();
+    const booking = this.bookings.find(b => b.bookingId === bookingId && b.status === BookingStatus.CONFIRMED && !b.checkedInAt);
+    if (!booking) {
+      return null;
+    }
+    this.checkLocked(booking.showtimeId, manager);
+    booking.status = BookingStatus.EXCHANGED;
+    return { ...booking };
+  }
+
+  async recordExchange(bookingId: string, exchangedFromBookingId: string, priceDifference: number): Promise<void> {
+    await tick();
+    const booking = this.bookings.find(b => b.bookingId === bookingId);
+    Object.assign(booking, { exchangedFromBookingId, priceDifference, status: BookingStatus.CONFIRMED });
+  }
+}
+
+describe('BookingService concurrency', () => {
+  const userIds = Array.from({ length: 30 }, (_, i) => `abcabcab-1111-2222-3333-${String(i).padStart(12, '0')}`);
+
+  async function createService(repository: InMemoryBookingRepository): Promise<BookingService> {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        BookingService,
+        { provide: BookingRepository, useValue: repository },
+        { provide: SeatHoldRepository, useValue: {} },
+        BookingEvents,
+        TicketTokenService,
+        { provide: PromoService, useValue: {} },
+        { provide: PricingService, useValue: {} },
+        { provide: PurchaseLimitService, useValue: { assertWithinLimits: jest.fn() } },
+        { provide: 'ShowTimeRepository', useValue: { fetchShowTimeById: jest.fn(async (id: number) => ({ id, movieId: 2, theaterId: 3 })) } },
+        { provide: 'MovieRepository', useValue: { fetchMovieById: jest.fn().mockResolvedValue({ id: 2, title: 'Movie' }) } },
+        { provide: 'TheaterRepository', useValue: { fetchTheaterById: jest.fn().mockResolvedValue({ id: 3, name: 'Hall 3', rows: [{ label: 'A', seats: 50 }], capacity: 50 }) } },
+      ],
+    }).compile();
+
+    return module.get<BookingService>(BookingService);
+  }
+
+  /**
+   * Should let exactly one of many parallel requests book the same seat.
+   */
+  it('should book a contested seat only once', async () => {
+    const repository = new InMemoryBookingRepository();
+    const service = await createService(repository);
+
+    const results = await Promise.allSettled(
+      userIds.map(userId => service.addNewBooking({ showtimeId: 1, seatNumber: 42, userId })));
+
+    const rejected = results.filter((r): r is PromiseRejectedResult => r.status === 'rejected');
+    expect(repository.bookings).toHaveLength(1);
+    expect(rejected).toHaveLength(userIds.length - 1);
+    rejected.forEach(r => expect(r.reason).toBeInstanceOf(ConflictException));
+  });
+
+  /**
+   * Should never give a seat to two overlapping group bookings, and book each group fully or not at all.
+   */
+  it('should keep parallel group bookings all-or-nothing', async () => {
+    const repository = new InMemoryBookingRepository();
+    const service = await createService(repository);
+    const groups = userIds.slice(0, 10).map((userId, i) => ({ showtimeId: 1, userId, seatNumbers: [i * 2 + 1, i * 2 + 2, i * 2 + 3] }));
+
+    const results = await Promise.allSettled(groups.map(group => service.addGroupBooking(group)));
+
+    const seats = repository.bookings.map(b => b.seatNumber);
+    expect(new Set(seats).size).toBe(seats.length);
+    results.forEach((result, i) => {
+      const booked = repository.bookings.filter(b => b.userId === groups[i].userId);
+      expect(booked).toHaveLength(result.status === 'fulfilled' ? 3 : 0);
+    });
+  });
+
+  /**
+   * Should lock both showtimes of an exchange, so exchanges racing in opposite directions neither
+   * deadlock nor take a seat twice, and the losers keep their original booking.
+   */
+  it('should keep parallel exchanges between two showtimes consistent', async () => {
+    const repository = new InMemoryBookingRepository();
+    const service = await createService(repository);
+    const owned = userIds.slice(0, 20).map((userId, i) => ({
+      bookingId: `owned-${i}`, userId, showtimeId: i < 10 ? 1 : 2, seatNumber: i + 1, status: BookingStatus.CONFIRMED, checkedInAt: null,
+    }) as Booking);
+    repository.bookings.push(...owned.map(booking => ({ ...booking })));
+
+    const results = await Promise.allSettled(owned.map(booking => service.exchangeBooking(booking.bookingId, {
+      userId: booking.userId, showtimeId: booking.showtimeId === 1 ? 2 : 1, seatNumber: 42,
+    })));
+
+    expect(repository.unlockedWrites).toEqual([]);
+    for (const showtimeId of [1, 2]) {
+      expect(repository.bookings.filter(b => b.showtimeId === showtimeId && b.seatNumber === 42 && isActive(b))).toHaveLength(1);
+    }
+    expect(results.filter(r => r.status === 'fulfilled')).toHaveLength(2);
+    results.forEach((result, i) => {
+      const active = repository.bookings.filter(b => b.userId === owned[i].userId && isActive(b));
+      expect(active).toHaveLength(1);
+      expect(active[0].seatNumber).toBe(result.status === 'fulfilled' ? 42 : owned[i].seatNumber);
+      if (result.status === 'rejected') {
+        expect(result.reason).toBeInstanceOf(ConflictException);
+      }
+    });
+  });
+
+  /**
+   * Should fall back on the unique index when the checks race, rejecting the losers with 409.
+   */
+  it('should map racing inserts to ConflictException without the lock', async () => {
+    const repository = new InMemoryBookingRepository(false);
+    const service = await createService(repository);
+
+    const results = await Promise.allSettled(
+      userIds.slice(0, 5).map(userId => service.addNewBooking({ showtimeId: 1, seatNumber: 7, userId })));
+
+    const rejected = results.filter((r): r is PromiseRejectedResult => r.status === 'rejected');
+    expect(repository.bookings).toHaveLength(1);
+    expect(rejected).toHaveLength(4);
+    rejected.forEach(r => expect(r.reason).toBeInstanceOf(ConflictException));
+  });
+});
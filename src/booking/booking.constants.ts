@@ -0,0 +1,29 @@
+/**
+ * booking.constants.ts
+ * 
+ * Tunable settings for the booking feature.
+ * Values can be overridden through environment variables.
+ */
+
+/**
+ * How long a seat hold reserves its seats before it expires (in minutes).
+ */
+export const SEAT_HOLD_MINUTES = Number(process.env.SEAT_HOLD_MINUTES ?? 10);
+
+/**
+ * How often expired seat holds are swept from the database (in milliseconds).
+ */
+export const SEAT_HOLD_SWEEP_INTERVAL_MS = Number(process.env.SEAT_HOLD_SWEEP_INTERVAL_MS ?? 60 * 1000);
+
+/**
+ * PostgreSQL error code raised when a unique constraint or index is violated.
+ */
+export const UNIQUE_VIOLATION = '23505';
+
+/**
+ * Secret used to sign ticket tokens (HMAC-SHA256).
+ * Required: anyone knowing it can forge tickets, so the application refuses to start without it
+ * (see TicketTokenService). Only unit tests (NODE_ENV=test) fall back to a fixed secret.
+ */
+export const TICKET_TOKEN_SECRET = process.env.TICKET_TOKEN_SECRET
+  ?? (process.env.NODE_ENV === 'test' ? 'popcorn-palace-test-ticket-secret' : undefined);
@@ -2,7 +2,8 @@
  * booking.controller.spec.ts
  *
  * This file contains unit tests for the `BookingController` in a NestJS application.
- * It tests the `/bookings` POST endpoint to ensure proper service interaction and error handling.
+ * It tests the `/bookings` endpoints (create, group, best available, hold, lookup, cancel, exchange) to ensure proper
+ * service interaction and error handling.
  * 
  * The tests use mocked `BookingService` and verify:
  * - Successful booking creation
@@ -13,8 +14,9 @@
 import { Test, TestingModule } from '@nestjs/testing';
 import { BookingController } from './booking.controller';
 import { BookingService } from './booking.service';
+import { IdempotencyRepository } from 'src/idempotency/idempotency.repository';
 import { BookingDto } from './booking.dto';
-import { BadRequestException, NotFoundException } from '@nestjs/common';
+import { BadRequestException, ConflictException, NotFoundException } from '@nestjs/common';
 
 describe('BookingController', () => {
   let controller: BookingController;
@@ -23,11 +25,23 @@ describe('BookingController', () => {
   beforeEach(async () => {
     mockBookingService = {
       addNewBooking: jest.fn(),
+      addGroupBooking: jest.fn(),
+      bookBestSeats: jest.fn(),
+      placeSeatHold: jest.fn(),
+      confirmSeatHold: jest.fn(),
+      releaseSeatHold: jest.fn(),
+      fetchBookingById: jest.fn(),
+      getTicket: jest.fn(),
+      cancelBooking: jest.fn(),
+      exchangeBooking: jest.fn(),
     };
 
     const module: TestingModule = await Test.createTestingModule({
       controllers: [BookingController],
-      providers: [{ provide: BookingService, useValue: mockBookingService }],
+      providers: [
+        { provide: BookingService, useValue: mockBookingService },
+        { provide: IdempotencyRepository, useValue: {} },
+      ],
     }).compile();
 
     controller = module.get<BookingController>(BookingController);
@@ -52,9 +66,9 @@ describe('BookingController', () => {
   });
 
   /**
-   * Should throw BadRequestException if the seat is already taken.
+   * Should throw ConflictException if the seat is already taken.
    */
-  it('should throw BadRequestException if seat is taken', async () => {
+  it('should throw ConflictException if seat is taken', async () => {
     const data: BookingDto = {
       showtimeId: 1,
       seatNumber: 11,
@@ -62,10 +76,10 @@ describe('BookingController', () => {
     };
 
     mockBookingService.addNewBooking!.mockRejectedValue(
-      new BadRequestException('Seat already booked')
+      new ConflictException('Seat already booked')
     );
 
-    await expect(controller.addNewBooking(data)).rejects.toThrow(BadRequestException);
+    await expect(controller.addNewBooking(data)).rejects.toThrow(ConflictException);
   });
 
   /**
@@ -150,4 +164,148 @@ describe('BookingController', () => {
 
     await expect(controller.addNewBooking(data)).rejects.toThrow(Error);
   });
+
+  /**
+   * Should return the booking fetched by ID.
+   */
+  it('should return booking by ID', async () => {
+    const booking = { bookingId: 'abc123-booking-id', showtimeId: 1, seatNumber: 10, status: 'confirmed' };
+    mockBookingService.fetchBookingById!.mockResolvedValue(booking);
+
+    const result = await controller.fetchBookingById('abc123-booking-id');
+    expect(result).toEqual(booking);
+  });
+
+  /**
+   * Should throw NotFoundException if the booking does not exist.
+   */
+  it('should throw NotFoundException if booking not found', async () => {
+    mockBookingService.fetchBookingById!.mockRejectedValue(new NotFoundException('Booking not found'));
+
+    await expect(controller.fetchBookingById('missing')).rejects.toThrow(NotFoundException);
+  });
+
+  /**
+   * Should return the signed ticket of a booking.
+   */
+  it('should return the ticket of a booking', async () => {
+    const ticket = { bookingId: 'abc123-booking-id', showtimeId: 1, seatNumber: 10, ticketToken: 'payload.signature' };
+    mockBookingService.getTicket!.mockResolvedValue(ticket);
+
+    const result = await controller.getTicket('abc123-booking-id');
+    expect(result).toEqual(ticket);
+    expect(mockBookingService.getTicket).toHaveBeenCalledWith('abc123-booking-id');
+  });
+
+  /**
+   * Should return a success message when a booking is cancelled.
+   */
+  it('should cancel a booking', async () => {
+    mockBookingService.cancelBooking!.mockResolvedValue(undefined);
+
+    const result = await controller.cancelBooking('abc123-booking-id');
+    expect(result).toEqual({ message: 'Booking abc123-booking-id successfully cancelled.' });
+    expect(mockBookingService.cancelBooking).toHaveBeenCalledWith('abc123-booking-id');
+  });
+
+  /**
+   * Should throw BadRequestException if the booking is already cancelled.
+   */
+  it('should throw BadRequestException if booking already cancelled', async () => {
+    mockBookingService.cancelBooking!.mockRejectedValue(new BadRequestException('Already cancelled'));
+
+    await expect(controller.cancelBooking('abc123-booking-id')).rejects.toThrow(BadRequestException);
+  });
+
+  /**
+   * Should return the new booking and the price difference when a booking is exchanged.
+   */
+  it('should exchange a booking', async () => {
+    const data = { userId: '123e4567-e89b-12d3-a456-426614174000', showtimeId: 5, seatLabel: 'B3' };
+    const exchange = { previousBookingId: 'abc123-booking-id', previousPrice: 10, booking: { bookingId: 'new-booking-id' }, priceDifference: 4 };
+    mockBookingService.exchangeBooking!.mockResolvedValue(exchange);
+
+    await expect(controller.exchangeBooking('abc123-booking-id', data)).resolves.toEqual(exchange);
+    expect(mockBookingService.exchangeBooking).toHaveBeenCalledWith('abc123-booking-id', data);
+  });
+
+  /**
+   * Should return all booking IDs when a group booking succeeds.
+   */
+  it('should book a group of seats', async () => {
+    const data = { showtimeId: 1, seatNumbers: [7, 8, 9], userId: '123e4567-e89b-12d3-a456-426614174000' };
+    mockBookingService.addGroupBooking!.mockResolvedValue({ bookingIds: ['b-7', 'b-8', 'b-9'] });
+
+    const result = await controller.addGroupBooking(data);
+    expect(result).toEqual({ bookingIds: ['b-7', 'b-8', 'b-9'] });
+    expect(mockBookingService.addGroupBooking).toHaveBeenCalledWith(data);
+  });
+
+  /**
+   * Should propagate the conflict report when a group booking fails.
+   */
+  it('should throw ConflictException if group seats conflict', async () => {
+    const data = { showtimeId: 1, seatNumbers: [7, 8], userId: 'uuid-123' };
+    mockBookingService.addGroupBooking!.mockRejectedValue(
+      new ConflictException({ message: 'Seats 8 are already booked', conflictingSeats: [8] })
+    );
+
+    await expect(controller.addGroupBooking(data)).rejects.toThrow(ConflictException);
+  });
+
+  /**
+   * Should book the best adjacent seats for a party.
+   */
+  it('should book the best available seats', async () => {
+    const data = { showtimeId: 1, partySize: 2, userId: '123e4567-e89b-12d3-a456-426614174000' };
+    mockBookingService.bookBestSeats!.mockResolvedValue({ bookingIds: ['b-5', 'b-6'] });
+
+    await expect(controller.bookBestSeats(data)).resolves.toEqual({ bookingIds: ['b-5', 'b-6'] });
+    expect(mockBookingService.bookBestSeats).toHaveBeenCalledWith(data);
+  });
+
+  /**
+   * Should return the hold token when seats are held.
+   */
+  it('should place a seat hold', async () => {
+    const data = { showtimeId: 1, seatNumbers: [3, 4], userId: '123e4567-e89b-12d3-a456-426614174000' };
+    const hold = { holdToken: 'hold-token', expiresAt: new Date(), seatNumbers: [3, 4] };
+    mockBookingService.placeSeatHold!.mockResolvedValue(hold);
+
+    const result = await controller.placeSeatHold(data);
+    expect(result).toEqual(hold);
+    expect(mockBookingService.placeSeatHold).toHaveBeenCalledWith(data);
+  });
+
+  /**
+   * Should return the booking IDs when a hold is confirmed.
+   */
+  it('should confirm a seat hold', async () => {
+    const userId = '123e4567-e89b-12d3-a456-426614174000';
+    mockBookingService.confirmSeatHold!.mockResolvedValue({ bookingIds: ['b-3', 'b-4'] });
+
+    const result = await controller.confirmSeatHold('hold-token', { userId });
+    expect(result).toEqual({ bookingIds: ['b-3', 'b-4'] });
+    expect(mockBookingService.confirmSeatHold).toHaveBeenCalledWith('hold-token', userId);
+  });
+
+  /**
+   * Should throw NotFoundException if the hold has expired.
+   */
+  it('should throw NotFoundException if hold expired', async () => {
+    mockBookingService.confirmSeatHold!.mockRejectedValue(new NotFoundException('Hold expired'));
+
+    await expect(controller.confirmSeatHold('hold-token', { userId: 'uuid-x' })).rejects.toThrow(NotFoundException);
+  });
+
+  /**
+   * Should return a success message when a hold is released.
+   */
+  it('should release a seat hold', async () => {
+    mockBookingService.releaseSeatHold!.mockResolvedValue(undefined);
+
+    const result = await controller.releaseSeatHold('hold-token');
+    expect(result).toEqual({ message: 'Seat hold hold-token successfully released.' });
+    expect(mockBookingService.releaseSeatHold).toHaveBeenCalledWith('hold-token');
+  });
 });
@@ -3,15 +3,36 @@
  *
  * This controller handles HTTP requests related to booking operations.
  * 
- * Currently, it exposes a single POST endpoint to create a new booking
- * for a specific movie showtime and seat. Validation is handled by BookingDto.
+ * It exposes endpoints to create a new booking for a specific movie showtime and seat,
+ * book several seats at once as a group or let the best adjacent seats be picked for a party,
+ * hold seats temporarily and confirm or release the hold,
+ * look a booking up or get its signed ticket, exchange it for another seat or showtime
+ * and cancel it. New bookings are pending payment until paid (see PaymentController),
+ * and refunds go through the payment provider (see BookingRefundController).
+ * Validation is handled by BookingDto, GroupBookingDto, SeatHoldDto and ExchangeBookingDto.
+ * The routes that book or hold seats accept an `Idempotency-Key` header, so clients can
+ * safely retry them (see IdempotencyInterceptor).
  * 
- * Route: POST /bookings
+ * Routes:
+ * - POST   /bookings
+ * - POST   /bookings/group
+ * - POST   /bookings/best-available
+ * - POST   /bookings/holds
+ * - POST   /bookings/holds/:holdToken/confirm
+ * - DELETE /bookings/holds/:holdToken
+ * - GET    /bookings/:bookingId
+ * - GET    /bookings/:bookingId/ticket
+ * - POST   /bookings/:bookingId/exchange
+ * - DELETE /bookings/:bookingId
  */
 
-import { Controller, Post, Body } from '@nestjs/common';
+import { Controller, Post, Get, Delete, Body, Param, ParseUUIDPipe, UseInterceptors } from '@nestjs/common';
 import { BookingService } from './booking.service';
-import { BookingDto } from './booking.dto';
+import { BookingDto, GroupBookingDto, BookedSeatDto, GroupBookingResultDto, TicketDto, ExchangeBookingDto, ExchangeResultDto } from './booking.dto';
+import { SeatHoldDto, ConfirmSeatHoldDto } from './seatHold.dto';
+import { BestSeatsBookingDto } from './bestSeats.dto';
+import { Booking } from './booking.entity';
+import { IdempotencyInterceptor } from 'src/idempotency/idempotency.interceptor';
 
 @Controller('bookings')
 export class BookingController {
@@ -22,11 +43,10 @@ export class BookingController {
    * 
    * Books a seat for a specific showtime.
    * 
-   * @param bookingData - The request body containing showtimeId, seatNumber, and userId
-   * @returns The booking ID of the newly created booking
+   * @param bookingData - The request body containing showtimeId, seatNumber (or seatLabel), and userId
+   * @returns The booking ID of the newly created booking, with the seat's label, category and price charged
    * 
    * @throws BadRequestException if:
-   * - seat is already booked
    * - theater is full
    * - duplicate booking
    * 
@@ -34,10 +54,177 @@ export class BookingController {
    * - showtime does not exist
    * - movie does not exist
    * 
+   * @throws ConflictException if the seat is already booked or held (including by a concurrent
+   * request), or a request with the same Idempotency-Key is still running
+   * 
+   * @throws UnprocessableEntityException if the Idempotency-Key was already used for a different request
+   * 
    * @throws InternalServerErrorException for unexpected database/server errors
    */
   @Post()
-  async addNewBooking(@Body() bookingData: BookingDto): Promise<{ bookingId: string }> {
+  @UseInterceptors(IdempotencyInterceptor)
+  async addNewBooking(@Body() bookingData: BookingDto): Promise<BookedSeatDto> {
     return await this.bookingService.addNewBooking(bookingData);
   }
+
+  /**
+   * POST /bookings/group
+   * 
+   * Books several seats for the same showtime and user, all or nothing.
+   * 
+   * @param groupData - The request body containing showtimeId, seatNumbers (or seatLabels), and userId
+   * @returns The booking IDs and booked seats (with category and price) in seat order, plus the total price
+   * 
+   * @throws BadRequestException if not enough seats are left
+   * @throws NotFoundException if the showtime or its movie does not exist
+   * @throws ConflictException if any seat is already booked or held (the response lists `conflictingSeats`),
+   * or a concurrent request took one of the seats first
+   */
+  @Post('group')
+  @UseInterceptors(IdempotencyInterceptor)
+  async addGroupBooking(@Body() groupData: GroupBookingDto): Promise<GroupBookingResultDto> {
+    return await this.bookingService.addGroupBooking(groupData);
+  }
+
+  /**
+   * POST /bookings/best-available
+   * 
+   * Books the best block of adjacent free seats for a party: centered, middle rows first,
+   * without leaving single seats stranded.
+   * 
+   * @param bestSeatsData - The request body containing showtimeId, partySize, and userId
+   * @returns The booking IDs and booked seats (with category and price) in seat order, plus the total price
+   * 
+   * @throws BadRequestException if no block of adjacent free seats fits the party
+   * @throws NotFoundException if the showtime or its movie does not exist
+   * @throws ConflictException if a concurrent request took one of the seats first
+   */
+  @Post('best-available')
+  @UseInterceptors(IdempotencyInterceptor)
+  async bookBestSeats(@Body() bestSeatsData: BestSeatsBookingDto): Promise<GroupBookingResultDto> {
+    return await this.bookingService.bookBestSeats(bestSeatsData);
+  }
+
+  /**
+   * POST /bookings/holds
+   * 
+   * Places a time-limited hold on seats for a showtime while the customer checks out.
+   * 
+   * @param holdData - The request body containing showtimeId, seatNumbers, and userId
+   * @returns The hold token, its expiry time and the held seats
+   * 
+   * @throws BadRequestException if the theater is full
+   * @throws NotFoundException if the showtime or its movie does not exist
+   * @throws ConflictException if a seat is already booked or held
+   */
+  @Post('holds')
+  @UseInterceptors(IdempotencyInterceptor)
+  async placeSeatHold(@Body() holdData: SeatHoldDto): Promise<{ holdToken: string; expiresAt: Date; seatNumbers: number[] }> {
+    return await this.bookingService.placeSeatHold(holdData);
+  }
+
+  /**
+   * POST /bookings/holds/:holdToken/confirm
+   * 
+   * Confirms a live seat hold into bookings.
+   * 
+   * @param holdToken - Token returned when the hold was placed
+   * @param confirmData - The request body containing the userId who placed the hold
+   * @returns The booking IDs and booked seats (with category and price), plus the total price
+   * 
+   * @throws NotFoundException if the hold does not exist or has expired
+   * @throws BadRequestException if the hold belongs to another user
+   */
+  @Post('holds/:holdToken/confirm')
+  @UseInterceptors(IdempotencyInterceptor)
+  async confirmSeatHold(
+    @Param('holdToken', ParseUUIDPipe) holdToken: string,
+    @Body() confirmData: ConfirmSeatHoldDto): Promise<GroupBookingResultDto> {
+    return await this.bookingService.confirmSeatHold(holdToken, confirmData.userId);
+  }
+
+  /**
+   * DELETE /bookings/holds/:holdToken
+   * 
+   * Releases a live seat hold before it expires, putting its seats back on sale.
+   * 
+   * @param holdToken - Token returned when the hold was placed
+   * @returns A message confirming the release
+   * 
+   * @throws NotFoundException if the hold does not exist or has expired
+   */
+  @Delete('holds/:holdToken')
+  async releaseSeatHold(@Param('holdToken', ParseUUIDPipe) holdToken: string): Promise<{ message: string }> {
+    await this.bookingService.releaseSeatHold(holdToken);
+    return { message: `Seat hold ${holdToken} successfully released.` };
+  }
+
+  /**
+   * GET /bookings/:bookingId
+   * 
+   * Fetches a booking by its ID, including its current status.
+   * 
+   * @param bookingId - The booking ID (UUID)
+   * @returns The booking record
+   * @throws NotFoundException if the booking does not exist
+   */
+  @Get(':bookingId')
+  async fetchBookingById(@Param('bookingId', ParseUUIDPipe) bookingId: string): Promise<Booking> {
+    return await this.bookingService.fetchBookingById(bookingId);
+  }
+
+  /**
+   * GET /bookings/:bookingId/ticket
+   * 
+   * Fetches the signed ticket of a confirmed booking, to be shown as a QR code at the door.
+   * 
+   * @param bookingId - The booking ID (UUID)
+   * @returns The ticket with its signed token
+   * @throws NotFoundException if the booking does not exist
+   * @throws BadRequestException if the booking is cancelled or refunded
+   */
+  @Get(':bookingId/ticket')
+  async getTicket(@Param('bookingId', ParseUUIDPipe) bookingId: string): Promise<TicketDto> {
+    return await this.bookingService.getTicket(bookingId);
+  }
+
+  /**
+   * DELETE /bookings/:bookingId
+   * 
+   * Cancels a confirmed booking that has not been checked in and puts its seat back on sale.
+   * 
+   * @param bookingId - The booking ID (UUID)
+   * @returns A message confirming the cancellation
+   * @throws NotFoundException if the booking does not exist
+   * @throws BadRequestException if the booking is already cancelled or refunded, or was checked in
+   * @throws ConflictException if the booking changed concurrently
+   */
+  @Delete(':bookingId')
+  async cancelBooking(@Param('bookingId', ParseUUIDPipe) bookingId: string): Promise<{ message: string }> {
+    await this.bookingService.cancelBooking(bookingId);
+    return { message: `Booking ${bookingId} successfully cancelled.` };
+  }
+
+  /**
+   * POST /bookings/:bookingId/exchange
+   * 
+   * Moves a booking to another seat, in the same showtime or a showtime of the same movie.
+   * The old seat is released and the new one booked atomically; the price difference is returned
+   * and recorded on the new booking.
+   * 
+   * @param bookingId - The booking ID (UUID)
+   * @param exchangeData - The request body containing userId, the seat (seatNumber or seatLabel) and optionally showtimeId
+   * @returns The new booking, the previous price and the price difference
+   * @throws NotFoundException if the booking or the target showtime does not exist
+   * @throws BadRequestException if the booking cannot be exchanged or the new seat cannot be booked
+   * @throws ConflictException if the new seat is already booked or held, the booking changed concurrently,
+   * or a request with the same Idempotency-Key is still running
+   */
+  @Post(':bookingId/exchange')
+  @UseInterceptors(IdempotencyInterceptor)
+  async exchangeBooking(
+    @Param('bookingId', ParseUUIDPipe) bookingId: string,
+    @Body() exchangeData: ExchangeBookingDto): Promise<ExchangeResultDto> {
+    return await this.bookingService.exchangeBooking(bookingId, exchangeData);
+  }
 }
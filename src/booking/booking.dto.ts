@@ -1,15 +1,18 @@
 /**
  * booking.dto.ts
  * 
- * This Data Transfer Object (DTO) defines the structure and validation rules
- * for creating a new booking in the system.
+ * These Data Transfer Objects (DTOs) define the structure and validation rules
+ * for creating a new booking in the system, either for a single seat or for a
+ * group of seats booked together, for exchanging a booking for another seat or showtime, and the
+ * booked seats and signed tickets returned to the client.
  * 
  * It ensures that all required fields are present and properly validated before
  * proceeding with the booking process. This DTO is used in the BookingService
  * and BookingController to handle client POST requests.
  */
 
-import { IsUUID, IsInt, IsNotEmpty, Min, Max } from "class-validator";
+import { IsUUID, IsInt, Min, IsArray, ArrayNotEmpty, ArrayUnique, IsString, Matches, ValidateIf, IsOptional } from "class-validator";
+import { SeatCategory } from "src/theater/theater.entity";
 
 export class BookingDto {
   
@@ -29,10 +32,227 @@ export class BookingDto {
   showtimeId: number;
 
   /**
-   * Seat number for the booking (1–100).
+   * Seat number for the booking (1 up to the theater's capacity).
+   * Required unless `seatLabel` is given.
    */
+  @ValidateIf(o => o.seatLabel === undefined)
   @IsInt({ message: "Seat number must be a valid number." })
   @Min(1, { message: "Seat number must be at least 1." })
-  @Max(100, { message: "Seat number must be at most 100." })
+  seatNumber?: number;
+
+  /**
+   * Seat label for the booking (e.g. "F12"), resolved through the theater's layout.
+   * Can be given instead of `seatNumber`.
+   */
+  @ValidateIf(o => o.seatNumber === undefined)
+  @IsString({ message: "Seat label must be a string." })
+  @Matches(/^[A-Za-z]{1,2}\d{1,2}$/, { message: "Seat label must be a row letter followed by a seat number, e.g. F12." })
+  seatLabel?: string;
+
+  /**
+   * (Optional) Promo code to apply to the booking.
+   */
+  @IsOptional()
+  @IsString({ message: "Promo code must be a string." })
+  @Matches(/^[A-Za-z0-9_-]{3,32}$/, { message: "Promo code must be 3-32 letters, digits, dashes or underscores." })
+  promoCode?: string;
+}
+
+export class GroupBookingDto {
+
+  /**
+   * UUID of the user making the booking.
+   * Must be a valid UUID string.
+   */
+  @IsUUID(undefined, { message: 'User ID must be a valid UUID.' })
+  userId: string;
+
+  /**
+   * ID of the showtime the user wants to book.
+   * Must be a positive integer.
+   */
+  @IsInt({ message: "Showtime ID must be a valid number." })
+  @Min(1, { message: "Showtime ID must be greater than 0." })
+  showtimeId: number;
+
+  /**
+   * Seat numbers to book together (1 up to the theater's capacity each, no duplicates).
+   * Required unless `seatLabels` is given.
+   */
+  @ValidateIf(o => o.seatLabels === undefined)
+  @IsArray({ message: "Seat numbers must be an array." })
+  @ArrayNotEmpty({ message: "At least one seat number is required." })
+  @ArrayUnique({ message: "Seat numbers must not repeat." })
+  @IsInt({ each: true, message: "Each seat number must be a valid number." })
+  @Min(1, { each: true, message: "Seat number must be at least 1." })
+  seatNumbers?: number[];
+
+  /**
+   * Seat labels to book together (e.g. ["F11", "F12"]), resolved through the theater's layout.
+   * Can be given instead of `seatNumbers`.
+   */
+  @ValidateIf(o => o.seatNumbers === undefined)
+  @IsArray({ message: "Seat labels must be an array." })
+  @ArrayNotEmpty({ message: "At least one seat label is required." })
+  @IsString({ each: true, message: "Each seat label must be a string." })
+  @Matches(/^[A-Za-z]{1,2}\d{1,2}$/, { each: true, message: "Seat label must be a row letter followed by a seat number, e.g. F12." })
+  seatLabels?: string[];
+
+  /**
+   * (Optional) Promo code to apply to the whole group.
+   */
+  @IsOptional()
+  @IsString({ message: "Promo code must be a string." })
+  @Matches(/^[A-Za-z0-9_-]{3,32}$/, { message: "Promo code must be 3-32 letters, digits, dashes or underscores." })
+  promoCode?: string;
+}
+
+export class ExchangeBookingDto {
+
+  /**
+   * UUID of the user who made the booking.
+   * Must be a valid UUID string.
+   */
+  @IsUUID(undefined, { message: 'User ID must be a valid UUID.' })
+  userId: string;
+
+  /**
+   * (Optional) ID of the showtime to move to. Must show the same movie.
+   * Defaults to the booking's current showtime.
+   */
+  @IsOptional()
+  @IsInt({ message: "Showtime ID must be a valid number." })
+  @Min(1, { message: "Showtime ID must be greater than 0." })
+  showtimeId?: number;
+
+  /**
+   * Seat number to move to (1 up to the theater's capacity).
+   * Required unless `seatLabel` is given.
+   */
+  @ValidateIf(o => o.seatLabel === undefined)
+  @IsInt({ message: "Seat number must be a valid number." })
+  @Min(1, { message: "Seat number must be at least 1." })
+  seatNumber?: number;
+
+  /**
+   * Seat label to move to (e.g. "F12"), resolved through the theater's layout.
+   * Can be given instead of `seatNumber`.
+   */
+  @ValidateIf(o => o.seatNumber === undefined)
+  @IsString({ message: "Seat label must be a string." })
+  @Matches(/^[A-Za-z]{1,2}\d{1,2}$/, { message: "Seat label must be a row letter followed by a seat number, e.g. F12." })
+  seatLabel?: string;
+}
+
+export class BookedSeatDto {
+
+  /**
+   * ID of the newly created booking.
+   */
+  bookingId: string;
+
+  /**
+   * The booked seat number.
+   */
   seatNumber: number;
+
+  /**
+   * The booked seat's label from the theater's layout (e.g. "F12").
+   */
+  seatLabel: string;
+
+  /**
+   * The booked seat's category (standard, premium, couple or accessible).
+   */
+  seatCategory: SeatCategory;
+
+  /**
+   * The price charged for the seat, after the promo code's discount.
+   */
+  price: number;
+
+  /**
+   * The discount given on the seat by the promo code (0 without one).
+   */
+  discount: number;
+
+  /**
+   * The promo code used, or null if none.
+   */
+  promoCode: string | null;
+
+  /**
+   * Signed ticket token for the seat, to be shown as a QR code at the door.
+   */
+  ticketToken: string;
+}
+
+export class TicketDto {
+
+  /**
+   * ID of the booking the ticket is for.
+   */
+  bookingId: string;
+
+  /**
+   * The showtime the ticket is valid for.
+   */
+  showtimeId: number;
+
+  /**
+   * The booked seat number.
+   */
+  seatNumber: number;
+
+  /**
+   * Signed ticket token, to be shown as a QR code at the door.
+   */
+  ticketToken: string;
+}
+
+export class ExchangeResultDto {
+
+  /**
+   * ID of the replaced booking, now exchanged.
+   */
+  previousBookingId: string;
+
+  /**
+   * The price charged for the replaced booking.
+   */
+  previousPrice: number;
+
+  /**
+   * The new booking, charged the current price of the new seat.
+   */
+  booking: BookedSeatDto;
+
+  /**
+   * The new price minus the previous price: positive if the customer owes more,
+   * negative if they are owed money.
+   */
+  priceDifference: number;
+}
+
+export class GroupBookingResultDto {
+
+  /**
+   * IDs of the newly created bookings, in seat order.
+   */
+  bookingIds: string[];
+
+  /**
+   * The booked seats with their category and price, in seat order.
+   */
+  seats: BookedSeatDto[];
+
+  /**
+   * The sum of the prices charged for all seats.
+   */
+  totalPrice: number;
+
+  /**
+   * The sum of the discounts given on all seats.
+   */
+  totalDiscount: number;
 }
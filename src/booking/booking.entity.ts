@@ -2,14 +2,52 @@
  * booking.entity.ts
  * 
  * This entity defines the structure of the `bookings` table in the database.
- * Each booking represents a customer's reservation for a specific seat in a showtime.
+ * Each booking represents a customer's reservation for a specific seat in a showtime,
+ * along with the seat's category, the price charged for it (after any promo code discount)
+ * and when the customer checked in. A booking made by exchanging another one links back to it
+ * and records the price difference. A booking is paid through a payment (see PaymentService);
+ * until then it is pending payment.
  * 
  * Used by TypeORM for database operations, and mapped directly to the "bookings" table.
+ * A partial unique index guarantees that a seat has at most one active booking per showtime,
+ * and an index on userId keeps a customer's booking history fast to page through.
  */
 
-import { Entity, PrimaryGeneratedColumn, Column } from "typeorm";
+import { Entity, PrimaryGeneratedColumn, Column, CreateDateColumn, Index } from "typeorm";
+import { SeatCategory } from "../theater/theater.entity";
+
+/**
+ * Lifecycle states of a booking.
+ * - pending_payment: the seat is reserved for the customer until they pay or the payment window closes
+ * - confirmed: the seat is sold and paid for
+ * - payment_failed: the payment failed or was not made in time; the seat is back on sale
+ * - cancelled: the booking was cancelled and the seat is back on sale
+ * - refunded: a cancelled booking whose payment was returned to the customer
+ * - exchanged: the customer moved to another seat or showtime; the seat is back on sale
+ */
+export enum BookingStatus {
+  PENDING_PAYMENT = 'pending_payment',
+  CONFIRMED = 'confirmed',
+  PAYMENT_FAILED = 'payment_failed',
+  CANCELLED = 'cancelled',
+  REFUNDED = 'refunded',
+  EXCHANGED = 'exchanged',
+}
+
+/**
+ * Statuses that still occupy a seat. Only these count when checking
+ * whether a seat is taken or the theater is full.
+ */
+export const ACTIVE_BOOKING_STATUSES: BookingStatus[] = [BookingStatus.PENDING_PAYMENT, BookingStatus.CONFIRMED];
 
 @Entity({ name: 'bookings' })
+@Index('UQ_bookings_active_seat', ['showtimeId', 'seatNumber'], {
+  unique: true,
+  where: `"status" IN (${ACTIVE_BOOKING_STATUSES.map(status => `'${status}'`).join(', ')})`,
+})
+@Index('IDX_bookings_user', ['userId'])
+@Index('IDX_bookings_showtime_status', ['showtimeId', 'status'])
+@Index('IDX_bookings_payment', ['paymentId'])
 export class Booking {
   
   /**
@@ -25,14 +63,89 @@ export class Booking {
   showtimeId: number;
 
   /**
-  * The seat number booked by the customer (1–100).
+  * The seat number booked by the customer (1 up to the theater's capacity).
   */
   @Column({ type: 'int', nullable: false })
   seatNumber: number;
 
+  /**
+  * Category of the booked seat at the time of booking (standard, premium, couple or accessible).
+  */
+  @Column({ type: 'enum', enum: SeatCategory, default: SeatCategory.STANDARD })
+  seatCategory: SeatCategory;
+
+  /**
+  * The price charged for the seat, after the promo code's discount.
+  */
+  @Column({ type: 'float', nullable: false, default: 0 })
+  price: number;
+
+  /**
+  * The discount given on the seat by the promo code (0 without one).
+  */
+  @Column({ type: 'float', nullable: false, default: 0 })
+  discount: number;
+
+  /**
+  * The promo code used for the booking, or null if none.
+  */
+  @Column({ type: 'varchar', length: 32, nullable: true })
+  promoCode: string | null;
+
   /**
   * UUID of the user who booked the ticket.
   */
   @Column({ type: 'uuid', nullable: false })
   userId: string;
+
+  /**
+  * Current lifecycle status of the booking (pending payment, confirmed, payment failed,
+  * cancelled, refunded or exchanged).
+  */
+  @Column({ type: 'enum', enum: BookingStatus, default: BookingStatus.PENDING_PAYMENT })
+  status: BookingStatus;
+
+  /**
+  * When the booking was created.
+  */
+  @CreateDateColumn({ type: 'timestamp' })
+  createdAt: Date;
+
+  /**
+  * When the booking was cancelled, exchanged or released for a failed payment, or null while it is still active.
+  */
+  @Column({ type: 'timestamp', nullable: true })
+  cancelledAt: Date | null;
+
+  /**
+  * When the customer's ticket was scanned at the door, or null if not checked in yet.
+  */
+  @Column({ type: 'timestamp', nullable: true })
+  checkedInAt: Date | null;
+
+  /**
+  * The booking this one replaced through an exchange, or null if it was booked directly.
+  */
+  @Column({ type: 'uuid', nullable: true })
+  exchangedFromBookingId: string | null;
+
+  /**
+  * For an exchange: this booking's price minus the replaced booking's price
+  * (positive if the customer owes more, negative if they are owed money), else null.
+  */
+  @Column({ type: 'float', nullable: true })
+  priceDifference: number | null;
+
+  /**
+  * The payment the booking is paid (or being paid) with, or null before checkout.
+  */
+  @Column({ type: 'uuid', nullable: true })
+  paymentId: string | null;
+
+  /**
+  * When the cancelled booking was queued to be refunded automatically (because its showtime was
+  * cancelled, or because it was paid and the customer cancelled it), or null if it was not. Queued refunds are paid out by PaymentService's sweep.
+  */
+  @Column({ type: 'timestamp', nullable: true })
+  refundQueuedAt: Date | null;
 }
@@ -0,0 +1,84 @@
+/**
+ * booking.events.ts
+ *
+ * In-process events raised by the booking feature, so other features (e.g. the waitlist)
+ * can react to seats coming back on sale without the booking feature depending on them.
+ *
+ * Events are emitted after the change they describe has been committed.
+ */
+
+import { Injectable } from '@nestjs/common';
+import { EventEmitter } from 'events';
+
+/**
+ * Raised when seats of a showtime are back on sale: a booking was cancelled,
+ * or a seat hold expired or was released.
+ */
+export interface SeatsReleasedEvent {
+  showtimeId: number;
+  seatNumbers: number[];
+}
+
+/**
+ * Raised when a showtime was cancelled, together with its bookings and seat holds.
+ */
+export interface ShowTimeCancelledEvent {
+  showtimeId: number;
+  reason: string;
+}
+
+/**
+ * Raised when a seat hold was confirmed into bookings.
+ */
+export interface HoldConfirmedEvent {
+  holdToken: string;
+  showtimeId: number;
+  bookingIds: string[];
+}
+
+@Injectable()
+export class BookingEvents {
+  private readonly emitter = new EventEmitter();
+
+  /**
+   * Notifies listeners that seats of a showtime are back on sale.
+   */
+  emitSeatsReleased(event: SeatsReleasedEvent): void {
+    this.emitter.emit('seatsReleased', event);
+  }
+
+  /**
+   * Registers a listener called whenever seats of a showtime are back on sale.
+   */
+  onSeatsReleased(listener: (event: SeatsReleasedEvent) => void): void {
+    this.emitter.on('seatsReleased', listener);
+  }
+
+  /**
+   * Notifies listeners that a seat hold was confirmed into bookings.
+   */
+  emitHoldConfirmed(event: HoldConfirmedEvent): void {
+    this.emitter.emit('holdConfirmed', event);
+  }
+
+  /**
+   * Registers a listener called whenever a seat hold is confirmed into bookings.
+   */
+  onHoldConfirmed(listener: (event: HoldConfirmedEvent) => void): void {
+    this.emitter.on('holdConfirmed', listener);
+  }
+
+  /**
+   * Notifies listeners that a showtime was cancelled.
+   */
+  emitShowTimeCancelled(event: ShowTimeCancelledEvent): void {
+    this.emitter.emit('showTimeCancelled', event);
+  }
+
+  /**
+   * Registers a listener called whenever a showtime is cancelled.
+   */
+  onShowTimeCancelled(listener: (event: ShowTimeCancelledEvent) => void): void {
+    this.emitter.on('showTimeCancelled', listener);
+  }
+}
@@ -5,30 +5,57 @@
  * It wires together the controller, service, repository, and entity related to movie ticket bookings.
  * 
  * It imports:
- * - TypeORM for database access to the Booking entity
+ * - TypeORM for database access to the Booking, SeatHold and BlockedSeat entities
  * - ShowTimeModule for showtime validation
  * - MovieModule for movie validation
+ * - TheaterModule for the theater's capacity and seat layout
+ * - IdempotencyModule so booking requests can be retried safely with an Idempotency-Key
+ * - PromoModule to apply promo codes to bookings
+ * - PricingModule to work out dynamic prices
+ * - PurchaseLimitModule to enforce the ticket limits per customer
  * 
  * This module:
- * - Registers 'BookingController' to handle HTTP requests
- * - Provides 'BookingService' and 'BookingRepository' for business and data access logic
- * - Exports 'BookingService' for reuse in other modules
+ * - Registers 'BookingController', 'SeatMapController', 'UserBookingsController', 'BlockedSeatController'
+ *   and 'ShowTimeCancellationController' to handle HTTP requests
+ * - Provides 'BookingService', 'BookingRepository' and 'SeatHoldRepository' for business and data access logic
+ * - Provides 'BlockedSeatService' and 'BlockedSeatRepository' to take seats off sale
+ * - Provides 'ShowTimeCancellationService' to cancel a showtime together with its bookings
+ * - Provides 'BookingEvents' to announce released seats, confirmed holds and cancelled showtimes
+ * - Provides 'TicketTokenService' to sign and verify ticket tokens
+ * - Exports 'BookingService', 'BookingRepository', 'BookingEvents' and 'TicketTokenService' for reuse in other modules
  */
 
 import { Module } from '@nestjs/common';
 import { TypeOrmModule } from '@nestjs/typeorm';
 import { Booking } from './booking.entity';
 import { BookingController } from './booking.controller';
+import { SeatMapController } from './seatMap.controller';
+import { UserBookingsController } from './userBookings.controller';
 import { BookingService } from './booking.service';
 import { BookingRepository } from './booking.repository';
+import { BookingEvents } from './booking.events';
+import { TicketTokenService } from './ticketToken.service';
+import { SeatHold } from './seatHold.entity';
+import { SeatHoldRepository } from './seatHold.repository';
+import { BlockedSeat } from './blockedSeat.entity';
+import { BlockedSeatController } from './blockedSeat.controller';
+import { BlockedSeatService } from './blockedSeat.service';
+import { BlockedSeatRepository } from './blockedSeat.repository';
+import { ShowTimeCancellationController } from './showTimeCancellation.controller';
+import { ShowTimeCancellationService } from './showTimeCancellation.service';
 import { ShowTimeModule } from 'src/showTime/showTime.module';
 import { MovieModule } from 'src/movie/movie.module';
+import { TheaterModule } from 'src/theater/theater.module';
+import { IdempotencyModule } from 'src/idempotency/idempotency.module';
+import { PromoModule } from 'src/promo/promo.module';
+import { PricingModule } from 'src/pricing/pricing.module';
+import { PurchaseLimitModule } from 'src/purchaseLimit/purchaseLimit.module';
 
 @Module({
-  imports: [TypeOrmModule.forFeature([Booking]), ShowTimeModule, MovieModule],
-  controllers: [BookingController],
-  providers: [BookingService, BookingRepository],
-  exports: [BookingService]
+  imports: [TypeOrmModule.forFeature([Booking, SeatHold, BlockedSeat]), ShowTimeModule, MovieModule, TheaterModule, IdempotencyModule, PromoModule, PricingModule, PurchaseLimitModule],
+  controllers: [BookingController, SeatMapController, UserBookingsController, BlockedSeatController, ShowTimeCancellationController],
+  providers: [BookingService, BookingRepository, SeatHoldRepository, BlockedSeatService, BlockedSeatRepository, ShowTimeCancellationService, BookingEvents, TicketTokenService],
+  exports: [BookingService, BookingRepository, BookingEvents, TicketTokenService]
 })
 export class BookingModule {
   constructor() {
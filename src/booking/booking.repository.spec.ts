@@ -0,0 +1,68 @@
+/**
+ * booking.repository.spec.ts
+ *
+ * This file contains unit tests for counting a user's tickets in the `BookingRepository`.
+ * The DataSource is mocked to check the queries sent.
+ *
+ * These tests cover:
+ * - Queuing a paid booking for a refund in the same update that cancels it
+ * - Counting today's tickets from midnight on the cinema's clocks, not the database server's
+ */
+
+import { DataSource } from 'typeorm';
+import { BookingRepository } from './booking.repository';
+import { ACTIVE_BOOKING_STATUSES, BookingStatus } from './booking.entity';
+import { CINEMA_TIME_ZONE } from 'src/showTime/showTime.constants';
+
+describe('BookingRepository', () => {
+  const userId = 'abcabcab-1111-2222-3333-abcabcabcabc';
+  let query: jest.Mock;
+  let repository: BookingRepository;
+
+  beforeEach(() => {
+    query = jest.fn();
+    repository = new BookingRepository({ query, manager: { query } } as unknown as DataSource);
+  });
+
+  describe('cancelConfirmedBooking', () => {
+    /**
+     * Should cancel the booking and queue it for a refund only if it has a payment, in one statement.
+     */
+    it('should queue a paid booking for a refund', async () => {
+      const cancelled = { bookingId: 'booking-1', status: BookingStatus.CANCELLED, paymentId: 'payment-1', refundQueuedAt: new Date() };
+      query.mockResolvedValue([[cancelled], 1]);
+
+      await expect(repository.cancelConfirmedBooking('booking-1')).resolves.toEqual(cancelled);
+
+      expect(query).toHaveBeenCalledTimes(1);
+      const [sql, params] = query.mock.calls[0];
+      expect(sql).toContain(`"refundQueuedAt" = CASE WHEN "paymentId" IS NOT NULL THEN NOW() ELSE NULL END`);
+      expect(sql).toMatch(/WHERE "bookingId" = \$1 AND status = \$3 AND "checkedInAt" IS NULL/);
+      expect(params).toEqual(['booking-1', BookingStatus.CANCELLED, BookingStatus.CONFIRMED]);
+    });
+
+    /**
+     * Should return null if the booking was no longer confirmed or was checked in.
+     */
+    it('should return null if the booking changed meanwhile', async () => {
+      query.mockResolvedValue([[], 0]);
+
+      await expect(repository.cancelConfirmedBooking('booking-1')).resolves.toBeNull();
+    });
+  });
+
+  describe('countUserTickets', () => {
+    /**
+     * Should start today at midnight in the cinema's time zone.
+     */
+    it('should count today from midnight on the cinema clocks', async () => {
+      query.mockResolvedValue([{ forShowtime: 2, today: 5 }]);
+
+      await expect(repository.countUserTickets(userId, 1)).resolves.toEqual({ forShowtime: 2, today: 5 });
+
+      const [sql, params] = query.mock.calls[0];
+      expect(sql).toContain(`"createdAt" >= date_trunc('day', NOW() AT TIME ZONE $4::text) AT TIME ZONE $4::text`);
+      expect(params).toEqual([userId, 1, ACTIVE_BOOKING_STATUSES, CINEMA_TIME_ZONE]);
+    });
+  });
+});
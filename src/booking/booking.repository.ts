@@ -4,73 +4,455 @@
  * This repository provides raw SQL-based access to the `bookings` table in the database.
  * It includes logic to:
  * - Add a new booking
- * - Check if a specific seat is already booked
- * - Check if a theater is full for a given showtime (100 seats max)
+ * - Fetch a booking by its ID and change its status (cancel, only while confirmed and not checked in / refund)
+ * - Record a booking's check-in at the door, at most once
+ * - Check if a specific seat is already booked, held or blocked by an administrator
+ * - Check if a theater is full for a given showtime (up to the theater's capacity, less its blocked seats)
+ * - Count a user's tickets for the purchase limits, under a per-user lock
  * - Retrieve all bookings for a specific showtime
+ * - Page through a user's bookings, joined with their showtime, theater and movie
+ * - Build the seat-by-seat state of a showtime in one query
+ * - Cancel every active booking of a cancelled showtime, queuing their refunds
+ * - Run several of the above in a single transaction that holds a showtime's seat lock
+ *
+ * Only bookings in an active status (see ACTIVE_BOOKING_STATUSES) and seat holds
+ * that have not expired yet occupy a seat. Seats blocked for the showtime or for every
+ * showtime of its theater (see BlockedSeat) are off sale, but do not count as occupied.
+ *
+ * Methods that take an optional `manager` run inside that transaction when one is given.
+ *
+ * Seat-taking writes are serialized per showtime by locking the showtime row, and a
+ * partial unique index on (showtimeId, seatNumber) backs this up at the database level.
+ * A unique violation is reported as a ConflictException (409).
  */
 
-import { Injectable, InternalServerErrorException } from '@nestjs/common';
-import { DataSource } from 'typeorm';
-import { Booking } from './booking.entity';
+import { Injectable, InternalServerErrorException, ConflictException } from '@nestjs/common';
+import { DataSource, EntityManager } from 'typeorm';
+import { Booking, BookingStatus, ACTIVE_BOOKING_STATUSES } from './booking.entity';
+import { UNIQUE_VIOLATION } from './booking.constants';
+import { SeatStatusDto } from './seatMap.dto';
+import { BookingHistoryFilter, UserBookingRow } from './bookingHistory.dto';
+import { TicketCounts } from 'src/purchaseLimit/purchaseLimit.service';
+import { CINEMA_TIME_ZONE } from 'src/showTime/showTime.constants';
+
+/**
+ * Booking statuses and showtime start condition selected by each booking history filter.
+ */
+const HISTORY_FILTERS: Record<BookingHistoryFilter, { statuses: BookingStatus[]; startCondition: string }> = {
+  [BookingHistoryFilter.UPCOMING]: { statuses: ACTIVE_BOOKING_STATUSES, startCondition: `s."startTime" > NOW()` },
+  [BookingHistoryFilter.PAST]: { statuses: ACTIVE_BOOKING_STATUSES, startCondition: `s."startTime" <= NOW()` },
+  [BookingHistoryFilter.CANCELLED]: { statuses: [BookingStatus.CANCELLED, BookingStatus.REFUNDED, BookingStatus.PAYMENT_FAILED], startCondition: 'TRUE' },
+  [BookingHistoryFilter.ALL]: { statuses: Object.values(BookingStatus), startCondition: 'TRUE' },
+};
+
+/**
+ * Selects the seat numbers blocked for the showtime `$1`, or for every showtime of its theater.
+ */
+const BLOCKED_SEATS_OF_SHOWTIME = `SELECT "seatNumber" FROM blocked_seats
+         WHERE "showtimeId" = $1 OR "theaterId" = (SELECT theater_id FROM showtimes WHERE id = $1)`;
 
 @Injectable()
 export class BookingRepository {
   constructor(private readonly dataSource: DataSource) {}
 
   /**
-   * Adds a new booking to the database.
+   * Runs the given work inside a single database transaction after locking the rows
+   * of the given showtimes, so no other booking can take their seats until it commits.
+   * Showtimes are locked in ascending ID order to avoid deadlocks.
+   * Everything is rolled back if the work throws.
    * 
-   * @param booking - A complete `Booking` object (showtimeId, seatNumber, userId)
+   * @param showtimeIds - The showtimes whose seats the work will take or release
+   * @param work - Callback receiving the transactional EntityManager
+   * @returns whatever the work returns
+   */
+  async runWithSeatLock<T>(showtimeIds: number[], work: (manager: EntityManager) => Promise<T>): Promise<T> {
+    return await this.dataSource.transaction(async (manager) => {
+      const orderedIds = [...new Set(showtimeIds)].sort((a, b) => a - b);
+      try {
+        await manager.query(
+          `SELECT id FROM showtimes WHERE id = ANY($1::int[]) ORDER BY id FOR UPDATE`,
+          [orderedIds]);
+      } 
+      catch (error) {
+        console.error('DB Error on runWithSeatLock:', error);
+        throw new InternalServerErrorException('Failed to lock the showtime seats.');
+      }
+
+      return await work(manager);
+    });
+  }
+
+  /**
+   * Adds a new booking to the database. It starts pending payment.
+   * 
+   * @param booking - A complete `Booking` object (showtimeId, seatNumber, userId, seatCategory, price, discount, promoCode)
+   * @param manager - Optional transactional EntityManager
    * @returns bookingId (UUID)
    */
-  async addNewBooking(booking: Booking): Promise<string> {
+  async addNewBooking(booking: Booking, manager: EntityManager = this.dataSource.manager): Promise<string> {
     try {
-      const result = await this.dataSource.query(
-        `INSERT INTO bookings ("showtimeId", "seatNumber", "userId")
-         VALUES ($1, $2, $3)
+      const result = await manager.query(
+        `INSERT INTO bookings ("showtimeId", "seatNumber", "userId", "seatCategory", price, discount, "promoCode")
+         VALUES ($1, $2, $3, $4, $5, $6, $7)
          RETURNING "bookingId"`,
-        [booking.showtimeId, booking.seatNumber, booking.userId]);
+        [booking.showtimeId, booking.seatNumber, booking.userId, booking.seatCategory, booking.price,
+          booking.discount ?? 0, booking.promoCode ?? null]);
 
       return result[0]?.bookingId;
     } 
     catch (error) {
+      if (error?.code === UNIQUE_VIOLATION) {
+        throw new ConflictException(`Seat number ${booking.seatNumber} is already booked for this showtime.`);
+      }
       console.error('DB Error on addNewBooking:', error);
       throw new InternalServerErrorException('Failed to add booking to the database.');
     }
   }
 
   /**
-   * Checks if the given seat is already booked for the specified showtime.
+   * Fetches a single booking by its ID.
+   * 
+   * @param bookingId - The booking ID (UUID)
+   * @returns the Booking record, or null if not found
+   */
+  async fetchBookingById(bookingId: string): Promise<Booking | null> {
+    try {
+      const result = await this.dataSource.query(
+        `SELECT * FROM bookings WHERE "bookingId" = $1`,
+        [bookingId]);
+      return result[0] ?? null;
+    } 
+    catch (error) {
+      console.error('DB Error on fetchBookingById:', error);
+      throw new InternalServerErrorException('Failed to get the booking by ID.');
+    }
+  }
+
+  /**
+   * Changes the status of a booking without checking its current status, e.g. back to cancelled
+   * when its refund failed. Stamps `cancelledAt` the first time the booking is cancelled.
+   * Customer cancellations go through cancelConfirmedBooking instead.
+   * 
+   * @param bookingId - The booking ID (UUID)
+   * @param status - The new booking status
+   */
+  async updateBookingStatus(bookingId: string, status: BookingStatus): Promise<void> {
+    try {
+      await this.dataSource.query(
+        `UPDATE bookings
+         SET status = $1, "cancelledAt" = COALESCE("cancelledAt", NOW())
+         WHERE "bookingId" = $2`,
+        [status, bookingId]);
+    } 
+    catch (error) {
+      console.error('DB Error on updateBookingStatus:', error);
+      throw new InternalServerErrorException('Failed to update the booking status.');
+    }
+  }
+
+  /**
+   * Cancels a confirmed booking that has not been checked in, releasing its seat, and queues it
+   * for a refund if it was paid (see PaymentRepository.getQueuedRefunds). The condition is part
+   * of the update, so a booking exchanged, checked in or cancelled meanwhile is left alone.
+   * 
+   * @param bookingId - The booking ID (UUID)
+   * @returns the cancelled booking, or null if it was no longer confirmed or was checked in
+   */
+  async cancelConfirmedBooking(bookingId: string): Promise<Booking | null> {
+    try {
+      const [rows] = await this.dataSource.query(
+        `UPDATE bookings
+         SET status = $2, "cancelledAt" = NOW(),
+             "refundQueuedAt" = CASE WHEN "paymentId" IS NOT NULL THEN NOW() ELSE NULL END
+         WHERE "bookingId" = $1 AND status = $3 AND "checkedInAt" IS NULL
+         RETURNING *`,
+        [bookingId, BookingStatus.CANCELLED, BookingStatus.CONFIRMED]);
+      return rows[0] ?? null;
+    } 
+    catch (error) {
+      console.error('DB Error on cancelConfirmedBooking:', error);
+      throw new InternalServerErrorException('Failed to cancel the booking.');
+    }
+  }
+
+  /**
+   * Cancels every active booking of a showtime, queuing for a refund those that were paid or
+   * have a checkout open (see PaymentRepository.getQueuedRefunds). Bookings pending payment
+   * without a checkout are only cancelled, as nothing can have been paid for them.
+   * 
+   * @param showtimeId - The showtime ID
+   * @param manager - Optional transactional EntityManager
+   * @returns the cancelled bookings, in seat order
+   */
+  async cancelShowTimeBookings(showtimeId: number, manager: EntityManager = this.dataSource.manager): Promise<Booking[]> {
+    try {
+      const [rows] = await manager.query(
+        `UPDATE bookings
+         SET status = $2, "cancelledAt" = NOW(),
+             "refundQueuedAt" = CASE WHEN status = $3 OR "paymentId" IS NOT NULL THEN NOW() ELSE NULL END
+         WHERE "showtimeId" = $1 AND status = ANY($4)
+         RETURNING *`,
+        [showtimeId, BookingStatus.CANCELLED, BookingStatus.CONFIRMED, ACTIVE_BOOKING_STATUSES]);
+      return [...(rows ?? [])].sort((a: Booking, b: Booking) => a.seatNumber - b.seatNumber);
+    } 
+    catch (error) {
+      console.error('DB Error on cancelShowTimeBookings:', error);
+      throw new InternalServerErrorException('Failed to cancel the bookings of the showtime.');
+    }
+  }
+
+  /**
+   * Marks a confirmed booking that has not been checked in as exchanged, releasing its seat.
+   * The condition is part of the update, so a booking cancelled or checked in meanwhile is left alone.
+   * 
+   * @param bookingId - The booking ID (UUID)
+   * @param manager - Optional transactional EntityManager
+   * @returns the released booking, or null if it was no longer confirmed or was checked in
+   */
+  async releaseExchangedBooking(bookingId: string, manager: EntityManager = this.dataSource.manager): Promise<Booking | null> {
+    try {
+      const [rows] = await manager.query(
+        `UPDATE bookings SET status = $2, "cancelledAt" = NOW()
+         WHERE "bookingId" = $1 AND status = $3 AND "checkedInAt" IS NULL
+         RETURNING *`,
+        [bookingId, BookingStatus.EXCHANGED, BookingStatus.CONFIRMED]);
+      return rows[0] ?? null;
+    } 
+    catch (error) {
+      console.error('DB Error on releaseExchangedBooking:', error);
+      throw new InternalServerErrorException('Failed to release the exchanged booking.');
+    }
+  }
+
+  /**
+   * Links a booking to the booking it replaced through an exchange and records the price difference.
+   * The new booking is covered by the replaced booking's payment, so it takes over its payment and is confirmed.
+   * 
+   * @param bookingId - The new booking ID (UUID)
+   * @param exchangedFromBookingId - The replaced booking ID (UUID)
+   * @param priceDifference - The new price minus the old price
+   * @param manager - Optional transactional EntityManager
+   */
+  async recordExchange(
+    bookingId: string,
+    exchangedFromBookingId: string,
+    priceDifference: number,
+    manager: EntityManager = this.dataSource.manager): Promise<void> {
+    try {
+      await manager.query(
+        `UPDATE bookings b
+         SET "exchangedFromBookingId" = $2, "priceDifference" = $3, status = $4, "paymentId" = old."paymentId"
+         FROM bookings old
+         WHERE b."bookingId" = $1 AND old."bookingId" = $2`,
+        [bookingId, exchangedFromBookingId, priceDifference, BookingStatus.CONFIRMED]);
+    } 
+    catch (error) {
+      console.error('DB Error on recordExchange:', error);
+      throw new InternalServerErrorException('Failed to record the booking exchange.');
+    }
+  }
+
+  /**
+   * Stamps `checkedInAt` on a confirmed booking that has not been checked in yet.
+   * The condition is part of the update, so a ticket scanned twice at once is only checked in once.
+   * 
+   * @param bookingId - The booking ID (UUID)
+   * @returns the checked-in booking, or null if it was not confirmed or already checked in
+   */
+  async checkInBooking(bookingId: string): Promise<Booking | null> {
+    try {
+      const [rows] = await this.dataSource.query(
+        `UPDATE bookings SET "checkedInAt" = NOW()
+         WHERE "bookingId" = $1 AND status = $2 AND "checkedInAt" IS NULL
+         RETURNING *`,
+        [bookingId, BookingStatus.CONFIRMED]);
+      return rows[0] ?? null;
+    } 
+    catch (error) {
+      console.error('DB Error on checkInBooking:', error);
+      throw new InternalServerErrorException('Failed to check the booking in.');
+    }
+  }
+
+  /**
+   * Checks if the given seat is already booked, held by a live seat hold or blocked, for the specified showtime.
    * 
    * @param showtimeId - The showtime ID
    * @param seatNumber - The seat number
+   * @param manager - Optional transactional EntityManager
    * @returns true if seat is already taken, false otherwise
    */
-  async isSeatTaken(showtimeId: number, seatNumber: number): Promise<boolean> {
+  async isSeatTaken(showtimeId: number, seatNumber: number, manager: EntityManager = this.dataSource.manager): Promise<boolean> {
+    const takenSeats = await this.getTakenSeats(showtimeId, [seatNumber], manager);
+    return takenSeats.length > 0;
+  }
+
+  /**
+   * Returns which of the given seats are already booked, held or blocked for the specified showtime.
+   * 
+   * @param showtimeId - The showtime ID
+   * @param seatNumbers - The seat numbers to check
+   * @param manager - Optional transactional EntityManager
+   * @returns the taken seat numbers, in ascending order
+   */
+  async getTakenSeats(showtimeId: number, seatNumbers: number[], manager: EntityManager = this.dataSource.manager): Promise<number[]> {
     try {
-      const result = await this.dataSource.query(
-        `SELECT 1 FROM bookings WHERE "showtimeId" = $1 AND "seatNumber" = $2`,
-        [showtimeId, seatNumber]);
-      return result.length > 0;
+      const result = await manager.query(
+        `SELECT "seatNumber" FROM bookings
+         WHERE "showtimeId" = $1 AND "seatNumber" = ANY($2::int[]) AND status = ANY($3)
+         UNION
+         SELECT "seatNumber" FROM seat_holds
+         WHERE "showtimeId" = $1 AND "seatNumber" = ANY($2::int[]) AND "expiresAt" > NOW()
+         UNION
+         SELECT "seatNumber" FROM (${BLOCKED_SEATS_OF_SHOWTIME}) AS blocked
+         WHERE "seatNumber" = ANY($2::int[])
+         ORDER BY "seatNumber"`,
+        [showtimeId, seatNumbers, ACTIVE_BOOKING_STATUSES]);
+      return result.map((row: { seatNumber: number }) => row.seatNumber);
     } 
     catch (error) {
-      console.error('DB Error on isSeatTaken:', error);
+      console.error('DB Error on getTakenSeats:', error);
       throw new InternalServerErrorException('Failed to check if seat is already booked.');
     }
   }
 
   /**
-   * Checks if the theater is fully booked for the given showtime (100 seats max).
+   * Returns which of the given seats are blocked for the specified showtime.
    * 
    * @param showtimeId - The showtime ID
+   * @param seatNumbers - The seat numbers to check
+   * @param manager - Optional transactional EntityManager
+   * @returns the blocked seat numbers, in ascending order
+   */
+  async getBlockedSeats(showtimeId: number, seatNumbers: number[], manager: EntityManager = this.dataSource.manager): Promise<number[]> {
+    try {
+      const result = await manager.query(
+        `SELECT DISTINCT "seatNumber" FROM (${BLOCKED_SEATS_OF_SHOWTIME}) AS blocked
+         WHERE "seatNumber" = ANY($2::int[])
+         ORDER BY "seatNumber"`,
+        [showtimeId, seatNumbers]);
+      return result.map((row: { seatNumber: number }) => row.seatNumber);
+    } 
+    catch (error) {
+      console.error('DB Error on getBlockedSeats:', error);
+      throw new InternalServerErrorException('Failed to check if seats are blocked.');
+    }
+  }
+
+  /**
+   * Counts the seats of a showtime that are blocked and not booked or held, i.e. the seats
+   * to leave out of its sellable capacity on top of the occupied ones.
+   * 
+   * @param showtimeId - The showtime ID
+   * @param capacity - Number of seats in the showtime's theater
+   * @param manager - Optional transactional EntityManager
+   * @returns the number of blocked seats
+   */
+  async countBlockedSeats(showtimeId: number, capacity: number, manager: EntityManager = this.dataSource.manager): Promise<number> {
+    try {
+      const result = await manager.query(
+        `SELECT COUNT(DISTINCT blocked."seatNumber")::int AS count
+         FROM (${BLOCKED_SEATS_OF_SHOWTIME}) AS blocked
+         WHERE blocked."seatNumber" <= $2
+           AND NOT EXISTS (SELECT 1 FROM bookings b
+                           WHERE b."showtimeId" = $1 AND b."seatNumber" = blocked."seatNumber" AND b.status = ANY($3))
+           AND NOT EXISTS (SELECT 1 FROM seat_holds h
+                           WHERE h."showtimeId" = $1 AND h."seatNumber" = blocked."seatNumber" AND h."expiresAt" > NOW())`,
+        [showtimeId, capacity, ACTIVE_BOOKING_STATUSES]);
+      return result[0]?.count ?? 0;
+    } 
+    catch (error) {
+      console.error('DB Error on countBlockedSeats:', error);
+      throw new InternalServerErrorException('Failed to count blocked seats.');
+    }
+  }
+
+  /**
+   * Counts the seats of a showtime that are booked or held by a live seat hold.
+   * 
+   * @param showtimeId - The showtime ID
+   * @param manager - Optional transactional EntityManager
+   * @returns the number of occupied seats
+   */
+  async countOccupiedSeats(showtimeId: number, manager: EntityManager = this.dataSource.manager): Promise<number> {
+    try {
+      const result = await manager.query(
+        `SELECT
+           (SELECT COUNT(*) FROM bookings
+            WHERE "showtimeId" = $1 AND status = ANY($2))::int +
+           (SELECT COUNT(*) FROM seat_holds
+            WHERE "showtimeId" = $1 AND "expiresAt" > NOW())::int AS count`,
+        [showtimeId, ACTIVE_BOOKING_STATUSES]);
+      return result[0]?.count ?? 0;
+    } 
+    catch (error) {
+      console.error('DB Error on countOccupiedSeats:', error);
+      throw new InternalServerErrorException('Failed to count occupied seats.');
+    }
+  }
+
+  /**
+   * Locks a user's purchases until the transaction ends, so two of their bookings for different
+   * showtimes cannot both pass the daily ticket limit.
+   * 
+   * @param userId - UUID of the user
+   * @param manager - The transactional EntityManager
+   */
+  async lockUserPurchases(userId: string, manager: EntityManager): Promise<void> {
+    try {
+      await manager.query(`SELECT pg_advisory_xact_lock(hashtext($1))`, [userId]);
+    } 
+    catch (error) {
+      console.error('DB Error on lockUserPurchases:', error);
+      throw new InternalServerErrorException('Failed to lock the user purchases.');
+    }
+  }
+
+  /**
+   * Counts a user's tickets (active bookings and seats held by live holds) for a showtime,
+   * and those booked or held today across showtimes. Today starts at midnight on the cinema's
+   * clocks (see CINEMA_TIME_ZONE), not the database server's.
+   * 
+   * @param userId - UUID of the user
+   * @param showtimeId - The showtime ID
+   * @param manager - Optional transactional EntityManager
+   * @returns the user's ticket counts
+   */
+  async countUserTickets(userId: string, showtimeId: number, manager: EntityManager = this.dataSource.manager): Promise<TicketCounts> {
+    try {
+      const result = await manager.query(
+        `SELECT
+           (SELECT COUNT(*) FROM bookings
+            WHERE "userId" = $1 AND "showtimeId" = $2 AND status = ANY($3))::int +
+           (SELECT COUNT(*) FROM seat_holds
+            WHERE "userId" = $1 AND "showtimeId" = $2 AND "expiresAt" > NOW())::int AS "forShowtime",
+           (SELECT COUNT(*) FROM bookings
+            WHERE "userId" = $1 AND status = ANY($3)
+              AND "createdAt" >= date_trunc('day', NOW() AT TIME ZONE $4::text) AT TIME ZONE $4::text)::int +
+           (SELECT COUNT(*) FROM seat_holds
+            WHERE "userId" = $1 AND "expiresAt" > NOW())::int AS today`,
+        [userId, showtimeId, ACTIVE_BOOKING_STATUSES, CINEMA_TIME_ZONE]);
+      return { forShowtime: result[0]?.forShowtime ?? 0, today: result[0]?.today ?? 0 };
+    } 
+    catch (error) {
+      console.error('DB Error on countUserTickets:', error);
+      throw new InternalServerErrorException('Failed to count the user tickets.');
+    }
+  }
+
+  /**
+   * Checks if every seat of the theater that is not blocked is booked or held for the given showtime.
+   * 
+   * @param showtimeId - The showtime ID
+   * @param capacity - Number of seats in the showtime's theater
+   * @param manager - Optional transactional EntityManager
    * @returns true if fully booked, false otherwise
    */
-  async isTheaterFull(showtimeId: number): Promise<boolean> {
+  async isTheaterFull(showtimeId: number, capacity: number, manager: EntityManager = this.dataSource.manager): Promise<boolean> {
     try {
-      const result = await this.dataSource.query(
-        `SELECT COUNT(*)::int AS count FROM bookings WHERE "showtimeId" = $1`,
-        [showtimeId]);
-      return result[0]?.count >= 100;
+      const count = await this.countOccupiedSeats(showtimeId, manager);
+      const blocked = await this.countBlockedSeats(showtimeId, capacity, manager);
+      return count + blocked >= capacity;
     } 
     catch (error) {
       console.error('DB Error on isTheaterFull:', error);
@@ -79,20 +461,101 @@ export class BookingRepository {
   }
 
   /**
-   * Fetches all bookings for a given showtime.
+   * Fetches all active bookings for a given showtime.
    * 
    * @param showtimeId - The showtime ID
+   * @param manager - Optional transactional EntityManager
    * @returns list of Booking records
    */
-  async getBookingsForShowTime(showtimeId: number): Promise<Booking[]> {
+  async getBookingsForShowTime(showtimeId: number, manager: EntityManager = this.dataSource.manager): Promise<Booking[]> {
     try {
-      return await this.dataSource.query(
-        `SELECT * FROM bookings WHERE "showtimeId" = $1`,
-        [showtimeId]);
+      return await manager.query(
+        `SELECT * FROM bookings WHERE "showtimeId" = $1 AND status = ANY($2)`,
+        [showtimeId, ACTIVE_BOOKING_STATUSES]);
     } 
     catch (error) {
       console.error('DB Error on getBookingsForShowTime:', error);
       throw new InternalServerErrorException('Failed to fetch bookings for showtime.');
     }
   }
+
+  /**
+   * Returns the state of every seat of a showtime (available, booked, held or blocked) in a single
+   * query, using the (showtimeId, seatNumber) indexes instead of loading booking rows.
+   * A blocked seat that is still booked or held shows as booked or held.
+   * 
+   * @param showtimeId - The showtime ID
+   * @param capacity - Number of seats in the showtime's theater
+   * @returns one entry per seat, in seat order
+   */
+  async getSeatStates(showtimeId: number, capacity: number): Promise<Pick<SeatStatusDto, 'seatNumber' | 'state'>[]> {
+    try {
+      return await this.dataSource.query(
+        `SELECT seat."seatNumber",
+                CASE WHEN b."bookingId" IS NOT NULL THEN 'booked'
+                     WHEN h.id IS NOT NULL THEN 'held'
+                     WHEN blocked."seatNumber" IS NOT NULL THEN 'blocked'
+                     ELSE 'available' END AS state
+         FROM generate_series(1, $2::int) AS seat("seatNumber")
+         LEFT JOIN bookings b
+           ON b."showtimeId" = $1 AND b."seatNumber" = seat."seatNumber" AND b.status = ANY($3)
+         LEFT JOIN seat_holds h
+           ON h."showtimeId" = $1 AND h."seatNumber" = seat."seatNumber" AND h."expiresAt" > NOW()
+         LEFT JOIN (SELECT DISTINCT "seatNumber" FROM (${BLOCKED_SEATS_OF_SHOWTIME}) AS showtime_blocks) AS blocked
+           ON blocked."seatNumber" = seat."seatNumber"
+         ORDER BY seat."seatNumber"`,
+        [showtimeId, capacity, ACTIVE_BOOKING_STATUSES]);
+    } 
+    catch (error) {
+      console.error('DB Error on getSeatStates:', error);
+      throw new InternalServerErrorException('Failed to fetch the seat map for showtime.');
+    }
+  }
+
+  /**
+   * Fetches one page of a user's bookings matching the filter, joined with their showtime,
+   * theater and movie. Upcoming bookings come soonest first; the others most recent first.
+   * 
+   * @param userId - UUID of the user
+   * @param filter - Which bookings to list (upcoming, past, cancelled or all)
+   * @param limit - Maximum number of bookings to return
+   * @param offset - Number of matching bookings to skip
+   * @returns the page of bookings and the number of bookings matching the filter
+   */
+  async getBookingsForUser(
+    userId: string,
+    filter: BookingHistoryFilter,
+    limit: number,
+    offset: number): Promise<{ rows: UserBookingRow[]; total: number }> {
+    const { statuses, startCondition } = HISTORY_FILTERS[filter];
+    const order = filter === BookingHistoryFilter.UPCOMING ? 'ASC' : 'DESC';
+    const from = `FROM bookings b
+         JOIN showtimes s ON s.id = b."showtimeId"
+         JOIN theaters t ON t.id = s.theater_id
+         JOIN movies m ON m.id = s.movie_id
+         WHERE b."userId" = $1 AND b.status = ANY($2) AND ${startCondition}`;
+
+    try {
+      const rows = await this.dataSource.query(
+        `SELECT b."bookingId", b.status, b."seatNumber", b."seatCategory", b.price, b.discount, b."promoCode",
+                b."createdAt", b."cancelledAt",
+                s.id AS "showtimeId", s."startTime", s."endTime",
+                t.id AS "theaterId", t.name AS "theaterName", t."rows" AS "theaterRows",
+                m.id AS "movieId", m.title AS "movieTitle"
+         ${from}
+         ORDER BY s."startTime" ${order}, b."seatNumber"
+         LIMIT $3 OFFSET $4`,
+        [userId, statuses, limit, offset]);
+
+      const count = await this.dataSource.query(
+        `SELECT COUNT(*)::int AS total ${from}`,
+        [userId, statuses]);
+
+      return { rows, total: count[0]?.total ?? 0 };
+    } 
+    catch (error) {
+      console.error('DB Error on getBookingsForUser:', error);
+      throw new InternalServerErrorException('Failed to fetch bookings for user.');
+    }
+  }
 }
@@ -7,29 +7,84 @@
  * These tests cover:
  * - Successful booking
  * - Edge cases like seat duplication, full theaters, and missing records
+ * - Refusing bookings outside the showtime's ticket sales window, or for a cancelled showtime
+ * - Picking seats by label and rejecting seats outside the theater's layout
+ * - Charging each seat the showtime's price for its category, less any promo code discount
  * - Input normalization and validation
+ * - Rejecting seats blocked by an administrator and leaving them out of the seats for sale
+ * - Looking up and cancelling bookings, and issuing signed tickets
+ * - Exchanging a booking for another seat or showtime
+ * - Charging the dynamic price of showtimes with dynamic pricing switched on
+ * - Enforcing the ticket limits per customer
+ * - Atomic group bookings with conflict reporting
+ * - Finding and booking the best block of adjacent seats for a party
+ * - Placing, confirming, releasing and expiring seat holds
+ * - Announcing released seats and confirmed holds through BookingEvents
+ * - Building the seat map of a showtime
+ * - Paging through a customer's booking history
  */
 
 import { Test, TestingModule } from '@nestjs/testing';
 import { BookingService } from './booking.service';
 import { BookingRepository } from './booking.repository';
+import { SeatHoldRepository } from './seatHold.repository';
+import { BookingEvents } from './booking.events';
+import { TicketTokenService } from './ticketToken.service';
 import { ShowTimeRepository } from 'src/showTime/showTime.repository';
 import { MovieRepository } from 'src/movie/movie.repository';
-import { BadRequestException, NotFoundException } from '@nestjs/common';
+import { TheaterRepository } from 'src/theater/theater.repository';
+import { PromoService } from 'src/promo/promo.service';
+import { PricingService } from 'src/pricing/pricing.service';
+import { PurchaseLimitService } from 'src/purchaseLimit/purchaseLimit.service';
+import { PurchaseLimitErrorCode } from 'src/purchaseLimit/purchaseLimit.constants';
+import { BadRequestException, ConflictException, NotFoundException } from '@nestjs/common';
 import { BookingDto } from './booking.dto';
+import { BookingStatus } from './booking.entity';
+import { SeatState } from './seatMap.dto';
+import { BookingHistoryFilter } from './bookingHistory.dto';
+import { SeatCategory } from 'src/theater/theater.entity';
+import { SalesWindowErrorCode } from 'src/showTime/showTime.constants';
 
 describe('BookingService', () => {
   let service: BookingService;
   let mockBookingRepository: Partial<Record<keyof BookingRepository, jest.Mock>>;
+  let mockSeatHoldRepository: Partial<Record<keyof SeatHoldRepository, jest.Mock>>;
   let mockShowTimeRepository: Partial<Record<keyof ShowTimeRepository, jest.Mock>>;
   let mockMovieRepository: Partial<Record<keyof MovieRepository, jest.Mock>>;
+  let mockTheaterRepository: Partial<Record<keyof TheaterRepository, jest.Mock>>;
+  let mockBookingEvents: Partial<Record<keyof BookingEvents, jest.Mock>>;
+  let mockPromoService: Partial<Record<keyof PromoService, jest.Mock>>;
+  let mockPricingService: Partial<Record<keyof PricingService, jest.Mock>>;
+  let mockPurchaseLimitService: Partial<Record<keyof PurchaseLimitService, jest.Mock>>;
+
+  const theater = { id: 3, name: 'Hall 3', rows: [{ label: 'A', seats: 10 }, { label: 'B', seats: 10 }], capacity: 20 };
 
   beforeEach(async () => {
     mockBookingRepository = {
       addNewBooking: jest.fn(),
       isSeatTaken: jest.fn(),
       isTheaterFull: jest.fn(),
-      getBookingsForShowTime: jest.fn()
+      getBookingsForShowTime: jest.fn(),
+      fetchBookingById: jest.fn(),
+      cancelConfirmedBooking: jest.fn(),
+      getTakenSeats: jest.fn(),
+      getBlockedSeats: jest.fn().mockResolvedValue([]),
+      countOccupiedSeats: jest.fn(),
+      countBlockedSeats: jest.fn().mockResolvedValue(0),
+      runWithSeatLock: jest.fn((_showtimeIds, work) => work('tx-manager')),
+      getSeatStates: jest.fn(),
+      getBookingsForUser: jest.fn(),
+      releaseExchangedBooking: jest.fn(),
+      recordExchange: jest.fn(),
+      lockUserPurchases: jest.fn(),
+      countUserTickets: jest.fn().mockResolvedValue({ forShowtime: 0, today: 0 })
+    };
+
+    mockSeatHoldRepository = {
+      addSeatHolds: jest.fn(),
+      fetchLiveHold: jest.fn(),
+      deleteHold: jest.fn(),
+      releaseExpiredHolds: jest.fn()
     };
 
     mockShowTimeRepository = {
@@ -40,12 +95,41 @@ describe('BookingService', () => {
       fetchMovieById: jest.fn()
     };
 
+    mockTheaterRepository = {
+      fetchTheaterById: jest.fn().mockResolvedValue(theater)
+    };
+
+    mockBookingEvents = {
+      emitSeatsReleased: jest.fn(),
+      emitHoldConfirmed: jest.fn()
+    };
+
+    mockPromoService = {
+      applyPromoCode: jest.fn(),
+      recordRedemption: jest.fn()
+    };
+
+    mockPricingService = {
+      getPriceMultiplier: jest.fn()
+    };
+
+    mockPurchaseLimitService = {
+      assertWithinLimits: jest.fn()
+    };
+
     const module: TestingModule = await Test.createTestingModule({
       providers: [
         BookingService,
         { provide: BookingRepository, useValue: mockBookingRepository },
+        { provide: SeatHoldRepository, useValue: mockSeatHoldRepository },
+        { provide: BookingEvents, useValue: mockBookingEvents },
+        TicketTokenService,
+        { provide: PromoService, useValue: mockPromoService },
+        { provide: PricingService, useValue: mockPricingService },
+        { provide: PurchaseLimitService, useValue: mockPurchaseLimitService },
         { provide: 'ShowTimeRepository', useValue: mockShowTimeRepository },
         { provide: 'MovieRepository', useValue: mockMovieRepository },
+        { provide: 'TheaterRepository', useValue: mockTheaterRepository },
       ],
     }).compile();
 
@@ -62,7 +146,7 @@ describe('BookingService', () => {
       userId: 'abcabcab-1111-2222-3333-abcabcabcabc'
     };
 
-    const showtime = { id: 1, movieId: 2 };
+    const showtime = { id: 1, movieId: 2, theaterId: 3, price: 12, categoryPrices: null };
     const movie = { id: 2, title: 'Movie' };
 
     mockShowTimeRepository.fetchShowTimeById.mockResolvedValue(showtime);
@@ -74,8 +158,91 @@ describe('BookingService', () => {
 
     const result = await service.addNewBooking(bookingData);
 
-    expect(result).toEqual({ bookingId: 'booking-id-123' });
+    expect(result).toEqual({ bookingId: 'booking-id-123', seatNumber: 10, seatLabel: 'A10', seatCategory: SeatCategory.STANDARD, price: 12, discount: 0, promoCode: null, ticketToken: expect.any(String) });
     expect(mockBookingRepository.addNewBooking).toHaveBeenCalled();
+    expect(mockBookingRepository.isTheaterFull).toHaveBeenCalledWith(1, theater.capacity, 'tx-manager');
+  });
+
+  /**
+   * Should resolve a seat label through the theater's layout.
+   */
+  it('should book a seat picked by label', async () => {
+    const userId = 'abcabcab-1111-2222-3333-abcabcabcabc';
+
+    mockShowTimeRepository.fetchShowTimeById.mockResolvedValue({ id: 1, movieId: 2, theaterId: 3 });
+    mockMovieRepository.fetchMovieById.mockResolvedValue({ id: 2, title: 'Movie' });
+    mockBookingRepository.isTheaterFull.mockResolvedValue(false);
+    mockBookingRepository.isSeatTaken.mockResolvedValue(false);
+    mockBookingRepository.getBookingsForShowTime.mockResolvedValue([]);
+    mockBookingRepository.addNewBooking.mockResolvedValue('booking-id-123');
+
+    await service.addNewBooking({ showtimeId: 1, seatLabel: 'b3', userId });
+
+    expect(mockTheaterRepository.fetchTheaterById).toHaveBeenCalledWith(3);
+    expect(mockBookingRepository.addNewBooking).toHaveBeenCalledWith(expect.objectContaining({ showtimeId: 1, seatNumber: 13, userId }), 'tx-manager');
+  });
+
+  /**
+   * Should throw BadRequestException if the seat does not exist in the theater's layout.
+   */
+  it('should throw BadRequestException for a seat outside the theater', async () => {
+    const userId = 'abcabcab-1111-2222-3333-abcabcabcabc';
+
+    mockShowTimeRepository.fetchShowTimeById.mockResolvedValue({ id: 1, movieId: 2, theaterId: 3 });
+    mockMovieRepository.fetchMovieById.mockResolvedValue({ id: 2, title: 'Movie' });
+
+    await expect(service.addNewBooking({ showtimeId: 1, seatNumber: 21, userId })).rejects.toThrow(BadRequestException);
+    await expect(service.addNewBooking({ showtimeId: 1, seatLabel: 'C1', userId })).rejects.toThrow(BadRequestException);
+    expect(mockBookingRepository.runWithSeatLock).not.toHaveBeenCalled();
+  });
+
+  /**
+   * Should throw NotFoundException if the showtime's theater does not exist.
+   */
+  it('should throw NotFoundException if theater not found', async () => {
+    mockShowTimeRepository.fetchShowTimeById.mockResolvedValue({ id: 1, movieId: 2, theaterId: 3 });
+    mockMovieRepository.fetchMovieById.mockResolvedValue({ id: 2, title: 'Movie' });
+    mockTheaterRepository.fetchTheaterById.mockResolvedValue(null);
+
+    await expect(service.addNewBooking({ showtimeId: 1, seatNumber: 10, userId: 'abcabcab-1111-2222-3333-abcabcabcabc' }))
+      .rejects.toThrow(NotFoundException);
+  });
+
+  /**
+   * Should refuse to book a showtime whose ticket sales have closed, with the sales window error code.
+   */
+  it('should throw BadRequestException if ticket sales have closed', async () => {
+    const startTime = new Date(Date.now() - 7 * 24 * 60 * 60 * 1000).toISOString();
+    mockShowTimeRepository.fetchShowTimeById.mockResolvedValue({ id: 1, movieId: 2, theaterId: 3, startTime, salesOpenAt: null, salesCloseMinutesAfterStart: null });
+
+    await expect(service.addNewBooking({ showtimeId: 1, seatNumber: 10, userId: 'abcabcab-1111-2222-3333-abcabcabcabc' }))
+      .rejects.toMatchObject({ response: { errorCode: SalesWindowErrorCode.CLOSED } });
+    expect(mockBookingRepository.runWithSeatLock).not.toHaveBeenCalled();
+  });
+
+  /**
+   * Should refuse to hold seats before ticket sales open.
+   */
+  it('should throw BadRequestException if ticket sales have not opened', async () => {
+    const startTime = new Date(Date.now() + 90 * 24 * 60 * 60 * 1000).toISOString();
+    mockShowTimeRepository.fetchShowTimeById.mockResolvedValue({ id: 1, movieId: 2, theaterId: 3, startTime, salesOpenAt: null, salesCloseMinutesAfterStart: null });
+
+    await expect(service.placeSeatHold({ showtimeId: 1, seatNumbers: [4], userId: 'abcabcab-1111-2222-3333-abcabcabcabc' }))
+      .rejects.toMatchObject({ response: { errorCode: SalesWindowErrorCode.NOT_OPEN } });
+  });
+
+  /**
+   * Should refuse to book a cancelled showtime.
+   */
+  it('should throw BadRequestException if the showtime was cancelled', async () => {
+    mockShowTimeRepository.fetchShowTimeById.mockResolvedValue({
+      id: 1, movieId: 2, theaterId: 3, startTime: new Date().toISOString(), salesOpenAt: null, salesCloseMinutesAfterStart: null,
+      cancelledAt: new Date().toISOString(), cancellationReason: 'Projector failure',
+    });
+
+    await expect(service.addNewBooking({ showtimeId: 1, seatNumber: 10, userId: 'abcabcab-1111-2222-3333-abcabcabcabc' }))
+      .rejects.toThrow(BadRequestException);
+    expect(mockBookingRepository.runWithSeatLock).not.toHaveBeenCalled();
   });
 
   /**
@@ -131,9 +298,9 @@ describe('BookingService', () => {
   });
 
   /**
-   * Should throw BadRequestException if the requested seat is already taken.
+   * Should throw ConflictException if the requested seat is already taken.
    */
-  it('should throw BadRequestException if seat is already booked', async () => {
+  it('should throw ConflictException if seat is already booked', async () => {
     const data: BookingDto = {
       showtimeId: 1,
       seatNumber: 10,
@@ -149,7 +316,23 @@ describe('BookingService', () => {
     mockBookingRepository.isSeatTaken.mockResolvedValue(true);
     mockBookingRepository.getBookingsForShowTime.mockResolvedValue([]);
 
-    await expect(service.addNewBooking(data)).rejects.toThrow(BadRequestException);
+    await expect(service.addNewBooking(data)).rejects.toThrow(ConflictException);
+  });
+
+  /**
+   * Should throw BadRequestException if the requested seat is blocked by an administrator.
+   */
+  it('should throw BadRequestException if seat is blocked', async () => {
+    mockShowTimeRepository.fetchShowTimeById.mockResolvedValue({ id: 1, movieId: 2 });
+    mockMovieRepository.fetchMovieById.mockResolvedValue({ id: 2, title: 'Movie' });
+    mockBookingRepository.isTheaterFull.mockResolvedValue(false);
+    mockBookingRepository.getBookingsForShowTime.mockResolvedValue([]);
+    mockBookingRepository.getBlockedSeats.mockResolvedValue([10]);
+
+    await expect(service.addNewBooking({ showtimeId: 1, seatNumber: 10, userId: 'abcabcab-1111-2222-3333-abcabcabcabc' }))
+      .rejects.toThrow('Seat number 10 is not for sale for this showtime.');
+    expect(mockBookingRepository.getBlockedSeats).toHaveBeenCalledWith(1, [10], 'tx-manager');
+    expect(mockBookingRepository.addNewBooking).not.toHaveBeenCalled();
   });
 
   /**
@@ -197,4 +380,790 @@ describe('BookingService', () => {
 
     await expect(service.addNewBooking(data)).rejects.toThrow(Error);
   });
+
+  describe('fetchBookingById', () => {
+    /**
+     * Should return the booking when it exists.
+     */
+    it('should return the booking', async () => {
+      const booking = { bookingId: 'booking-1', showtimeId: 1, seatNumber: 10, status: BookingStatus.CONFIRMED };
+      mockBookingRepository.fetchBookingById.mockResolvedValue(booking);
+
+      await expect(service.fetchBookingById('booking-1')).resolves.toEqual(booking);
+    });
+
+    /**
+     * Should throw NotFoundException if the booking does not exist.
+     */
+    it('should throw NotFoundException if booking not found', async () => {
+      mockBookingRepository.fetchBookingById.mockResolvedValue(null);
+
+      await expect(service.fetchBookingById('missing')).rejects.toThrow(NotFoundException);
+    });
+  });
+
+  describe('getTicket', () => {
+    /**
+     * Should issue a ticket token that verifies back to the booking.
+     */
+    it('should issue a signed ticket for a confirmed booking', async () => {
+      mockBookingRepository.fetchBookingById.mockResolvedValue({ bookingId: 'booking-1', showtimeId: 1, seatNumber: 7, status: BookingStatus.CONFIRMED });
+
+      const ticket = await service.getTicket('booking-1');
+
+      expect(ticket).toEqual(expect.objectContaining({ bookingId: 'booking-1', showtimeId: 1, seatNumber: 7 }));
+      expect(new TicketTokenService().verify(ticket.ticketToken)).toEqual({ bookingId: 'booking-1', showtimeId: 1, seatNumber: 7 });
+    });
+
+    /**
+     * Should throw BadRequestException if the booking was cancelled.
+     */
+    it('should throw BadRequestException if booking cancelled', async () => {
+      mockBookingRepository.fetchBookingById.mockResolvedValue({ bookingId: 'booking-1', status: BookingStatus.CANCELLED });
+
+      await expect(service.getTicket('booking-1')).rejects.toThrow(BadRequestException);
+    });
+  });
+
+  describe('cancelBooking', () => {
+    /**
+     * Should cancel a confirmed booking.
+     */
+    it('should cancel a confirmed booking', async () => {
+      const booking = { bookingId: 'booking-1', showtimeId: 1, seatNumber: 7, status: BookingStatus.CONFIRMED, checkedInAt: null };
+      mockBookingRepository.fetchBookingById.mockResolvedValue(booking);
+      mockBookingRepository.cancelConfirmedBooking.mockResolvedValue({ ...booking, status: BookingStatus.CANCELLED });
+
+      await expect(service.cancelBooking('booking-1')).resolves.toBeUndefined();
+      expect(mockBookingRepository.cancelConfirmedBooking).toHaveBeenCalledWith('booking-1');
+      expect(mockBookingEvents.emitSeatsReleased).toHaveBeenCalledWith({ showtimeId: 1, seatNumbers: [7] });
+    });
+
+    /**
+     * Should refuse to cancel a booking that was already checked in.
+     */
+    it('should throw BadRequestException if the booking was checked in', async () => {
+      mockBookingRepository.fetchBookingById.mockResolvedValue({
+        bookingId: 'booking-1', status: BookingStatus.CONFIRMED, checkedInAt: new Date('2025-01-10T19:55:00Z'),
+      });
+
+      await expect(service.cancelBooking('booking-1')).rejects.toThrow(BadRequestException);
+      expect(mockBookingRepository.cancelConfirmedBooking).not.toHaveBeenCalled();
+    });
+
+    /**
+     * Should throw ConflictException, without releasing the seat, if the booking was exchanged or checked in concurrently.
+     */
+    it('should throw ConflictException if the booking changed concurrently', async () => {
+      mockBookingRepository.fetchBookingById.mockResolvedValue({ bookingId: 'booking-1', showtimeId: 1, seatNumber: 7, status: BookingStatus.CONFIRMED, checkedInAt: null });
+      mockBookingRepository.cancelConfirmedBooking.mockResolvedValue(null);
+
+      await expect(service.cancelBooking('booking-1')).rejects.toThrow(ConflictException);
+      expect(mockBookingEvents.emitSeatsReleased).not.toHaveBeenCalled();
+    });
+
+    /**
+     * Should throw BadRequestException if the booking is already cancelled.
+     */
+    it('should throw BadRequestException if booking already cancelled', async () => {
+      mockBookingRepository.fetchBookingById.mockResolvedValue({ bookingId: 'booking-1', status: BookingStatus.CANCELLED });
+
+      await expect(service.cancelBooking('booking-1')).rejects.toThrow(BadRequestException);
+      expect(mockBookingRepository.cancelConfirmedBooking).not.toHaveBeenCalled();
+    });
+
+    /**
+     * Should throw NotFoundException if the booking does not exist.
+     */
+    it('should throw NotFoundException if booking not found', async () => {
+      mockBookingRepository.fetchBookingById.mockResolvedValue(null);
+
+      await expect(service.cancelBooking('missing')).rejects.toThrow(NotFoundException);
+    });
+  });
+
+  describe('exchangeBooking', () => {
+    const userId = 'abcabcab-1111-2222-3333-abcabcabcabc';
+    const booking = { bookingId: 'booking-1', showtimeId: 1, seatNumber: 7, userId, price: 10, status: BookingStatus.CONFIRMED, checkedInAt: null };
+
+    beforeEach(() => {
+      mockBookingRepository.fetchBookingById.mockResolvedValue(booking);
+      mockShowTimeRepository.fetchShowTimeById.mockImplementation(async id => ({ id, movieId: 2, theaterId: 3, price: id === 1 ? 10 : 14, categoryPrices: null }));
+      mockMovieRepository.fetchMovieById.mockResolvedValue({ id: 2 });
+      mockBookingRepository.releaseExchangedBooking.mockResolvedValue({ ...booking, status: BookingStatus.EXCHANGED });
+      mockBookingRepository.isTheaterFull.mockResolvedValue(false);
+      mockBookingRepository.getBookingsForShowTime.mockResolvedValue([]);
+      mockBookingRepository.isSeatTaken.mockResolvedValue(false);
+      mockBookingRepository.addNewBooking.mockResolvedValue('booking-2');
+    });
+
+    /**
+     * Should release the old seat and book the new one under both showtimes' seat locks,
+     * recording the price difference.
+     */
+    it('should exchange a booking for a seat in a later showtime', async () => {
+      const result = await service.exchangeBooking('booking-1', { userId, showtimeId: 5, seatLabel: 'B3' });
+
+      expect(mockBookingRepository.runWithSeatLock).toHaveBeenCalledWith([1, 5], expect.any(Function));
+      expect(mockBookingRepository.releaseExchangedBooking).toHaveBeenCalledWith('booking-1', 'tx-manager');
+      expect(mockBookingRepository.isSeatTaken).toHaveBeenCalledWith(5, 13, 'tx-manager');
+      expect(mockBookingRepository.addNewBooking).toHaveBeenCalledWith(
+        expect.objectContaining({ showtimeId: 5, seatNumber: 13, userId, price: 14 }), 'tx-manager');
+      expect(mockBookingRepository.recordExchange).toHaveBeenCalledWith('booking-2', 'booking-1', 4, 'tx-manager');
+      expect(result).toEqual({
+        previousBookingId: 'booking-1',
+        previousPrice: 10,
+        booking: expect.objectContaining({ bookingId: 'booking-2', seatNumber: 13, seatLabel: 'B3', price: 14 }),
+        priceDifference: 4,
+      });
+      expect(mockBookingEvents.emitSeatsReleased).toHaveBeenCalledWith({ showtimeId: 1, seatNumbers: [7] });
+    });
+
+    /**
+     * Should default to the booking's own showtime.
+     */
+    it('should exchange a booking for another seat in the same showtime', async () => {
+      const result = await service.exchangeBooking('booking-1', { userId, seatNumber: 8 });
+
+      expect(mockBookingRepository.runWithSeatLock).toHaveBeenCalledWith([1, 1], expect.any(Function));
+      expect(result.priceDifference).toBe(0);
+    });
+
+    /**
+     * Should refuse a showtime of another movie.
+     */
+    it('should throw BadRequestException for a showtime of another movie', async () => {
+      mockShowTimeRepository.fetchShowTimeById.mockImplementation(async id => ({ id, movieId: id === 1 ? 2 : 9, theaterId: 3, price: 10 }));
+
+      await expect(service.exchangeBooking('booking-1', { userId, showtimeId: 5, seatNumber: 8 })).rejects.toThrow(BadRequestException);
+      expect(mockBookingRepository.runWithSeatLock).not.toHaveBeenCalled();
+    });
+
+    /**
+     * Should refuse bookings that are not the user's, not confirmed or already checked in, and the same seat.
+     */
+    it('should throw BadRequestException if the booking cannot be exchanged', async () => {
+      await expect(service.exchangeBooking('booking-1', { userId: 'ffffffff-1111-2222-3333-abcabcabcabc', seatNumber: 8 })).rejects.toThrow('belongs to another user');
+      await expect(service.exchangeBooking('booking-1', { userId, seatNumber: 7 })).rejects.toThrow('already for seat 7');
+
+      mockBookingRepository.fetchBookingById.mockResolvedValueOnce({ ...booking, status: BookingStatus.CANCELLED });
+      await expect(service.exchangeBooking('booking-1', { userId, seatNumber: 8 })).rejects.toThrow('because it is cancelled');
+
+      mockBookingRepository.fetchBookingById.mockResolvedValueOnce({ ...booking, checkedInAt: new Date() });
+      await expect(service.exchangeBooking('booking-1', { userId, seatNumber: 8 })).rejects.toThrow('checked in');
+
+      expect(mockBookingRepository.releaseExchangedBooking).not.toHaveBeenCalled();
+    });
+
+    /**
+     * Should run the same seat checks as a new booking, leaving the old booking untouched if they fail.
+     */
+    it('should throw ConflictException if the new seat is taken', async () => {
+      mockBookingRepository.isSeatTaken.mockResolvedValue(true);
+
+      await expect(service.exchangeBooking('booking-1', { userId, seatNumber: 8 })).rejects.toThrow(ConflictException);
+      expect(mockBookingRepository.addNewBooking).not.toHaveBeenCalled();
+      expect(mockBookingEvents.emitSeatsReleased).not.toHaveBeenCalled();
+    });
+
+    /**
+     * Should throw ConflictException if the booking was cancelled or checked in meanwhile.
+     */
+    it('should throw ConflictException if the booking changed concurrently', async () => {
+      mockBookingRepository.releaseExchangedBooking.mockResolvedValue(null);
+
+      await expect(service.exchangeBooking('booking-1', { userId, seatNumber: 8 })).rejects.toThrow(ConflictException);
+      expect(mockBookingRepository.addNewBooking).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('addGroupBooking', () => {
+    const userId = 'abcabcab-1111-2222-3333-abcabcabcabc';
+
+    beforeEach(() => {
+      mockShowTimeRepository.fetchShowTimeById.mockResolvedValue({ id: 1, movieId: 2 });
+      mockMovieRepository.fetchMovieById.mockResolvedValue({ id: 2, title: 'Movie' });
+      mockBookingRepository.countOccupiedSeats.mockResolvedValue(10);
+    });
+
+    /**
+     * Should book every seat inside one transaction, in seat order.
+     */
+    it('should book all seats in one transaction', async () => {
+      mockBookingRepository.getTakenSeats.mockResolvedValue([]);
+      mockBookingRepository.addNewBooking
+        .mockResolvedValueOnce('booking-3')
+        .mockResolvedValueOnce('booking-4')
+        .mockResolvedValueOnce('booking-5');
+
+      const result = await service.addGroupBooking({ showtimeId: 1, seatNumbers: [5, 3, 4], userId });
+
+      expect(result.bookingIds).toEqual(['booking-3', 'booking-4', 'booking-5']);
+      expect(mockBookingRepository.runWithSeatLock).toHaveBeenCalledWith([1], expect.any(Function));
+      expect(mockBookingRepository.getTakenSeats).toHaveBeenCalledWith(1, [3, 4, 5], 'tx-manager');
+      expect(mockBookingRepository.addNewBooking).toHaveBeenCalledWith(expect.objectContaining({ showtimeId: 1, seatNumber: 3, userId }), 'tx-manager');
+    });
+
+    /**
+     * Should charge each seat the showtime's price for its category, falling back to the base price.
+     */
+    it('should price each seat by its category', async () => {
+      mockShowTimeRepository.fetchShowTimeById.mockResolvedValue({ id: 1, movieId: 2, theaterId: 3, price: 10, categoryPrices: { premium: 20, couple: 30 } });
+      mockTheaterRepository.fetchTheaterById.mockResolvedValue({
+        id: 3,
+        name: 'Hall 3',
+        rows: [
+          { label: 'A', seats: 2, category: SeatCategory.ACCESSIBLE },
+          { label: 'B', seats: 2, category: SeatCategory.PREMIUM, seatCategories: [{ seat: 1, category: SeatCategory.COUPLE }] },
+        ],
+        capacity: 4,
+      });
+      mockBookingRepository.getTakenSeats.mockResolvedValue([]);
+      mockBookingRepository.countOccupiedSeats.mockResolvedValue(0);
+      mockBookingRepository.addNewBooking
+        .mockResolvedValueOnce('booking-1')
+        .mockResolvedValueOnce('booking-3')
+        .mockResolvedValueOnce('booking-4');
+
+      const result = await service.addGroupBooking({ showtimeId: 1, seatLabels: ['A1', 'B1', 'B2'], userId });
+
+      expect(result.seats).toEqual([
+        expect.objectContaining({ bookingId: 'booking-1', seatNumber: 1, seatLabel: 'A1', seatCategory: SeatCategory.ACCESSIBLE, price: 10 }),
+        expect.objectContaining({ bookingId: 'booking-3', seatNumber: 3, seatLabel: 'B1', seatCategory: SeatCategory.COUPLE, price: 30 }),
+        expect.objectContaining({ bookingId: 'booking-4', seatNumber: 4, seatLabel: 'B2', seatCategory: SeatCategory.PREMIUM, price: 20 }),
+      ]);
+      expect(result.totalPrice).toBe(60);
+      expect(mockBookingRepository.addNewBooking).toHaveBeenCalledWith(
+        { showtimeId: 1, seatNumber: 3, userId, seatCategory: SeatCategory.COUPLE, price: 30, discount: 0, promoCode: null }, 'tx-manager');
+    });
+
+    /**
+     * Should check the user's ticket limits under the seat lock, counting the whole group.
+     */
+    it('should check the purchase limits for the whole group', async () => {
+      const showtime = { id: 1, movieId: 2, theaterId: 3, price: 10, categoryPrices: null };
+      mockShowTimeRepository.fetchShowTimeById.mockResolvedValue(showtime);
+      mockBookingRepository.getTakenSeats.mockResolvedValue([]);
+      mockBookingRepository.countOccupiedSeats.mockResolvedValue(0);
+      mockBookingRepository.countUserTickets.mockResolvedValue({ forShowtime: 2, today: 5 });
+      mockBookingRepository.addNewBooking.mockResolvedValueOnce('booking-1').mockResolvedValueOnce('booking-2');
+
+      await service.addGroupBooking({ showtimeId: 1, seatNumbers: [1, 2], userId });
+
+      expect(mockBookingRepository.lockUserPurchases).toHaveBeenCalledWith(userId, 'tx-manager');
+      expect(mockBookingRepository.countUserTickets).toHaveBeenCalledWith(userId, 1, 'tx-manager');
+      expect(mockPurchaseLimitService.assertWithinLimits).toHaveBeenCalledWith(userId, showtime, 2, { forShowtime: 2, today: 5 }, 'tx-manager');
+    });
+
+    /**
+     * Should book nothing when the user would go over a ticket limit.
+     */
+    it('should throw BadRequestException if a purchase limit is exceeded', async () => {
+      mockShowTimeRepository.fetchShowTimeById.mockResolvedValue({ id: 1, movieId: 2, theaterId: 3, price: 10, isPremiere: true });
+      mockBookingRepository.getTakenSeats.mockResolvedValue([]);
+      mockBookingRepository.countOccupiedSeats.mockResolvedValue(0);
+      mockPurchaseLimitService.assertWithinLimits.mockRejectedValue(new BadRequestException({
+        message: 'You can have at most 4 tickets for a premiere.', errorCode: PurchaseLimitErrorCode.PREMIERE_LIMIT, limit: 4, alreadyTaken: 3,
+      }));
+
+      const error = await service.addGroupBooking({ showtimeId: 1, seatNumbers: [1, 2], userId }).catch(e => e);
+
+      expect(error).toBeInstanceOf(BadRequestException);
+      expect(error.getResponse()).toEqual(expect.objectContaining({ errorCode: PurchaseLimitErrorCode.PREMIERE_LIMIT }));
+      expect(mockBookingRepository.addNewBooking).not.toHaveBeenCalled();
+    });
+
+    /**
+     * Should charge the dynamic price, based on the seats taken under the seat lock, when dynamic pricing is on.
+     */
+    it('should charge the dynamic price when dynamic pricing is enabled', async () => {
+      const showtime = {
+        id: 1, movieId: 2, theaterId: 3, price: 10, categoryPrices: { premium: 15 },
+        dynamicPricing: { enabled: true, floorMultiplier: 0.8, ceilingMultiplier: 1.5 },
+      };
+      mockShowTimeRepository.fetchShowTimeById.mockResolvedValue(showtime);
+      mockTheaterRepository.fetchTheaterById.mockResolvedValue({
+        id: 3, name: 'Hall 3', rows: [{ label: 'A', seats: 2 }, { label: 'B', seats: 2, category: SeatCategory.PREMIUM }], capacity: 4,
+      });
+      mockBookingRepository.getTakenSeats.mockResolvedValue([]);
+      mockBookingRepository.countOccupiedSeats.mockResolvedValue(2);
+      mockBookingRepository.addNewBooking.mockResolvedValueOnce('booking-1').mockResolvedValueOnce('booking-3');
+      mockPricingService.getPriceMultiplier.mockResolvedValue(1.25);
+
+      const result = await service.addGroupBooking({ showtimeId: 1, seatNumbers: [1, 3], userId });
+
+      expect(mockBookingRepository.countOccupiedSeats).toHaveBeenLastCalledWith(1, 'tx-manager');
+      expect(mockPricingService.getPriceMultiplier).toHaveBeenCalledWith(showtime, 2, 4);
+      expect(result.seats).toEqual([
+        expect.objectContaining({ seatNumber: 1, price: 12.5 }),
+        expect.objectContaining({ seatNumber: 3, price: 18.75 }),
+      ]);
+      expect(result.totalPrice).toBe(31.25);
+    });
+
+    /**
+     * Should charge the regular price without working out a multiplier when dynamic pricing is off.
+     */
+    it('should charge the regular price when dynamic pricing is disabled', async () => {
+      mockShowTimeRepository.fetchShowTimeById.mockResolvedValue({
+        id: 1, movieId: 2, theaterId: 3, price: 10, categoryPrices: null,
+        dynamicPricing: { enabled: false, floorMultiplier: 0.8, ceilingMultiplier: 1.5 },
+      });
+      mockBookingRepository.getTakenSeats.mockResolvedValue([]);
+      mockBookingRepository.countOccupiedSeats.mockResolvedValue(0);
+      mockBookingRepository.addNewBooking.mockResolvedValueOnce('booking-1');
+
+      const result = await service.addGroupBooking({ showtimeId: 1, seatNumbers: [1], userId });
+
+      expect(mockPricingService.getPriceMultiplier).not.toHaveBeenCalled();
+      expect(result.totalPrice).toBe(10);
+    });
+
+    /**
+     * Should charge each seat its price less the promo code's discount, and record the code's use.
+     */
+    it('should apply a promo code to the group', async () => {
+      const showtime = { id: 1, movieId: 2, theaterId: 3, price: 10, categoryPrices: null };
+      mockShowTimeRepository.fetchShowTimeById.mockResolvedValue(showtime);
+      mockBookingRepository.getTakenSeats.mockResolvedValue([]);
+      mockBookingRepository.addNewBooking.mockResolvedValueOnce('booking-1').mockResolvedValueOnce('booking-2');
+      mockPromoService.applyPromoCode.mockResolvedValue({ promoCodeId: 7, code: 'TWOFORONE', discounts: [10, 0] });
+
+      const result = await service.addGroupBooking({ showtimeId: 1, seatNumbers: [1, 2], userId, promoCode: 'twoforone' });
+
+      expect(mockPromoService.applyPromoCode).toHaveBeenCalledWith('twoforone', showtime, userId, [10, 10], 'tx-manager');
+      expect(result.seats).toEqual([
+        expect.objectContaining({ bookingId: 'booking-1', price: 0, discount: 10, promoCode: 'TWOFORONE' }),
+        expect.objectContaining({ bookingId: 'booking-2', price: 10, discount: 0, promoCode: 'TWOFORONE' }),
+      ]);
+      expect(result.totalPrice).toBe(10);
+      expect(result.totalDiscount).toBe(10);
+      expect(mockBookingRepository.addNewBooking).toHaveBeenCalledWith(
+        expect.objectContaining({ seatNumber: 1, price: 0, discount: 10, promoCode: 'TWOFORONE' }), 'tx-manager');
+      expect(mockPromoService.recordRedemption).toHaveBeenCalledWith(7, userId, ['booking-1', 'booking-2'], 'tx-manager');
+    });
+
+    /**
+     * Should book nothing if the promo code cannot be used.
+     */
+    it('should throw BadRequestException if the promo code is not valid', async () => {
+      mockShowTimeRepository.fetchShowTimeById.mockResolvedValue({ id: 1, movieId: 2, theaterId: 3, price: 10 });
+      mockBookingRepository.getTakenSeats.mockResolvedValue([]);
+      mockPromoService.applyPromoCode.mockRejectedValue(new BadRequestException('Promo code EXPIRED has expired.'));
+
+      await expect(service.addGroupBooking({ showtimeId: 1, seatNumbers: [1, 2], userId, promoCode: 'EXPIRED' })).rejects.toThrow(BadRequestException);
+      expect(mockBookingRepository.addNewBooking).not.toHaveBeenCalled();
+      expect(mockPromoService.recordRedemption).not.toHaveBeenCalled();
+    });
+
+    /**
+     * Should resolve seat labels through the theater's layout.
+     */
+    it('should book seats picked by label', async () => {
+      mockBookingRepository.getTakenSeats.mockResolvedValue([]);
+      mockBookingRepository.addNewBooking.mockResolvedValueOnce('booking-10').mockResolvedValueOnce('booking-11');
+
+      const result = await service.addGroupBooking({ showtimeId: 1, seatLabels: ['B1', 'A10'], userId });
+
+      expect(result.bookingIds).toEqual(['booking-10', 'booking-11']);
+      expect(mockBookingRepository.getTakenSeats).toHaveBeenCalledWith(1, [10, 11], 'tx-manager');
+    });
+
+    /**
+     * Should book nothing and report exactly which seats conflicted.
+     */
+    it('should report conflicting seats and book none', async () => {
+      mockBookingRepository.getTakenSeats.mockResolvedValue([4, 6]);
+
+      const error = await service.addGroupBooking({ showtimeId: 1, seatNumbers: [3, 4, 5, 6], userId }).catch(e => e);
+
+      expect(error).toBeInstanceOf(ConflictException);
+      expect(error.getResponse()).toEqual(expect.objectContaining({ conflictingSeats: [4, 6] }));
+      expect(mockBookingRepository.addNewBooking).not.toHaveBeenCalled();
+    });
+
+    /**
+     * Should throw BadRequestException if not enough seats are left for the whole group.
+     */
+    it('should throw BadRequestException if not enough seats are left', async () => {
+      mockBookingRepository.getTakenSeats.mockResolvedValue([]);
+      mockBookingRepository.countOccupiedSeats.mockResolvedValue(18);
+
+      await expect(service.addGroupBooking({ showtimeId: 1, seatNumbers: [1, 2, 3], userId })).rejects.toThrow(BadRequestException);
+      expect(mockBookingRepository.addNewBooking).not.toHaveBeenCalled();
+    });
+
+    /**
+     * Should throw NotFoundException if the showtime does not exist.
+     */
+    it('should throw NotFoundException if showtime not found', async () => {
+      mockShowTimeRepository.fetchShowTimeById.mockResolvedValue(null);
+
+      await expect(service.addGroupBooking({ showtimeId: 1, seatNumbers: [1], userId })).rejects.toThrow(NotFoundException);
+      expect(mockBookingRepository.runWithSeatLock).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('placeSeatHold', () => {
+    const userId = 'abcabcab-1111-2222-3333-abcabcabcabc';
+
+    beforeEach(() => {
+      mockShowTimeRepository.fetchShowTimeById.mockResolvedValue({ id: 1, movieId: 2 });
+      mockMovieRepository.fetchMovieById.mockResolvedValue({ id: 2, title: 'Movie' });
+      mockBookingRepository.countOccupiedSeats.mockResolvedValue(0);
+      mockBookingRepository.getTakenSeats.mockResolvedValue([]);
+    });
+
+    /**
+     * Should hold every requested seat under one token with an expiry in the future.
+     */
+    it('should place a hold on free seats', async () => {
+      const result = await service.placeSeatHold({ showtimeId: 1, seatNumbers: [5, 4], userId });
+
+      expect(result.seatNumbers).toEqual([4, 5]);
+      expect(result.holdToken).toEqual(expect.any(String));
+      expect(result.expiresAt.getTime()).toBeGreaterThan(Date.now());
+      expect(mockSeatHoldRepository.addSeatHolds).toHaveBeenCalledWith(result.holdToken, 1, userId, [4, 5], result.expiresAt, 'tx-manager');
+    });
+
+    /**
+     * Should throw ConflictException if one of the seats is already booked or held.
+     */
+    it('should throw ConflictException if a seat is taken', async () => {
+      mockBookingRepository.getTakenSeats.mockResolvedValue([5]);
+
+      await expect(service.placeSeatHold({ showtimeId: 1, seatNumbers: [4, 5], userId })).rejects.toThrow(ConflictException);
+      expect(mockSeatHoldRepository.addSeatHolds).not.toHaveBeenCalled();
+    });
+
+    /**
+     * Should throw BadRequestException if the theater is full.
+     */
+    it('should throw BadRequestException if theater is full', async () => {
+      mockBookingRepository.countOccupiedSeats.mockResolvedValue(100);
+
+      await expect(service.placeSeatHold({ showtimeId: 1, seatNumbers: [4], userId })).rejects.toThrow(BadRequestException);
+    });
+
+    /**
+     * Should leave blocked seats out of the seats left for sale.
+     */
+    it('should not count blocked seats as seats left', async () => {
+      mockBookingRepository.countOccupiedSeats.mockResolvedValue(15);
+      mockBookingRepository.countBlockedSeats.mockResolvedValue(4);
+
+      await expect(service.placeSeatHold({ showtimeId: 1, seatNumbers: [4, 5], userId }))
+        .rejects.toThrow('Only 1 seats are left for this showtime, but 2 were requested.');
+    });
+
+    /**
+     * Should report the blocked seats among the requested ones.
+     */
+    it('should throw BadRequestException listing blocked seats', async () => {
+      mockBookingRepository.getBlockedSeats.mockResolvedValue([5]);
+
+      await expect(service.placeSeatHold({ showtimeId: 1, seatNumbers: [4, 5], userId })).rejects.toMatchObject({
+        response: { conflictingSeats: [5] },
+      });
+      expect(mockSeatHoldRepository.addSeatHolds).not.toHaveBeenCalled();
+    });
+
+    /**
+     * Should throw NotFoundException if the showtime does not exist.
+     */
+    it('should throw NotFoundException if showtime not found', async () => {
+      mockShowTimeRepository.fetchShowTimeById.mockResolvedValue(null);
+
+      await expect(service.placeSeatHold({ showtimeId: 1, seatNumbers: [4], userId })).rejects.toThrow(NotFoundException);
+    });
+  });
+
+  describe('confirmSeatHold', () => {
+    const userId = 'abcabcab-1111-2222-3333-abcabcabcabc';
+    const heldSeats = [
+      { holdToken: 'hold-1', showtimeId: 1, seatNumber: 4, userId },
+      { holdToken: 'hold-1', showtimeId: 1, seatNumber: 5, userId },
+    ];
+
+    /**
+     * Should book every held seat and release the hold.
+     */
+    it('should confirm a live hold into bookings', async () => {
+      mockSeatHoldRepository.fetchLiveHold.mockResolvedValue(heldSeats);
+      mockShowTimeRepository.fetchShowTimeById.mockResolvedValue({ id: 1, movieId: 2 });
+      mockMovieRepository.fetchMovieById.mockResolvedValue({ id: 2, title: 'Movie' });
+      mockBookingRepository.addNewBooking.mockResolvedValueOnce('booking-4').mockResolvedValueOnce('booking-5');
+
+      const result = await service.confirmSeatHold('hold-1', userId);
+
+      expect(result.bookingIds).toEqual(['booking-4', 'booking-5']);
+      expect(mockSeatHoldRepository.deleteHold).toHaveBeenCalledWith('hold-1', 'tx-manager');
+      expect(mockBookingEvents.emitHoldConfirmed).toHaveBeenCalledWith({ holdToken: 'hold-1', showtimeId: 1, bookingIds: ['booking-4', 'booking-5'] });
+    });
+
+    /**
+     * Should not book anything if the hold expired while waiting for the seat lock.
+     */
+    it('should throw NotFoundException if hold expires before the lock is taken', async () => {
+      mockSeatHoldRepository.fetchLiveHold.mockResolvedValueOnce(heldSeats).mockResolvedValueOnce([]);
+      mockShowTimeRepository.fetchShowTimeById.mockResolvedValue({ id: 1, movieId: 2 });
+      mockMovieRepository.fetchMovieById.mockResolvedValue({ id: 2, title: 'Movie' });
+
+      await expect(service.confirmSeatHold('hold-1', userId)).rejects.toThrow(NotFoundException);
+      expect(mockBookingRepository.addNewBooking).not.toHaveBeenCalled();
+    });
+
+    /**
+     * Should throw NotFoundException if the hold is unknown or has expired.
+     */
+    it('should throw NotFoundException if hold expired', async () => {
+      mockSeatHoldRepository.fetchLiveHold.mockResolvedValue([]);
+
+      await expect(service.confirmSeatHold('hold-1', userId)).rejects.toThrow(NotFoundException);
+      expect(mockBookingRepository.addNewBooking).not.toHaveBeenCalled();
+    });
+
+    /**
+     * Should throw BadRequestException if another user tries to confirm the hold.
+     */
+    it('should throw BadRequestException if hold belongs to another user', async () => {
+      mockSeatHoldRepository.fetchLiveHold.mockResolvedValue(heldSeats);
+
+      await expect(service.confirmSeatHold('hold-1', 'ffffffff-1111-2222-3333-abcabcabcabc')).rejects.toThrow(BadRequestException);
+      expect(mockSeatHoldRepository.deleteHold).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('releaseSeatHold', () => {
+    /**
+     * Should delete a live hold and announce its seats.
+     */
+    it('should release a live hold', async () => {
+      mockSeatHoldRepository.fetchLiveHold.mockResolvedValue([
+        { holdToken: 'hold-1', showtimeId: 1, seatNumber: 4 },
+        { holdToken: 'hold-1', showtimeId: 1, seatNumber: 5 },
+      ]);
+
+      await expect(service.releaseSeatHold('hold-1')).resolves.toBeUndefined();
+      expect(mockSeatHoldRepository.deleteHold).toHaveBeenCalledWith('hold-1');
+      expect(mockBookingEvents.emitSeatsReleased).toHaveBeenCalledWith({ showtimeId: 1, seatNumbers: [4, 5] });
+    });
+
+    /**
+     * Should throw NotFoundException if the hold is unknown or has expired.
+     */
+    it('should throw NotFoundException if hold expired', async () => {
+      mockSeatHoldRepository.fetchLiveHold.mockResolvedValue([]);
+
+      await expect(service.releaseSeatHold('hold-1')).rejects.toThrow(NotFoundException);
+      expect(mockSeatHoldRepository.deleteHold).not.toHaveBeenCalled();
+      expect(mockBookingEvents.emitSeatsReleased).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('releaseExpiredHolds', () => {
+    /**
+     * Should report how many seats were released and announce them per showtime.
+     */
+    it('should release expired holds', async () => {
+      mockSeatHoldRepository.releaseExpiredHolds.mockResolvedValue([
+        { showtimeId: 1, seatNumber: 1 },
+        { showtimeId: 1, seatNumber: 2 },
+        { showtimeId: 2, seatNumber: 9 },
+      ]);
+
+      await expect(service.releaseExpiredHolds()).resolves.toBe(3);
+      expect(mockBookingEvents.emitSeatsReleased).toHaveBeenCalledWith({ showtimeId: 1, seatNumbers: [1, 2] });
+      expect(mockBookingEvents.emitSeatsReleased).toHaveBeenCalledWith({ showtimeId: 2, seatNumbers: [9] });
+    });
+  });
+
+  describe('getSeatMap', () => {
+    /**
+     * Should return every seat with its state and the totals per state.
+     */
+    it('should build the seat map with totals', async () => {
+      const seats = [
+        { seatNumber: 1, state: SeatState.BOOKED },
+        { seatNumber: 2, state: SeatState.HELD },
+        { seatNumber: 3, state: SeatState.AVAILABLE },
+        { seatNumber: 4, state: SeatState.AVAILABLE },
+      ];
+      mockShowTimeRepository.fetchShowTimeById.mockResolvedValue({ id: 1, movieId: 2, theaterId: 3, price: 10, categoryPrices: { premium: 15 } });
+      mockTheaterRepository.fetchTheaterById.mockResolvedValue({
+        id: 3,
+        name: 'Small',
+        rows: [{ label: 'A', seats: 2 }, { label: 'B', seats: 2, category: SeatCategory.PREMIUM }],
+        capacity: 4,
+      });
+      mockBookingRepository.getSeatStates.mockResolvedValue(seats);
+
+      const result = await service.getSeatMap(1);
+
+      expect(mockBookingRepository.getSeatStates).toHaveBeenCalledWith(1, 4);
+      expect(result).toEqual({
+        showtimeId: 1,
+        theaterId: 3,
+        seats: [
+          { seatNumber: 1, seatLabel: 'A1', seatCategory: SeatCategory.STANDARD, price: 10, state: SeatState.BOOKED },
+          { seatNumber: 2, seatLabel: 'A2', seatCategory: SeatCategory.STANDARD, price: 10, state: SeatState.HELD },
+          { seatNumber: 3, seatLabel: 'B1', seatCategory: SeatCategory.PREMIUM, price: 15, state: SeatState.AVAILABLE },
+          { seatNumber: 4, seatLabel: 'B2', seatCategory: SeatCategory.PREMIUM, price: 15, state: SeatState.AVAILABLE },
+        ],
+        totals: { capacity: 4, sellableCapacity: 4, available: 2, booked: 1, held: 1, blocked: 0 },
+      });
+    });
+
+    /**
+     * Should throw NotFoundException if the showtime does not exist.
+     */
+    it('should throw NotFoundException if showtime not found', async () => {
+      mockShowTimeRepository.fetchShowTimeById.mockResolvedValue(null);
+
+      await expect(service.getSeatMap(1)).rejects.toThrow(NotFoundException);
+      expect(mockBookingRepository.getSeatStates).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('findBestSeats', () => {
+    beforeEach(() => {
+      mockShowTimeRepository.fetchShowTimeById.mockResolvedValue({ id: 1, movieId: 2, theaterId: 3, price: 10, categoryPrices: null });
+      mockMovieRepository.fetchMovieById.mockResolvedValue({ id: 2, title: 'Movie' });
+    });
+
+    /**
+     * Should suggest the best block of adjacent free seats, priced, without booking it.
+     */
+    it('should suggest the best adjacent seats with their prices', async () => {
+      // Row B is sold out and row A is taken up to seat 5; seats 7-8 would strand seat 6.
+      mockBookingRepository.getTakenSeats.mockResolvedValue([1, 2, 3, 4, 5, 11, 12, 13, 14, 15, 16, 17, 18, 19, 20]);
+
+      const result = await service.findBestSeats(1, 2);
+
+      expect(mockBookingRepository.getTakenSeats).toHaveBeenCalledWith(1, Array.from({ length: 20 }, (_, index) => index + 1), undefined);
+      expect(result).toEqual({
+        showtimeId: 1,
+        rowLabel: 'A',
+        seats: [
+          { seatNumber: 6, seatLabel: 'A6', seatCategory: SeatCategory.STANDARD, price: 10 },
+          { seatNumber: 7, seatLabel: 'A7', seatCategory: SeatCategory.STANDARD, price: 10 },
+        ],
+        totalPrice: 20,
+      });
+      expect(mockBookingRepository.addNewBooking).not.toHaveBeenCalled();
+    });
+
+    /**
+     * Should throw BadRequestException, as bookBestSeats does, if no block of adjacent free seats fits the party.
+     */
+    it('should throw BadRequestException if no block fits the party', async () => {
+      mockBookingRepository.getTakenSeats.mockResolvedValue([]);
+
+      await expect(service.findBestSeats(1, 11)).rejects.toThrow(BadRequestException);
+    });
+
+    /**
+     * Should throw BadRequestException if the party size is not at least 1.
+     */
+    it('should throw BadRequestException for an empty party', async () => {
+      await expect(service.findBestSeats(1, 0)).rejects.toThrow(BadRequestException);
+      expect(mockShowTimeRepository.fetchShowTimeById).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('bookBestSeats', () => {
+    const userId = 'abcabcab-1111-2222-3333-abcabcabcabc';
+    const showtime = { id: 1, movieId: 2, theaterId: 3, price: 10, categoryPrices: null };
+
+    beforeEach(() => {
+      mockShowTimeRepository.fetchShowTimeById.mockResolvedValue(showtime);
+      mockMovieRepository.fetchMovieById.mockResolvedValue({ id: 2, title: 'Movie' });
+    });
+
+    /**
+     * Should pick and book the block under the seat lock, checking the limits for the whole party.
+     */
+    it('should book the best block in one transaction', async () => {
+      mockBookingRepository.getTakenSeats.mockResolvedValue([]);
+      mockBookingRepository.addNewBooking
+        .mockResolvedValueOnce('booking-5')
+        .mockResolvedValueOnce('booking-6');
+
+      const result = await service.bookBestSeats({ showtimeId: 1, partySize: 2, userId });
+
+      expect(mockBookingRepository.getTakenSeats).toHaveBeenCalledWith(1, expect.any(Array), 'tx-manager');
+      expect(mockPurchaseLimitService.assertWithinLimits).toHaveBeenCalledWith(userId, showtime, 2, { forShowtime: 0, today: 0 }, 'tx-manager');
+      expect(result.bookingIds).toEqual(['booking-5', 'booking-6']);
+      expect(result.seats.map(seat => seat.seatLabel)).toEqual(['A5', 'A6']);
+      expect(mockBookingRepository.addNewBooking).toHaveBeenCalledWith(expect.objectContaining({ seatNumber: 5, userId }), 'tx-manager');
+    });
+
+    /**
+     * Should throw BadRequestException, booking nothing, if no block fits the party.
+     */
+    it('should throw BadRequestException if no block fits the party', async () => {
+      mockBookingRepository.getTakenSeats.mockResolvedValue([5, 15]);
+
+      await expect(service.bookBestSeats({ showtimeId: 1, partySize: 6, userId })).rejects.toThrow(BadRequestException);
+      expect(mockBookingRepository.addNewBooking).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('getBookingHistory', () => {
+    const userId = 'abcabcab-1111-2222-3333-abcabcabcabc';
+
+    /**
+     * Should page through the user's bookings and nest showtime, theater and movie details.
+     */
+    it('should return a page of bookings with showtime and movie details', async () => {
+      const row = {
+        bookingId: 'booking-1',
+        status: BookingStatus.CONFIRMED,
+        seatNumber: 12,
+        seatCategory: SeatCategory.STANDARD,
+        price: 10,
+        createdAt: new Date('2025-01-01T09:00:00Z'),
+        cancelledAt: null,
+        showtimeId: 1,
+        startTime: '2025-01-02T10:00:00Z',
+        endTime: '2025-01-02T12:00:00Z',
+        theaterId: 3,
+        theaterName: 'Hall 3',
+        theaterRows: theater.rows,
+        movieId: 2,
+        movieTitle: 'Movie',
+      };
+      mockBookingRepository.getBookingsForUser.mockResolvedValue({ rows: [row], total: 21 });
+
+      const result = await service.getBookingHistory(userId, BookingHistoryFilter.UPCOMING, 3, 10);
+
+      expect(mockBookingRepository.getBookingsForUser).toHaveBeenCalledWith(userId, BookingHistoryFilter.UPCOMING, 10, 20);
+      expect(result).toEqual({
+        items: [{
+          bookingId: 'booking-1',
+          status: BookingStatus.CONFIRMED,
+          seatNumber: 12,
+          seatLabel: 'B2',
+          seatCategory: SeatCategory.STANDARD,
+          price: 10,
+          createdAt: row.createdAt,
+          cancelledAt: null,
+          showtime: { id: 1, startTime: row.startTime, endTime: row.endTime, theater: { id: 3, name: 'Hall 3' } },
+          movie: { id: 2, title: 'Movie' },
+        }],
+        page: 3,
+        limit: 10,
+        total: 21,
+      });
+    });
+
+    /**
+     * Should reject a page below 1 or a limit outside 1–100 without querying.
+     */
+    it('should throw BadRequestException for an invalid page or limit', async () => {
+      await expect(service.getBookingHistory(userId, BookingHistoryFilter.ALL, 0, 10)).rejects.toThrow(BadRequestException);
+      await expect(service.getBookingHistory(userId, BookingHistoryFilter.ALL, 1, 101)).rejects.toThrow(BadRequestException);
+      expect(mockBookingRepository.getBookingsForUser).not.toHaveBeenCalled();
+    });
+  });
 });
@@ -2,45 +2,110 @@
  * booking.service.ts
  *
  * This service handles the business logic for booking seats in the movie showtime system.
- * It verifies:
- * - The showtime exists
- * - The movie for that showtime exists
- * - The seat is not already booked
- * - The theater is not full (100 seats max)
- * - The same user hasn't already booked the same seat
- * 
- * If all checks pass, a new booking is inserted into the database.
+ * Before taking a seat it verifies that:
+ * - The showtime, its movie and its theater exist, and the showtime was not cancelled
+ * - Tickets are on sale: sales have opened and the cutoff has not passed (see salesWindow.ts)
+ * - The seat exists in the theater's layout (by number or by label, e.g. "F12"), is free
+ *   and is not blocked by an administrator (see BlockedSeatService)
+ * - The user stays within the ticket limits per customer (see PurchaseLimitService)
+ *
+ * New bookings are pending payment until paid (see PaymentService). Each seat is charged the
+ * showtime's price for its category, adjusted by dynamic pricing (see PricingService) and any
+ * promo code (see PromoService), and comes with a signed ticket token (see TicketTokenService).
+ *
+ * Seats can be booked one at a time, as an all-or-nothing group, as the best block of adjacent
+ * seats for a party (see seatFinder.ts), or held for a few minutes during checkout and then
+ * confirmed; expired holds are swept periodically. Customers can also look up, cancel and
+ * exchange their bookings, browse their booking history and view a showtime's seat map.
+ *
+ * Every path that takes seats runs its checks and inserts under the showtime's seat lock
+ * (see BookingRepository.runWithSeatLock). Seats coming back on sale and confirmed holds are
+ * announced through BookingEvents, so the waitlist can offer them to the next customer.
  */
 
-import { Injectable, BadRequestException, NotFoundException, Inject } from '@nestjs/common';
+import { Injectable, BadRequestException, NotFoundException, ConflictException, Inject, OnModuleInit, OnModuleDestroy } from '@nestjs/common';
+import { randomUUID } from 'crypto';
+import { EntityManager } from 'typeorm';
 import { BookingRepository } from './booking.repository';
+import { BookingEvents } from './booking.events';
+import { TicketTokenService } from './ticketToken.service';
+import { SeatHoldRepository } from './seatHold.repository';
 import { ShowTimeRepository } from 'src/showTime/showTime.repository';
 import { MovieRepository } from 'src/movie/movie.repository';
-import { BookingDto } from './booking.dto';
-import { Booking } from './booking.entity';
+import { TheaterRepository } from 'src/theater/theater.repository';
+import { PromoService } from 'src/promo/promo.service';
+import { PricingService } from 'src/pricing/pricing.service';
+import { PurchaseLimitService } from 'src/purchaseLimit/purchaseLimit.service';
+import { ShowTime } from 'src/showTime/showTime.entity';
+import { assertSalesOpen } from 'src/showTime/salesWindow';
+import { Theater, SeatCategory } from 'src/theater/theater.entity';
+import { getSeatCategory, getSeatLabel, resolveSeatNumbers } from 'src/theater/theater.layout';
+import { BookingDto, GroupBookingDto, BookedSeatDto, GroupBookingResultDto, TicketDto, ExchangeBookingDto, ExchangeResultDto } from './booking.dto';
+import { SeatHoldDto } from './seatHold.dto';
+import { BestSeatsBookingDto, BestSeatsDto } from './bestSeats.dto';
+import { findBestSeatBlock, SeatBlock } from './seatFinder';
+import { SeatMapDto, SeatState } from './seatMap.dto';
+import { BookingHistoryDto, BookingHistoryFilter } from './bookingHistory.dto';
+import { Booking, BookingStatus } from './booking.entity';
+import { SEAT_HOLD_MINUTES, SEAT_HOLD_SWEEP_INTERVAL_MS } from './booking.constants';
 
 @Injectable()
-export class BookingService {
+export class BookingService implements OnModuleInit, OnModuleDestroy {
+  private holdSweeper: NodeJS.Timeout | null = null;
+
   constructor(
     private readonly bookingRepository: BookingRepository,
+    private readonly seatHoldRepository: SeatHoldRepository,
+    private readonly bookingEvents: BookingEvents,
+    private readonly ticketTokenService: TicketTokenService,
+    private readonly promoService: PromoService,
+    private readonly pricingService: PricingService,
+    private readonly purchaseLimitService: PurchaseLimitService,
     @Inject('ShowTimeRepository') private readonly showTimeRepository: ShowTimeRepository,
     @Inject('MovieRepository') private readonly movieRepository: MovieRepository,
+    @Inject('TheaterRepository') private readonly theaterRepository: TheaterRepository,
   ) {}
 
   /**
-   * Creates and stores a new booking after validating all business constraints.
-   * 
-   * @param data - Booking data (showtimeId, seatNumber, userId)
-   * @returns the bookingId (UUID) of the newly created booking
+   * Starts the periodic sweep of expired seat holds.
    */
-  async addNewBooking(data: BookingDto): Promise<{ bookingId: string }> {
-    const { showtimeId, seatNumber, userId } = data;
+  onModuleInit(): void {
+    this.holdSweeper = setInterval(() => {
+      this.releaseExpiredHolds().catch(error => console.error('Failed to sweep expired seat holds:', error));
+    }, SEAT_HOLD_SWEEP_INTERVAL_MS);
+  }
 
+  /**
+   * Stops the periodic sweep of expired seat holds.
+   */
+  onModuleDestroy(): void {
+    if (this.holdSweeper) {
+      clearInterval(this.holdSweeper);
+      this.holdSweeper = null;
+    }
+  }
+
+  /**
+   * Validates that the showtime, its movie and its theater exist, and that tickets to the showtime are on sale.
+   * 
+   * @param showtimeId - The showtime ID
+   * @returns the showtime and the theater it runs in
+   * @throws NotFoundException if the showtime, its movie or its theater does not exist
+   * @throws BadRequestException if the showtime was cancelled
+   * @throws BadRequestException with an `errorCode` if ticket sales have not opened yet or have closed
+   */
+  private async fetchBookableShowTime(showtimeId: number): Promise<{ showtime: ShowTime; theater: Theater }> {
     // Validate showtime
     const showtime = await this.showTimeRepository.fetchShowTimeById(showtimeId);
     if (!showtime) {
       throw new NotFoundException(`Showtime with ID ${showtimeId} not found.`);
     }
+    if (showtime.cancelledAt) {
+      throw new BadRequestException(`Showtime ${showtimeId} was cancelled: ${showtime.cancellationReason}`);
+    }
+
+    // Validate that tickets are on sale
+    assertSalesOpen(showtime);
 
     // Validate movie associated with the showtime
     const movie = await this.movieRepository.fetchMovieById(showtime.movieId); 
@@ -48,33 +113,652 @@ export class BookingService {
       throw new NotFoundException(`Movie with ID ${showtime.movieId} not found.`);
     }
 
-    // Check if the theater is full (100 seats max)
-    const isFull = await this.bookingRepository.isTheaterFull(showtimeId);
+    // Validate theater the showtime runs in
+    const theater = await this.theaterRepository.fetchTheaterById(showtime.theaterId);
+    if (!theater) {
+      throw new NotFoundException(`Theater with ID ${showtime.theaterId} not found.`);
+    }
+
+    return { showtime, theater };
+  }
+
+  /**
+   * Returns the showtime's price for a seat category, falling back to the showtime's base price,
+   * times the dynamic pricing multiplier.
+   */
+  private getSeatPrice(showtime: ShowTime, seatCategory: SeatCategory, multiplier = 1): number {
+    const regularPrice = showtime.categoryPrices?.[seatCategory] ?? showtime.price;
+    return Math.round(regularPrice * multiplier * 100) / 100;
+  }
+
+  /**
+   * Works out the showtime's dynamic pricing multiplier from the seats booked or held so far,
+   * out of the seats that are not blocked. Returns 1 if dynamic pricing is off for the showtime.
+   * 
+   * @param showtime - The showtime being sold
+   * @param capacity - Number of seats in the showtime's theater
+   * @param manager - Optional transactional EntityManager, to count seats under the seat lock
+   */
+  private async getPriceMultiplier(showtime: ShowTime, capacity: number, manager?: EntityManager): Promise<number> {
+    if (!showtime.dynamicPricing?.enabled) {
+      return 1;
+    }
+
+    const occupiedSeats = await this.bookingRepository.countOccupiedSeats(showtime.id, manager);
+    const blockedSeats = await this.bookingRepository.countBlockedSeats(showtime.id, capacity, manager);
+    return await this.pricingService.getPriceMultiplier(showtime, occupiedSeats, capacity - blockedSeats);
+  }
+
+  /**
+   * Inserts one booking per seat for the user, charging each seat the showtime's price
+   * for its category (or the showtime's base price if the category has none), adjusted by
+   * dynamic pricing, less the promo code's discount if one is given.
+   * 
+   * @param showtime - The showtime being booked
+   * @param theater - The theater the showtime runs in
+   * @param userId - UUID of the user booking the seats
+   * @param seatNumbers - The seats to book, in the order to book them
+   * @param manager - The transactional EntityManager
+   * @param promoCode - Optional promo code to apply to the seats
+   * @returns the booked seats with their category and price, and the total price and discount
+   * @throws BadRequestException if the promo code cannot be used for this booking
+   */
+  private async insertBookings(
+    showtime: ShowTime,
+    theater: Theater,
+    userId: string,
+    seatNumbers: number[],
+    manager: EntityManager,
+    promoCode?: string): Promise<GroupBookingResultDto> {
+    const seatCategories = seatNumbers.map(seatNumber => getSeatCategory(theater.rows, seatNumber));
+    const multiplier = await this.getPriceMultiplier(showtime, theater.capacity, manager);
+    const basePrices = seatCategories.map(seatCategory => this.getSeatPrice(showtime, seatCategory, multiplier));
+
+    const promo = promoCode
+      ? await this.promoService.applyPromoCode(promoCode, showtime, userId, basePrices, manager)
+      : null;
+
+    const seats: BookedSeatDto[] = [];
+    for (const [index, seatNumber] of seatNumbers.entries()) {
+      const seatCategory = seatCategories[index];
+      const discount = promo?.discounts[index] ?? 0;
+      const price = Math.round((basePrices[index] - discount) * 100) / 100;
+
+      const booking: Booking = {
+        showtimeId: showtime.id,
+        seatNumber,
+        userId,
+        seatCategory,
+        price,
+        discount,
+        promoCode: promo?.code ?? null
+      } as Booking;
+
+      const bookingId = await this.bookingRepository.addNewBooking(booking, manager);
+      seats.push({
+        bookingId,
+        seatNumber,
+        seatLabel: getSeatLabel(theater.rows, seatNumber),
+        seatCategory,
+        price,
+        discount,
+        promoCode: promo?.code ?? null,
+        ticketToken: this.ticketTokenService.sign({ bookingId, showtimeId: showtime.id, seatNumber }),
+      });
+    }
+
+    if (promo) {
+      await this.promoService.recordRedemption(promo.promoCodeId, userId, seats.map(seat => seat.bookingId), manager);
+    }
+
+    return {
+      bookingIds: seats.map(seat => seat.bookingId),
+      seats,
+      totalPrice: Math.round(seats.reduce((total, seat) => total + seat.price, 0) * 100) / 100,
+      totalDiscount: Math.round(seats.reduce((total, seat) => total + seat.discount, 0) * 100) / 100,
+    };
+  }
+
+  /**
+   * Creates and stores a new booking after validating all business constraints.
+   * The checks and the insert run under the showtime's seat lock, so concurrent
+   * requests cannot both take the same seat or overfill the theater.
+   * 
+   * @param data - Booking data (showtimeId, seatNumber or seatLabel, userId, optional promoCode)
+   * @returns the bookingId (UUID) of the newly created booking, with the seat's category, price and discount
+   * @throws BadRequestException with an `errorCode` if the user would go over a ticket limit
+   * @throws ConflictException if the seat was taken concurrently
+   */
+  async addNewBooking(data: BookingDto): Promise<BookedSeatDto> {
+    const { showtimeId, userId } = data;
+
+    const { showtime, theater } = await this.fetchBookableShowTime(showtimeId);
+    const [seatNumber] = resolveSeatNumbers(
+      theater,
+      data.seatNumber === undefined ? undefined : [data.seatNumber],
+      data.seatLabel === undefined ? undefined : [data.seatLabel]);
+
+    return await this.bookingRepository.runWithSeatLock([showtimeId], async (manager) => {
+      await this.assertSeatBookable(showtimeId, seatNumber, userId, theater.capacity, manager);
+      await this.assertWithinPurchaseLimits(showtime, userId, 1, manager);
+
+      // Create and insert booking
+      const { seats } = await this.insertBookings(showtime, theater, userId, [seatNumber], manager, data.promoCode);
+      return seats[0];
+    });
+  }
+
+  /**
+   * Checks, inside a seat-locked transaction, that a single seat can be booked by the user.
+   * 
+   * @param showtimeId - The showtime ID
+   * @param seatNumber - The requested seat
+   * @param userId - UUID of the user booking the seat
+   * @param capacity - Number of seats in the showtime's theater
+   * @param manager - The transactional EntityManager
+   * @throws BadRequestException if the theater is full, the user already booked the seat,
+   * or the seat is blocked
+   * @throws ConflictException if the seat is already booked or held
+   */
+  private async assertSeatBookable(showtimeId: number, seatNumber: number, userId: string, capacity: number, manager: EntityManager): Promise<void> {
+    // Check if the theater is full
+    const isFull = await this.bookingRepository.isTheaterFull(showtimeId, capacity, manager);
     if (isFull) {
-      throw new BadRequestException(`The theater is full. No seats available for this showtime.`);
+      throw new BadRequestException(`The theater is full. No seats available for this showtime. Join the waitlist to get the next free seat.`);
     }
 
     // Check if this user already booked this seat
-    const allBookings = await this.bookingRepository.getBookingsForShowTime(showtimeId);
+    const allBookings = await this.bookingRepository.getBookingsForShowTime(showtimeId, manager);
     const duplicate = allBookings.find(b => b.userId === userId && b.seatNumber === seatNumber);
     if (duplicate) {
       throw new BadRequestException(`User has already booked seat ${seatNumber} for this showtime.`);
     }
 
-    // Check if seat is already taken
-    const isTaken = await this.bookingRepository.isSeatTaken(showtimeId, seatNumber);
+    // Check if the seat is blocked by an administrator
+    const blockedSeats = await this.bookingRepository.getBlockedSeats(showtimeId, [seatNumber], manager);
+    if (blockedSeats.length > 0) {
+      throw new BadRequestException(`Seat number ${seatNumber} is not for sale for this showtime.`);
+    }
+
+    // Check if seat is already taken (booked or held)
+    const isTaken = await this.bookingRepository.isSeatTaken(showtimeId, seatNumber, manager);
     if (isTaken) {
-      throw new BadRequestException(`Seat number ${seatNumber} is already booked for this showtime.`);
+      throw new ConflictException(`Seat number ${seatNumber} is already booked for this showtime.`);
+    }
+  }
+
+  /**
+   * Checks, inside a seat-locked transaction, that the user can take the requested number of
+   * seats without going over their ticket limits. Locks the user's purchases first, so the
+   * daily limit holds across showtimes.
+   * 
+   * @param showtime - The showtime being booked
+   * @param userId - UUID of the user booking or holding the seats
+   * @param requested - The number of seats requested
+   * @param manager - The transactional EntityManager
+   * @throws BadRequestException with an `errorCode` if a limit would be exceeded
+   */
+  private async assertWithinPurchaseLimits(showtime: ShowTime, userId: string, requested: number, manager: EntityManager): Promise<void> {
+    await this.bookingRepository.lockUserPurchases(userId, manager);
+    const counts = await this.bookingRepository.countUserTickets(userId, showtime.id, manager);
+    await this.purchaseLimitService.assertWithinLimits(userId, showtime, requested, counts, manager);
+  }
+
+  /**
+   * Books several seats of a showtime for one user in a single transaction.
+   * Either every seat is booked or, if any check fails, none is.
+   * 
+   * @param data - Group booking data (showtimeId, seatNumbers or seatLabels, userId, optional promoCode)
+   * @returns the booking IDs, booked seats (with category, price and discount) and totals, in seat order
+   * @throws NotFoundException if the showtime, its movie or its theater does not exist
+   * @throws BadRequestException if a seat does not exist, if there are not enough free seats, with
+   * `conflictingSeats` listing every blocked seat, or with an `errorCode` if the user would go over a ticket limit
+   * @throws ConflictException with `conflictingSeats` listing every seat that is already booked or held,
+   * or if a seat was taken concurrently
+   */
+  async addGroupBooking(data: GroupBookingDto): Promise<GroupBookingResultDto> {
+    const { showtimeId, userId } = data;
+
+    const { showtime, theater } = await this.fetchBookableShowTime(showtimeId);
+    const seatNumbers = resolveSeatNumbers(theater, data.seatNumbers, data.seatLabels).sort((a, b) => a - b);
+
+    return await this.bookingRepository.runWithSeatLock([showtimeId], async (manager) => {
+      await this.assertSeatsAvailable(showtimeId, seatNumbers, theater.capacity, manager);
+      await this.assertWithinPurchaseLimits(showtime, userId, seatNumbers.length, manager);
+
+      return await this.insertBookings(showtime, theater, userId, seatNumbers, manager, data.promoCode);
+    });
+  }
+
+  /**
+   * Books the best block of adjacent free seats for a party (see seatFinder.ts) in a single transaction.
+   * The block is picked under the showtime's seat lock, so it cannot be taken in between.
+   * 
+   * @param data - Booking data (showtimeId, partySize, userId, optional promoCode)
+   * @returns the booking IDs, booked seats (with category, price and discount) and totals, in seat order
+   * @throws NotFoundException if the showtime, its movie or its theater does not exist
+   * @throws BadRequestException if no block of adjacent free seats fits the party, or with an
+   * `errorCode` if the user would go over a ticket limit
+   * @throws ConflictException if a seat was taken concurrently
+   */
+  async bookBestSeats(data: BestSeatsBookingDto): Promise<GroupBookingResultDto> {
+    const { showtimeId, userId, partySize } = data;
+
+    const { showtime, theater } = await this.fetchBookableShowTime(showtimeId);
+
+    return await this.bookingRepository.runWithSeatLock([showtimeId], async (manager) => {
+      const block = await this.findSeatBlock(showtimeId, theater, partySize, manager);
+      if (!block) {
+        throw new BadRequestException(`No ${partySize} adjacent seats are free for this showtime.`);
+      }
+      await this.assertWithinPurchaseLimits(showtime, userId, partySize, manager);
+
+      return await this.insertBookings(showtime, theater, userId, block.seatNumbers, manager, data.promoCode);
+    });
+  }
+
+  /**
+   * Finds the best block of adjacent free seats of a showtime for a party.
+   * 
+   * @param showtimeId - The showtime ID
+   * @param theater - The theater the showtime runs in
+   * @param partySize - The number of seats needed
+   * @param manager - Optional transactional EntityManager, to read the seats under the seat lock
+   * @returns the best block, or null if none fits the party
+   */
+  private async findSeatBlock(showtimeId: number, theater: Theater, partySize: number, manager?: EntityManager): Promise<SeatBlock | null> {
+    const allSeats = Array.from({ length: theater.capacity }, (_, index) => index + 1);
+    const takenSeats = await this.bookingRepository.getTakenSeats(showtimeId, allSeats, manager);
+    return findBestSeatBlock(theater.rows, takenSeats, partySize);
+  }
+
+  /**
+   * Places a time-limited hold on one or more seats of a showtime.
+   * 
+   * @param data - Hold data (showtimeId, seatNumbers or seatLabels, userId)
+   * @returns the hold token, when it expires and the held seats
+   * @throws NotFoundException if the showtime, its movie or its theater does not exist
+   * @throws BadRequestException if a seat does not exist, if there are not enough free seats, with
+   * `conflictingSeats` listing every blocked seat, or with an `errorCode` if the user would go over a ticket limit
+   * @throws ConflictException with `conflictingSeats` listing every seat that is already booked or held,
+   * or if a seat was taken concurrently
+   */
+  async placeSeatHold(data: SeatHoldDto): Promise<{ holdToken: string; expiresAt: Date; seatNumbers: number[] }> {
+    const { showtimeId, userId } = data;
+
+    const { showtime, theater } = await this.fetchBookableShowTime(showtimeId);
+    const seatNumbers = resolveSeatNumbers(theater, data.seatNumbers, data.seatLabels).sort((a, b) => a - b);
+
+    return await this.bookingRepository.runWithSeatLock([showtimeId], async (manager) => {
+      await this.assertSeatsAvailable(showtimeId, seatNumbers, theater.capacity, manager);
+      await this.assertWithinPurchaseLimits(showtime, userId, seatNumbers.length, manager);
+
+      const holdToken = randomUUID();
+      const expiresAt = new Date(Date.now() + SEAT_HOLD_MINUTES * 60 * 1000);
+      await this.seatHoldRepository.addSeatHolds(holdToken, showtimeId, userId, seatNumbers, expiresAt, manager);
+
+      return { holdToken, expiresAt, seatNumbers };
+    });
+  }
+
+  /**
+   * Confirms a live seat hold into one booking per held seat, then releases the hold.
+   * The hold is re-read under the showtime's seat lock, so it cannot be confirmed twice.
+   * 
+   * @param holdToken - Token returned when the hold was placed
+   * @param userId - UUID of the user confirming the hold
+   * @returns the booking IDs, booked seats (with category and price) and total price
+   * @throws NotFoundException if the hold does not exist or has expired
+   * @throws BadRequestException if the hold belongs to another user
+   */
+  async confirmSeatHold(holdToken: string, userId: string): Promise<GroupBookingResultDto> {
+    const hold = await this.seatHoldRepository.fetchLiveHold(holdToken);
+    if (hold.length === 0) {
+      throw new NotFoundException(`Seat hold ${holdToken} not found or has expired.`);
+    }
+
+    if (hold[0].userId !== userId) {
+      throw new BadRequestException(`Seat hold ${holdToken} belongs to another user.`);
     }
 
-    // Create and insert booking
-    const booking: Booking = {
+    const showtimeId = hold[0].showtimeId;
+    const { showtime, theater } = await this.fetchBookableShowTime(showtimeId);
+
+    const result = await this.bookingRepository.runWithSeatLock([showtimeId], async (manager) => {
+      const heldSeats = await this.seatHoldRepository.fetchLiveHold(holdToken, manager);
+      if (heldSeats.length === 0) {
+        throw new NotFoundException(`Seat hold ${holdToken} not found or has expired.`);
+      }
+
+      await this.seatHoldRepository.deleteHold(holdToken, manager);
+
+      const seatNumbers = heldSeats.map(held => held.seatNumber);
+      return await this.insertBookings(showtime, theater, userId, seatNumbers, manager);
+    });
+
+    this.bookingEvents.emitHoldConfirmed({ holdToken, showtimeId, bookingIds: result.bookingIds });
+    return result;
+  }
+
+  /**
+   * Releases a live seat hold before it expires, putting its seats back on sale.
+   * 
+   * @param holdToken - Token returned when the hold was placed
+   * @throws NotFoundException if the hold does not exist or has expired
+   */
+  async releaseSeatHold(holdToken: string): Promise<void> {
+    const hold = await this.seatHoldRepository.fetchLiveHold(holdToken);
+    if (hold.length === 0) {
+      throw new NotFoundException(`Seat hold ${holdToken} not found or has expired.`);
+    }
+
+    await this.seatHoldRepository.deleteHold(holdToken);
+    this.bookingEvents.emitSeatsReleased({ showtimeId: hold[0].showtimeId, seatNumbers: hold.map(held => held.seatNumber) });
+  }
+
+  /**
+   * Checks, inside a seat-locked transaction, that none of the given seats is blocked, booked
+   * or held, and that the theater has room for all of them. Taken seats are reported first,
+   * so a request that lost a seat to another gets a conflict rather than a full theater.
+   * 
+   * @param showtimeId - The showtime ID
+   * @param seatNumbers - The requested seats
+   * @param capacity - Number of seats in the showtime's theater
+   * @param manager - The transactional EntityManager
+   * @throws BadRequestException if there are not enough free seats, or with `conflictingSeats` listing every seat that is blocked
+   * @throws ConflictException with `conflictingSeats` listing every seat that is already booked or held
+   */
+  private async assertSeatsAvailable(showtimeId: number, seatNumbers: number[], capacity: number, manager: EntityManager): Promise<void> {
+    const blockedSeats = await this.bookingRepository.getBlockedSeats(showtimeId, seatNumbers, manager);
+    if (blockedSeats.length > 0) {
+      throw new BadRequestException({
+        message: `Seats ${blockedSeats.join(', ')} are not for sale for this showtime.`,
+        conflictingSeats: blockedSeats,
+      });
+    }
+
+    const conflictingSeats = await this.bookingRepository.getTakenSeats(showtimeId, seatNumbers, manager);
+    if (conflictingSeats.length > 0) {
+      throw new ConflictException({
+        message: `Seats ${conflictingSeats.join(', ')} are already booked or held for this showtime.`,
+        conflictingSeats,
+      });
+    }
+
+    const occupied = await this.bookingRepository.countOccupiedSeats(showtimeId, manager);
+    const blocked = await this.bookingRepository.countBlockedSeats(showtimeId, capacity, manager);
+    const seatsLeft = capacity - occupied - blocked;
+    if (seatsLeft < seatNumbers.length) {
+      throw new BadRequestException(`Only ${Math.max(seatsLeft, 0)} seats are left for this showtime, but ${seatNumbers.length} were requested.`);
+    }
+  }
+
+  /**
+   * Releases every expired seat hold so its seats are back on sale, and announces
+   * the released seats of each showtime.
+   * 
+   * @returns the number of released seats
+   */
+  async releaseExpiredHolds(): Promise<number> {
+    const released = await this.seatHoldRepository.releaseExpiredHolds();
+
+    const seatsByShowTime = new Map<number, number[]>();
+    for (const hold of released) {
+      seatsByShowTime.set(hold.showtimeId, [...(seatsByShowTime.get(hold.showtimeId) ?? []), hold.seatNumber]);
+    }
+    for (const [showtimeId, seatNumbers] of seatsByShowTime) {
+      this.bookingEvents.emitSeatsReleased({ showtimeId, seatNumbers });
+    }
+
+    return released.length;
+  }
+
+  /**
+   * Builds the seat map of a showtime: the state, label, category and current price of every seat
+   * of its theater plus totals per state and the sellable capacity (the seats that are not blocked).
+   * 
+   * @param showtimeId - The showtime ID
+   * @returns the seat map
+   * @throws NotFoundException if the showtime or its theater does not exist
+   */
+  async getSeatMap(showtimeId: number): Promise<SeatMapDto> {
+    const showtime = await this.showTimeRepository.fetchShowTimeById(showtimeId);
+    if (!showtime) {
+      throw new NotFoundException(`Showtime with ID ${showtimeId} not found.`);
+    }
+
+    const theater = await this.theaterRepository.fetchTheaterById(showtime.theaterId);
+    if (!theater) {
+      throw new NotFoundException(`Theater with ID ${showtime.theaterId} not found.`);
+    }
+
+    const seatStates = await this.bookingRepository.getSeatStates(showtimeId, theater.capacity);
+    const multiplier = await this.getPriceMultiplier(showtime, theater.capacity);
+    const seats = seatStates.map(seat => {
+      const seatCategory = getSeatCategory(theater.rows, seat.seatNumber);
+      return {
+        ...seat,
+        seatLabel: getSeatLabel(theater.rows, seat.seatNumber),
+        seatCategory,
+        price: this.getSeatPrice(showtime, seatCategory, multiplier),
+      };
+    });
+
+    const totals = { capacity: seats.length } as SeatMapDto['totals'];
+    for (const state of Object.values(SeatState)) {
+      totals[state] = 0;
+    }
+    for (const seat of seats) {
+      totals[seat.state]++;
+    }
+    totals.sellableCapacity = totals.capacity - totals[SeatState.BLOCKED];
+
+    return { showtimeId, theaterId: theater.id, seats, totals };
+  }
+
+  /**
+   * Suggests the best block of adjacent free seats of a showtime for a party, without booking it.
+   * 
+   * @param showtimeId - The showtime ID
+   * @param partySize - The number of seats needed
+   * @returns the suggested seats with their current prices
+   * @throws NotFoundException if the showtime, its movie or its theater does not exist
+   * @throws BadRequestException if the party size is not at least 1, or no block of adjacent free seats
+   * fits the party (as when booking it, see bookBestSeats)
+   */
+  async findBestSeats(showtimeId: number, partySize: number): Promise<BestSeatsDto> {
+    if (partySize < 1) {
+      throw new BadRequestException('Party size must be at least 1.');
+    }
+
+    const { showtime, theater } = await this.fetchBookableShowTime(showtimeId);
+    const block = await this.findSeatBlock(showtimeId, theater, partySize);
+    if (!block) {
+      throw new BadRequestException(`No ${partySize} adjacent seats are free for this showtime.`);
+    }
+
+    const multiplier = await this.getPriceMultiplier(showtime, theater.capacity);
+    const seats = block.seatNumbers.map(seatNumber => {
+      const seatCategory = getSeatCategory(theater.rows, seatNumber);
+      return {
+        seatNumber,
+        seatLabel: getSeatLabel(theater.rows, seatNumber),
+        seatCategory,
+        price: this.getSeatPrice(showtime, seatCategory, multiplier),
+      };
+    });
+
+    return {
       showtimeId,
-      seatNumber,
-      userId
-    } as Booking;
+      rowLabel: block.rowLabel,
+      seats,
+      totalPrice: Math.round(seats.reduce((total, seat) => total + seat.price, 0) * 100) / 100,
+    };
+  }
+
+  /**
+   * Lists one page of a customer's bookings, each with its showtime, theater and movie title.
+   * 
+   * @param userId - UUID of the customer
+   * @param filter - Which bookings to list (upcoming, past, cancelled or all)
+   * @param page - The page number (1-based)
+   * @param limit - The number of bookings per page (1–100)
+   * @returns the page of bookings and the number of bookings matching the filter
+   * @throws BadRequestException if the page or limit is out of range
+   */
+  async getBookingHistory(userId: string, filter: BookingHistoryFilter, page: number, limit: number): Promise<BookingHistoryDto> {
+    if (page < 1) {
+      throw new BadRequestException('Page must be at least 1.');
+    }
+    if (limit < 1 || limit > 100) {
+      throw new BadRequestException('Limit must be between 1 and 100.');
+    }
+
+    const { rows, total } = await this.bookingRepository.getBookingsForUser(userId, filter, limit, (page - 1) * limit);
+
+    const items = rows.map(row => ({
+      bookingId: row.bookingId,
+      status: row.status,
+      seatNumber: row.seatNumber,
+      seatLabel: getSeatLabel(row.theaterRows, row.seatNumber),
+      seatCategory: row.seatCategory,
+      price: row.price,
+      discount: row.discount,
+      promoCode: row.promoCode,
+      createdAt: row.createdAt,
+      cancelledAt: row.cancelledAt,
+      showtime: {
+        id: row.showtimeId,
+        startTime: row.startTime,
+        endTime: row.endTime,
+        theater: { id: row.theaterId, name: row.theaterName },
+      },
+      movie: { id: row.movieId, title: row.movieTitle },
+    }));
+
+    return { items, page, limit, total };
+  }
+
+  /**
+   * Fetches a booking by its ID.
+   * 
+   * @param bookingId - The booking ID (UUID)
+   * @returns the booking record
+   * @throws NotFoundException if the booking does not exist
+   */
+  async fetchBookingById(bookingId: string): Promise<Booking> {
+    const booking = await this.bookingRepository.fetchBookingById(bookingId);
+    if (!booking) {
+      throw new NotFoundException(`Booking with ID ${bookingId} not found.`);
+    }
+
+    return booking;
+  }
+
+  /**
+   * Issues the signed ticket of a confirmed booking, e.g. to show it again as a QR code.
+   * 
+   * @param bookingId - The booking ID (UUID)
+   * @returns the ticket with its signed token
+   * @throws NotFoundException if the booking does not exist
+   * @throws BadRequestException if the booking is not confirmed
+   */
+  async getTicket(bookingId: string): Promise<TicketDto> {
+    const booking = await this.fetchBookingById(bookingId);
+    if (booking.status !== BookingStatus.CONFIRMED) {
+      throw new BadRequestException(`No ticket can be issued for booking ${bookingId} because it is ${booking.status}.`);
+    }
+
+    const { showtimeId, seatNumber } = booking;
+    return { bookingId, showtimeId, seatNumber, ticketToken: this.ticketTokenService.sign({ bookingId, showtimeId, seatNumber }) };
+  }
+
+  /**
+   * Cancels a confirmed booking that has not been checked in, releasing its seat for sale and announcing it.
+   * A paid booking is queued for a refund in the same update (see BookingRepository.cancelConfirmedBooking).
+   * 
+   * @param bookingId - The booking ID (UUID)
+   * @throws NotFoundException if the booking does not exist
+   * @throws BadRequestException if the booking is not confirmed or was checked in
+   * @throws ConflictException if the booking was exchanged, checked in or cancelled concurrently
+   */
+  async cancelBooking(bookingId: string): Promise<void> {
+    const booking = await this.fetchBookingById(bookingId);
+    if (booking.status !== BookingStatus.CONFIRMED) {
+      throw new BadRequestException(`Booking ${bookingId} cannot be cancelled because it is ${booking.status}.`);
+    }
+    if (booking.checkedInAt) {
+      throw new BadRequestException(`Booking ${bookingId} cannot be cancelled because it was already checked in.`);
+    }
+
+    const cancelled = await this.bookingRepository.cancelConfirmedBooking(bookingId);
+    if (!cancelled) {
+      throw new ConflictException(`Booking ${bookingId} was exchanged, checked in or cancelled while it was being cancelled.`);
+    }
+    this.bookingEvents.emitSeatsReleased({ showtimeId: booking.showtimeId, seatNumbers: [booking.seatNumber] });
+  }
+
+  /**
+   * Exchanges a confirmed booking for another seat, in the same showtime or another showtime of
+   * the same movie. The old seat is released and the new one booked in one transaction, under the
+   * seat locks of both showtimes, running the same checks as a new booking. The new seat is charged
+   * its current price (a promo code discount on the old booking is not carried over), and the
+   * price difference is recorded on the new booking, which takes over the old booking's payment.
+   * 
+   * @param bookingId - The booking to exchange (UUID)
+   * @param data - The user and the target showtime and seat
+   * @returns the new booking, the previous price and the price difference
+   * @throws NotFoundException if the booking, the target showtime, its movie or its theater does not exist
+   * @throws BadRequestException if the booking belongs to another user, is not confirmed, was checked in,
+   * if the target is the same seat or a different movie, or if the new seat cannot be booked
+   * @throws ConflictException if the new seat is already booked or held, or the booking changed concurrently
+   */
+  async exchangeBooking(bookingId: string, data: ExchangeBookingDto): Promise<ExchangeResultDto> {
+    const booking = await this.fetchBookingById(bookingId);
+    if (booking.userId !== data.userId) {
+      throw new BadRequestException(`Booking ${bookingId} belongs to another user.`);
+    }
+    if (booking.status !== BookingStatus.CONFIRMED) {
+      throw new BadRequestException(`Booking ${bookingId} cannot be exchanged because it is ${booking.status}.`);
+    }
+    if (booking.checkedInAt) {
+      throw new BadRequestException(`Booking ${bookingId} cannot be exchanged because it was already checked in.`);
+    }
+
+    const targetShowtimeId = data.showtimeId ?? booking.showtimeId;
+    const { showtime, theater } = await this.fetchBookableShowTime(targetShowtimeId);
+    if (targetShowtimeId !== booking.showtimeId) {
+      const currentShowtime = await this.showTimeRepository.fetchShowTimeById(booking.showtimeId);
+      if (currentShowtime && currentShowtime.movieId !== showtime.movieId) {
+        throw new BadRequestException('A booking can only be exchanged for a showtime of the same movie.');
+      }
+    }
+
+    const [seatNumber] = resolveSeatNumbers(
+      theater,
+      data.seatNumber === undefined ? undefined : [data.seatNumber],
+      data.seatLabel === undefined ? undefined : [data.seatLabel]);
+    if (targetShowtimeId === booking.showtimeId && seatNumber === booking.seatNumber) {
+      throw new BadRequestException(`Booking ${bookingId} is already for seat ${seatNumber} of this showtime.`);
+    }
+
+    const result = await this.bookingRepository.runWithSeatLock([booking.showtimeId, targetShowtimeId], async (manager) => {
+      const released = await this.bookingRepository.releaseExchangedBooking(bookingId, manager);
+      if (!released) {
+        throw new ConflictException(`Booking ${bookingId} was cancelled or checked in while it was being exchanged.`);
+      }
+
+      await this.assertSeatBookable(targetShowtimeId, seatNumber, booking.userId, theater.capacity, manager);
+      await this.assertWithinPurchaseLimits(showtime, booking.userId, 1, manager);
+
+      const { seats } = await this.insertBookings(showtime, theater, booking.userId, [seatNumber], manager);
+      const priceDifference = Math.round((seats[0].price - booking.price) * 100) / 100;
+      await this.bookingRepository.recordExchange(seats[0].bookingId, bookingId, priceDifference, manager);
+
+      return { previousBookingId: bookingId, previousPrice: booking.price, booking: seats[0], priceDifference };
+    });
 
-    const bookingId = await this.bookingRepository.addNewBooking(booking);
-    return { bookingId };
+    this.bookingEvents.emitSeatsReleased({ showtimeId: booking.showtimeId, seatNumbers: [booking.seatNumber] });
+    return result;
   }
 }
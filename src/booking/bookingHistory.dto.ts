@@ -0,0 +1,138 @@
+/**
+ * bookingHistory.dto.ts
+ *
+ * These Data Transfer Objects (DTOs) describe a customer's booking history returned to clients:
+ * one page of bookings, each with its showtime, theater and movie title, so a "My tickets"
+ * screen can be built from a single request.
+ */
+
+import { BookingStatus } from './booking.entity';
+import { SeatCategory, TheaterRow } from 'src/theater/theater.entity';
+
+/**
+ * Which of a customer's bookings to list.
+ * - upcoming: active bookings for showtimes that have not started yet
+ * - past: active bookings for showtimes that already started
+ * - cancelled: cancelled or refunded bookings, and bookings released because their payment failed
+ * - all: every booking
+ */
+export enum BookingHistoryFilter {
+  UPCOMING = 'upcoming',
+  PAST = 'past',
+  CANCELLED = 'cancelled',
+  ALL = 'all',
+}
+
+/**
+ * A booking joined with its showtime, theater and movie, as read from the database.
+ */
+export interface UserBookingRow {
+  bookingId: string;
+  status: BookingStatus;
+  seatNumber: number;
+  seatCategory: SeatCategory;
+  price: number;
+  discount: number;
+  promoCode: string | null;
+  createdAt: Date;
+  cancelledAt: Date | null;
+  showtimeId: number;
+  startTime: string;
+  endTime: string;
+  theaterId: number;
+  theaterName: string;
+  theaterRows: TheaterRow[];
+  movieId: number;
+  movieTitle: string;
+}
+
+export class UserBookingDto {
+
+  /**
+   * The booking ID (UUID).
+   */
+  bookingId: string;
+
+  /**
+   * Current lifecycle status of the booking.
+   */
+  status: BookingStatus;
+
+  /**
+   * The booked seat number.
+   */
+  seatNumber: number;
+
+  /**
+   * The booked seat's label from the theater's layout (e.g. "F12").
+   */
+  seatLabel: string;
+
+  /**
+   * The booked seat's category.
+   */
+  seatCategory: SeatCategory;
+
+  /**
+   * The price charged for the seat, after the promo code's discount.
+   */
+  price: number;
+
+  /**
+   * The discount given on the seat by the promo code (0 without one).
+   */
+  discount: number;
+
+  /**
+   * The promo code used, or null if none.
+   */
+  promoCode: string | null;
+
+  /**
+   * When the booking was created.
+   */
+  createdAt: Date;
+
+  /**
+   * When the booking was cancelled, or null while it is still active.
+   */
+  cancelledAt: Date | null;
+
+  /**
+   * The booked showtime and the theater it runs in.
+   */
+  showtime: {
+    id: number;
+    startTime: string;
+    endTime: string;
+    theater: { id: number; name: string };
+  };
+
+  /**
+   * The movie being shown.
+   */
+  movie: { id: number; title: string };
+}
+
+export class BookingHistoryDto {
+
+  /**
+   * The bookings on this page, ordered by showtime start.
+   */
+  items: UserBookingDto[];
+
+  /**
+   * The page number (1-based).
+   */
+  page: number;
+
+  /**
+   * The maximum number of bookings per page.
+   */
+  limit: number;
+
+  /**
+   * The number of bookings matching the filter, across all pages.
+   */
+  total: number;
+}
@@ -0,0 +1,65 @@
+/**
+ * seatFinder.spec.ts
+ *
+ * This file contains unit tests for `findBestSeatBlock`, which picks the best block of
+ * adjacent free seats for a party.
+ *
+ * These tests cover:
+ * - Preferring the middle row and the center of the row
+ * - Skipping blocks that would strand a single free seat, unless nothing else fits
+ * - Never splitting a block across rows or over taken seats
+ * - Returning null when no row fits the party
+ */
+
+import { findBestSeatBlock } from './seatFinder';
+
+describe('findBestSeatBlock', () => {
+  const rows = [
+    { label: 'A', seats: 6 },
+    { label: 'B', seats: 6 },
+    { label: 'C', seats: 6 },
+  ];
+
+  /**
+   * Should pick the centered block of the middle row in an empty theater.
+   */
+  it('should prefer the middle row and the center of the row', () => {
+    expect(findBestSeatBlock(rows, [], 2)).toEqual({ rowLabel: 'B', seatNumbers: [9, 10] });
+  });
+
+  /**
+   * Should move to another row when the middle row has no room left for the party.
+   */
+  it('should fall back to the next best row', () => {
+    const middleRowTaken = [7, 8, 10, 11];
+
+    expect(findBestSeatBlock(rows, middleRowTaken, 3)).toEqual({ rowLabel: 'A', seatNumbers: [1, 2, 3] });
+  });
+
+  /**
+   * Should move off center rather than leave a single free seat next to the block.
+   */
+  it('should not strand a single seat', () => {
+    // With seat 7 taken, the centered block 9-10 would leave seat 8 alone.
+    expect(findBestSeatBlock(rows, [7], 2)).toEqual({ rowLabel: 'B', seatNumbers: [8, 9] });
+  });
+
+  /**
+   * Should still seat the party when every block that fits strands a seat.
+   */
+  it('should accept a stranded seat when nothing else fits', () => {
+    const singleRow = [{ label: 'A', seats: 3 }];
+
+    expect(findBestSeatBlock(singleRow, [], 2)).toEqual({ rowLabel: 'A', seatNumbers: [1, 2] });
+  });
+
+  /**
+   * Should return null when no row has enough adjacent free seats.
+   */
+  it('should return null when no block fits the party', () => {
+    const everyOtherSeat = [2, 4, 6, 8, 10, 12, 14, 16, 18];
+
+    expect(findBestSeatBlock(rows, everyOtherSeat, 2)).toBeNull();
+    expect(findBestSeatBlock(rows, [], 7)).toBeNull();
+  });
+});
@@ -0,0 +1,99 @@
+/**
+ * seatFinder.ts
+ *
+ * Finds the best block of adjacent free seats for a party, so group customers do not have to
+ * pick seat numbers by hand. Seats are adjacent when they are next to each other in the same row.
+ *
+ * Blocks are ranked by:
+ * 1. Leaving no single free seat stranded next to the block (such seats are hard to sell)
+ * 2. Distance of the row from the middle row
+ * 3. Distance of the block's center from the center of its row
+ * 4. Lowest seat number, so the result is stable
+ *
+ * A block that strands a single seat is only picked when no other block fits the party.
+ */
+
+import { TheaterRow } from 'src/theater/theater.entity';
+
+/**
+ * A block of adjacent seats that can seat a party.
+ */
+export interface SeatBlock {
+  /** Label of the row the block is in. */
+  rowLabel: string;
+  /** The block's seat numbers, left to right. */
+  seatNumbers: number[];
+}
+
+/**
+ * Counts the free seats next to a block, from a position in the row outwards, until a taken seat
+ * or the end of the row.
+ */
+function countFreeSeats(isFree: boolean[], from: number, step: 1 | -1): number {
+  let count = 0;
+  for (let position = from; position >= 0 && position < isFree.length && isFree[position]; position += step) {
+    count++;
+  }
+  return count;
+}
+
+/**
+ * Finds the best block of adjacent free seats for a party.
+ *
+ * @param rows - The theater's layout
+ * @param takenSeats - Seat numbers that are booked, held or otherwise off sale
+ * @param partySize - The number of seats needed
+ * @returns the best block, or null if no row has enough adjacent free seats
+ */
+export function findBestSeatBlock(rows: TheaterRow[], takenSeats: number[], partySize: number): SeatBlock | null {
+  const taken = new Set(takenSeats);
+  const middleRow = (rows.length - 1) / 2;
+
+  let best: { block: SeatBlock; rank: number[] } | null = null;
+  let firstSeatOfRow = 1;
+  for (const [rowIndex, row] of rows.entries()) {
+    const isFree = Array.from({ length: row.seats }, (_, position) => !taken.has(firstSeatOfRow + position));
+    const rowCenter = (row.seats - 1) / 2;
+
+    for (let start = 0; start + partySize <= row.seats; start++) {
+      if (!isFree.slice(start, start + partySize).every(Boolean)) {
+        continue;
+      }
+
+      const strandedSeats = [countFreeSeats(isFree, start - 1, -1), countFreeSeats(isFree, start + partySize, 1)]
+        .filter(freeSeats => freeSeats === 1).length;
+      const rank = [
+        strandedSeats,
+        Math.abs(rowIndex - middleRow),
+        Math.abs(start + (partySize - 1) / 2 - rowCenter),
+        firstSeatOfRow + start,
+      ];
+
+      if (!best || isRankedHigher(rank, best.rank)) {
+        best = {
+          block: {
+            rowLabel: row.label,
+            seatNumbers: Array.from({ length: partySize }, (_, offset) => firstSeatOfRow + start + offset),
+          },
+          rank,
+        };
+      }
+    }
+
+    firstSeatOfRow += row.seats;
+  }
+
+  return best?.block ?? null;
+}
+
+/**
+ * Compares two ranks criterion by criterion; lower is better.
+ */
+function isRankedHigher(rank: number[], other: number[]): boolean {
+  for (const [index, value] of rank.entries()) {
+    if (value !== other[index]) {
+      return value < other[index];
+    }
+  }
+  return false;
+}
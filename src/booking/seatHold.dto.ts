@@ -0,0 +1,61 @@
+/**
+ * seatHold.dto.ts
+ * 
+ * These Data Transfer Objects (DTOs) define the structure and validation rules
+ * for placing a temporary hold on seats and for confirming that hold into bookings.
+ * 
+ * They are used in the BookingService and BookingController to handle client POST requests.
+ */
+
+import { IsUUID, IsInt, Min, IsArray, ArrayNotEmpty, ArrayUnique, IsString, Matches, ValidateIf } from "class-validator";
+
+export class SeatHoldDto {
+
+  /**
+   * UUID of the user placing the hold.
+   * Must be a valid UUID string.
+   */
+  @IsUUID(undefined, { message: 'User ID must be a valid UUID.' })
+  userId: string;
+
+  /**
+   * ID of the showtime the seats belong to.
+   * Must be a positive integer.
+   */
+  @IsInt({ message: "Showtime ID must be a valid number." })
+  @Min(1, { message: "Showtime ID must be greater than 0." })
+  showtimeId: number;
+
+  /**
+   * Seat numbers to hold (1 up to the theater's capacity each, no duplicates).
+   * Required unless `seatLabels` is given.
+   */
+  @ValidateIf(o => o.seatLabels === undefined)
+  @IsArray({ message: "Seat numbers must be an array." })
+  @ArrayNotEmpty({ message: "At least one seat number is required." })
+  @ArrayUnique({ message: "Seat numbers must not repeat." })
+  @IsInt({ each: true, message: "Each seat number must be a valid number." })
+  @Min(1, { each: true, message: "Seat number must be at least 1." })
+  seatNumbers?: number[];
+
+  /**
+   * Seat labels to hold (e.g. ["F11", "F12"]), resolved through the theater's layout.
+   * Can be given instead of `seatNumbers`.
+   */
+  @ValidateIf(o => o.seatNumbers === undefined)
+  @IsArray({ message: "Seat labels must be an array." })
+  @ArrayNotEmpty({ message: "At least one seat label is required." })
+  @IsString({ each: true, message: "Each seat label must be a string." })
+  @Matches(/^[A-Za-z]{1,2}\d{1,2}$/, { each: true, message: "Seat label must be a row letter followed by a seat number, e.g. F12." })
+  seatLabels?: string[];
+}
+
+export class ConfirmSeatHoldDto {
+
+  /**
+   * UUID of the user confirming the hold.
+   * Must match the user who placed it.
+   */
+  @IsUUID(undefined, { message: 'User ID must be a valid UUID.' })
+  userId: string;
+}
@@ -0,0 +1,59 @@
+/**
+ * seatHold.entity.ts
+ * 
+ * This entity defines the structure of the `seat_holds` table in the database.
+ * A seat hold reserves a seat for a short time while the customer finishes checkout.
+ * 
+ * All seats held in the same request share a `holdToken`, which the customer later
+ * uses to confirm the hold into bookings. A hold stops counting once `expiresAt` has passed.
+ * A seat can only carry one hold row at a time (unique on showtimeId + seatNumber).
+ */
+
+import { Entity, PrimaryGeneratedColumn, Column, CreateDateColumn, Index } from "typeorm";
+
+@Entity({ name: 'seat_holds' })
+@Index('UQ_seat_holds_showtime_seat', ['showtimeId', 'seatNumber'], { unique: true })
+export class SeatHold {
+
+  /**
+  * Auto-generated unique ID for the held seat (primary key).
+  */
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  /**
+  * Token shared by every seat placed in the same hold request.
+  */
+  @Column({ type: 'uuid', nullable: false })
+  holdToken: string;
+
+  /**
+  * Foreign key reference to the associated showtime.
+  */
+  @Column({ type: 'int', nullable: false })
+  showtimeId: number;
+
+  /**
+  * The held seat number (1 up to the theater's capacity).
+  */
+  @Column({ type: 'int', nullable: false })
+  seatNumber: number;
+
+  /**
+  * UUID of the user who placed the hold.
+  */
+  @Column({ type: 'uuid', nullable: false })
+  userId: string;
+
+  /**
+  * When the hold stops reserving the seat.
+  */
+  @Column({ type: 'timestamp', nullable: false })
+  expiresAt: Date;
+
+  /**
+  * When the hold was placed.
+  */
+  @CreateDateColumn({ type: 'timestamp' })
+  createdAt: Date;
+}
@@ -0,0 +1,130 @@
+/**
+ * seatHold.repository.ts
+ *
+ * This repository provides raw SQL-based access to the `seat_holds` table in the database.
+ * It includes logic to:
+ * - Place a hold on one or more seats
+ * - Fetch the live (non-expired) seats of a hold
+ * - Release a hold once it is confirmed
+ * - Release every expired hold
+ * - Release every hold of a cancelled showtime
+ *
+ * Methods that take an optional `manager` run inside that transaction when one is given.
+ * A unique index on (showtimeId, seatNumber) guarantees a seat is held at most once;
+ * a violation is reported as a ConflictException (409).
+ */
+
+import { Injectable, InternalServerErrorException, ConflictException } from '@nestjs/common';
+import { DataSource, EntityManager } from 'typeorm';
+import { SeatHold } from './seatHold.entity';
+import { UNIQUE_VIOLATION } from './booking.constants';
+
+@Injectable()
+export class SeatHoldRepository {
+  constructor(private readonly dataSource: DataSource) {}
+
+  /**
+   * Inserts one hold row per seat, all sharing the same hold token.
+   * Expired holds left on those seats are cleared first so they do not block the new hold.
+   * 
+   * @param holdToken - Token identifying the hold
+   * @param showtimeId - The showtime ID
+   * @param userId - UUID of the user placing the hold
+   * @param seatNumbers - The seats to hold
+   * @param expiresAt - When the hold expires
+   * @param manager - Optional transactional EntityManager
+   */
+  async addSeatHolds(holdToken: string, showtimeId: number, userId: string, seatNumbers: number[], expiresAt: Date,
+    manager: EntityManager = this.dataSource.manager): Promise<void> {
+    try {
+      await manager.query(
+        `DELETE FROM seat_holds
+         WHERE "showtimeId" = $1 AND "seatNumber" = ANY($2::int[]) AND "expiresAt" <= NOW()`,
+        [showtimeId, seatNumbers]);
+      await manager.query(
+        `INSERT INTO seat_holds ("holdToken", "showtimeId", "seatNumber", "userId", "expiresAt")
+         SELECT $1, $2, seat, $3, $4 FROM UNNEST($5::int[]) AS seat`,
+        [holdToken, showtimeId, userId, expiresAt, seatNumbers]);
+    } 
+    catch (error) {
+      if (error?.code === UNIQUE_VIOLATION) {
+        throw new ConflictException('One of the requested seats is already held for this showtime.');
+      }
+      console.error('DB Error on addSeatHolds:', error);
+      throw new InternalServerErrorException('Failed to place the seat hold.');
+    }
+  }
+
+  /**
+   * Fetches the seats of a hold that have not expired yet.
+   * 
+   * @param holdToken - Token identifying the hold
+   * @param manager - Optional transactional EntityManager
+   * @returns list of live SeatHold records (empty if the hold is unknown or expired)
+   */
+  async fetchLiveHold(holdToken: string, manager: EntityManager = this.dataSource.manager): Promise<SeatHold[]> {
+    try {
+      return await manager.query(
+        `SELECT * FROM seat_holds WHERE "holdToken" = $1 AND "expiresAt" > NOW()
+         ORDER BY "seatNumber"`,
+        [holdToken]);
+    } 
+    catch (error) {
+      console.error('DB Error on fetchLiveHold:', error);
+      throw new InternalServerErrorException('Failed to get the seat hold.');
+    }
+  }
+
+  /**
+   * Deletes every seat of a hold.
+   * 
+   * @param holdToken - Token identifying the hold
+   * @param manager - Optional transactional EntityManager
+   */
+  async deleteHold(holdToken: string, manager: EntityManager = this.dataSource.manager): Promise<void> {
+    try {
+      await manager.query(
+        `DELETE FROM seat_holds WHERE "holdToken" = $1`,
+        [holdToken]);
+    } 
+    catch (error) {
+      console.error('DB Error on deleteHold:', error);
+      throw new InternalServerErrorException('Failed to release the seat hold.');
+    }
+  }
+
+  /**
+   * Deletes every hold on a showtime's seats.
+   * 
+   * @param showtimeId - The showtime ID
+   * @param manager - Optional transactional EntityManager
+   */
+  async deleteHoldsForShowTime(showtimeId: number, manager: EntityManager = this.dataSource.manager): Promise<void> {
+    try {
+      await manager.query(
+        `DELETE FROM seat_holds WHERE "showtimeId" = $1`,
+        [showtimeId]);
+    } 
+    catch (error) {
+      console.error('DB Error on deleteHoldsForShowTime:', error);
+      throw new InternalServerErrorException('Failed to release the seat holds of the showtime.');
+    }
+  }
+
+  /**
+   * Deletes every expired hold.
+   * 
+   * @returns the released SeatHold records
+   */
+  async releaseExpiredHolds(): Promise<SeatHold[]> {
+    try {
+      const [rows] = await this.dataSource.query(
+        `DELETE FROM seat_holds WHERE "expiresAt" <= NOW() RETURNING *`);
+      return rows ?? [];
+    } 
+    catch (error) {
+      console.error('DB Error on releaseExpiredHolds:', error);
+      throw new InternalServerErrorException('Failed to release expired seat holds.');
+    }
+  }
+}
@@ -0,0 +1,73 @@
+/**
+ * seatMap.controller.spec.ts
+ *
+ * This file contains unit tests for the `SeatMapController` in a NestJS application.
+ * It tests the `/showtimes/:id/seats` and `/showtimes/:id/best-seats` GET endpoints with a mocked
+ * `BookingService`, verifying:
+ * - The seat map and the best seats are returned as built by the service
+ * - Proper exception propagation when the showtime does not exist
+ */
+
+import { Test, TestingModule } from '@nestjs/testing';
+import { NotFoundException } from '@nestjs/common';
+import { SeatMapController } from './seatMap.controller';
+import { BookingService } from './booking.service';
+import { SeatState } from './seatMap.dto';
+
+describe('SeatMapController', () => {
+  let controller: SeatMapController;
+  let mockBookingService: Partial<Record<keyof BookingService, jest.Mock>>;
+
+  beforeEach(async () => {
+    mockBookingService = {
+      getSeatMap: jest.fn(),
+      findBestSeats: jest.fn(),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      controllers: [SeatMapController],
+      providers: [{ provide: BookingService, useValue: mockBookingService }],
+    }).compile();
+
+    controller = module.get<SeatMapController>(SeatMapController);
+  });
+
+  /**
+   * Should return the seat map of the showtime.
+   */
+  it('should return the seat map', async () => {
+    const seatMap = {
+      showtimeId: 1,
+      seats: [
+        { seatNumber: 1, state: SeatState.BOOKED },
+        { seatNumber: 2, state: SeatState.AVAILABLE },
+      ],
+      totals: { capacity: 2, available: 1, booked: 1, held: 0, blocked: 0 },
+    };
+    mockBookingService.getSeatMap!.mockResolvedValue(seatMap);
+
+    const result = await controller.getSeatMap(1);
+    expect(result).toEqual(seatMap);
+    expect(mockBookingService.getSeatMap).toHaveBeenCalledWith(1);
+  });
+
+  /**
+   * Should throw NotFoundException if the showtime does not exist.
+   */
+  it('should throw NotFoundException if showtime not found', async () => {
+    mockBookingService.getSeatMap!.mockRejectedValue(new NotFoundException('Showtime not found'));
+
+    await expect(controller.getSeatMap(999)).rejects.toThrow(NotFoundException);
+  });
+
+  /**
+   * Should return the best seats suggested for the party.
+   */
+  it('should return the best seats for a party', async () => {
+    const bestSeats = { showtimeId: 1, rowLabel: 'B', seats: [], totalPrice: 0 };
+    mockBookingService.findBestSeats!.mockResolvedValue(bestSeats);
+
+    await expect(controller.findBestSeats(1, 3)).resolves.toEqual(bestSeats);
+    expect(mockBookingService.findBestSeats).toHaveBeenCalledWith(1, 3);
+  });
+});
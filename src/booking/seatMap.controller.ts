@@ -0,0 +1,57 @@
+/**
+ * seatMap.controller.ts
+ *
+ * This controller exposes the seat map of a showtime, so the front end can show
+ * which seats are free, and suggests the best adjacent seats for a party. It lives
+ * in the booking feature because seat states come from bookings and seat holds.
+ * 
+ * Routes:
+ * - GET /showtimes/:id/seats
+ * - GET /showtimes/:id/best-seats?partySize=4
+ */
+
+import { Controller, Get, Param, Query, ParseIntPipe } from '@nestjs/common';
+import { BookingService } from './booking.service';
+import { SeatMapDto } from './seatMap.dto';
+import { BestSeatsDto } from './bestSeats.dto';
+
+@Controller('showtimes')
+export class SeatMapController {
+  constructor(private readonly bookingService: BookingService) {}
+
+  /**
+   * GET /showtimes/:id/seats
+   * 
+   * Returns every seat of the showtime with its state (available, booked, held, blocked)
+   * plus totals per state. Built from a single aggregate query, so it is cheap to poll.
+   * 
+   * @param id - The showtime ID
+   * @returns The seat map of the showtime
+   * @throws NotFoundException if the showtime does not exist
+   */
+  @Get(':id/seats')
+  async getSeatMap(@Param('id', ParseIntPipe) id: number): Promise<SeatMapDto> {
+    return await this.bookingService.getSeatMap(id);
+  }
+
+  /**
+   * GET /showtimes/:id/best-seats?partySize=4
+   * 
+   * Suggests the best block of adjacent free seats for a party, without booking it:
+   * centered, middle rows first, without leaving single seats stranded.
+   * Book it with POST /bookings/best-available, or by seat numbers.
+   * 
+   * @param id - The showtime ID
+   * @param partySize - The number of seats needed
+   * @returns The suggested seats with their current prices
+   * @throws NotFoundException if the showtime does not exist
+   * @throws BadRequestException if the party size is missing or not at least 1, or no block of adjacent
+   * free seats fits the party
+   */
+  @Get(':id/best-seats')
+  async findBestSeats(
+    @Param('id', ParseIntPipe) id: number,
+    @Query('partySize', ParseIntPipe) partySize: number): Promise<BestSeatsDto> {
+    return await this.bookingService.findBestSeats(id, partySize);
+  }
+}
@@ -0,0 +1,74 @@
+/**
+ * seatMap.dto.ts
+ * 
+ * These Data Transfer Objects (DTOs) describe the seat map of a showtime returned to clients:
+ * the state, category and price of every seat in the theater plus totals per state.
+ */
+
+import { SeatCategory } from 'src/theater/theater.entity';
+
+/**
+ * Sale state of a single seat for a showtime.
+ * - available: can be booked or held
+ * - booked: taken by an active booking
+ * - held: reserved by a seat hold that has not expired yet
+ * - blocked: taken off sale by an administrator
+ */
+export enum SeatState {
+  AVAILABLE = 'available',
+  BOOKED = 'booked',
+  HELD = 'held',
+  BLOCKED = 'blocked',
+}
+
+export class SeatStatusDto {
+
+  /**
+   * The seat number (1 up to the theater's capacity).
+   */
+  seatNumber: number;
+
+  /**
+   * The seat label from the theater's layout (e.g. "F12").
+   */
+  seatLabel: string;
+
+  /**
+   * The seat's category from the theater's layout.
+   */
+  seatCategory: SeatCategory;
+
+  /**
+   * The seat's current price for this showtime, based on its category and dynamic pricing.
+   */
+  price: number;
+
+  /**
+   * The seat's current sale state.
+   */
+  state: SeatState;
+}
+
+export class SeatMapDto {
+
+  /**
+   * ID of the showtime the seat map belongs to.
+   */
+  showtimeId: number;
+
+  /**
+   * ID of the theater the showtime runs in.
+   */
+  theaterId: number;
+
+  /**
+   * Every seat of the theater, in seat order.
+   */
+  seats: SeatStatusDto[];
+
+  /**
+   * Number of seats in each state, plus the theater capacity and the sellable capacity
+   * (the seats that are not blocked).
+   */
+  totals: Record<SeatState, number> & { capacity: number; sellableCapacity: number };
+}
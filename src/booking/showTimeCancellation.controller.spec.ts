@@ -0,0 +1,54 @@
+/**
+ * showTimeCancellation.controller.spec.ts
+ *
+ * This file contains unit tests for the `ShowTimeCancellationController`.
+ * It tests the `/showtimes/:id/cancel` endpoint by mocking the underlying ShowTimeCancellationService.
+ */
+
+import { Test, TestingModule } from '@nestjs/testing';
+import { NotFoundException } from '@nestjs/common';
+import { ShowTimeCancellationController } from './showTimeCancellation.controller';
+import { ShowTimeCancellationService } from './showTimeCancellation.service';
+
+describe('ShowTimeCancellationController', () => {
+  let controller: ShowTimeCancellationController;
+  let mockCancellationService: Partial<Record<keyof ShowTimeCancellationService, jest.Mock>>;
+
+  beforeEach(async () => {
+    mockCancellationService = {
+      cancelShowTime: jest.fn()
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      controllers: [ShowTimeCancellationController],
+      providers: [{ provide: ShowTimeCancellationService, useValue: mockCancellationService }],
+    }).compile();
+
+    controller = module.get<ShowTimeCancellationController>(ShowTimeCancellationController);
+  });
+
+  /**
+   * Should return the cancellation with the affected customers.
+   */
+  it('should cancel a showtime', async () => {
+    const cancellation = {
+      showtimeId: 7, cancelledAt: new Date(), reason: 'Projector failure', cancelledBookings: 1, refundsQueued: 1,
+      customers: [{ userId: 'user-a', bookingIds: ['booking-1'], seatNumbers: [1], refundQueued: true }],
+    };
+    mockCancellationService.cancelShowTime.mockResolvedValue(cancellation);
+
+    const result = await controller.cancelShowTime(7, { reason: 'Projector failure' });
+
+    expect(mockCancellationService.cancelShowTime).toHaveBeenCalledWith(7, { reason: 'Projector failure' });
+    expect(result).toEqual(cancellation);
+  });
+
+  /**
+   * Should propagate NotFoundException when the showtime does not exist.
+   */
+  it('should throw NotFoundException if the showtime does not exist', async () => {
+    mockCancellationService.cancelShowTime.mockRejectedValue(new NotFoundException());
+
+    await expect(controller.cancelShowTime(999, { reason: 'Projector failure' })).rejects.toThrow(NotFoundException);
+  });
+});
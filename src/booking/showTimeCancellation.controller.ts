@@ -0,0 +1,36 @@
+/**
+ * showTimeCancellation.controller.ts
+ *
+ * This controller handles the admin request to cancel a showtime, which also cancels its bookings
+ * and queues their refunds. It lives in the booking feature because the cancellation cascades to
+ * bookings and seat holds. Business logic lives in ShowTimeCancellationService.
+ *
+ * Routes:
+ * - POST /showtimes/:id/cancel
+ */
+
+import { Controller, Post, Body, Param, ParseIntPipe } from '@nestjs/common';
+import { ShowTimeCancellationService } from './showTimeCancellation.service';
+import { CancelShowTimeDto, ShowTimeCancellationDto } from './showTimeCancellation.dto';
+
+@Controller('showtimes')
+export class ShowTimeCancellationController {
+  constructor(private readonly showTimeCancellationService: ShowTimeCancellationService) {}
+
+  /**
+   * POST /showtimes/:id/cancel
+   *
+   * Cancels a showtime with a reason. Every active booking on it is cancelled, the paid ones are
+   * queued for a refund, and the affected customers are listed for notification.
+   *
+   * @param id - The showtime ID
+   * @param data - The request body containing the reason
+   * @returns The cancellation, with the affected customers
+   * @throws NotFoundException if the showtime does not exist
+   * @throws BadRequestException if the showtime was already cancelled
+   */
+  @Post(':id/cancel')
+  async cancelShowTime(@Param('id', ParseIntPipe) id: number, @Body() data: CancelShowTimeDto): Promise<ShowTimeCancellationDto> {
+    return await this.showTimeCancellationService.cancelShowTime(id, data);
+  }
+}
@@ -0,0 +1,63 @@
+/**
+ * showTimeCancellation.dto.ts
+ *
+ * This file defines the admin request to cancel a showtime, with the reason it is cancelled,
+ * and the report of the cancellation: the bookings cancelled and refunds queued, and the
+ * affected customers to notify.
+ */
+
+import { IsString, IsNotEmpty, MaxLength } from "class-validator";
+
+export class CancelShowTimeDto {
+
+  /**
+   * Why the showtime is cancelled (e.g. "Projector failure"). Kept on the showtime.
+   */
+  @IsString({ message: "Reason must be a string." })
+  @IsNotEmpty({ message: "Reason is required." })
+  @MaxLength(255, { message: "Reason must be at most 255 characters long." })
+  reason: string;
+}
+
+/**
+ * A customer affected by a showtime cancellation, with the bookings of theirs that were cancelled.
+ */
+export interface CancelledShowTimeCustomer {
+  userId: string;
+  bookingIds: string[];
+  seatNumbers: number[];
+  refundQueued: boolean;      // Whether any of their bookings is queued for a refund
+}
+
+export class ShowTimeCancellationDto {
+
+  /**
+   * The cancelled showtime.
+   */
+  showtimeId: number;
+
+  /**
+   * When the showtime was cancelled.
+   */
+  cancelledAt: Date;
+
+  /**
+   * Why the showtime was cancelled.
+   */
+  reason: string;
+
+  /**
+   * How many active bookings were cancelled.
+   */
+  cancelledBookings: number;
+
+  /**
+   * How many of the cancelled bookings were queued for a refund (paid, or with a checkout open).
+   */
+  refundsQueued: number;
+
+  /**
+   * The affected customers to notify, one per user.
+   */
+  customers: CancelledShowTimeCustomer[];
+}
@@ -0,0 +1,141 @@
+/**
+ * showTimeCancellation.service.spec.ts
+ *
+ * This file contains unit tests for the `ShowTimeCancellationService`, which cancels a showtime
+ * together with its bookings and seat holds.
+ *
+ * These tests cover:
+ * - Cancelling the showtime, its bookings and its holds under the showtime's seat lock
+ * - Reporting the refunds queued and the affected customers, grouped per user
+ * - Announcing the cancellation once it is committed
+ * - Rejecting missing and already cancelled showtimes
+ */
+
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException, NotFoundException } from '@nestjs/common';
+import { ShowTimeCancellationService } from './showTimeCancellation.service';
+import { BookingRepository } from './booking.repository';
+import { SeatHoldRepository } from './seatHold.repository';
+import { BookingEvents } from './booking.events';
+import { BookingStatus } from './booking.entity';
+import { ShowTimeRepository } from 'src/showTime/showTime.repository';
+
+describe('ShowTimeCancellationService', () => {
+  let service: ShowTimeCancellationService;
+  let bookingEvents: BookingEvents;
+  let mockBookingRepository: Partial<Record<keyof BookingRepository, jest.Mock>>;
+  let mockSeatHoldRepository: Partial<Record<keyof SeatHoldRepository, jest.Mock>>;
+  let mockShowTimeRepository: Partial<Record<keyof ShowTimeRepository, jest.Mock>>;
+
+  const manager = { query: jest.fn() };
+  const cancelledAt = new Date('2025-01-10T15:00:00Z');
+  const showtime = { id: 7, movieId: 1, theaterId: 3, cancelledAt: null, cancellationReason: null };
+
+  const booking = (bookingId: string, userId: string, seatNumber: number, refundQueued: boolean) => ({
+    bookingId, showtimeId: 7, userId, seatNumber, status: BookingStatus.CANCELLED,
+    refundQueuedAt: refundQueued ? cancelledAt : null,
+  });
+
+  beforeEach(async () => {
+    mockBookingRepository = {
+      runWithSeatLock: jest.fn().mockImplementation(async (_ids, work) => await work(manager)),
+      cancelShowTimeBookings: jest.fn().mockResolvedValue([]),
+    };
+
+    mockSeatHoldRepository = {
+      deleteHoldsForShowTime: jest.fn().mockResolvedValue(undefined),
+    };
+
+    mockShowTimeRepository = {
+      fetchShowTimeById: jest.fn().mockResolvedValue(showtime),
+      markShowTimeCancelled: jest.fn().mockResolvedValue({ ...showtime, cancelledAt, cancellationReason: 'Projector failure' }),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ShowTimeCancellationService,
+        BookingEvents,
+        { provide: BookingRepository, useValue: mockBookingRepository },
+        { provide: SeatHoldRepository, useValue: mockSeatHoldRepository },
+        { provide: 'ShowTimeRepository', useValue: mockShowTimeRepository },
+      ],
+    }).compile();
+
+    service = module.get<ShowTimeCancellationService>(ShowTimeCancellationService);
+    bookingEvents = module.get<BookingEvents>(BookingEvents);
+  });
+
+  /**
+   * Should cancel the showtime, its bookings and its holds in one seat-locked transaction.
+   */
+  it('should cancel the showtime with its bookings and holds', async () => {
+    await service.cancelShowTime(7, { reason: '  Projector failure ' });
+
+    expect(mockBookingRepository.runWithSeatLock).toHaveBeenCalledWith([7], expect.any(Function));
+    expect(mockShowTimeRepository.markShowTimeCancelled).toHaveBeenCalledWith(7, 'Projector failure', manager);
+    expect(mockBookingRepository.cancelShowTimeBookings).toHaveBeenCalledWith(7, manager);
+    expect(mockSeatHoldRepository.deleteHoldsForShowTime).toHaveBeenCalledWith(7, manager);
+  });
+
+  /**
+   * Should report the queued refunds and list each affected customer once, with all their seats.
+   */
+  it('should group the affected customers', async () => {
+    mockBookingRepository.cancelShowTimeBookings.mockResolvedValue([
+      booking('booking-1', 'user-a', 1, true),
+      booking('booking-2', 'user-b', 2, false),
+      booking('booking-3', 'user-a', 3, true),
+    ]);
+
+    const result = await service.cancelShowTime(7, { reason: 'Projector failure' });
+
+    expect(result).toEqual({
+      showtimeId: 7,
+      cancelledAt,
+      reason: 'Projector failure',
+      cancelledBookings: 3,
+      refundsQueued: 2,
+      customers: [
+        { userId: 'user-a', bookingIds: ['booking-1', 'booking-3'], seatNumbers: [1, 3], refundQueued: true },
+        { userId: 'user-b', bookingIds: ['booking-2'], seatNumbers: [2], refundQueued: false },
+      ],
+    });
+  });
+
+  /**
+   * Should announce the cancellation, without announcing the seats as back on sale.
+   */
+  it('should announce the cancelled showtime', async () => {
+    const cancelled = jest.fn();
+    const released = jest.fn();
+    bookingEvents.onShowTimeCancelled(cancelled);
+    bookingEvents.onSeatsReleased(released);
+
+    await service.cancelShowTime(7, { reason: 'Projector failure' });
+
+    expect(cancelled).toHaveBeenCalledWith({ showtimeId: 7, reason: 'Projector failure' });
+    expect(released).not.toHaveBeenCalled();
+  });
+
+  /**
+   * Should throw NotFoundException if the showtime does not exist.
+   */
+  it('should throw NotFoundException if the showtime does not exist', async () => {
+    mockShowTimeRepository.fetchShowTimeById.mockResolvedValue(null);
+
+    await expect(service.cancelShowTime(7, { reason: 'Projector failure' })).rejects.toThrow(NotFoundException);
+    expect(mockBookingRepository.runWithSeatLock).not.toHaveBeenCalled();
+  });
+
+  /**
+   * Should throw BadRequestException if the showtime was already cancelled, including concurrently.
+   */
+  it('should throw BadRequestException if the showtime was already cancelled', async () => {
+    mockShowTimeRepository.fetchShowTimeById.mockResolvedValueOnce({ ...showtime, cancelledAt });
+    await expect(service.cancelShowTime(7, { reason: 'Projector failure' })).rejects.toThrow(BadRequestException);
+
+    mockShowTimeRepository.markShowTimeCancelled.mockResolvedValue(null);
+    await expect(service.cancelShowTime(7, { reason: 'Projector failure' })).rejects.toThrow(BadRequestException);
+    expect(mockBookingRepository.cancelShowTimeBookings).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,91 @@
+/**
+ * showTimeCancellation.service.ts
+ *
+ * This service lets administrators cancel a showtime (e.g. after a projector failure) instead of
+ * deleting it. In a single transaction holding the showtime's seat lock, it:
+ * - Marks the showtime as cancelled, with the reason
+ * - Cancels every active booking on it, queuing for a refund the ones paid or with a checkout open
+ * - Releases every seat hold on it
+ *
+ * Queued refunds are paid out by PaymentService's sweep once their payment has gone through, so
+ * a payment provider outage cannot block the cancellation.
+ *
+ * Once committed, the cancellation is announced through BookingEvents (which closes the
+ * showtime's waitlist) and the affected customers are returned, grouped per user, for notification.
+ */
+
+import { Injectable, BadRequestException, NotFoundException, Inject } from '@nestjs/common';
+import { BookingRepository } from './booking.repository';
+import { SeatHoldRepository } from './seatHold.repository';
+import { BookingEvents } from './booking.events';
+import { Booking } from './booking.entity';
+import { CancelShowTimeDto, CancelledShowTimeCustomer, ShowTimeCancellationDto } from './showTimeCancellation.dto';
+import { ShowTimeRepository } from 'src/showTime/showTime.repository';
+
+@Injectable()
+export class ShowTimeCancellationService {
+  constructor(
+    private readonly bookingRepository: BookingRepository,
+    private readonly seatHoldRepository: SeatHoldRepository,
+    private readonly bookingEvents: BookingEvents,
+    @Inject('ShowTimeRepository') private readonly showTimeRepository: ShowTimeRepository,
+  ) {}
+
+  /**
+   * Cancels a showtime together with its active bookings and seat holds.
+   *
+   * @param showtimeId - The showtime ID
+   * @param data - The reason the showtime is cancelled
+   * @returns the cancellation, with the affected customers to notify
+   * @throws NotFoundException if the showtime does not exist
+   * @throws BadRequestException if the showtime was already cancelled
+   */
+  async cancelShowTime(showtimeId: number, data: CancelShowTimeDto): Promise<ShowTimeCancellationDto> {
+    const showtime = await this.showTimeRepository.fetchShowTimeById(showtimeId);
+    if (!showtime) {
+      throw new NotFoundException(`Showtime with ID ${showtimeId} not found.`);
+    }
+    if (showtime.cancelledAt) {
+      throw new BadRequestException(`Showtime ${showtimeId} was already cancelled.`);
+    }
+
+    const reason = data.reason.trim();
+    const { cancelledAt, bookings } = await this.bookingRepository.runWithSeatLock([showtimeId], async (manager) => {
+      const cancelled = await this.showTimeRepository.markShowTimeCancelled(showtimeId, reason, manager);
+      if (!cancelled) {
+        throw new BadRequestException(`Showtime ${showtimeId} was already cancelled.`);
+      }
+
+      const bookings = await this.bookingRepository.cancelShowTimeBookings(showtimeId, manager);
+      await this.seatHoldRepository.deleteHoldsForShowTime(showtimeId, manager);
+      return { cancelledAt: new Date(cancelled.cancelledAt), bookings };
+    });
+
+    this.bookingEvents.emitShowTimeCancelled({ showtimeId, reason });
+
+    return {
+      showtimeId,
+      cancelledAt,
+      reason,
+      cancelledBookings: bookings.length,
+      refundsQueued: bookings.filter(booking => booking.refundQueuedAt).length,
+      customers: this.groupByCustomer(bookings),
+    };
+  }
+
+  /**
+   * Groups cancelled bookings per customer, in the order the customers first appear.
+   */
+  private groupByCustomer(bookings: Booking[]): CancelledShowTimeCustomer[] {
+    const customers = new Map<string, CancelledShowTimeCustomer>();
+    for (const booking of bookings) {
+      const customer = customers.get(booking.userId)
+        ?? { userId: booking.userId, bookingIds: [], seatNumbers: [], refundQueued: false };
+      customer.bookingIds.push(booking.bookingId);
+      customer.seatNumbers.push(booking.seatNumber);
+      customer.refundQueued = customer.refundQueued || booking.refundQueuedAt !== null;
+      customers.set(booking.userId, customer);
+    }
+    return [...customers.values()];
+  }
+}
@@ -0,0 +1,78 @@
+/**
+ * ticketToken.service.spec.ts
+ *
+ * This file contains unit tests for the `TicketTokenService`, which signs and verifies
+ * the ticket tokens checked at the door.
+ *
+ * These tests cover:
+ * - A signed token verifies back to its booking details
+ * - Tampered, forged and malformed tokens are rejected
+ * - The service refuses to start without a signing secret
+ */
+
+import { createHmac } from 'crypto';
+import { TicketTokenService } from './ticketToken.service';
+
+describe('TicketTokenService', () => {
+  const service = new TicketTokenService();
+  const ticket = { bookingId: 'abcabcab-1111-2222-3333-abcabcabcabc', showtimeId: 4, seatNumber: 12 };
+
+  const encode = (value: object) => Buffer.from(JSON.stringify(value)).toString('base64url');
+
+  /**
+   * Should read back the booking details of a token it signed.
+   */
+  it('should verify a signed token', () => {
+    const token = service.sign(ticket);
+
+    expect(token).toMatch(/^[A-Za-z0-9_-]+\.[A-Za-z0-9_-]+$/);
+    expect(service.verify(token)).toEqual(ticket);
+  });
+
+  /**
+   * Should reject a token whose payload was changed after signing.
+   */
+  it('should reject a tampered payload', () => {
+    const [, signature] = service.sign(ticket).split('.');
+    const tampered = `${encode({ ...ticket, seatNumber: 1 })}.${signature}`;
+
+    expect(service.verify(tampered)).toBeNull();
+  });
+
+  /**
+   * Should reject a token signed with another secret.
+   */
+  it('should reject a token signed with another secret', () => {
+    const payload = encode(ticket);
+    const forged = `${payload}.${createHmac('sha256', 'wrong-secret').update(payload).digest('base64url')}`;
+
+    expect(service.verify(forged)).toBeNull();
+  });
+
+  /**
+   * Should reject tokens that are not in the `<payload>.<signature>` format.
+   */
+  it('should reject malformed tokens', () => {
+    expect(service.verify('')).toBeNull();
+    expect(service.verify('not-a-token')).toBeNull();
+    expect(service.verify(`${service.sign(ticket)}.extra`)).toBeNull();
+  });
+
+  /**
+   * Should refuse to be created outside tests when no secret is configured.
+   */
+  it('should require a secret outside tests', async () => {
+    const env = { ...process.env };
+    process.env.NODE_ENV = 'production';
+    delete process.env.TICKET_TOKEN_SECRET;
+    try {
+      await jest.isolateModulesAsync(async () => {
+        const { TicketTokenService: UnconfiguredService } = await import('./ticketToken.service');
+        expect(() => new UnconfiguredService()).toThrow('TICKET_TOKEN_SECRET must be set to sign tickets.');
+      });
+    }
+    finally {
+      process.env = env;
+    }
+  });
+});
@@ -0,0 +1,87 @@
+/**
+ * ticketToken.service.ts
+ *
+ * Signs and verifies ticket tokens, so a ticket can be checked at the door without trusting
+ * the client. A token is `<payload>.<signature>`, both base64url encoded: the payload holds the
+ * booking ID, showtime ID and seat number, and the signature is an HMAC-SHA256 of the payload.
+ * Tokens only use URL-safe characters, so they can be put in a QR code as is.
+ */
+
+import { Injectable } from '@nestjs/common';
+import { createHmac, timingSafeEqual } from 'crypto';
+import { Booking } from './booking.entity';
+import { TICKET_TOKEN_SECRET } from './booking.constants';
+
+/**
+ * The booking details carried by a ticket token.
+ */
+export type TicketTokenPayload = Pick<Booking, 'bookingId' | 'showtimeId' | 'seatNumber'>;
+
+@Injectable()
+export class TicketTokenService {
+  private readonly secret: string;
+
+  /**
+   * @throws Error if TICKET_TOKEN_SECRET is not set, so the application does not start without it
+   */
+  constructor() {
+    if (!TICKET_TOKEN_SECRET) {
+      throw new Error('TICKET_TOKEN_SECRET must be set to sign tickets.');
+    }
+    this.secret = TICKET_TOKEN_SECRET;
+  }
+
+  /**
+   * Computes the signature of an encoded payload.
+   */
+  private signPayload(encodedPayload: string): Buffer {
+    return createHmac('sha256', this.secret).update(encodedPayload).digest();
+  }
+
+  /**
+   * Issues the signed ticket token of a booking.
+   *
+   * @param booking - The booking ID, showtime ID and seat number
+   * @returns the ticket token
+   */
+  sign(booking: TicketTokenPayload): string {
+    const payload: TicketTokenPayload = {
+      bookingId: booking.bookingId,
+      showtimeId: booking.showtimeId,
+      seatNumber: booking.seatNumber,
+    };
+    const encodedPayload = Buffer.from(JSON.stringify(payload)).toString('base64url');
+
+    return `${encodedPayload}.${this.signPayload(encodedPayload).toString('base64url')}`;
+  }
+
+  /**
+   * Checks a ticket token's signature and reads its payload.
+   *
+   * @param token - The ticket token
+   * @returns the booking details, or null if the token is malformed or its signature does not match
+   */
+  verify(token: string): TicketTokenPayload | null {
+    const [encodedPayload, encodedSignature, ...rest] = token.split('.');
+    if (!encodedPayload || !encodedSignature || rest.length > 0) {
+      return null;
+    }
+
+    const expected = this.signPayload(encodedPayload);
+    const signature = Buffer.from(encodedSignature, 'base64url');
+    if (signature.length !== expected.length || !timingSafeEqual(signature, expected)) {
+      return null;
+    }
+
+    try {
+      const payload = JSON.parse(Buffer.from(encodedPayload, 'base64url').toString());
+      if (typeof payload?.bookingId !== 'string' || !Number.isInteger(payload.showtimeId) || !Number.isInteger(payload.seatNumber)) {
+        return null;
+      }
+      return { bookingId: payload.bookingId, showtimeId: payload.showtimeId, seatNumber: payload.seatNumber };
+    }
+    catch {
+      return null;
+    }
+  }
+}
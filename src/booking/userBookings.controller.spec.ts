@@ -0,0 +1,56 @@
+/**
+ * userBookings.controller.spec.ts
+ *
+ * This file contains unit tests for the `UserBookingsController` in a NestJS application.
+ * It tests the `/users/:userId/bookings` GET endpoint with a mocked `BookingService`, verifying:
+ * - The page of bookings is returned as built by the service
+ * - Proper exception propagation for an invalid page or limit
+ */
+
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException } from '@nestjs/common';
+import { UserBookingsController } from './userBookings.controller';
+import { BookingService } from './booking.service';
+import { BookingHistoryFilter } from './bookingHistory.dto';
+
+describe('UserBookingsController', () => {
+  let controller: UserBookingsController;
+  let mockBookingService: Partial<Record<keyof BookingService, jest.Mock>>;
+
+  const userId = 'abcabcab-1111-2222-3333-abcabcabcabc';
+
+  beforeEach(async () => {
+    mockBookingService = {
+      getBookingHistory: jest.fn(),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      controllers: [UserBookingsController],
+      providers: [{ provide: BookingService, useValue: mockBookingService }],
+    }).compile();
+
+    controller = module.get<UserBookingsController>(UserBookingsController);
+  });
+
+  /**
+   * Should return the page of bookings built by the service.
+   */
+  it('should return the booking history', async () => {
+    const history = { items: [], page: 2, limit: 10, total: 12 };
+    mockBookingService.getBookingHistory!.mockResolvedValue(history);
+
+    const result = await controller.getBookingHistory(userId, BookingHistoryFilter.UPCOMING, 2, 10);
+
+    expect(result).toEqual(history);
+    expect(mockBookingService.getBookingHistory).toHaveBeenCalledWith(userId, BookingHistoryFilter.UPCOMING, 2, 10);
+  });
+
+  /**
+   * Should propagate BadRequestException for an out-of-range page or limit.
+   */
+  it('should throw BadRequestException for an invalid limit', async () => {
+    mockBookingService.getBookingHistory!.mockRejectedValue(new BadRequestException('Limit must be between 1 and 100.'));
+
+    await expect(controller.getBookingHistory(userId, BookingHistoryFilter.ALL, 1, 500)).rejects.toThrow(BadRequestException);
+  });
+});
@@ -0,0 +1,40 @@
+/**
+ * userBookings.controller.ts
+ *
+ * This controller exposes a customer's booking history, so the customer app can build
+ * a "My tickets" screen from a single request. It lives in the booking feature because
+ * the history is read from bookings.
+ *
+ * Route: GET /users/:userId/bookings?status=upcoming|past|cancelled|all&page=1&limit=20
+ */
+
+import { Controller, Get, Param, Query, ParseUUIDPipe, ParseIntPipe, ParseEnumPipe, DefaultValuePipe } from '@nestjs/common';
+import { BookingService } from './booking.service';
+import { BookingHistoryDto, BookingHistoryFilter } from './bookingHistory.dto';
+
+@Controller('users')
+export class UserBookingsController {
+  constructor(private readonly bookingService: BookingService) {}
+
+  /**
+   * GET /users/:userId/bookings
+   *
+   * Lists one page of the user's bookings, each with its showtime (theater, start and end time)
+   * and movie title.
+   *
+   * @param userId - UUID of the user
+   * @param status - Which bookings to list: upcoming, past, cancelled or all (default)
+   * @param page - The page number, starting at 1 (default 1)
+   * @param limit - The number of bookings per page, 1–100 (default 20)
+   * @returns The page of bookings and the total number of matching bookings
+   * @throws BadRequestException if a query parameter is invalid
+   */
+  @Get(':userId/bookings')
+  async getBookingHistory(
+    @Param('userId', ParseUUIDPipe) userId: string,
+    @Query('status', new DefaultValuePipe(BookingHistoryFilter.ALL), new ParseEnumPipe(BookingHistoryFilter)) status: BookingHistoryFilter,
+    @Query('page', new DefaultValuePipe(1), ParseIntPipe) page: number,
+    @Query('limit', new DefaultValuePipe(20), ParseIntPipe) limit: number): Promise<BookingHistoryDto> {
+    return await this.bookingService.getBookingHistory(userId, status, page, limit);
+  }
+}
@@ -0,0 +1,61 @@
+/**
+ * checkin.controller.spec.ts
+ *
+ * This file contains unit tests for the `CheckInController` in a NestJS application.
+ * It tests the `/checkin` POST endpoint with a mocked `CheckInService`, verifying:
+ * - The checked-in booking is returned as built by the service
+ * - Proper exception propagation for invalid and duplicate tickets
+ */
+
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException, ConflictException } from '@nestjs/common';
+import { CheckInController } from './checkin.controller';
+import { CheckInService } from './checkin.service';
+
+describe('CheckInController', () => {
+  let controller: CheckInController;
+  let mockCheckInService: Partial<Record<keyof CheckInService, jest.Mock>>;
+
+  beforeEach(async () => {
+    mockCheckInService = {
+      checkIn: jest.fn(),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      controllers: [CheckInController],
+      providers: [{ provide: CheckInService, useValue: mockCheckInService }],
+    }).compile();
+
+    controller = module.get<CheckInController>(CheckInController);
+  });
+
+  /**
+   * Should return the checked-in booking.
+   */
+  it('should check a ticket in', async () => {
+    const data = { ticketToken: 'payload.signature', showtimeId: 1 };
+    const checkedIn = { bookingId: 'booking-1', showtimeId: 1, seatNumber: 7, userId: 'user-1', checkedInAt: new Date() };
+    mockCheckInService.checkIn!.mockResolvedValue(checkedIn);
+
+    await expect(controller.checkIn(data)).resolves.toEqual(checkedIn);
+    expect(mockCheckInService.checkIn).toHaveBeenCalledWith(data);
+  });
+
+  /**
+   * Should propagate BadRequestException for an invalid ticket.
+   */
+  it('should throw BadRequestException for an invalid ticket', async () => {
+    mockCheckInService.checkIn!.mockRejectedValue(new BadRequestException('Invalid ticket token.'));
+
+    await expect(controller.checkIn({ ticketToken: 'bad', showtimeId: 1 })).rejects.toThrow(BadRequestException);
+  });
+
+  /**
+   * Should propagate ConflictException for a ticket already checked in.
+   */
+  it('should throw ConflictException for a duplicate check-in', async () => {
+    mockCheckInService.checkIn!.mockRejectedValue(new ConflictException('Already checked in'));
+
+    await expect(controller.checkIn({ ticketToken: 'payload.signature', showtimeId: 1 })).rejects.toThrow(ConflictException);
+  });
+});
@@ -0,0 +1,39 @@
+/**
+ * checkin.controller.ts
+ *
+ * This controller handles ticket scans at the door of a showtime.
+ * Validation is handled by CheckInDto.
+ *
+ * Routes:
+ * - POST /checkin
+ */
+
+import { Controller, Post, Body } from '@nestjs/common';
+import { CheckInService } from './checkin.service';
+import { CheckInDto, CheckInResultDto } from './checkin.dto';
+
+@Controller('checkin')
+export class CheckInController {
+  constructor(private readonly checkInService: CheckInService) {}
+
+  /**
+   * POST /checkin
+   *
+   * Verifies a scanned ticket token and checks the customer in to the showtime.
+   *
+   * @param checkInData - The request body containing ticketToken and showtimeId
+   * @returns The checked-in booking with its check-in time
+   *
+   * @throws BadRequestException if:
+   * - the ticket token is invalid
+   * - the ticket is for another showtime
+   * - the booking is cancelled or refunded
+   *
+   * @throws NotFoundException if the booking does not exist
+   * @throws ConflictException if the ticket was already checked in
+   */
+  @Post()
+  async checkIn(@Body() checkInData: CheckInDto): Promise<CheckInResultDto> {
+    return await this.checkInService.checkIn(checkInData);
+  }
+}
@@ -0,0 +1,54 @@
+/**
+ * checkin.dto.ts
+ *
+ * These Data Transfer Objects (DTOs) define the request sent when a ticket is scanned
+ * at the door of a showtime, and the checked-in ticket returned to the usher.
+ */
+
+import { IsString, IsNotEmpty, IsInt, Min } from "class-validator";
+
+export class CheckInDto {
+
+  /**
+   * The signed ticket token read from the customer's QR code.
+   */
+  @IsString({ message: "Ticket token must be a string." })
+  @IsNotEmpty({ message: "Ticket token is required." })
+  ticketToken: string;
+
+  /**
+   * ID of the showtime the door is checking in.
+   * Must be a positive integer.
+   */
+  @IsInt({ message: "Showtime ID must be a valid number." })
+  @Min(1, { message: "Showtime ID must be greater than 0." })
+  showtimeId: number;
+}
+
+export class CheckInResultDto {
+
+  /**
+   * ID of the checked-in booking.
+   */
+  bookingId: string;
+
+  /**
+   * The showtime the customer was checked in to.
+   */
+  showtimeId: number;
+
+  /**
+   * The customer's seat number.
+   */
+  seatNumber: number;
+
+  /**
+   * UUID of the user who booked the ticket.
+   */
+  userId: string;
+
+  /**
+   * When the ticket was checked in.
+   */
+  checkedInAt: Date;
+}
@@ -0,0 +1,28 @@
+/**
+ * checkin.module.ts
+ *
+ * This module checks customers in at the door of a showtime.
+ *
+ * It imports:
+ * - BookingModule for the bookings and the ticket token verification
+ *
+ * This module:
+ * - Registers 'CheckInController' to handle HTTP requests
+ * - Provides 'CheckInService' for the check-in logic
+ */
+
+import { Module } from '@nestjs/common';
+import { CheckInController } from './checkin.controller';
+import { CheckInService } from './checkin.service';
+import { BookingModule } from 'src/booking/booking.module';
+
+@Module({
+  imports: [BookingModule],
+  controllers: [CheckInController],
+  providers: [CheckInService],
+})
+export class CheckInModule {
+  constructor() {
+    console.log('CheckInModule loaded');
+  }
+}
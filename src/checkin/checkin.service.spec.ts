@@ -0,0 +1,128 @@
+/**
+ * checkin.service.spec.ts
+ *
+ * This file contains unit tests for the `CheckInService`, which checks customers in
+ * at the door by verifying their signed ticket token.
+ *
+ * These tests cover:
+ * - Checking in a valid ticket and recording the check-in time
+ * - Rejecting invalid, wrong-showtime, outdated, cancelled and duplicate tickets
+ */
+
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException, ConflictException, NotFoundException } from '@nestjs/common';
+import { CheckInService } from './checkin.service';
+import { BookingRepository } from 'src/booking/booking.repository';
+import { TicketTokenService } from 'src/booking/ticketToken.service';
+import { BookingStatus } from 'src/booking/booking.entity';
+
+describe('CheckInService', () => {
+  let service: CheckInService;
+  let ticketTokenService: TicketTokenService;
+  let mockBookingRepository: Partial<Record<keyof BookingRepository, jest.Mock>>;
+
+  const booking = {
+    bookingId: 'abcabcab-1111-2222-3333-abcabcabcabc',
+    showtimeId: 1,
+    seatNumber: 7,
+    userId: 'ffffffff-1111-2222-3333-abcabcabcabc',
+    status: BookingStatus.CONFIRMED,
+    checkedInAt: null,
+  };
+  let ticketToken: string;
+
+  beforeEach(async () => {
+    mockBookingRepository = {
+      fetchBookingById: jest.fn().mockResolvedValue(booking),
+      checkInBooking: jest.fn(),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        CheckInService,
+        TicketTokenService,
+        { provide: BookingRepository, useValue: mockBookingRepository },
+      ],
+    }).compile();
+
+    service = module.get<CheckInService>(CheckInService);
+    ticketTokenService = module.get<TicketTokenService>(TicketTokenService);
+    ticketToken = ticketTokenService.sign(booking);
+  });
+
+  /**
+   * Should check a valid ticket in and return the check-in time.
+   */
+  it('should check in a valid ticket', async () => {
+    const checkedInAt = new Date('2025-01-01T19:55:00Z');
+    mockBookingRepository.checkInBooking.mockResolvedValue({ ...booking, checkedInAt });
+
+    const result = await service.checkIn({ ticketToken, showtimeId: 1 });
+
+    expect(result).toEqual({ bookingId: booking.bookingId, showtimeId: 1, seatNumber: 7, userId: booking.userId, checkedInAt });
+    expect(mockBookingRepository.checkInBooking).toHaveBeenCalledWith(booking.bookingId);
+  });
+
+  /**
+   * Should reject a token whose signature does not match.
+   */
+  it('should throw BadRequestException for an invalid token', async () => {
+    await expect(service.checkIn({ ticketToken: `${ticketToken}x`, showtimeId: 1 })).rejects.toThrow(BadRequestException);
+    expect(mockBookingRepository.fetchBookingById).not.toHaveBeenCalled();
+  });
+
+  /**
+   * Should reject a ticket scanned at the door of another showtime.
+   */
+  it('should throw BadRequestException for a ticket of another showtime', async () => {
+    await expect(service.checkIn({ ticketToken, showtimeId: 2 })).rejects.toThrow(BadRequestException);
+    expect(mockBookingRepository.checkInBooking).not.toHaveBeenCalled();
+  });
+
+  /**
+   * Should reject a ticket whose booking has since moved to another seat.
+   */
+  it('should throw BadRequestException for an outdated ticket', async () => {
+    mockBookingRepository.fetchBookingById.mockResolvedValue({ ...booking, seatNumber: 8 });
+
+    await expect(service.checkIn({ ticketToken, showtimeId: 1 })).rejects.toThrow(BadRequestException);
+  });
+
+  /**
+   * Should reject the ticket of a cancelled booking.
+   */
+  it('should throw BadRequestException for a cancelled booking', async () => {
+    mockBookingRepository.fetchBookingById.mockResolvedValue({ ...booking, status: BookingStatus.CANCELLED });
+
+    await expect(service.checkIn({ ticketToken, showtimeId: 1 })).rejects.toThrow(BadRequestException);
+    expect(mockBookingRepository.checkInBooking).not.toHaveBeenCalled();
+  });
+
+  /**
+   * Should reject a ticket that was already checked in.
+   */
+  it('should throw ConflictException for a ticket already checked in', async () => {
+    mockBookingRepository.fetchBookingById.mockResolvedValue({ ...booking, checkedInAt: new Date('2025-01-01T19:50:00Z') });
+
+    await expect(service.checkIn({ ticketToken, showtimeId: 1 })).rejects.toThrow(ConflictException);
+    expect(mockBookingRepository.checkInBooking).not.toHaveBeenCalled();
+  });
+
+  /**
+   * Should reject the second of two simultaneous scans of the same ticket.
+   */
+  it('should throw ConflictException if the ticket is checked in concurrently', async () => {
+    mockBookingRepository.checkInBooking.mockResolvedValue(null);
+
+    await expect(service.checkIn({ ticketToken, showtimeId: 1 })).rejects.toThrow(ConflictException);
+  });
+
+  /**
+   * Should throw NotFoundException if the booking no longer exists.
+   */
+  it('should throw NotFoundException if booking not found', async () => {
+    mockBookingRepository.fetchBookingById.mockResolvedValue(null);
+
+    await expect(service.checkIn({ ticketToken, showtimeId: 1 })).rejects.toThrow(NotFoundException);
+  });
+});
@@ -0,0 +1,78 @@
+/**
+ * checkin.service.ts
+ *
+ * This service checks customers in at the door of a showtime. It verifies:
+ * - The ticket token's signature (see TicketTokenService)
+ * - The ticket is for the showtime being checked in
+ * - The booking still exists, matches the ticket and is confirmed (not cancelled or refunded)
+ * - The ticket has not been checked in already
+ *
+ * If all checks pass, the check-in time is recorded on the booking.
+ */
+
+import { Injectable, BadRequestException, NotFoundException, ConflictException } from '@nestjs/common';
+import { BookingRepository } from 'src/booking/booking.repository';
+import { TicketTokenService } from 'src/booking/ticketToken.service';
+import { BookingStatus } from 'src/booking/booking.entity';
+import { CheckInDto, CheckInResultDto } from './checkin.dto';
+
+@Injectable()
+export class CheckInService {
+  constructor(
+    private readonly bookingRepository: BookingRepository,
+    private readonly ticketTokenService: TicketTokenService,
+  ) {}
+
+  /**
+   * Checks a ticket in at the door of a showtime.
+   *
+   * @param data - The scanned ticket token and the showtime being checked in
+   * @returns the checked-in booking with its check-in time
+   * @throws BadRequestException if the token is invalid, is for another showtime or seat, or the booking is not confirmed
+   * @throws NotFoundException if the booking does not exist
+   * @throws ConflictException if the ticket was already checked in
+   */
+  async checkIn(data: CheckInDto): Promise<CheckInResultDto> {
+    const { ticketToken, showtimeId } = data;
+
+    const ticket = this.ticketTokenService.verify(ticketToken);
+    if (!ticket) {
+      throw new BadRequestException('Invalid ticket token.');
+    }
+
+    if (ticket.showtimeId !== showtimeId) {
+      throw new BadRequestException(`This ticket is for showtime ${ticket.showtimeId}, not showtime ${showtimeId}.`);
+    }
+
+    const booking = await this.bookingRepository.fetchBookingById(ticket.bookingId);
+    if (!booking) {
+      throw new NotFoundException(`Booking with ID ${ticket.bookingId} not found.`);
+    }
+
+    // The booking may have moved to another seat or showtime since the ticket was issued
+    if (booking.showtimeId !== ticket.showtimeId || booking.seatNumber !== ticket.seatNumber) {
+      throw new BadRequestException(`This ticket is outdated. Booking ${booking.bookingId} is now for seat ${booking.seatNumber} of showtime ${booking.showtimeId}.`);
+    }
+
+    if (booking.status !== BookingStatus.CONFIRMED) {
+      throw new BadRequestException(`Booking ${booking.bookingId} cannot be checked in because it is ${booking.status}.`);
+    }
+
+    if (booking.checkedInAt) {
+      throw new ConflictException(`This ticket was already checked in at ${new Date(booking.checkedInAt).toISOString()}.`);
+    }
+
+    const checkedIn = await this.bookingRepository.checkInBooking(booking.bookingId);
+    if (!checkedIn) {
+      throw new ConflictException('This ticket was already checked in.');
+    }
+
+    return {
+      bookingId: checkedIn.bookingId,
+      showtimeId: checkedIn.showtimeId,
+      seatNumber: checkedIn.seatNumber,
+      userId: checkedIn.userId,
+      checkedInAt: checkedIn.checkedInAt,
+    };
+  }
+}
@@ -0,0 +1,27 @@
+/**
+ * idempotency.constants.ts
+ *
+ * Tunable settings for idempotent requests.
+ * Values can be overridden through environment variables.
+ */
+
+/**
+ * Request header carrying the client's idempotency key.
+ */
+export const IDEMPOTENCY_KEY_HEADER = 'idempotency-key';
+
+/**
+ * Maximum length of an idempotency key.
+ */
+export const IDEMPOTENCY_KEY_MAX_LENGTH = 255;
+
+/**
+ * How long a key is remembered before it can be used for a new request (in hours).
+ */
+export const IDEMPOTENCY_KEY_TTL_HOURS = Number(process.env.IDEMPOTENCY_KEY_TTL_HOURS ?? 24);
+
+/**
+ * How long a request keeps its key reserved without completing (in minutes). After that, the
+ * request is taken to have crashed and a retry may take the key over. Keep it longer than any request runs.
+ */
+export const IDEMPOTENCY_KEY_LEASE_MINUTES = Number(process.env.IDEMPOTENCY_KEY_LEASE_MINUTES ?? 5);
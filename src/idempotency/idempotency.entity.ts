@@ -0,0 +1,63 @@
+/**
+ * idempotency.entity.ts
+ *
+ * This entity defines the structure of the `idempotency_keys` table in the database.
+ * Each row remembers a request sent with an `Idempotency-Key` header: a fingerprint of the
+ * request, so a reused key with a different payload can be rejected, and the response,
+ * so a retry gets the original response back instead of running the request again.
+ *
+ * The key is the primary key, so two requests racing with the same key cannot both run.
+ * A key left in progress past its lease (e.g. the server crashed mid-request) can be taken over by a retry.
+ */
+
+import { Entity, PrimaryColumn, Column, CreateDateColumn } from "typeorm";
+
+/**
+ * Lifecycle states of an idempotency key.
+ * - in_progress: the first request with the key is still running
+ * - completed: the request succeeded and its response is stored for replay
+ */
+export enum IdempotencyKeyStatus {
+  IN_PROGRESS = 'in_progress',
+  COMPLETED = 'completed',
+}
+
+@Entity({ name: 'idempotency_keys' })
+export class IdempotencyKey {
+
+  /**
+  * The key sent by the client in the `Idempotency-Key` header (primary key).
+  */
+  @PrimaryColumn({ type: 'varchar', length: 255 })
+  key: string;
+
+  /**
+  * SHA-256 of the request's method, path and body.
+  */
+  @Column({ type: 'varchar', length: 64, nullable: false })
+  fingerprint: string;
+
+  /**
+  * Whether the request is still running or its response is stored.
+  */
+  @Column({ type: 'enum', enum: IdempotencyKeyStatus, default: IdempotencyKeyStatus.IN_PROGRESS })
+  status: IdempotencyKeyStatus;
+
+  /**
+  * The response returned to the first request, or null while it is still running.
+  */
+  @Column({ type: 'jsonb', nullable: true })
+  responseBody: unknown;
+
+  /**
+  * When the running request reserved the key. Refreshed when a retry takes over a stale reservation.
+  */
+  @Column({ type: 'timestamp', default: () => 'NOW()' })
+  reservedAt: Date;
+
+  /**
+  * When the key was first used.
+  */
+  @CreateDateColumn({ type: 'timestamp' })
+  createdAt: Date;
+}
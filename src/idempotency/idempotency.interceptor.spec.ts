@@ -0,0 +1,143 @@
+/**
+ * idempotency.interceptor.spec.ts
+ *
+ * This file contains unit tests for the `IdempotencyInterceptor`, which makes routes
+ * safe to retry with an `Idempotency-Key` header.
+ *
+ * These tests cover:
+ * - Requests without a key pass through untouched
+ * - The first request with a key stores its response, and a failed one releases the key
+ * - A retry replays the stored response without running the handler again
+ * - A key reused with a different payload (422) or while still running (409) is rejected
+ */
+
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException, CallHandler, ConflictException, ExecutionContext, UnprocessableEntityException } from '@nestjs/common';
+import { lastValueFrom, of, throwError } from 'rxjs';
+import { IdempotencyInterceptor } from './idempotency.interceptor';
+import { IdempotencyRepository } from './idempotency.repository';
+import { IdempotencyKeyStatus } from './idempotency.entity';
+
+describe('IdempotencyInterceptor', () => {
+  let interceptor: IdempotencyInterceptor;
+  let mockIdempotencyRepository: Partial<Record<keyof IdempotencyRepository, jest.Mock>>;
+  let response: { setHeader: jest.Mock };
+
+  const body = { showtimeId: 1, seatNumber: 10, userId: 'abcabcab-1111-2222-3333-abcabcabcabc' };
+  const booked = { bookingId: 'booking-1', seatNumber: 10 };
+
+  /**
+   * Builds an HTTP execution context for a POST /bookings request.
+   */
+  const httpContext = (headers: Record<string, unknown>, requestBody: object = body) => ({
+    switchToHttp: () => ({
+      getRequest: () => ({ method: 'POST', path: '/bookings', headers, body: requestBody }),
+      getResponse: () => response,
+    }),
+  }) as unknown as ExecutionContext;
+
+  const handler = (result = of<unknown>(booked)): CallHandler & { handle: jest.Mock } => ({ handle: jest.fn(() => result) });
+
+  beforeEach(async () => {
+    mockIdempotencyRepository = {
+      reserveKey: jest.fn().mockResolvedValue(true),
+      fetchKey: jest.fn(),
+      completeKey: jest.fn().mockResolvedValue(undefined),
+      releaseKey: jest.fn().mockResolvedValue(undefined),
+    };
+    response = { setHeader: jest.fn() };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        IdempotencyInterceptor,
+        { provide: IdempotencyRepository, useValue: mockIdempotencyRepository },
+      ],
+    }).compile();
+
+    interceptor = module.get<IdempotencyInterceptor>(IdempotencyInterceptor);
+  });
+
+  /**
+   * Should run the handler as usual when no key is sent.
+   */
+  it('should pass through requests without a key', async () => {
+    const next = handler();
+
+    await expect(lastValueFrom(await interceptor.intercept(httpContext({}), next))).resolves.toEqual(booked);
+    expect(mockIdempotencyRepository.reserveKey).not.toHaveBeenCalled();
+  });
+
+  /**
+   * Should store the response of the first request with a key.
+   */
+  it('should store the response of the first request', async () => {
+    const next = handler();
+
+    await expect(lastValueFrom(await interceptor.intercept(httpContext({ 'idempotency-key': 'key-1' }), next))).resolves.toEqual(booked);
+    expect(mockIdempotencyRepository.reserveKey).toHaveBeenCalledWith('key-1', expect.stringMatching(/^[0-9a-f]{64}$/));
+    expect(mockIdempotencyRepository.completeKey).toHaveBeenCalledWith('key-1', booked);
+  });
+
+  /**
+   * Should release the key when the request fails, so it can be retried.
+   */
+  it('should release the key if the request fails', async () => {
+    const next = handler(throwError(() => new BadRequestException('Seat taken')));
+
+    await expect(lastValueFrom(await interceptor.intercept(httpContext({ 'idempotency-key': 'key-1' }), next))).rejects.toThrow(BadRequestException);
+    expect(mockIdempotencyRepository.releaseKey).toHaveBeenCalledWith('key-1');
+    expect(mockIdempotencyRepository.completeKey).not.toHaveBeenCalled();
+  });
+
+  /**
+   * Should replay the stored response for a retry with the same payload.
+   */
+  it('should replay the stored response on a retry', async () => {
+    const first = handler();
+    await lastValueFrom(await interceptor.intercept(httpContext({ 'idempotency-key': 'key-1' }), first));
+    const [, fingerprint] = mockIdempotencyRepository.reserveKey.mock.calls[0];
+
+    mockIdempotencyRepository.reserveKey.mockResolvedValue(false);
+    mockIdempotencyRepository.fetchKey.mockResolvedValue({ key: 'key-1', fingerprint, status: IdempotencyKeyStatus.COMPLETED, responseBody: booked });
+    const retry = handler();
+
+    // Same payload with its fields in another order
+    const reordered = { userId: body.userId, seatNumber: 10, showtimeId: 1 };
+    await expect(lastValueFrom(await interceptor.intercept(httpContext({ 'idempotency-key': 'key-1' }, reordered), retry))).resolves.toEqual(booked);
+    expect(retry.handle).not.toHaveBeenCalled();
+    expect(response.setHeader).toHaveBeenCalledWith('Idempotent-Replayed', 'true');
+  });
+
+  /**
+   * Should reject a key reused with a different payload.
+   */
+  it('should throw UnprocessableEntityException if the payload differs', async () => {
+    mockIdempotencyRepository.reserveKey.mockResolvedValue(false);
+    mockIdempotencyRepository.fetchKey.mockResolvedValue({ key: 'key-1', fingerprint: 'other', status: IdempotencyKeyStatus.COMPLETED, responseBody: booked });
+    const next = handler();
+
+    await expect(interceptor.intercept(httpContext({ 'idempotency-key': 'key-1' }), next)).rejects.toThrow(UnprocessableEntityException);
+    expect(next.handle).not.toHaveBeenCalled();
+  });
+
+  /**
+   * Should reject a retry sent while the first request is still running.
+   */
+  it('should throw ConflictException if the first request is still running', async () => {
+    await lastValueFrom(await interceptor.intercept(httpContext({ 'idempotency-key': 'key-1' }), handler()));
+    const [, fingerprint] = mockIdempotencyRepository.reserveKey.mock.calls[0];
+
+    mockIdempotencyRepository.reserveKey.mockResolvedValue(false);
+    mockIdempotencyRepository.fetchKey.mockResolvedValue({ key: 'key-1', fingerprint, status: IdempotencyKeyStatus.IN_PROGRESS, responseBody: null });
+
+    await expect(interceptor.intercept(httpContext({ 'idempotency-key': 'key-1' }), handler())).rejects.toThrow(ConflictException);
+  });
+
+  /**
+   * Should reject an empty or overly long key.
+   */
+  it('should throw BadRequestException for an invalid key', async () => {
+    await expect(interceptor.intercept(httpContext({ 'idempotency-key': ' ' }), handler())).rejects.toThrow(BadRequestException);
+    await expect(interceptor.intercept(httpContext({ 'idempotency-key': 'k'.repeat(256) }), handler())).rejects.toThrow(BadRequestException);
+  });
+});
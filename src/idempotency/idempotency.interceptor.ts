@@ -0,0 +1,91 @@
+/**
+ * idempotency.interceptor.ts
+ *
+ * Makes a route safe to retry when the client sends an `Idempotency-Key` header.
+ * Requests without the header are handled as usual.
+ *
+ * - The first request with a key reserves it and runs. If it succeeds, its response is stored;
+ *   if it fails, the key is released so the client can retry.
+ * - A retry with the same key and the same request gets the stored response back, without
+ *   running the request again (marked with an `Idempotent-Replayed: true` header).
+ * - A key reused for a different request (method, path or body) is rejected with 422,
+ *   and a retry sent while the first request is still running is rejected with 409.
+ * - A key whose request has not completed within IDEMPOTENCY_KEY_LEASE_MINUTES (e.g. the server
+ *   crashed mid-request) is free again: the next request with it reserves it and runs.
+ *
+ * Apply it to a route with `@UseInterceptors(IdempotencyInterceptor)`.
+ */
+
+import {
+  Injectable, NestInterceptor, ExecutionContext, CallHandler,
+  BadRequestException, ConflictException, UnprocessableEntityException,
+} from '@nestjs/common';
+import { Observable, of } from 'rxjs';
+import { mergeMap, catchError } from 'rxjs/operators';
+import { createHash } from 'crypto';
+import { Request, Response } from 'express';
+import { IdempotencyRepository } from './idempotency.repository';
+import { IdempotencyKeyStatus } from './idempotency.entity';
+import { IDEMPOTENCY_KEY_HEADER, IDEMPOTENCY_KEY_MAX_LENGTH } from './idempotency.constants';
+
+/**
+ * Serializes a value as JSON with object keys sorted, so the same payload
+ * always gives the same fingerprint whatever order its fields were sent in.
+ */
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    const entries = Object.keys(value).sort()
+      .map(key => `${JSON.stringify(key)}:${stableStringify(value[key])}`);
+    return `{${entries.join(',')}}`;
+  }
+  return JSON.stringify(value) ?? 'null';
+}
+
+@Injectable()
+export class IdempotencyInterceptor implements NestInterceptor {
+  constructor(private readonly idempotencyRepository: IdempotencyRepository) {}
+
+  async intercept(context: ExecutionContext, next: CallHandler): Promise<Observable<unknown>> {
+    const request = context.switchToHttp().getRequest<Request>();
+    const key = request.headers[IDEMPOTENCY_KEY_HEADER];
+    if (key === undefined) {
+      return next.handle();
+    }
+
+    if (typeof key !== 'string' || key.trim().length === 0 || key.length > IDEMPOTENCY_KEY_MAX_LENGTH) {
+      throw new BadRequestException(`Idempotency-Key must be a non-empty string of at most ${IDEMPOTENCY_KEY_MAX_LENGTH} characters.`);
+    }
+
+    const fingerprint = createHash('sha256')
+      .update(stableStringify({ method: request.method, path: request.path, body: request.body ?? null }))
+      .digest('hex');
+
+    const reserved = await this.idempotencyRepository.reserveKey(key, fingerprint);
+    if (!reserved) {
+      const stored = await this.idempotencyRepository.fetchKey(key);
+      if (stored && stored.fingerprint !== fingerprint) {
+        throw new UnprocessableEntityException('This Idempotency-Key was already used for a different request.');
+      }
+      if (!stored || stored.status !== IdempotencyKeyStatus.COMPLETED) {
+        throw new ConflictException('A request with this Idempotency-Key is still being processed. Retry later.');
+      }
+
+      context.switchToHttp().getResponse<Response>().setHeader('Idempotent-Replayed', 'true');
+      return of(stored.responseBody);
+    }
+
+    return next.handle().pipe(
+      mergeMap(async (responseBody) => {
+        await this.idempotencyRepository.completeKey(key, responseBody);
+        return responseBody;
+      }),
+      catchError(async (error) => {
+        await this.idempotencyRepository.releaseKey(key);
+        throw error;
+      }),
+    );
+  }
+}
@@ -0,0 +1,29 @@
+/**
+ * idempotency.module.ts
+ *
+ * This module makes write endpoints safe to retry with an `Idempotency-Key` header.
+ *
+ * It imports:
+ * - TypeORM for database access to the IdempotencyKey entity
+ *
+ * This module:
+ * - Provides 'IdempotencyInterceptor' and 'IdempotencyRepository'
+ * - Exports both, so feature modules can apply the interceptor to their routes
+ */
+
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { IdempotencyKey } from './idempotency.entity';
+import { IdempotencyInterceptor } from './idempotency.interceptor';
+import { IdempotencyRepository } from './idempotency.repository';
+
+@Module({
+  imports: [TypeOrmModule.forFeature([IdempotencyKey])],
+  providers: [IdempotencyInterceptor, IdempotencyRepository],
+  exports: [IdempotencyInterceptor, IdempotencyRepository],
+})
+export class IdempotencyModule {
+  constructor() {
+    console.log('IdempotencyModule loaded');
+  }
+}
@@ -0,0 +1,60 @@
+/**
+ * idempotency.repository.spec.ts
+ *
+ * This file contains unit tests for reserving keys in the `IdempotencyRepository`.
+ * The DataSource is mocked to check the queries sent.
+ *
+ * These tests cover:
+ * - Reserving a new key, after forgetting it if it has expired
+ * - Refusing a key held by a request that is still within its lease, or completed
+ * - Taking over a key left in progress past its lease, e.g. by a crashed request
+ */
+
+import { DataSource } from 'typeorm';
+import { IdempotencyRepository } from './idempotency.repository';
+import { IdempotencyKeyStatus } from './idempotency.entity';
+import { IDEMPOTENCY_KEY_LEASE_MINUTES, IDEMPOTENCY_KEY_TTL_HOURS } from './idempotency.constants';
+
+describe('IdempotencyRepository', () => {
+  let query: jest.Mock;
+  let repository: IdempotencyRepository;
+
+  beforeEach(() => {
+    query = jest.fn().mockResolvedValue([]);
+    repository = new IdempotencyRepository({ query } as unknown as DataSource);
+  });
+
+  describe('reserveKey', () => {
+    /**
+     * Should forget an expired key, then reserve the key for the request.
+     */
+    it('should reserve a new key', async () => {
+      query.mockResolvedValueOnce([]).mockResolvedValueOnce([{ key: 'key-1' }]);
+
+      await expect(repository.reserveKey('key-1', 'fingerprint')).resolves.toBe(true);
+      expect(query.mock.calls[0][1]).toEqual(['key-1', IDEMPOTENCY_KEY_TTL_HOURS]);
+      expect(query.mock.calls[1][1]).toEqual(['key-1', 'fingerprint', IdempotencyKeyStatus.IN_PROGRESS, IDEMPOTENCY_KEY_LEASE_MINUTES]);
+    });
+
+    /**
+     * Should only take over a key that is still in progress and was reserved before the lease,
+     * giving it to the new request.
+     */
+    it('should take over a stale reservation', async () => {
+      query.mockResolvedValueOnce([]).mockResolvedValueOnce([{ key: 'key-1' }]);
+
+      await expect(repository.reserveKey('key-1', 'fingerprint')).resolves.toBe(true);
+
+      const sql = (query.mock.calls[1][0] as string).replace(/\s+/g, ' ');
+      expect(sql).toContain('ON CONFLICT (key) DO UPDATE SET fingerprint = EXCLUDED.fingerprint, "reservedAt" = NOW()');
+      expect(sql).toContain('WHERE idempotency_keys.status = $3 AND idempotency_keys."reservedAt" < NOW() - make_interval(mins => $4)');
+    });
+
+    /**
+     * Should refuse a key whose request is still running within its lease, or has completed.
+     */
+    it('should not reserve a key in use', async () => {
+      await expect(repository.reserveKey('key-1', 'fingerprint')).resolves.toBe(false);
+    });
+  });
+});
@@ -0,0 +1,106 @@
+/**
+ * idempotency.repository.ts
+ *
+ * This repository provides raw SQL-based access to the `idempotency_keys` table in the database.
+ * It includes logic to:
+ * - Reserve a key for a new request (forgetting it first if it has expired, and taking it over
+ *   if the request holding it has not completed within its lease)
+ * - Fetch a key to replay or reject a retry
+ * - Store the response of a completed request
+ * - Release a key whose request failed, so the client can retry it
+ */
+
+import { Injectable, InternalServerErrorException } from '@nestjs/common';
+import { DataSource } from 'typeorm';
+import { IdempotencyKey, IdempotencyKeyStatus } from './idempotency.entity';
+import { IDEMPOTENCY_KEY_LEASE_MINUTES, IDEMPOTENCY_KEY_TTL_HOURS } from './idempotency.constants';
+
+@Injectable()
+export class IdempotencyRepository {
+  constructor(private readonly dataSource: DataSource) {}
+
+  /**
+   * Reserves a key for a new request. Only one of several concurrent calls with the same key succeeds.
+   * A key still in progress after its lease is treated as free: its request is taken to have crashed.
+   *
+   * @param key - The idempotency key
+   * @param fingerprint - Fingerprint of the request
+   * @returns true if the key was reserved, false if it is already in use
+   */
+  async reserveKey(key: string, fingerprint: string): Promise<boolean> {
+    try {
+      await this.dataSource.query(
+        `DELETE FROM idempotency_keys
+         WHERE key = $1 AND "createdAt" < NOW() - make_interval(hours => $2)`,
+        [key, IDEMPOTENCY_KEY_TTL_HOURS]);
+
+      const result = await this.dataSource.query(
+        `INSERT INTO idempotency_keys (key, fingerprint, status)
+         VALUES ($1, $2, $3)
+         ON CONFLICT (key) DO UPDATE SET fingerprint = EXCLUDED.fingerprint, "reservedAt" = NOW()
+         WHERE idempotency_keys.status = $3
+           AND idempotency_keys."reservedAt" < NOW() - make_interval(mins => $4)
+         RETURNING key`,
+        [key, fingerprint, IdempotencyKeyStatus.IN_PROGRESS, IDEMPOTENCY_KEY_LEASE_MINUTES]);
+      return result.length > 0;
+    }
+    catch (error) {
+      console.error('DB Error on reserveKey:', error);
+      throw new InternalServerErrorException('Failed to reserve the idempotency key.');
+    }
+  }
+
+  /**
+   * Fetches a stored key.
+   *
+   * @param key - The idempotency key
+   * @returns the stored key, or null if not found
+   */
+  async fetchKey(key: string): Promise<IdempotencyKey | null> {
+    try {
+      const result = await this.dataSource.query(
+        `SELECT * FROM idempotency_keys WHERE key = $1`,
+        [key]);
+      return result[0] ?? null;
+    }
+    catch (error) {
+      console.error('DB Error on fetchKey:', error);
+      throw new InternalServerErrorException('Failed to get the idempotency key.');
+    }
+  }
+
+  /**
+   * Stores the response of the request that reserved a key.
+   *
+   * @param key - The idempotency key
+   * @param responseBody - The response returned to the client
+   */
+  async completeKey(key: string, responseBody: unknown): Promise<void> {
+    try {
+      await this.dataSource.query(
+        `UPDATE idempotency_keys SET status = $1, "responseBody" = $2 WHERE key = $3`,
+        [IdempotencyKeyStatus.COMPLETED, JSON.stringify(responseBody ?? null), key]);
+    }
+    catch (error) {
+      console.error('DB Error on completeKey:', error);
+      throw new InternalServerErrorException('Failed to store the idempotent response.');
+    }
+  }
+
+  /**
+   * Forgets a key whose request failed, so the client can retry it.
+   *
+   * @param key - The idempotency key
+   */
+  async releaseKey(key: string): Promise<void> {
+    try {
+      await this.dataSource.query(
+        `DELETE FROM idempotency_keys WHERE key = $1 AND status = $2`,
+        [key, IdempotencyKeyStatus.IN_PROGRESS]);
+    }
+    catch (error) {
+      console.error('DB Error on releaseKey:', error);
+      throw new InternalServerErrorException('Failed to release the idempotency key.');
+    }
+  }
+}
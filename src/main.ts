@@ -2,7 +2,7 @@
  * main.ts- 
  * This is the main entry point for the Popcorn Palace NestJS application.
  * It bootstraps the NestJS application by loading the root AppModule, applies global validation pipe for request validation
- * and starts the server on port 3000.
+ * and starts the server on port 3000. The raw request body is kept so payment webhooks can be verified.
  */
 
 import { NestFactory } from '@nestjs/core';
@@ -13,7 +13,7 @@ import { ValidationPipe } from '@nestjs/common';
  * bootstrap()
  *
  * Initializes the NestJS application:
- * - Creates an instance using AppModule.
+ * - Creates an instance using AppModule, keeping each request's raw body (see PaymentController).
  * - Applies global validation pipe to enforce DTO validation.
  * - Starts listening on port 3000.
  *
@@ -23,7 +23,7 @@ import { ValidationPipe } from '@nestjs/common';
 
 async function bootstrap() {
   try {
-    const app = await NestFactory.create(AppModule);
+    const app = await NestFactory.create(AppModule, { rawBody: true });
     console.log("NestJS application initialized.");
     app.useGlobalPipes(new ValidationPipe());
     await app.listen(3000);
@@ -0,0 +1,53 @@
+/**
+* showTimesTheaterId.migration.spec.ts
+*
+* This file contains unit tests for the migration of the showtimes from a theater name to a
+* theater ID: creating a theater for each name before filling and requiring the new column,
+* dropping the name last, and doing nothing on a new or already migrated database.
+*/
+
+import { QueryRunner } from 'typeorm';
+import { LEGACY_THEATER_ROWS, ShowTimesTheaterId1792433930000 } from './showTimesTheaterId.migration';
+
+describe('ShowTimesTheaterId1792433930000', () => {
+  const migration = new ShowTimesTheaterId1792433930000();
+  let query: jest.Mock;
+  let queryRunner: QueryRunner;
+
+  beforeEach(() => {
+    query = jest.fn().mockResolvedValue([]);
+    queryRunner = { query } as unknown as QueryRunner;
+  });
+
+  const statements = () => query.mock.calls.map(([sql]) => (sql as string).replace(/\s+/g, ' ').trim());
+
+  /**
+  * Should create the theaters, then fill and require theater_id, and drop the name only at the end.
+  */
+  it('should move the theater names to theaters before dropping them', async () => {
+    query.mockResolvedValueOnce([{ '?column?': 1 }]);
+
+    await migration.up(queryRunner);
+
+    const sql = statements();
+    expect(sql[1]).toMatch(/^CREATE TABLE IF NOT EXISTS theaters/);
+    expect(sql[2]).toMatch(/^INSERT INTO theaters .* SELECT DISTINCT s\.theater/);
+    expect(query.mock.calls[2][1]).toEqual([JSON.stringify(LEGACY_THEATER_ROWS), 100]);
+    expect(sql.slice(3)).toEqual([
+      'ALTER TABLE showtimes ADD COLUMN IF NOT EXISTS theater_id int',
+      'UPDATE showtimes s SET theater_id = t.id FROM theaters t WHERE t.name = s.theater',
+      'ALTER TABLE showtimes ALTER COLUMN theater_id SET NOT NULL',
+      'ALTER TABLE showtimes DROP COLUMN theater',
+    ]);
+  });
+
+  /**
+  * Should leave a new database, or one already migrated, to synchronize.
+  */
+  it('should do nothing without the theater column', async () => {
+    await migration.up(queryRunner);
+
+    expect(query).toHaveBeenCalledTimes(1);
+    expect(query.mock.calls[0][1]).toEqual(['theater']);
+  });
+});
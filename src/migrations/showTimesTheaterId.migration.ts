@@ -0,0 +1,78 @@
+/**
+* showTimesTheaterId.migration.ts
+*
+* Replaces the theater name stored on each showtime (the `theater` text column) with a reference
+* to a row of the `theaters` table (the `theater_id` column), keeping every existing showtime.
+*
+* Left to `synchronize`, TypeORM would drop the `theater` column, losing every theater name, and
+* fail to add the NOT NULL `theater_id` column to a table with rows. So this migration runs first,
+* on startup (see AppModule):
+* 1. Creates the `theaters` table if it does not exist yet
+* 2. Adds a theater for each theater name the showtimes use, with the 100-seat layout every
+*    theater had before layouts were configurable (rows A to J of 10 seats), so seat numbers keep their meaning
+* 3. Adds `theater_id`, fills it from those theaters and makes it NOT NULL
+* 4. Only then drops `theater`
+*
+* A database without the `theater` column (new, or already migrated) is left to `synchronize`.
+* Layouts, pre-show and post-show times of the added theaters can be edited afterwards.
+*/
+
+import { MigrationInterface, QueryRunner } from "typeorm";
+import { TheaterRow } from "../theater/theater.entity";
+import { getCapacity } from "../theater/theater.layout";
+
+/**
+* The layout given to theaters created from the names on existing showtimes.
+*/
+export const LEGACY_THEATER_ROWS: TheaterRow[] = 'ABCDEFGHIJ'.split('').map(label => ({ label, seats: 10 }));
+
+export class ShowTimesTheaterId1792433930000 implements MigrationInterface {
+    name = 'ShowTimesTheaterId1792433930000';
+
+    async up(queryRunner: QueryRunner): Promise<void> {
+        if (!await this.hasColumn(queryRunner, 'theater')) {
+            return;
+        }
+
+        await queryRunner.query(
+            `CREATE TABLE IF NOT EXISTS theaters (
+                id SERIAL PRIMARY KEY,
+                name text NOT NULL UNIQUE,
+                "rows" jsonb NOT NULL,
+                capacity int NOT NULL,
+                "preShowMinutes" int NOT NULL DEFAULT 0,
+                "postShowMinutes" int NOT NULL DEFAULT 0
+            )`);
+        await queryRunner.query(
+            `INSERT INTO theaters (name, "rows", capacity)
+             SELECT DISTINCT s.theater, $1::jsonb, $2::int FROM showtimes s
+             WHERE NOT EXISTS (SELECT 1 FROM theaters t WHERE t.name = s.theater)`,
+            [JSON.stringify(LEGACY_THEATER_ROWS), getCapacity(LEGACY_THEATER_ROWS)]);
+        await queryRunner.query(`ALTER TABLE showtimes ADD COLUMN IF NOT EXISTS theater_id int`);
+        await queryRunner.query(`UPDATE showtimes s SET theater_id = t.id FROM theaters t WHERE t.name = s.theater`);
+        await queryRunner.query(`ALTER TABLE showtimes ALTER COLUMN theater_id SET NOT NULL`);
+        await queryRunner.query(`ALTER TABLE showtimes DROP COLUMN theater`);
+    }
+
+    async down(queryRunner: QueryRunner): Promise<void> {
+        if (!await this.hasColumn(queryRunner, 'theater_id')) {
+            return;
+        }
+
+        await queryRunner.query(`ALTER TABLE showtimes ADD COLUMN IF NOT EXISTS theater text`);
+        await queryRunner.query(`UPDATE showtimes s SET theater = t.name FROM theaters t WHERE t.id = s.theater_id`);
+        await queryRunner.query(`ALTER TABLE showtimes ALTER COLUMN theater SET NOT NULL`);
+        await queryRunner.query(`ALTER TABLE showtimes DROP COLUMN theater_id`);
+    }
+
+    /**
+    * Checks whether the showtimes table has a column.
+    */
+    private async hasColumn(queryRunner: QueryRunner, column: string): Promise<boolean> {
+        const columns: unknown[] = await queryRunner.query(
+            `SELECT 1 FROM information_schema.columns
+             WHERE table_schema = current_schema() AND table_name = 'showtimes' AND column_name = $1`,
+            [column]);
+        return columns.length > 0;
+    }
+}
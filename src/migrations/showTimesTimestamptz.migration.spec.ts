@@ -0,0 +1,59 @@
+/**
+* showTimesTimestamptz.migration.spec.ts
+*
+* This file contains unit tests for the migration of the showtime times to `timestamptz`:
+* converting the columns in place in the cinema's time zone, only those not converted yet,
+* and doing nothing on a new database.
+*/
+
+import { QueryRunner } from 'typeorm';
+import { ShowTimesTimestamptz1792437886000 } from './showTimesTimestamptz.migration';
+
+describe('ShowTimesTimestamptz1792437886000', () => {
+  const migration = new ShowTimesTimestamptz1792437886000('Asia/Jerusalem');
+  let query: jest.Mock;
+  let queryRunner: QueryRunner;
+
+  beforeEach(() => {
+    query = jest.fn();
+    queryRunner = { query } as unknown as QueryRunner;
+  });
+
+  /**
+  * Should alter the remaining `timestamp` columns in one statement, reading them in the cinema's time zone.
+  */
+  it('should convert the columns in place in the cinema time zone', async () => {
+    query.mockResolvedValueOnce([{ column_name: 'endTime' }, { column_name: 'startTime' }]).mockResolvedValueOnce(undefined);
+
+    await migration.up(queryRunner);
+
+    expect(query.mock.calls[0][1]).toEqual([['startTime', 'endTime', 'salesOpenAt'], 'timestamp without time zone']);
+    expect(query).toHaveBeenLastCalledWith('ALTER TABLE showtimes '
+      + `ALTER COLUMN "endTime" TYPE timestamptz USING "endTime" AT TIME ZONE 'Asia/Jerusalem', `
+      + `ALTER COLUMN "startTime" TYPE timestamptz USING "startTime" AT TIME ZONE 'Asia/Jerusalem'`);
+  });
+
+  /**
+  * Should leave a new database, or one already converted, to synchronize.
+  */
+  it('should do nothing when no column is left to convert', async () => {
+    query.mockResolvedValueOnce([]);
+
+    await migration.up(queryRunner);
+
+    expect(query).toHaveBeenCalledTimes(1);
+  });
+
+  /**
+  * Should convert back to wall-clock times in the cinema's time zone.
+  */
+  it('should revert the columns to timestamp', async () => {
+    query.mockResolvedValueOnce([{ column_name: 'salesOpenAt' }]).mockResolvedValueOnce(undefined);
+
+    await migration.down(queryRunner);
+
+    expect(query.mock.calls[0][1]).toEqual([['startTime', 'endTime', 'salesOpenAt'], 'timestamp with time zone']);
+    expect(query).toHaveBeenLastCalledWith(
+      `ALTER TABLE showtimes ALTER COLUMN "salesOpenAt" TYPE timestamp USING "salesOpenAt" AT TIME ZONE 'Asia/Jerusalem'`);
+  });
+});
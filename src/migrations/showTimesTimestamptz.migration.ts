@@ -0,0 +1,61 @@
+/**
+* showTimesTimestamptz.migration.ts
+*
+* Converts the start time, end time and ticket sales opening time of the showtimes from
+* `timestamp` to `timestamptz` in place, keeping every existing row.
+*
+* Before the change, showtimes were stored without a time zone, as the cinema's wall-clock times.
+* Left to `synchronize`, TypeORM would drop and re-add the columns instead, losing their values,
+* and fail on any table with rows since the times cannot be null. So this migration runs first,
+* on startup (see AppModule), and reads each stored time in the cinema's time zone:
+*
+*   ALTER TABLE showtimes ALTER COLUMN "startTime" TYPE timestamptz USING "startTime" AT TIME ZONE '<CINEMA_TIME_ZONE>'
+*
+* Set CINEMA_TIME_ZONE to the zone the existing showtimes were entered in before starting the
+* new version. Columns already of type `timestamptz` are left alone, and a new database, where
+* the table does not exist yet, is simply created by `synchronize`.
+*/
+
+import { MigrationInterface, QueryRunner } from "typeorm";
+import { CINEMA_TIME_ZONE } from "../showTime/showTime.constants";
+
+/**
+* The showtime columns that hold an instant.
+*/
+const TIME_COLUMNS = ['startTime', 'endTime', 'salesOpenAt'];
+
+export class ShowTimesTimestamptz1792437886000 implements MigrationInterface {
+    name = 'ShowTimesTimestamptz1792437886000';
+
+    constructor(private readonly timeZone: string = CINEMA_TIME_ZONE) {}
+
+    async up(queryRunner: QueryRunner): Promise<void> {
+        await this.convertColumns(queryRunner, 'timestamp without time zone', 'timestamptz');
+    }
+
+    async down(queryRunner: QueryRunner): Promise<void> {
+        await this.convertColumns(queryRunner, 'timestamp with time zone', 'timestamp');
+    }
+
+    /**
+    * Converts the time columns still of type `from` to type `to`, reading or writing the
+    * wall-clock times in the cinema's time zone. Converts nothing if the table does not exist.
+    */
+    private async convertColumns(queryRunner: QueryRunner, from: string, to: string): Promise<void> {
+        const columns: { column_name: string }[] = await queryRunner.query(
+            `SELECT column_name FROM information_schema.columns
+             WHERE table_schema = current_schema() AND table_name = 'showtimes'
+               AND column_name = ANY($1) AND data_type = $2
+             ORDER BY column_name`,
+            [TIME_COLUMNS, from]);
+        if (columns.length === 0) {
+            return;
+        }
+
+        // ALTER TABLE takes no bind parameters, so the time zone is quoted as a literal.
+        const timeZone = `'${this.timeZone.replace(/'/g, "''")}'`;
+        const changes = columns.map(({ column_name: column }) =>
+            `ALTER COLUMN "${column}" TYPE ${to} USING "${column}" AT TIME ZONE ${timeZone}`);
+        await queryRunner.query(`ALTER TABLE showtimes ${changes.join(', ')}`);
+    }
+}
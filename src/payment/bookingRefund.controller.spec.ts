@@ -0,0 +1,48 @@
+/**
+ * bookingRefund.controller.spec.ts
+ *
+ * This file contains unit tests for the `BookingRefundController`.
+ * It tests the `/bookings/:bookingId/refund` endpoint by mocking the underlying PaymentService.
+ */
+
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException } from '@nestjs/common';
+import { BookingRefundController } from './bookingRefund.controller';
+import { PaymentService } from './payment.service';
+
+describe('BookingRefundController', () => {
+  let controller: BookingRefundController;
+  let mockPaymentService: Partial<Record<keyof PaymentService, jest.Mock>>;
+
+  beforeEach(async () => {
+    mockPaymentService = {
+      refundBooking: jest.fn()
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      controllers: [BookingRefundController],
+      providers: [{ provide: PaymentService, useValue: mockPaymentService }],
+    }).compile();
+
+    controller = module.get<BookingRefundController>(BookingRefundController);
+  });
+
+  /**
+   * Should return a success message when a booking is refunded.
+   */
+  it('should refund a cancelled booking', async () => {
+    mockPaymentService.refundBooking.mockResolvedValue(undefined);
+
+    const result = await controller.refundBooking('abc123-booking-id');
+    expect(result).toEqual({ message: 'Booking abc123-booking-id successfully refunded.' });
+  });
+
+  /**
+   * Should propagate BadRequestException when the booking was not cancelled.
+   */
+  it('should throw BadRequestException if the booking was not cancelled', async () => {
+    mockPaymentService.refundBooking.mockRejectedValue(new BadRequestException());
+
+    await expect(controller.refundBooking('abc123-booking-id')).rejects.toThrow(BadRequestException);
+  });
+});
@@ -0,0 +1,35 @@
+/**
+ * bookingRefund.controller.ts
+ *
+ * This controller handles refunds of cancelled bookings, which are paid back through
+ * the payment provider (see PaymentService).
+ *
+ * Routes:
+ * - POST   /bookings/:bookingId/refund
+ */
+
+import { Controller, Post, Param, ParseUUIDPipe } from '@nestjs/common';
+import { PaymentService } from './payment.service';
+
+@Controller('bookings')
+export class BookingRefundController {
+  constructor(private readonly paymentService: PaymentService) {}
+
+  /**
+   * POST /bookings/:bookingId/refund
+   *
+   * Refunds a cancelled booking's price and marks it as refunded.
+   *
+   * @param bookingId - The booking ID (UUID)
+   * @returns A message confirming the refund
+   * @throws NotFoundException if the booking does not exist
+   * @throws BadRequestException if the booking was not cancelled first
+   * @throws ConflictException if the booking is being refunded concurrently
+   * @throws BadGatewayException if the payment provider could not refund it
+   */
+  @Post(':bookingId/refund')
+  async refundBooking(@Param('bookingId', ParseUUIDPipe) bookingId: string): Promise<{ message: string }> {
+    await this.paymentService.refundBooking(bookingId);
+    return { message: `Booking ${bookingId} successfully refunded.` };
+  }
+}
@@ -0,0 +1,63 @@
+/**
+ * fakeGateway.controller.spec.ts
+ *
+ * This file contains unit tests for the `FakeGatewayController`.
+ * It tests that completing a fake checkout delivers a correctly signed webhook to the PaymentService,
+ * and that unknown or already completed checkouts are rejected.
+ */
+
+import { Test, TestingModule } from '@nestjs/testing';
+import { NotFoundException } from '@nestjs/common';
+import { FakeGatewayController } from './fakeGateway.controller';
+import { PaymentService } from './payment.service';
+import { FakePaymentGateway } from './fakePaymentGateway';
+import { FakeCheckoutOutcome } from './payment.dto';
+import { PaymentEventType } from './payment.provider';
+import { PAYMENT_PROVIDER } from './payment.constants';
+
+describe('FakeGatewayController', () => {
+  let controller: FakeGatewayController;
+  let gateway: FakePaymentGateway;
+  let mockPaymentService: Partial<Record<keyof PaymentService, jest.Mock>>;
+
+  beforeEach(async () => {
+    gateway = new FakePaymentGateway('test-secret');
+    mockPaymentService = {
+      handleWebhook: jest.fn()
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      controllers: [FakeGatewayController],
+      providers: [
+        { provide: PaymentService, useValue: mockPaymentService },
+        { provide: PAYMENT_PROVIDER, useValue: gateway },
+      ],
+    }).compile();
+
+    controller = module.get<FakeGatewayController>(FakeGatewayController);
+  });
+
+  /**
+   * Should send the signed webhook of a paid checkout.
+   */
+  it('should pay a checkout', async () => {
+    const { providerReference } = await gateway.createCheckout({ paymentId: 'payment-1', amount: 10, description: 'test' });
+
+    const result = await controller.completeCheckout(providerReference, { outcome: FakeCheckoutOutcome.PAID });
+
+    expect(result).toEqual({ message: `Checkout ${providerReference} paid.` });
+    const [rawBody, signature] = mockPaymentService.handleWebhook.mock.calls[0];
+    expect(gateway.parseWebhook(rawBody, signature)).toEqual(expect.objectContaining({ type: PaymentEventType.SUCCEEDED, providerReference }));
+  });
+
+  /**
+   * Should throw NotFoundException for a checkout that does not exist or was already completed.
+   */
+  it('should throw NotFoundException for an unknown or completed checkout', async () => {
+    const { providerReference } = await gateway.createCheckout({ paymentId: 'payment-1', amount: 10, description: 'test' });
+    await controller.completeCheckout(providerReference, { outcome: FakeCheckoutOutcome.FAILED });
+
+    await expect(controller.completeCheckout(providerReference, { outcome: FakeCheckoutOutcome.PAID })).rejects.toThrow(NotFoundException);
+    await expect(controller.completeCheckout('fake_unknown', { outcome: FakeCheckoutOutcome.PAID })).rejects.toThrow(NotFoundException);
+  });
+});
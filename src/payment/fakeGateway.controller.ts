@@ -0,0 +1,55 @@
+/**
+ * fakeGateway.controller.ts
+ *
+ * This controller stands in for the checkout page of a real payment provider, for development and tests.
+ * Completing a checkout makes the fake gateway send its signed webhook callback, exactly as a real
+ * provider would, so the whole payment workflow runs locally.
+ * Validation is handled by FakeCheckoutDto.
+ *
+ * Routes:
+ * - POST   /payments/fake-gateway/:providerReference/complete
+ */
+
+import { Controller, Post, Body, Param, Inject, NotFoundException } from '@nestjs/common';
+import { PaymentService } from './payment.service';
+import { FakeCheckoutDto, FakeCheckoutOutcome } from './payment.dto';
+import { PaymentEventType, PaymentProvider } from './payment.provider';
+import { FakePaymentGateway } from './fakePaymentGateway';
+import { PAYMENT_PROVIDER } from './payment.constants';
+
+@Controller('payments/fake-gateway')
+export class FakeGatewayController {
+  constructor(
+    private readonly paymentService: PaymentService,
+    @Inject(PAYMENT_PROVIDER) private readonly paymentProvider: PaymentProvider,
+  ) {}
+
+  /**
+   * POST /payments/fake-gateway/:providerReference/complete
+   *
+   * Pays or fails a checkout of the fake gateway.
+   *
+   * @param providerReference - The checkout reference
+   * @param checkoutData - The request body containing the outcome and optionally a failure reason
+   * @returns A message confirming the outcome
+   * @throws NotFoundException if the fake gateway is not in use, or the checkout does not exist
+   * or was already completed
+   */
+  @Post(':providerReference/complete')
+  async completeCheckout(
+    @Param('providerReference') providerReference: string,
+    @Body() checkoutData: FakeCheckoutDto): Promise<{ message: string }> {
+    if (!(this.paymentProvider instanceof FakePaymentGateway)) {
+      throw new NotFoundException('The fake payment gateway is not in use.');
+    }
+
+    const outcome = checkoutData.outcome === FakeCheckoutOutcome.PAID ? PaymentEventType.SUCCEEDED : PaymentEventType.FAILED;
+    const webhook = this.paymentProvider.completeCheckout(providerReference, outcome, checkoutData.failureReason);
+    if (!webhook) {
+      throw new NotFoundException(`Checkout ${providerReference} not found or already completed.`);
+    }
+
+    await this.paymentService.handleWebhook(webhook.rawBody, webhook.signature);
+    return { message: `Checkout ${providerReference} ${checkoutData.outcome}.` };
+  }
+}
@@ -0,0 +1,97 @@
+/**
+ * fakePaymentGateway.spec.ts
+ *
+ * This file contains unit tests for the `FakePaymentGateway`, the local payment provider.
+ *
+ * These tests cover:
+ * - Signing completed checkouts and verifying the signed webhooks
+ * - Rejecting tampered, unsigned or wrongly signed webhooks
+ * - Completing a checkout only once
+ * - Refunding only paid checkouts, and never more than was paid
+ */
+
+import { FakePaymentGateway } from './fakePaymentGateway';
+import { PaymentEventType } from './payment.provider';
+
+describe('FakePaymentGateway', () => {
+  let gateway: FakePaymentGateway;
+
+  beforeEach(() => {
+    gateway = new FakePaymentGateway('test-secret');
+  });
+
+  const openCheckout = async (amount = 20) =>
+    (await gateway.createCheckout({ paymentId: 'payment-1', amount, description: 'test' })).providerReference;
+
+  /**
+   * Should verify the webhook it signed when a checkout is completed.
+   */
+  it('should sign and verify a completed checkout', async () => {
+    const providerReference = await openCheckout();
+
+    const { rawBody, signature } = gateway.completeCheckout(providerReference, PaymentEventType.FAILED, 'Card declined');
+
+    expect(gateway.parseWebhook(rawBody, signature)).toEqual({
+      type: PaymentEventType.FAILED,
+      providerReference,
+      failureReason: 'Card declined',
+    });
+  });
+
+  /**
+   * Should reject a webhook whose body was changed after signing.
+   */
+  it('should reject a tampered webhook', async () => {
+    const providerReference = await openCheckout();
+    const { rawBody, signature } = gateway.completeCheckout(providerReference, PaymentEventType.FAILED);
+
+    const tampered = Buffer.from(rawBody.toString().replace(PaymentEventType.FAILED, PaymentEventType.SUCCEEDED));
+
+    expect(gateway.parseWebhook(tampered, signature)).toBeNull();
+  });
+
+  /**
+   * Should reject a webhook without a signature, or signed with another secret.
+   */
+  it('should reject unsigned or wrongly signed webhooks', async () => {
+    const providerReference = await openCheckout();
+    const { rawBody, signature } = gateway.completeCheckout(providerReference, PaymentEventType.SUCCEEDED);
+
+    expect(gateway.parseWebhook(rawBody, undefined)).toBeNull();
+    expect(gateway.parseWebhook(rawBody, 'not-hex')).toBeNull();
+    expect(new FakePaymentGateway('other-secret').parseWebhook(rawBody, signature)).toBeNull();
+  });
+
+  /**
+   * Should complete a checkout only once, and only a checkout it opened.
+   */
+  it('should not complete a checkout twice', async () => {
+    const providerReference = await openCheckout();
+
+    expect(gateway.completeCheckout(providerReference, PaymentEventType.SUCCEEDED)).not.toBeNull();
+    expect(gateway.completeCheckout(providerReference, PaymentEventType.SUCCEEDED)).toBeNull();
+    expect(gateway.completeCheckout('fake_unknown', PaymentEventType.SUCCEEDED)).toBeNull();
+  });
+
+  /**
+   * Should refund a paid checkout in parts, up to the amount paid.
+   */
+  it('should refund up to the amount paid', async () => {
+    const providerReference = await openCheckout(20);
+    gateway.completeCheckout(providerReference, PaymentEventType.SUCCEEDED);
+
+    await expect(gateway.refund(providerReference, 12.5)).resolves.toBeUndefined();
+    await expect(gateway.refund(providerReference, 7.5)).resolves.toBeUndefined();
+    await expect(gateway.refund(providerReference, 0.01)).rejects.toThrow();
+  });
+
+  /**
+   * Should refuse to refund a checkout that was not paid.
+   */
+  it('should not refund an unpaid checkout', async () => {
+    const providerReference = await openCheckout();
+    gateway.completeCheckout(providerReference, PaymentEventType.FAILED);
+
+    await expect(gateway.refund(providerReference, 1)).rejects.toThrow();
+  });
+});
@@ -0,0 +1,102 @@
+/**
+ * fakePaymentGateway.ts
+ * 
+ * A local payment provider for development and tests, which never moves real money.
+ * Checkouts are kept in memory. A checkout is completed by calling the fake gateway's endpoint
+ * (see FakeGatewayController), which builds the signed webhook callback a real provider would send.
+ * Webhooks are signed with an HMAC-SHA256 of the raw body, sent hex encoded.
+ */
+
+import { createHmac, randomUUID, timingSafeEqual } from 'crypto';
+import { CheckoutSession, PaymentEventType, PaymentProvider, PaymentWebhookEvent } from './payment.provider';
+
+/**
+ * A checkout opened with the fake gateway.
+ */
+interface FakeCheckout {
+  amount: number;
+  refunded: number;
+  outcome: PaymentEventType | null;
+}
+
+export class FakePaymentGateway implements PaymentProvider {
+  readonly name = 'fake';
+  private readonly checkouts = new Map<string, FakeCheckout>();
+
+  constructor(private readonly webhookSecret: string) {}
+
+  /**
+   * Computes the signature of a webhook body.
+   */
+  private sign(rawBody: Buffer): Buffer {
+    return createHmac('sha256', this.webhookSecret).update(rawBody).digest();
+  }
+
+  async createCheckout({ amount }: { paymentId: string; amount: number; description: string }): Promise<CheckoutSession> {
+    const providerReference = `fake_${randomUUID()}`;
+    this.checkouts.set(providerReference, { amount, refunded: 0, outcome: null });
+    return { providerReference, checkoutUrl: `/payments/fake-gateway/${providerReference}` };
+  }
+
+  async refund(providerReference: string, amount: number): Promise<void> {
+    const checkout = this.checkouts.get(providerReference);
+    if (checkout?.outcome !== PaymentEventType.SUCCEEDED) {
+      throw new Error(`Checkout ${providerReference} was not paid.`);
+    }
+    if (checkout.refunded + amount > checkout.amount + 1e-9) {
+      throw new Error(`Cannot refund ${amount} of checkout ${providerReference}: only ${checkout.amount - checkout.refunded} is left.`);
+    }
+
+    checkout.refunded += amount;
+  }
+
+  parseWebhook(rawBody: Buffer, signature: string | undefined): PaymentWebhookEvent | null {
+    if (!signature || !/^[0-9a-f]+$/i.test(signature)) {
+      return null;
+    }
+
+    const expected = this.sign(rawBody);
+    const received = Buffer.from(signature, 'hex');
+    if (received.length !== expected.length || !timingSafeEqual(received, expected)) {
+      return null;
+    }
+
+    try {
+      const event = JSON.parse(rawBody.toString());
+      if (!Object.values(PaymentEventType).includes(event?.type) || typeof event.providerReference !== 'string') {
+        return null;
+      }
+      return {
+        type: event.type,
+        providerReference: event.providerReference,
+        failureReason: typeof event.failureReason === 'string' ? event.failureReason : undefined,
+      };
+    }
+    catch {
+      return null;
+    }
+  }
+
+  /**
+   * Completes a checkout the way the customer would on a real provider's page.
+   * 
+   * @param providerReference - The checkout's reference
+   * @param outcome - Whether the payment succeeded or failed
+   * @param failureReason - Why the payment failed, for failed payments
+   * @returns the signed webhook callback reporting the outcome, or null if the checkout
+   * does not exist or was already completed
+   */
+  completeCheckout(
+    providerReference: string,
+    outcome: PaymentEventType,
+    failureReason?: string): { rawBody: Buffer; signature: string } | null {
+    const checkout = this.checkouts.get(providerReference);
+    if (!checkout || checkout.outcome !== null) {
+      return null;
+    }
+
+    checkout.outcome = outcome;
+    const rawBody = Buffer.from(JSON.stringify({ type: outcome, providerReference, failureReason }));
+    return { rawBody, signature: this.sign(rawBody).toString('hex') };
+  }
+}
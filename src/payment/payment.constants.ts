@@ -0,0 +1,45 @@
+/**
+ * payment.constants.ts
+ * 
+ * Tunable settings for the payment feature.
+ * Values can be overridden through environment variables.
+ */
+
+/**
+ * How long a customer has to pay for new bookings before they are released (in minutes).
+ */
+export const PAYMENT_WINDOW_MINUTES = Number(process.env.PAYMENT_WINDOW_MINUTES ?? 15);
+
+/**
+ * How often unpaid bookings past their payment window are swept (in milliseconds).
+ */
+export const PAYMENT_SWEEP_INTERVAL_MS = Number(process.env.PAYMENT_SWEEP_INTERVAL_MS ?? 60 * 1000);
+
+/**
+ * Secret shared with the payment provider to sign webhook callbacks (HMAC-SHA256).
+ * Required, with no default: anyone knowing it can mark bookings as paid, so the application
+ * refuses to start without it (see PaymentModule).
+ */
+export const PAYMENT_WEBHOOK_SECRET = process.env.PAYMENT_WEBHOOK_SECRET;
+
+/**
+ * Name of the payment provider to use (PAYMENT_PROVIDER). Required, with no default, so
+ * the fake gateway is never used by accident.
+ */
+export const PAYMENT_PROVIDER_NAME = process.env.PAYMENT_PROVIDER;
+
+/**
+ * Provider name of the FakePaymentGateway, which never moves real money. Set PAYMENT_PROVIDER to it
+ * in development and tests only: it also opens the fake gateway's checkout endpoint (see FakeGatewayController).
+ */
+export const FAKE_PAYMENT_PROVIDER = 'fake';
+
+/**
+ * Request header carrying the signature of a webhook callback.
+ */
+export const PAYMENT_SIGNATURE_HEADER = 'x-payment-signature';
+
+/**
+ * Injection token of the payment provider in use (see PaymentProvider).
+ */
+export const PAYMENT_PROVIDER = 'PaymentProvider';
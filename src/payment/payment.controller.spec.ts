@@ -0,0 +1,89 @@
+/**
+ * payment.controller.spec.ts
+ *
+ * This file contains unit tests for the `PaymentController`.
+ * It tests the `/payments` endpoints (open, webhook, lookup) by mocking the underlying
+ * PaymentService and verifying expected behaviors and error propagation.
+ */
+
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException, ConflictException, NotFoundException, RawBodyRequest } from '@nestjs/common';
+import { Request } from 'express';
+import { PaymentController } from './payment.controller';
+import { PaymentService } from './payment.service';
+import { IdempotencyRepository } from 'src/idempotency/idempotency.repository';
+
+describe('PaymentController', () => {
+  let controller: PaymentController;
+  let mockPaymentService: Partial<Record<keyof PaymentService, jest.Mock>>;
+
+  const userId = 'abcabcab-1111-2222-3333-abcabcabcabc';
+
+  beforeEach(async () => {
+    mockPaymentService = {
+      createPayment: jest.fn(),
+      fetchPaymentById: jest.fn(),
+      handleWebhook: jest.fn()
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      controllers: [PaymentController],
+      providers: [
+        { provide: PaymentService, useValue: mockPaymentService },
+        { provide: IdempotencyRepository, useValue: {} },
+      ],
+    }).compile();
+
+    controller = module.get<PaymentController>(PaymentController);
+  });
+
+  /**
+   * Should return the opened payment.
+   */
+  it('should open a payment', async () => {
+    const payment = { paymentId: 'payment-1', bookingIds: ['booking-1'], amount: 12.5, status: 'pending' };
+    mockPaymentService.createPayment.mockResolvedValue(payment);
+
+    await expect(controller.createPayment({ userId, bookingIds: ['booking-1'] })).resolves.toEqual(payment);
+    expect(mockPaymentService.createPayment).toHaveBeenCalledWith({ userId, bookingIds: ['booking-1'] });
+  });
+
+  /**
+   * Should propagate ConflictException when a booking already has a payment.
+   */
+  it('should throw ConflictException if a booking already has a payment', async () => {
+    mockPaymentService.createPayment.mockRejectedValue(new ConflictException());
+
+    await expect(controller.createPayment({ userId, bookingIds: ['booking-1'] })).rejects.toThrow(ConflictException);
+  });
+
+  /**
+   * Should pass the raw body and signature of a webhook to the service.
+   */
+  it('should process a webhook with its raw body', async () => {
+    const rawBody = Buffer.from('{"type":"payment.succeeded"}');
+
+    const result = await controller.handleWebhook({ rawBody } as RawBodyRequest<Request>, 'signature');
+
+    expect(mockPaymentService.handleWebhook).toHaveBeenCalledWith(rawBody, 'signature');
+    expect(result).toEqual({ message: 'Webhook processed.' });
+  });
+
+  /**
+   * Should propagate BadRequestException for a bad webhook signature.
+   */
+  it('should throw BadRequestException if the webhook signature does not match', async () => {
+    mockPaymentService.handleWebhook.mockRejectedValue(new BadRequestException('Invalid webhook signature.'));
+
+    await expect(controller.handleWebhook({ rawBody: Buffer.from('{}') } as RawBodyRequest<Request>, undefined)).rejects.toThrow(BadRequestException);
+  });
+
+  /**
+   * Should propagate NotFoundException when the payment does not exist.
+   */
+  it('should throw NotFoundException if the payment does not exist', async () => {
+    mockPaymentService.fetchPaymentById.mockRejectedValue(new NotFoundException());
+
+    await expect(controller.fetchPaymentById('payment-1')).rejects.toThrow(NotFoundException);
+  });
+});
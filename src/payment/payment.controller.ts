@@ -0,0 +1,81 @@
+/**
+ * payment.controller.ts
+ *
+ * This controller handles HTTP requests related to paying for bookings.
+ *
+ * It exposes endpoints to open a payment for one or more bookings pending payment, look a payment up,
+ * and receive the payment provider's webhook callbacks. Webhooks are authenticated by the signature
+ * of their raw body, sent in the `x-payment-signature` header.
+ * Validation is handled by CreatePaymentDto. Opening a payment accepts an `Idempotency-Key` header,
+ * so clients can safely retry it (see IdempotencyInterceptor).
+ *
+ * Routes:
+ * - POST   /payments
+ * - POST   /payments/webhook
+ * - GET    /payments/:paymentId
+ */
+
+import { Controller, Post, Get, Body, Param, Headers, Req, ParseUUIDPipe, UseInterceptors, RawBodyRequest } from '@nestjs/common';
+import { Request } from 'express';
+import { PaymentService } from './payment.service';
+import { CreatePaymentDto, PaymentDetailsDto } from './payment.dto';
+import { PAYMENT_SIGNATURE_HEADER } from './payment.constants';
+import { IdempotencyInterceptor } from 'src/idempotency/idempotency.interceptor';
+
+@Controller('payments')
+export class PaymentController {
+  constructor(private readonly paymentService: PaymentService) {}
+
+  /**
+   * POST /payments
+   *
+   * Opens a payment for one or more of a user's bookings.
+   *
+   * @param paymentData - The request body containing userId and bookingIds
+   * @returns The payment, with the URL where the customer completes it
+   * @throws NotFoundException if a booking does not exist
+   * @throws BadRequestException if a booking belongs to another user, is not pending payment,
+   * or its payment window has closed
+   * @throws ConflictException if a booking already has a payment in progress, or a request with
+   * the same Idempotency-Key is still running
+   * @throws BadGatewayException if the payment provider could not open the checkout
+   */
+  @Post()
+  @UseInterceptors(IdempotencyInterceptor)
+  async createPayment(@Body() paymentData: CreatePaymentDto): Promise<PaymentDetailsDto> {
+    return await this.paymentService.createPayment(paymentData);
+  }
+
+  /**
+   * POST /payments/webhook
+   *
+   * Receives a webhook callback from the payment provider, reporting a payment as paid or failed.
+   *
+   * @param request - The request, for its raw body
+   * @param signature - The signature of the raw body
+   * @returns A message confirming the callback was processed
+   * @throws BadRequestException if the signature does not match
+   * @throws NotFoundException if no payment matches the callback
+   */
+  @Post('webhook')
+  async handleWebhook(
+    @Req() request: RawBodyRequest<Request>,
+    @Headers(PAYMENT_SIGNATURE_HEADER) signature: string | undefined): Promise<{ message: string }> {
+    await this.paymentService.handleWebhook(request.rawBody, signature);
+    return { message: 'Webhook processed.' };
+  }
+
+  /**
+   * GET /payments/:paymentId
+   *
+   * Fetches a payment and the bookings it covers.
+   *
+   * @param paymentId - The payment ID (UUID)
+   * @returns The payment
+   * @throws NotFoundException if the payment does not exist
+   */
+  @Get(':paymentId')
+  async fetchPaymentById(@Param('paymentId', ParseUUIDPipe) paymentId: string): Promise<PaymentDetailsDto> {
+    return await this.paymentService.fetchPaymentById(paymentId);
+  }
+}
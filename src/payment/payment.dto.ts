@@ -0,0 +1,107 @@
+/**
+ * payment.dto.ts
+ * 
+ * These Data Transfer Objects (DTOs) define the structure and validation rules for paying
+ * for bookings, for completing a checkout with the fake gateway, and the payment details
+ * returned to the client.
+ */
+
+import { IsUUID, IsArray, ArrayNotEmpty, ArrayUnique, IsEnum, IsOptional, IsString, MaxLength } from "class-validator";
+import { PaymentStatus } from "./payment.entity";
+
+export class CreatePaymentDto {
+
+  /**
+   * UUID of the user paying. Must be the user who made the bookings.
+   */
+  @IsUUID(undefined, { message: 'User ID must be a valid UUID.' })
+  userId: string;
+
+  /**
+   * IDs of the bookings to pay for together (no duplicates).
+   * Every booking must be pending payment.
+   */
+  @IsArray({ message: "Booking IDs must be an array." })
+  @ArrayNotEmpty({ message: "At least one booking ID is required." })
+  @ArrayUnique({ message: "Booking IDs must not repeat." })
+  @IsUUID(undefined, { each: true, message: 'Each booking ID must be a valid UUID.' })
+  bookingIds: string[];
+}
+
+/**
+ * How the customer completes a checkout with the fake gateway.
+ */
+export enum FakeCheckoutOutcome {
+  PAID = 'paid',
+  FAILED = 'failed',
+}
+
+export class FakeCheckoutDto {
+
+  /**
+   * Whether the payment goes through or fails.
+   */
+  @IsEnum(FakeCheckoutOutcome, { message: `Outcome must be one of: ${Object.values(FakeCheckoutOutcome).join(', ')}.` })
+  outcome: FakeCheckoutOutcome;
+
+  /**
+   * (Optional) Why the payment failed, for failed payments.
+   */
+  @IsOptional()
+  @IsString({ message: "Failure reason must be a string." })
+  @MaxLength(255, { message: "Failure reason must be at most 255 characters." })
+  failureReason?: string;
+}
+
+export class PaymentDetailsDto {
+
+  /**
+   * ID of the payment.
+   */
+  paymentId: string;
+
+  /**
+   * UUID of the user paying.
+   */
+  userId: string;
+
+  /**
+   * IDs of the bookings the payment covers.
+   */
+  bookingIds: string[];
+
+  /**
+   * The amount charged.
+   */
+  amount: number;
+
+  /**
+   * How much of the amount was refunded so far.
+   */
+  refundedAmount: number;
+
+  /**
+   * Current status of the payment (pending, paid, failed, expired or refunded).
+   */
+  status: PaymentStatus;
+
+  /**
+   * Where the customer completes the payment.
+   */
+  checkoutUrl: string;
+
+  /**
+   * When the payment window closes and the bookings are released if still unpaid.
+   */
+  expiresAt: Date;
+
+  /**
+   * When the payment was confirmed, or null while it is not paid.
+   */
+  paidAt: Date | null;
+
+  /**
+   * Why the payment failed, or null.
+   */
+  failureReason: string | null;
+}
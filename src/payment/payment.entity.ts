@@ -0,0 +1,106 @@
+/**
+ * payment.entity.ts
+ * 
+ * This entity defines the structure of the `payments` table in the database.
+ * A payment covers one or more bookings of a customer (see Booking.paymentId) and tracks the
+ * checkout opened with the payment provider, from pending until paid, failed or expired,
+ * and how much of it was refunded since.
+ * 
+ * Used by TypeORM for database operations, and mapped directly to the "payments" table.
+ * A checkout reference is unique per provider, so a webhook always finds a single payment.
+ */
+
+import { Entity, PrimaryColumn, Column, CreateDateColumn, Index } from "typeorm";
+
+/**
+ * Lifecycle states of a payment.
+ * - pending: the checkout is open and the customer has not paid yet
+ * - paid: the provider confirmed the payment
+ * - failed: the provider reported the payment as failed
+ * - expired: the payment window closed before the customer paid
+ * - refunded: the whole amount was returned to the customer
+ */
+export enum PaymentStatus {
+  PENDING = 'pending',
+  PAID = 'paid',
+  FAILED = 'failed',
+  EXPIRED = 'expired',
+  REFUNDED = 'refunded',
+}
+
+@Entity({ name: 'payments' })
+@Index('UQ_payments_provider_reference', ['provider', 'providerReference'], { unique: true })
+export class Payment {
+
+  /**
+  * Unique ID of the payment (primary key), generated before the checkout is opened.
+  */
+  @PrimaryColumn('uuid')
+  id: string;
+
+  /**
+  * UUID of the user paying.
+  */
+  @Column({ type: 'uuid', nullable: false })
+  userId: string;
+
+  /**
+  * The amount charged: the sum of the prices of the bookings it covers.
+  */
+  @Column({ type: 'float', nullable: false })
+  amount: number;
+
+  /**
+  * Current lifecycle status of the payment (pending, paid, failed, expired or refunded).
+  */
+  @Column({ type: 'enum', enum: PaymentStatus, default: PaymentStatus.PENDING })
+  status: PaymentStatus;
+
+  /**
+  * Name of the payment provider that handles the checkout.
+  */
+  @Column({ type: 'varchar', length: 32, nullable: false })
+  provider: string;
+
+  /**
+  * The provider's reference for the checkout, quoted in its webhook callbacks.
+  */
+  @Column({ type: 'varchar', length: 255, nullable: false })
+  providerReference: string;
+
+  /**
+  * Where the customer completes the payment.
+  */
+  @Column({ type: 'varchar', length: 2048, nullable: false })
+  checkoutUrl: string;
+
+  /**
+  * How much of the amount was refunded so far.
+  */
+  @Column({ type: 'float', nullable: false, default: 0 })
+  refundedAmount: number;
+
+  /**
+  * Why the provider reported the payment as failed, or null.
+  */
+  @Column({ type: 'varchar', length: 255, nullable: true })
+  failureReason: string | null;
+
+  /**
+  * When the payment window closes and the bookings are released if still unpaid.
+  */
+  @Column({ type: 'timestamp', nullable: false })
+  expiresAt: Date;
+
+  /**
+  * When the payment was created.
+  */
+  @CreateDateColumn({ type: 'timestamp' })
+  createdAt: Date;
+
+  /**
+  * When the provider confirmed the payment, or null while it is not paid.
+  */
+  @Column({ type: 'timestamp', nullable: true })
+  paidAt: Date | null;
+}
@@ -0,0 +1,63 @@
+/**
+ * payment.module.ts
+ *
+ * This module takes payments for bookings through a pluggable payment provider.
+ *
+ * It imports:
+ * - TypeORM for database access to the Payment entity
+ * - BookingModule to read and release bookings and announce released seats through BookingEvents
+ * - IdempotencyModule so opening a payment can be retried safely with an Idempotency-Key
+ *
+ * This module:
+ * - Registers 'PaymentController' and 'BookingRefundController' to handle HTTP requests, plus
+ *   'FakeGatewayController' when the fake gateway is the provider
+ * - Provides 'PaymentService' and 'PaymentRepository' for business and data access logic
+ * - Provides the payment provider chosen by PAYMENT_PROVIDER under the 'PaymentProvider' token.
+ *   The only provider so far is the local FakePaymentGateway, for development and tests.
+ *
+ * The application refuses to start without PAYMENT_PROVIDER and PAYMENT_WEBHOOK_SECRET.
+ */
+
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { Payment } from './payment.entity';
+import { PaymentController } from './payment.controller';
+import { BookingRefundController } from './bookingRefund.controller';
+import { FakeGatewayController } from './fakeGateway.controller';
+import { PaymentService } from './payment.service';
+import { PaymentRepository } from './payment.repository';
+import { FakePaymentGateway } from './fakePaymentGateway';
+import { PaymentProvider } from './payment.provider';
+import { FAKE_PAYMENT_PROVIDER, PAYMENT_PROVIDER, PAYMENT_PROVIDER_NAME, PAYMENT_WEBHOOK_SECRET } from './payment.constants';
+import { BookingModule } from 'src/booking/booking.module';
+import { IdempotencyModule } from 'src/idempotency/idempotency.module';
+
+/**
+ * Creates the payment provider chosen by PAYMENT_PROVIDER.
+ *
+ * @throws Error if PAYMENT_WEBHOOK_SECRET is not set, or PAYMENT_PROVIDER does not name a known provider
+ */
+function createPaymentProvider(): PaymentProvider {
+  if (!PAYMENT_WEBHOOK_SECRET) {
+    throw new Error('PAYMENT_WEBHOOK_SECRET must be set to verify payment webhooks.');
+  }
+  if (PAYMENT_PROVIDER_NAME !== FAKE_PAYMENT_PROVIDER) {
+    throw new Error(`Unknown payment provider "${PAYMENT_PROVIDER_NAME ?? ''}". Set PAYMENT_PROVIDER to a supported provider `
+      + `("${FAKE_PAYMENT_PROVIDER}" in development and tests only).`);
+  }
+  return new FakePaymentGateway(PAYMENT_WEBHOOK_SECRET);
+}
+
+@Module({
+  imports: [TypeOrmModule.forFeature([Payment]), BookingModule, IdempotencyModule],
+  controllers: [PaymentController, BookingRefundController,
+    ...(PAYMENT_PROVIDER_NAME === FAKE_PAYMENT_PROVIDER ? [FakeGatewayController] : [])],
+  providers: [PaymentService, PaymentRepository,
+    { provide: PAYMENT_PROVIDER, useFactory: createPaymentProvider }
+  ],
+})
+export class PaymentModule {
+  constructor() {
+    console.log('PaymentModule loaded');
+  }
+}
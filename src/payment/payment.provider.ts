@@ -0,0 +1,68 @@
+/**
+ * payment.provider.ts
+ * 
+ * The interface a payment provider implements to take payments for bookings, so the payment
+ * workflow does not depend on any provider in particular. The provider in use is injected with
+ * the PAYMENT_PROVIDER token; FakePaymentGateway is the local implementation for development and tests.
+ */
+
+/**
+ * Outcomes a provider reports through its webhook callbacks.
+ */
+export enum PaymentEventType {
+  SUCCEEDED = 'payment.succeeded',
+  FAILED = 'payment.failed',
+}
+
+/**
+ * A verified webhook callback from the provider.
+ */
+export interface PaymentWebhookEvent {
+  type: PaymentEventType;
+  /** The provider's reference for the checkout the event is about. */
+  providerReference: string;
+  /** Why the payment failed, for failed payments. */
+  failureReason?: string;
+}
+
+/**
+ * A checkout opened with the provider.
+ */
+export interface CheckoutSession {
+  /** The provider's reference for the checkout. */
+  providerReference: string;
+  /** Where the customer completes the payment. */
+  checkoutUrl: string;
+}
+
+export interface PaymentProvider {
+  /**
+   * Name of the provider, stored on each payment it handles.
+   */
+  readonly name: string;
+
+  /**
+   * Opens a checkout for an amount. The outcome is reported later through a webhook callback.
+   * 
+   * @param request - Our payment ID, the amount and a description shown to the customer
+   * @returns the provider's reference and checkout URL
+   */
+  createCheckout(request: { paymentId: string; amount: number; description: string }): Promise<CheckoutSession>;
+
+  /**
+   * Returns part or all of a paid checkout's amount to the customer.
+   * 
+   * @param providerReference - The provider's reference for the checkout
+   * @param amount - The amount to refund
+   */
+  refund(providerReference: string, amount: number): Promise<void>;
+
+  /**
+   * Checks a webhook callback's signature and reads the event it carries.
+   * 
+   * @param rawBody - The request body exactly as received
+   * @param signature - The signature header sent with it
+   * @returns the event, or null if the signature does not match or the body is malformed
+   */
+  parseWebhook(rawBody: Buffer, signature: string | undefined): PaymentWebhookEvent | null;
+}
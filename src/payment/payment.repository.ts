@@ -0,0 +1,330 @@
+/**
+ * payment.repository.ts
+ *
+ * This repository provides raw SQL-based access to the `payments` table in the database,
+ * and moves the bookings a payment covers along with it. It includes logic to:
+ * - Create a payment and link it to the bookings it pays for
+ * - Fetch a payment by its ID or by the provider's checkout reference
+ * - Mark a payment as paid (confirming its bookings) or failed (releasing them)
+ * - Expire unpaid payments and bookings past their payment window
+ * - Record refunds, and list the cancelled bookings queued for one
+ *
+ * Each status change is a conditional update (e.g. `WHERE status = 'pending'`) run together with
+ * the bookings' change in one transaction, so duplicate webhooks and the expiry sweep can never
+ * both act on the same payment.
+ */
+
+import { Injectable, InternalServerErrorException, ConflictException } from '@nestjs/common';
+import { DataSource } from 'typeorm';
+import { Payment, PaymentStatus } from './payment.entity';
+import { Booking, BookingStatus } from 'src/booking/booking.entity';
+
+@Injectable()
+export class PaymentRepository {
+  constructor(private readonly dataSource: DataSource) {}
+
+  /**
+   * Fetches the bookings with the given IDs.
+   *
+   * @param bookingIds - The booking IDs (UUIDs)
+   * @returns the bookings found, in no particular order
+   */
+  async getBookingsByIds(bookingIds: string[]): Promise<Booking[]> {
+    try {
+      return await this.dataSource.query(
+        `SELECT * FROM bookings WHERE "bookingId" = ANY($1::uuid[])`,
+        [bookingIds]);
+    }
+    catch (error) {
+      console.error('DB Error on getBookingsByIds:', error);
+      throw new InternalServerErrorException('Failed to fetch the bookings to pay for.');
+    }
+  }
+
+  /**
+   * Inserts a pending payment and links it to the bookings it pays for, in one transaction.
+   *
+   * @param payment - The payment's ID, user, amount, provider, checkout reference and URL, and expiry
+   * @param bookingIds - The bookings the payment covers
+   * @returns the created payment
+   * @throws ConflictException if a booking stopped being pending payment, or got another payment, meanwhile
+   */
+  async addNewPayment(
+    payment: Pick<Payment, 'id' | 'userId' | 'amount' | 'provider' | 'providerReference' | 'checkoutUrl' | 'expiresAt'>,
+    bookingIds: string[]): Promise<Payment> {
+    try {
+      return await this.dataSource.transaction(async (manager) => {
+        const result = await manager.query(
+          `INSERT INTO payments (id, "userId", amount, provider, "providerReference", "checkoutUrl", "expiresAt")
+           VALUES ($1, $2, $3, $4, $5, $6, $7)
+           RETURNING *`,
+          [payment.id, payment.userId, payment.amount, payment.provider, payment.providerReference,
+            payment.checkoutUrl, payment.expiresAt]);
+
+        const [, linked] = await manager.query(
+          `UPDATE bookings SET "paymentId" = $1
+           WHERE "bookingId" = ANY($2::uuid[]) AND status = $3 AND "paymentId" IS NULL`,
+          [payment.id, bookingIds, BookingStatus.PENDING_PAYMENT]);
+        if (linked !== bookingIds.length) {
+          throw new ConflictException('Some of the bookings were paid, released or put into another payment meanwhile.');
+        }
+
+        return result[0];
+      });
+    }
+    catch (error) {
+      if (error instanceof ConflictException) {
+        throw error;
+      }
+      console.error('DB Error on addNewPayment:', error);
+      throw new InternalServerErrorException('Failed to add the payment to the database.');
+    }
+  }
+
+  /**
+   * Fetches a payment by its ID.
+   *
+   * @param paymentId - The payment ID (UUID)
+   * @returns the payment, or null if not found
+   */
+  async fetchPaymentById(paymentId: string): Promise<Payment | null> {
+    try {
+      const result = await this.dataSource.query(`SELECT * FROM payments WHERE id = $1`, [paymentId]);
+      return result[0] ?? null;
+    }
+    catch (error) {
+      console.error('DB Error on fetchPaymentById:', error);
+      throw new InternalServerErrorException('Failed to get the payment by ID.');
+    }
+  }
+
+  /**
+   * Fetches a payment by the provider's reference for its checkout.
+   *
+   * @param provider - Name of the payment provider
+   * @param providerReference - The provider's checkout reference
+   * @returns the payment, or null if not found
+   */
+  async fetchPaymentByReference(provider: string, providerReference: string): Promise<Payment | null> {
+    try {
+      const result = await this.dataSource.query(
+        `SELECT * FROM payments WHERE provider = $1 AND "providerReference" = $2`,
+        [provider, providerReference]);
+      return result[0] ?? null;
+    }
+    catch (error) {
+      console.error('DB Error on fetchPaymentByReference:', error);
+      throw new InternalServerErrorException('Failed to get the payment by its provider reference.');
+    }
+  }
+
+  /**
+   * Lists the IDs of the bookings a payment covers.
+   *
+   * @param paymentId - The payment ID (UUID)
+   * @returns the booking IDs, in seat order
+   */
+  async getBookingIdsForPayment(paymentId: string): Promise<string[]> {
+    try {
+      const result = await this.dataSource.query(
+        `SELECT "bookingId" FROM bookings WHERE "paymentId" = $1 ORDER BY "showtimeId", "seatNumber"`,
+        [paymentId]);
+      return result.map((row: { bookingId: string }) => row.bookingId);
+    }
+    catch (error) {
+      console.error('DB Error on getBookingIdsForPayment:', error);
+      throw new InternalServerErrorException('Failed to fetch the bookings of the payment.');
+    }
+  }
+
+  /**
+   * Marks a payment that is not paid yet as paid, and confirms its bookings that are still
+   * pending payment. A payment that already failed or expired is marked as paid too (the money
+   * was taken), but its bookings were released, so none is confirmed.
+   *
+   * @param paymentId - The payment ID (UUID)
+   * @returns the paid payment and the IDs of the confirmed bookings, or null if the payment
+   * was already paid or refunded
+   */
+  async markPaymentPaid(paymentId: string): Promise<{ payment: Payment; confirmedBookingIds: string[] } | null> {
+    try {
+      return await this.dataSource.transaction(async (manager) => {
+        const [payments] = await manager.query(
+          `UPDATE payments SET status = $2, "paidAt" = NOW()
+           WHERE id = $1 AND status = ANY($3)
+           RETURNING *`,
+          [paymentId, PaymentStatus.PAID, [PaymentStatus.PENDING, PaymentStatus.FAILED, PaymentStatus.EXPIRED]]);
+        if (payments.length === 0) {
+          return null;
+        }
+
+        const [bookings] = await manager.query(
+          `UPDATE bookings SET status = $2
+           WHERE "paymentId" = $1 AND status = $3
+           RETURNING "bookingId"`,
+          [paymentId, BookingStatus.CONFIRMED, BookingStatus.PENDING_PAYMENT]);
+
+        return { payment: payments[0], confirmedBookingIds: bookings.map((row: { bookingId: string }) => row.bookingId) };
+      });
+    }
+    catch (error) {
+      console.error('DB Error on markPaymentPaid:', error);
+      throw new InternalServerErrorException('Failed to mark the payment as paid.');
+    }
+  }
+
+  /**
+   * Marks a pending payment as failed and releases its bookings.
+   *
+   * @param paymentId - The payment ID (UUID)
+   * @param failureReason - Why the payment failed, or null
+   * @returns the released bookings, or null if the payment was no longer pending
+   */
+  async markPaymentFailed(paymentId: string, failureReason: string | null): Promise<Booking[] | null> {
+    try {
+      return await this.dataSource.transaction(async (manager) => {
+        const [, failed] = await manager.query(
+          `UPDATE payments SET status = $2, "failureReason" = $3
+           WHERE id = $1 AND status = $4`,
+          [paymentId, PaymentStatus.FAILED, failureReason, PaymentStatus.PENDING]);
+        if (failed === 0) {
+          return null;
+        }
+
+        const [bookings] = await manager.query(
+          `UPDATE bookings SET status = $2, "cancelledAt" = NOW()
+           WHERE "paymentId" = $1 AND status = $3
+           RETURNING *`,
+          [paymentId, BookingStatus.PAYMENT_FAILED, BookingStatus.PENDING_PAYMENT]);
+        return bookings;
+      });
+    }
+    catch (error) {
+      console.error('DB Error on markPaymentFailed:', error);
+      throw new InternalServerErrorException('Failed to mark the payment as failed.');
+    }
+  }
+
+  /**
+   * Expires every pending payment whose window has closed and releases its bookings, together
+   * with bookings that were never put into a payment within the window.
+   *
+   * @param windowMinutes - How long bookings can stay unpaid
+   * @returns the released bookings
+   */
+  async expireUnpaidBookings(windowMinutes: number): Promise<Booking[]> {
+    try {
+      return await this.dataSource.transaction(async (manager) => {
+        const [payments] = await manager.query(
+          `UPDATE payments SET status = $1
+           WHERE status = $2 AND "expiresAt" <= NOW()
+           RETURNING id`,
+          [PaymentStatus.EXPIRED, PaymentStatus.PENDING]);
+
+        const [bookings] = await manager.query(
+          `UPDATE bookings SET status = $1, "cancelledAt" = NOW()
+           WHERE status = $2
+             AND ("paymentId" = ANY($3::uuid[])
+                  OR ("paymentId" IS NULL AND "createdAt" <= NOW() - make_interval(mins => $4)))
+           RETURNING *`,
+          [BookingStatus.PAYMENT_FAILED, BookingStatus.PENDING_PAYMENT, payments.map((row: { id: string }) => row.id), windowMinutes]);
+        return bookings;
+      });
+    }
+    catch (error) {
+      console.error('DB Error on expireUnpaidBookings:', error);
+      throw new InternalServerErrorException('Failed to expire unpaid bookings.');
+    }
+  }
+
+  /**
+   * Fetches the cancelled bookings queued for a refund (e.g. because their showtime was cancelled)
+   * that can be refunded now: those without a payment, and those whose payment went through.
+   * Bookings whose checkout is still open stay queued until it is paid, or until it expires or
+   * fails and they are taken off the queue (see clearUnpaidRefunds).
+   *
+   * @returns the queued bookings, oldest first
+   */
+  async getQueuedRefunds(): Promise<Booking[]> {
+    try {
+      return await this.dataSource.query(
+        `SELECT b.* FROM bookings b
+         LEFT JOIN payments p ON p.id = b."paymentId"
+         WHERE b.status = $1 AND b."refundQueuedAt" IS NOT NULL
+           AND (b."paymentId" IS NULL OR p.status = ANY($2::payments_status_enum[]))
+         ORDER BY b."refundQueuedAt", b."bookingId"`,
+        [BookingStatus.CANCELLED, [PaymentStatus.PAID, PaymentStatus.REFUNDED]]);
+    }
+    catch (error) {
+      console.error('DB Error on getQueuedRefunds:', error);
+      throw new InternalServerErrorException('Failed to get the queued refunds.');
+    }
+  }
+
+  /**
+   * Takes off the refund queue the cancelled bookings whose checkout expired or failed:
+   * nothing was paid for them, so there is nothing to refund.
+   *
+   * @returns the bookings taken off the queue
+   */
+  async clearUnpaidRefunds(): Promise<Booking[]> {
+    try {
+      const [rows] = await this.dataSource.query(
+        `UPDATE bookings b SET "refundQueuedAt" = NULL
+         FROM payments p
+         WHERE p.id = b."paymentId" AND b.status = $1 AND b."refundQueuedAt" IS NOT NULL
+           AND p.status = ANY($2::payments_status_enum[])
+         RETURNING b.*`,
+        [BookingStatus.CANCELLED, [PaymentStatus.EXPIRED, PaymentStatus.FAILED]]);
+      return rows;
+    }
+    catch (error) {
+      console.error('DB Error on clearUnpaidRefunds:', error);
+      throw new InternalServerErrorException('Failed to clear the refunds of unpaid bookings.');
+    }
+  }
+
+  /**
+   * Marks a cancelled booking as refunded. The condition is part of the update,
+   * so a booking refunded twice at once is only refunded once.
+   *
+   * @param bookingId - The booking ID (UUID)
+   * @returns the refunded booking, or null if it was no longer cancelled
+   */
+  async claimBookingRefund(bookingId: string): Promise<Booking | null> {
+    try {
+      const [rows] = await this.dataSource.query(
+        `UPDATE bookings SET status = $2
+         WHERE "bookingId" = $1 AND status = $3
+         RETURNING *`,
+        [bookingId, BookingStatus.REFUNDED, BookingStatus.CANCELLED]);
+      return rows[0] ?? null;
+    }
+    catch (error) {
+      console.error('DB Error on claimBookingRefund:', error);
+      throw new InternalServerErrorException('Failed to mark the booking as refunded.');
+    }
+  }
+
+  /**
+   * Adds a refund to a payment's refunded amount, marking the payment as refunded once
+   * the whole amount has been returned.
+   *
+   * @param paymentId - The payment ID (UUID)
+   * @param amount - The amount refunded
+   */
+  async recordRefund(paymentId: string, amount: number): Promise<void> {
+    try {
+      await this.dataSource.query(
+        `UPDATE payments
+         SET "refundedAmount" = "refundedAmount" + $2,
+             status = CASE WHEN "refundedAmount" + $2 >= amount THEN $3::payments_status_enum ELSE status END
+         WHERE id = $1`,
+        [paymentId, amount, PaymentStatus.REFUNDED]);
+    }
+    catch (error) {
+      console.error('DB Error on recordRefund:', error);
+      throw new InternalServerErrorException('Failed to record the refund.');
+    }
+  }
+}
@@ -0,0 +1,367 @@
+/**
+ * payment.service.spec.ts
+ *
+ * This file contains unit tests for the `PaymentService`, which takes payments for bookings
+ * through the payment provider.
+ *
+ * These tests cover:
+ * - Opening a payment only for a user's own bookings that are pending payment
+ * - Confirming or releasing bookings on signed webhook callbacks, and rejecting bad signatures
+ * - Refunding a payment reported as paid after its bookings were released
+ * - Releasing unpaid bookings past their payment window and announcing their seats
+ * - Refunding cancelled bookings through the provider
+ *
+ * The local FakePaymentGateway is used as the provider, so webhooks are really signed and verified.
+ */
+
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadGatewayException, BadRequestException, ConflictException, NotFoundException } from '@nestjs/common';
+import { PaymentService } from './payment.service';
+import { PaymentRepository } from './payment.repository';
+import { PaymentStatus } from './payment.entity';
+import { PaymentEventType } from './payment.provider';
+import { FakePaymentGateway } from './fakePaymentGateway';
+import { PAYMENT_PROVIDER, PAYMENT_WINDOW_MINUTES } from './payment.constants';
+import { BookingRepository } from 'src/booking/booking.repository';
+import { BookingEvents } from 'src/booking/booking.events';
+import { BookingStatus } from 'src/booking/booking.entity';
+
+describe('PaymentService', () => {
+  let service: PaymentService;
+  let gateway: FakePaymentGateway;
+  let bookingEvents: BookingEvents;
+  let mockPaymentRepository: Partial<Record<keyof PaymentRepository, jest.Mock>>;
+  let mockBookingRepository: Partial<Record<keyof BookingRepository, jest.Mock>>;
+
+  const userId = 'abcabcab-1111-2222-3333-abcabcabcabc';
+
+  const booking = (bookingId: string, seatNumber: number, overrides = {}) => ({
+    bookingId, showtimeId: 1, seatNumber, userId, price: 12.5, status: BookingStatus.PENDING_PAYMENT,
+    paymentId: null, createdAt: new Date(), ...overrides,
+  });
+
+  const payment = (overrides = {}) => ({
+    id: 'payment-1', userId, amount: 25, status: PaymentStatus.PENDING, provider: 'fake',
+    providerReference: 'fake_ref', checkoutUrl: '/payments/fake-gateway/fake_ref', refundedAmount: 0,
+    failureReason: null, expiresAt: new Date(), createdAt: new Date(), paidAt: null, ...overrides,
+  });
+
+  beforeEach(async () => {
+    gateway = new FakePaymentGateway('test-secret');
+
+    mockPaymentRepository = {
+      getBookingsByIds: jest.fn(),
+      addNewPayment: jest.fn(),
+      fetchPaymentById: jest.fn(),
+      fetchPaymentByReference: jest.fn(),
+      getBookingIdsForPayment: jest.fn().mockResolvedValue(['booking-1', 'booking-2']),
+      markPaymentPaid: jest.fn(),
+      markPaymentFailed: jest.fn(),
+      expireUnpaidBookings: jest.fn(),
+      claimBookingRefund: jest.fn(),
+      recordRefund: jest.fn(),
+      getQueuedRefunds: jest.fn(),
+      clearUnpaidRefunds: jest.fn().mockResolvedValue([])
+    };
+
+    mockBookingRepository = {
+      fetchBookingById: jest.fn(),
+      updateBookingStatus: jest.fn()
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        PaymentService,
+        BookingEvents,
+        { provide: PaymentRepository, useValue: mockPaymentRepository },
+        { provide: BookingRepository, useValue: mockBookingRepository },
+        { provide: PAYMENT_PROVIDER, useValue: gateway },
+      ],
+    }).compile();
+
+    service = module.get<PaymentService>(PaymentService);
+    bookingEvents = module.get<BookingEvents>(BookingEvents);
+  });
+
+  /**
+   * Opens a checkout with the fake gateway and makes the repository return the matching payment.
+   */
+  const openCheckout = async (amount = 25) => {
+    const { providerReference } = await gateway.createCheckout({ paymentId: 'payment-1', amount, description: 'test' });
+    const opened = payment({ amount, providerReference });
+    mockPaymentRepository.fetchPaymentByReference.mockResolvedValue(opened);
+    return opened;
+  };
+
+  describe('createPayment', () => {
+    /**
+     * Should charge the sum of the prices and give the payment window of the oldest booking.
+     */
+    it('should open a payment for pending bookings', async () => {
+      const createdAt = new Date(Date.now() - 5 * 60 * 1000);
+      mockPaymentRepository.getBookingsByIds.mockResolvedValue([booking('booking-1', 1, { createdAt }), booking('booking-2', 2)]);
+      mockPaymentRepository.addNewPayment.mockImplementation(async (created) => ({ ...payment(), ...created }));
+
+      const result = await service.createPayment({ userId, bookingIds: ['booking-1', 'booking-2'] });
+
+      expect(mockPaymentRepository.addNewPayment).toHaveBeenCalledWith(expect.objectContaining({
+        userId,
+        amount: 25,
+        provider: 'fake',
+        providerReference: expect.stringMatching(/^fake_/),
+        expiresAt: new Date(createdAt.getTime() + PAYMENT_WINDOW_MINUTES * 60 * 1000),
+      }), ['booking-1', 'booking-2']);
+      expect(result).toEqual(expect.objectContaining({ status: PaymentStatus.PENDING, amount: 25, bookingIds: ['booking-1', 'booking-2'] }));
+    });
+
+    /**
+     * Should throw NotFoundException listing the bookings that do not exist.
+     */
+    it('should throw NotFoundException if a booking does not exist', async () => {
+      mockPaymentRepository.getBookingsByIds.mockResolvedValue([booking('booking-1', 1)]);
+
+      await expect(service.createPayment({ userId, bookingIds: ['booking-1', 'booking-2'] })).rejects.toThrow('Bookings booking-2 not found.');
+    });
+
+    /**
+     * Should only let users pay for their own bookings.
+     */
+    it('should throw BadRequestException if a booking belongs to another user', async () => {
+      mockPaymentRepository.getBookingsByIds.mockResolvedValue([booking('booking-1', 1, { userId: 'someone-else' })]);
+
+      await expect(service.createPayment({ userId, bookingIds: ['booking-1'] })).rejects.toThrow(BadRequestException);
+    });
+
+    /**
+     * Should only open payments for bookings pending payment.
+     */
+    it('should throw BadRequestException if a booking is already confirmed', async () => {
+      mockPaymentRepository.getBookingsByIds.mockResolvedValue([booking('booking-1', 1, { status: BookingStatus.CONFIRMED })]);
+
+      await expect(service.createPayment({ userId, bookingIds: ['booking-1'] })).rejects.toThrow(BadRequestException);
+    });
+
+    /**
+     * Should not open a second payment for a booking.
+     */
+    it('should throw ConflictException if a booking already has a payment in progress', async () => {
+      mockPaymentRepository.getBookingsByIds.mockResolvedValue([booking('booking-1', 1, { paymentId: 'payment-0' })]);
+
+      await expect(service.createPayment({ userId, bookingIds: ['booking-1'] })).rejects.toThrow(ConflictException);
+      expect(mockPaymentRepository.addNewPayment).not.toHaveBeenCalled();
+    });
+
+    /**
+     * Should refuse to open a payment once the payment window has closed.
+     */
+    it('should throw BadRequestException if the payment window has closed', async () => {
+      const createdAt = new Date(Date.now() - (PAYMENT_WINDOW_MINUTES + 1) * 60 * 1000);
+      mockPaymentRepository.getBookingsByIds.mockResolvedValue([booking('booking-1', 1, { createdAt })]);
+
+      await expect(service.createPayment({ userId, bookingIds: ['booking-1'] })).rejects.toThrow(BadRequestException);
+    });
+  });
+
+  describe('handleWebhook', () => {
+    /**
+     * Should confirm the bookings when the provider reports the payment as paid.
+     */
+    it('should mark the payment as paid', async () => {
+      const opened = await openCheckout();
+      mockPaymentRepository.markPaymentPaid.mockResolvedValue({ payment: opened, confirmedBookingIds: ['booking-1', 'booking-2'] });
+      const { rawBody, signature } = gateway.completeCheckout(opened.providerReference, PaymentEventType.SUCCEEDED);
+
+      await service.handleWebhook(rawBody, signature);
+
+      expect(mockPaymentRepository.fetchPaymentByReference).toHaveBeenCalledWith('fake', opened.providerReference);
+      expect(mockPaymentRepository.markPaymentPaid).toHaveBeenCalledWith('payment-1');
+      expect(mockPaymentRepository.recordRefund).not.toHaveBeenCalled();
+    });
+
+    /**
+     * Should release the bookings and announce their seats when the payment failed.
+     */
+    it('should release the bookings of a failed payment', async () => {
+      const opened = await openCheckout();
+      mockPaymentRepository.markPaymentFailed.mockResolvedValue([booking('booking-1', 1), booking('booking-2', 2)]);
+      const listener = jest.fn();
+      bookingEvents.onSeatsReleased(listener);
+      const { rawBody, signature } = gateway.completeCheckout(opened.providerReference, PaymentEventType.FAILED, 'Card declined');
+
+      await service.handleWebhook(rawBody, signature);
+
+      expect(mockPaymentRepository.markPaymentFailed).toHaveBeenCalledWith('payment-1', 'Card declined');
+      expect(listener).toHaveBeenCalledWith({ showtimeId: 1, seatNumbers: [1, 2] });
+    });
+
+    /**
+     * Should ignore a repeated callback for a payment that already failed.
+     */
+    it('should ignore a duplicate failure callback', async () => {
+      const opened = await openCheckout();
+      mockPaymentRepository.markPaymentFailed.mockResolvedValue(null);
+      const listener = jest.fn();
+      bookingEvents.onSeatsReleased(listener);
+      const { rawBody, signature } = gateway.completeCheckout(opened.providerReference, PaymentEventType.FAILED);
+
+      await expect(service.handleWebhook(rawBody, signature)).resolves.toBeUndefined();
+      expect(listener).not.toHaveBeenCalled();
+    });
+
+    /**
+     * Should refund in full a payment that came in after its bookings were released.
+     */
+    it('should refund a late payment', async () => {
+      const opened = await openCheckout();
+      mockPaymentRepository.markPaymentPaid.mockResolvedValue({ payment: opened, confirmedBookingIds: [] });
+      const { rawBody, signature } = gateway.completeCheckout(opened.providerReference, PaymentEventType.SUCCEEDED);
+
+      await service.handleWebhook(rawBody, signature);
+
+      expect(mockPaymentRepository.recordRefund).toHaveBeenCalledWith('payment-1', 25);
+    });
+
+    /**
+     * Should reject a callback whose signature does not match.
+     */
+    it('should throw BadRequestException if the signature does not match', async () => {
+      const opened = await openCheckout();
+      const { rawBody, signature } = gateway.completeCheckout(opened.providerReference, PaymentEventType.SUCCEEDED);
+
+      await expect(service.handleWebhook(rawBody, '00'.repeat(32))).rejects.toThrow(BadRequestException);
+      await expect(service.handleWebhook(undefined, signature)).rejects.toThrow(BadRequestException);
+      expect(mockPaymentRepository.markPaymentPaid).not.toHaveBeenCalled();
+    });
+
+    /**
+     * Should throw NotFoundException if no payment matches the checkout.
+     */
+    it('should throw NotFoundException for an unknown checkout', async () => {
+      const opened = await openCheckout();
+      mockPaymentRepository.fetchPaymentByReference.mockResolvedValue(null);
+      const { rawBody, signature } = gateway.completeCheckout(opened.providerReference, PaymentEventType.SUCCEEDED);
+
+      await expect(service.handleWebhook(rawBody, signature)).rejects.toThrow(NotFoundException);
+    });
+  });
+
+  describe('expireUnpaidBookings', () => {
+    /**
+     * Should release unpaid bookings and announce their seats per showtime.
+     */
+    it('should release unpaid bookings past their payment window', async () => {
+      mockPaymentRepository.expireUnpaidBookings.mockResolvedValue([
+        booking('booking-1', 1), booking('booking-2', 2), booking('booking-3', 7, { showtimeId: 2 }),
+      ]);
+      const listener = jest.fn();
+      bookingEvents.onSeatsReleased(listener);
+
+      await expect(service.expireUnpaidBookings()).resolves.toBe(3);
+
+      expect(mockPaymentRepository.expireUnpaidBookings).toHaveBeenCalledWith(PAYMENT_WINDOW_MINUTES);
+      expect(listener).toHaveBeenCalledWith({ showtimeId: 1, seatNumbers: [1, 2] });
+      expect(listener).toHaveBeenCalledWith({ showtimeId: 2, seatNumbers: [7] });
+    });
+  });
+
+  describe('refundBooking', () => {
+    const cancelled = booking('booking-1', 1, { status: BookingStatus.CANCELLED, paymentId: 'payment-1' });
+
+    /**
+     * Should refund the booking's price through the provider.
+     */
+    it('should refund a cancelled booking', async () => {
+      const opened = await openCheckout();
+      gateway.completeCheckout(opened.providerReference, PaymentEventType.SUCCEEDED);
+      mockBookingRepository.fetchBookingById.mockResolvedValue(cancelled);
+      mockPaymentRepository.fetchPaymentById.mockResolvedValue(opened);
+      mockPaymentRepository.claimBookingRefund.mockResolvedValue({ ...cancelled, status: BookingStatus.REFUNDED });
+
+      await expect(service.refundBooking('booking-1')).resolves.toBeUndefined();
+      expect(mockPaymentRepository.recordRefund).toHaveBeenCalledWith('payment-1', 12.5);
+    });
+
+    /**
+     * Should keep the booking cancelled when the provider refuses the refund.
+     */
+    it('should throw BadGatewayException and keep the booking cancelled if the provider fails', async () => {
+      const opened = await openCheckout();
+      mockBookingRepository.fetchBookingById.mockResolvedValue(cancelled);
+      mockPaymentRepository.fetchPaymentById.mockResolvedValue(opened);
+      mockPaymentRepository.claimBookingRefund.mockResolvedValue({ ...cancelled, status: BookingStatus.REFUNDED });
+
+      await expect(service.refundBooking('booking-1')).rejects.toThrow(BadGatewayException);
+      expect(mockBookingRepository.updateBookingStatus).toHaveBeenCalledWith('booking-1', BookingStatus.CANCELLED);
+      expect(mockPaymentRepository.recordRefund).not.toHaveBeenCalled();
+    });
+
+    /**
+     * Should only mark bookings made before payments were taken as refunded.
+     */
+    it('should mark a booking without a payment as refunded', async () => {
+      mockBookingRepository.fetchBookingById.mockResolvedValue({ ...cancelled, paymentId: null });
+      mockPaymentRepository.claimBookingRefund.mockResolvedValue({ ...cancelled, status: BookingStatus.REFUNDED });
+
+      await expect(service.refundBooking('booking-1')).resolves.toBeUndefined();
+      expect(mockPaymentRepository.recordRefund).not.toHaveBeenCalled();
+    });
+
+    /**
+     * Should throw BadRequestException if the booking was not cancelled first.
+     */
+    it('should throw BadRequestException if booking is still confirmed', async () => {
+      mockBookingRepository.fetchBookingById.mockResolvedValue({ ...cancelled, status: BookingStatus.CONFIRMED });
+
+      await expect(service.refundBooking('booking-1')).rejects.toThrow(BadRequestException);
+    });
+
+    /**
+     * Should throw ConflictException if the booking was refunded concurrently.
+     */
+    it('should throw ConflictException if the booking was refunded concurrently', async () => {
+      mockBookingRepository.fetchBookingById.mockResolvedValue(cancelled);
+      mockPaymentRepository.fetchPaymentById.mockResolvedValue(payment());
+      mockPaymentRepository.claimBookingRefund.mockResolvedValue(null);
+
+      await expect(service.refundBooking('booking-1')).rejects.toThrow(ConflictException);
+    });
+  });
+
+  describe('refundQueuedBookings', () => {
+    /**
+     * Should refund every queued booking, leaving the ones the provider fails queued for the next sweep.
+     */
+    it('should refund queued bookings and skip the ones that fail', async () => {
+      const queued = [
+        booking('booking-1', 1, { status: BookingStatus.CANCELLED }),
+        booking('booking-2', 2, { status: BookingStatus.CANCELLED }),
+      ];
+      mockPaymentRepository.getQueuedRefunds.mockResolvedValue(queued);
+      const refund = jest.spyOn(service, 'refundBooking')
+        .mockResolvedValueOnce(undefined)
+        .mockRejectedValueOnce(new BadGatewayException());
+
+      await expect(service.refundQueuedBookings()).resolves.toBe(1);
+
+      expect(refund).toHaveBeenCalledWith('booking-1');
+      expect(refund).toHaveBeenCalledWith('booking-2');
+    });
+
+    /**
+     * Should take bookings whose checkout expired or failed off the queue before refunding the others.
+     */
+    it('should clear queued refunds of unpaid bookings', async () => {
+      const unpaid = booking('booking-3', 3, { status: BookingStatus.CANCELLED, paymentId: 'payment-3' });
+      mockPaymentRepository.clearUnpaidRefunds.mockResolvedValue([unpaid]);
+      mockPaymentRepository.getQueuedRefunds.mockResolvedValue([]);
+      const refund = jest.spyOn(service, 'refundBooking');
+
+      await expect(service.refundQueuedBookings()).resolves.toBe(0);
+
+      expect(mockPaymentRepository.clearUnpaidRefunds).toHaveBeenCalled();
+      expect(mockPaymentRepository.clearUnpaidRefunds.mock.invocationCallOrder[0])
+        .toBeLessThan(mockPaymentRepository.getQueuedRefunds.mock.invocationCallOrder[0]);
+      expect(refund).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,304 @@
+/**
+ * payment.service.ts
+ *
+ * This service takes payments for bookings through the payment provider in use (see PaymentProvider).
+ *
+ * New bookings are pending payment. The customer pays for one or more of them together: a checkout
+ * is opened with the provider and the customer completes it on the provider's side. The provider
+ * then reports the outcome through a signed webhook callback:
+ * - paid: the bookings are confirmed
+ * - failed: the bookings are released and their seats are back on sale
+ *
+ * Bookings not paid within PAYMENT_WINDOW_MINUTES of being made are released by a periodic sweep,
+ * together with their pending payment. A payment reported as paid after its bookings were released
+ * is refunded in full, since its seats may have been sold again. If that refund fails, the payment
+ * stays paid with its bookings released, for an admin to settle with the provider.
+ *
+ * Refunds of cancelled bookings go through the same provider, for the price of the booking.
+ * Bookings queued for a refund (e.g. those of a cancelled showtime) are refunded by the same sweep;
+ * a refund the provider fails is retried on the next sweep.
+ * Seats coming back on sale are announced through BookingEvents, like cancellations.
+ */
+
+import { Injectable, BadRequestException, NotFoundException, ConflictException, BadGatewayException, Inject, OnModuleInit, OnModuleDestroy } from '@nestjs/common';
+import { randomUUID } from 'crypto';
+import { PaymentRepository } from './payment.repository';
+import { Payment } from './payment.entity';
+import { PaymentEventType, PaymentProvider } from './payment.provider';
+import { CreatePaymentDto, PaymentDetailsDto } from './payment.dto';
+import { PAYMENT_PROVIDER, PAYMENT_SWEEP_INTERVAL_MS, PAYMENT_WINDOW_MINUTES } from './payment.constants';
+import { BookingRepository } from 'src/booking/booking.repository';
+import { BookingEvents } from 'src/booking/booking.events';
+import { Booking, BookingStatus } from 'src/booking/booking.entity';
+
+@Injectable()
+export class PaymentService implements OnModuleInit, OnModuleDestroy {
+  private expirySweeper: NodeJS.Timeout | null = null;
+
+  constructor(
+    private readonly paymentRepository: PaymentRepository,
+    private readonly bookingRepository: BookingRepository,
+    private readonly bookingEvents: BookingEvents,
+    @Inject(PAYMENT_PROVIDER) private readonly paymentProvider: PaymentProvider,
+  ) {}
+
+  /**
+   * Starts the periodic sweep of unpaid bookings and queued refunds.
+   */
+  onModuleInit(): void {
+    this.expirySweeper = setInterval(() => {
+      this.expireUnpaidBookings().catch(error => console.error('Failed to sweep unpaid bookings:', error));
+      this.refundQueuedBookings().catch(error => console.error('Failed to sweep queued refunds:', error));
+    }, PAYMENT_SWEEP_INTERVAL_MS);
+  }
+
+  /**
+   * Stops the periodic sweep of unpaid bookings and queued refunds.
+   */
+  onModuleDestroy(): void {
+    if (this.expirySweeper) {
+      clearInterval(this.expirySweeper);
+      this.expirySweeper = null;
+    }
+  }
+
+  /**
+   * Opens a checkout with the provider for one or more bookings of a user, charging the sum of
+   * their prices. The payment window is counted from the oldest booking.
+   *
+   * @param data - The user paying and the bookings to pay for
+   * @returns the payment, with the URL where the customer completes it
+   * @throws NotFoundException if a booking does not exist
+   * @throws BadRequestException if a booking belongs to another user, is not pending payment,
+   * or its payment window has closed
+   * @throws ConflictException if a booking already has a payment in progress, or changed meanwhile
+   * @throws BadGatewayException if the provider could not open the checkout
+   */
+  async createPayment(data: CreatePaymentDto): Promise<PaymentDetailsDto> {
+    const { userId, bookingIds } = data;
+
+    const bookings = await this.paymentRepository.getBookingsByIds(bookingIds);
+    const missing = bookingIds.filter(bookingId => !bookings.some(booking => booking.bookingId === bookingId));
+    if (missing.length > 0) {
+      throw new NotFoundException(`Bookings ${missing.join(', ')} not found.`);
+    }
+
+    for (const booking of bookings) {
+      if (booking.userId !== userId) {
+        throw new BadRequestException(`Booking ${booking.bookingId} belongs to another user.`);
+      }
+      if (booking.status !== BookingStatus.PENDING_PAYMENT) {
+        throw new BadRequestException(`Booking ${booking.bookingId} cannot be paid for because it is ${booking.status}.`);
+      }
+      if (booking.paymentId) {
+        throw new ConflictException(`Booking ${booking.bookingId} already has payment ${booking.paymentId} in progress.`);
+      }
+    }
+
+    const oldestBooking = Math.min(...bookings.map(booking => new Date(booking.createdAt).getTime()));
+    const expiresAt = new Date(oldestBooking + PAYMENT_WINDOW_MINUTES * 60 * 1000);
+    if (expiresAt <= new Date()) {
+      throw new BadRequestException('The payment window of these bookings has closed.');
+    }
+
+    const paymentId = randomUUID();
+    const amount = Math.round(bookings.reduce((total, booking) => total + booking.price, 0) * 100) / 100;
+    let checkout: { providerReference: string; checkoutUrl: string };
+    try {
+      checkout = await this.paymentProvider.createCheckout({
+        paymentId,
+        amount,
+        description: `Popcorn Palace: ${bookings.length} ${bookings.length === 1 ? 'seat' : 'seats'}`,
+      });
+    }
+    catch (error) {
+      console.error('Payment provider error on createCheckout:', error);
+      throw new BadGatewayException('The payment provider could not open the checkout.');
+    }
+
+    const payment = await this.paymentRepository.addNewPayment({
+      id: paymentId,
+      userId,
+      amount,
+      provider: this.paymentProvider.name,
+      providerReference: checkout.providerReference,
+      checkoutUrl: checkout.checkoutUrl,
+      expiresAt,
+    }, bookingIds);
+
+    return this.toPaymentDetails(payment, await this.paymentRepository.getBookingIdsForPayment(paymentId));
+  }
+
+  /**
+   * Fetches a payment with the bookings it covers.
+   *
+   * @param paymentId - The payment ID (UUID)
+   * @returns the payment
+   * @throws NotFoundException if the payment does not exist
+   */
+  async fetchPaymentById(paymentId: string): Promise<PaymentDetailsDto> {
+    const payment = await this.paymentRepository.fetchPaymentById(paymentId);
+    if (!payment) {
+      throw new NotFoundException(`Payment with ID ${paymentId} not found.`);
+    }
+
+    return this.toPaymentDetails(payment, await this.paymentRepository.getBookingIdsForPayment(paymentId));
+  }
+
+  /**
+   * Handles a webhook callback from the provider. Callbacks can safely be delivered more than once:
+   * a payment that already left the state the callback expects is left alone.
+   *
+   * @param rawBody - The request body exactly as received
+   * @param signature - The signature header sent with it
+   * @throws BadRequestException if the signature does not match or the body is malformed
+   * @throws NotFoundException if no payment matches the checkout reference
+   * @throws BadGatewayException if a late payment could not be refunded
+   */
+  async handleWebhook(rawBody: Buffer | undefined, signature: string | undefined): Promise<void> {
+    const event = rawBody ? this.paymentProvider.parseWebhook(rawBody, signature) : null;
+    if (!event) {
+      throw new BadRequestException('Invalid webhook signature.');
+    }
+
+    const payment = await this.paymentRepository.fetchPaymentByReference(this.paymentProvider.name, event.providerReference);
+    if (!payment) {
+      throw new NotFoundException(`No payment found for checkout ${event.providerReference}.`);
+    }
+
+    if (event.type === PaymentEventType.SUCCEEDED) {
+      const paid = await this.paymentRepository.markPaymentPaid(payment.id);
+      if (paid && paid.confirmedBookingIds.length === 0) {
+        // The bookings were released before the money came in: give it back.
+        await this.refund(payment, payment.amount);
+      }
+      return;
+    }
+
+    const released = await this.paymentRepository.markPaymentFailed(payment.id, event.failureReason ?? null);
+    if (released) {
+      this.announceReleasedSeats(released);
+    }
+  }
+
+  /**
+   * Releases every booking past its payment window, and announces the released seats of each showtime.
+   *
+   * @returns the number of released bookings
+   */
+  async expireUnpaidBookings(): Promise<number> {
+    const released = await this.paymentRepository.expireUnpaidBookings(PAYMENT_WINDOW_MINUTES);
+    this.announceReleasedSeats(released);
+    return released.length;
+  }
+
+  /**
+   * Refunds every cancelled booking queued for a refund whose payment has gone through, and takes
+   * off the queue those whose checkout expired or failed, as nothing was paid for them.
+   * A booking that cannot be refunded now stays queued and is tried again on the next sweep.
+   *
+   * @returns the number of refunded bookings
+   */
+  async refundQueuedBookings(): Promise<number> {
+    await this.paymentRepository.clearUnpaidRefunds();
+
+    let refunded = 0;
+    for (const booking of await this.paymentRepository.getQueuedRefunds()) {
+      try {
+        await this.refundBooking(booking.bookingId);
+        refunded++;
+      }
+      catch (error) {
+        console.error(`Failed to refund queued booking ${booking.bookingId}:`, error);
+      }
+    }
+    return refunded;
+  }
+
+  /**
+   * Refunds a cancelled booking through the provider and marks it as refunded.
+   * Bookings without a payment (made before payments were taken) are only marked as refunded.
+   *
+   * @param bookingId - The booking ID (UUID)
+   * @throws NotFoundException if the booking does not exist
+   * @throws BadRequestException if the booking has not been cancelled
+   * @throws ConflictException if the booking is being refunded concurrently
+   * @throws BadGatewayException if the provider could not refund it; the booking stays cancelled
+   */
+  async refundBooking(bookingId: string): Promise<void> {
+    const booking = await this.bookingRepository.fetchBookingById(bookingId);
+    if (!booking) {
+      throw new NotFoundException(`Booking with ID ${bookingId} not found.`);
+    }
+    if (booking.status !== BookingStatus.CANCELLED) {
+      throw new BadRequestException(`Only cancelled bookings can be refunded. Booking ${bookingId} is ${booking.status}.`);
+    }
+
+    const payment = booking.paymentId ? await this.paymentRepository.fetchPaymentById(booking.paymentId) : null;
+    if (!await this.paymentRepository.claimBookingRefund(bookingId)) {
+      throw new ConflictException(`Booking ${bookingId} was refunded concurrently.`);
+    }
+
+    // An exchanged booking can cost more than was paid, so never refund more than is left.
+    const amount = payment ? Math.min(booking.price, Math.round((payment.amount - payment.refundedAmount) * 100) / 100) : 0;
+    if (amount <= 0) {
+      return;
+    }
+
+    try {
+      await this.refund(payment, amount);
+    }
+    catch (error) {
+      await this.bookingRepository.updateBookingStatus(bookingId, BookingStatus.CANCELLED);
+      throw error;
+    }
+  }
+
+  /**
+   * Refunds part or all of a payment through the provider and records it.
+   *
+   * @throws BadGatewayException if the provider could not refund it
+   */
+  private async refund(payment: Payment, amount: number): Promise<void> {
+    try {
+      await this.paymentProvider.refund(payment.providerReference, amount);
+    }
+    catch (error) {
+      console.error('Payment provider error on refund:', error);
+      throw new BadGatewayException(`The payment provider could not refund payment ${payment.id}.`);
+    }
+
+    await this.paymentRepository.recordRefund(payment.id, amount);
+  }
+
+  /**
+   * Announces the released seats of each showtime.
+   */
+  private announceReleasedSeats(bookings: Booking[]): void {
+    const seatsByShowTime = new Map<number, number[]>();
+    for (const booking of bookings) {
+      seatsByShowTime.set(booking.showtimeId, [...(seatsByShowTime.get(booking.showtimeId) ?? []), booking.seatNumber]);
+    }
+    for (const [showtimeId, seatNumbers] of seatsByShowTime) {
+      this.bookingEvents.emitSeatsReleased({ showtimeId, seatNumbers });
+    }
+  }
+
+  /**
+   * Shapes a payment and its booking IDs for the client.
+   */
+  private toPaymentDetails(payment: Payment, bookingIds: string[]): PaymentDetailsDto {
+    return {
+      paymentId: payment.id,
+      userId: payment.userId,
+      bookingIds,
+      amount: payment.amount,
+      refundedAmount: payment.refundedAmount,
+      status: payment.status,
+      checkoutUrl: payment.checkoutUrl,
+      expiresAt: payment.expiresAt,
+      paidAt: payment.paidAt,
+      failureReason: payment.failureReason,
+    };
+  }
+}
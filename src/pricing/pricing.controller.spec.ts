@@ -0,0 +1,52 @@
+/**
+* pricing.controller.spec.ts
+*
+* This file contains unit tests for the PricingController.
+* It validates previewing a showtime's price curve by mocking the underlying PricingService.
+*/
+
+import { Test, TestingModule } from '@nestjs/testing';
+import { NotFoundException } from '@nestjs/common';
+import { PricingController } from './pricing.controller';
+import { PricingService } from './pricing.service';
+
+describe('PricingController', () => {
+    let controller: PricingController;
+    let mockPricingService: Partial<Record<keyof PricingService, jest.Mock>>;
+
+    beforeEach(async () => {
+        mockPricingService = {
+            previewPriceCurve: jest.fn()
+        };
+
+        const module: TestingModule = await Test.createTestingModule({
+            controllers: [PricingController],
+            providers: [
+                { provide: PricingService, useValue: mockPricingService }
+            ]
+        }).compile();
+
+        controller = module.get<PricingController>(PricingController);
+    });
+
+    /**
+    * Should pass the draft rules to the service and return the curve.
+    */
+    it('should preview the price curve', async () => {
+        const rules = { enabled: false, floorMultiplier: 0.8, ceilingMultiplier: 1.5 };
+        const preview = { showtimeId: 1, basePrice: 10, enabled: false, isOpeningWeekend: false, curve: [] };
+        mockPricingService.previewPriceCurve.mockResolvedValue(preview);
+
+        await expect(controller.previewPriceCurve(1, { rules })).resolves.toEqual(preview);
+        expect(mockPricingService.previewPriceCurve).toHaveBeenCalledWith(1, rules);
+    });
+
+    /**
+    * Should propagate NotFoundException when the showtime does not exist.
+    */
+    it('should throw NotFoundException if showtime not found', async () => {
+        mockPricingService.previewPriceCurve.mockRejectedValue(new NotFoundException('Showtime with ID 99 not found.'));
+
+        await expect(controller.previewPriceCurve(99, {})).rejects.toThrow(NotFoundException);
+    });
+});
@@ -0,0 +1,34 @@
+/**
+* pricing.controller.ts
+*
+* This controller lets managers preview the dynamic price curve of a showtime.
+* Rules are saved on the showtime itself (see ShowTimeDto.dynamicPricing).
+*
+* Route: POST /showtimes/:id/pricing/preview
+*/
+
+import { Body, Controller, Param, ParseIntPipe, Post } from "@nestjs/common";
+import { PricingService } from "./pricing.service";
+import { PricePreviewDto, PricePreviewRequestDto } from "./pricing.dto";
+
+@Controller('showtimes')
+export class PricingController {
+    constructor(private readonly pricingService: PricingService) {}
+
+    /**
+    * Handles POST /showtimes/:id/pricing/preview
+    *
+    * Previews the price of a base-price seat at several days before the show and occupancy levels,
+    * under the given draft rules or the showtime's saved ones. Nothing is saved.
+    *
+    * @param id - ID of the showtime
+    * @param dto - Optional draft rules
+    * @returns The price curve
+    * @throws NotFoundException if the showtime does not exist
+    * @throws BadRequestException if the draft rules are invalid
+    */
+    @Post(':id/pricing/preview')
+    async previewPriceCurve(@Param('id', ParseIntPipe) id: number, @Body() dto: PricePreviewRequestDto): Promise<PricePreviewDto> {
+        return this.pricingService.previewPriceCurve(id, dto?.rules);
+    }
+}
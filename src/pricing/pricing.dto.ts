@@ -0,0 +1,208 @@
+/**
+* pricing.dto.ts
+*
+* This file defines the Data Transfer Objects (DTOs) for the dynamic pricing rules of a showtime
+* and for previewing the price curve they produce.
+* Rules that depend on several fields (e.g. the floor not being above the ceiling) are checked by
+* validateDynamicPricing in pricing.rules.ts.
+*/
+
+import {
+    IsBoolean, IsNumber, Min, Max, IsOptional, IsArray, ValidateNested, ArrayUnique, IsInt, Matches,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { DynamicPricingRules, LeadTimeTier, OccupancyTier, TimeSlotAdjustment } from './pricing.rules';
+
+const TIME_OF_DAY_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+export class OccupancyTierDto implements OccupancyTier {
+    /**
+    * The share of the theater's seats (booked or held) from which the tier applies, in percent.
+    */
+    @IsNumber({}, { message: 'Minimum occupancy must be a valid number.' })
+    @Min(0, { message: 'Minimum occupancy must be between 0 and 100.' })
+    @Max(100, { message: 'Minimum occupancy must be between 0 and 100.' })
+    minOccupancyPercent: number;
+
+    /**
+    * Percentage added to the price (negative for a discount).
+    */
+    @IsNumber({}, { message: 'Adjustment must be a valid number.' })
+    @Min(-100, { message: 'Adjustment must be at least -100.' })
+    adjustmentPercent: number;
+}
+
+export class TimeSlotAdjustmentDto implements TimeSlotAdjustment {
+    /**
+    * (Optional) Days of the week the slot covers (0 = Sunday ... 6 = Saturday). Every day if left out.
+    */
+    @IsOptional()
+    @IsArray({ message: 'Days of week must be an array.' })
+    @ArrayUnique({ message: 'Days of week must not repeat.' })
+    @IsInt({ each: true, message: 'Each day of week must be an integer.' })
+    @Min(0, { each: true, message: 'Day of week must be between 0 (Sunday) and 6 (Saturday).' })
+    @Max(6, { each: true, message: 'Day of week must be between 0 (Sunday) and 6 (Saturday).' })
+    daysOfWeek?: number[];
+
+    /**
+    * (Optional) The slot covers showtimes starting at or after this time of day ("HH:MM").
+    */
+    @IsOptional()
+    @Matches(TIME_OF_DAY_PATTERN, { message: 'Start time from must be a time of day (HH:MM).' })
+    startTimeFrom?: string;
+
+    /**
+    * (Optional) The slot covers showtimes starting before this time of day ("HH:MM").
+    */
+    @IsOptional()
+    @Matches(TIME_OF_DAY_PATTERN, { message: 'Start time to must be a time of day (HH:MM).' })
+    startTimeTo?: string;
+
+    /**
+    * Percentage added to the price (negative for a discount).
+    */
+    @IsNumber({}, { message: 'Adjustment must be a valid number.' })
+    @Min(-100, { message: 'Adjustment must be at least -100.' })
+    adjustmentPercent: number;
+}
+
+export class LeadTimeTierDto implements LeadTimeTier {
+    /**
+    * (Optional) The tier applies from this many whole days before the show.
+    */
+    @IsOptional()
+    @IsInt({ message: 'Minimum days before must be an integer.' })
+    @Min(0, { message: 'Minimum days before must be at least 0.' })
+    minDaysBefore?: number;
+
+    /**
+    * (Optional) The tier applies up to this many whole days before the show.
+    */
+    @IsOptional()
+    @IsInt({ message: 'Maximum days before must be an integer.' })
+    @Min(0, { message: 'Maximum days before must be at least 0.' })
+    maxDaysBefore?: number;
+
+    /**
+    * Percentage added to the price (negative for a discount).
+    */
+    @IsNumber({}, { message: 'Adjustment must be a valid number.' })
+    @Min(-100, { message: 'Adjustment must be at least -100.' })
+    adjustmentPercent: number;
+}
+
+export class DynamicPricingDto implements DynamicPricingRules {
+    /**
+    * Whether bookings are charged the dynamic price. Rules can be saved and previewed while off.
+    */
+    @IsBoolean({ message: 'Enabled must be a boolean.' })
+    enabled: boolean;
+
+    /**
+    * Lowest multiplier of a seat's regular price, e.g. 0.8 for at most 20% off.
+    */
+    @IsNumber({}, { message: 'Floor multiplier must be a valid number.' })
+    @Min(0.01, { message: 'Floor multiplier must be greater than 0.' })
+    floorMultiplier: number;
+
+    /**
+    * Highest multiplier of a seat's regular price, e.g. 1.5 for at most 50% more.
+    */
+    @IsNumber({}, { message: 'Ceiling multiplier must be a valid number.' })
+    @Min(0.01, { message: 'Ceiling multiplier must be greater than 0.' })
+    ceilingMultiplier: number;
+
+    /**
+    * (Optional) Surcharges by occupancy; the highest tier reached applies.
+    */
+    @IsOptional()
+    @IsArray({ message: 'Occupancy tiers must be an array.' })
+    @ValidateNested({ each: true })
+    @Type(() => OccupancyTierDto)
+    occupancyTiers?: OccupancyTierDto[];
+
+    /**
+    * (Optional) Adjustments by weekday and time of day; the first matching slot applies.
+    */
+    @IsOptional()
+    @IsArray({ message: 'Time slots must be an array.' })
+    @ValidateNested({ each: true })
+    @Type(() => TimeSlotAdjustmentDto)
+    timeSlots?: TimeSlotAdjustmentDto[];
+
+    /**
+    * (Optional) Adjustments by days until the show; the first matching tier applies.
+    */
+    @IsOptional()
+    @IsArray({ message: 'Lead time tiers must be an array.' })
+    @ValidateNested({ each: true })
+    @Type(() => LeadTimeTierDto)
+    leadTimeTiers?: LeadTimeTierDto[];
+
+    /**
+    * (Optional) Percentage added during the movie's opening weekend.
+    */
+    @IsOptional()
+    @IsNumber({}, { message: 'Opening weekend surcharge must be a valid number.' })
+    @Min(-100, { message: 'Opening weekend surcharge must be at least -100.' })
+    openingWeekendPercent?: number;
+}
+
+export class PricePreviewRequestDto {
+    /**
+    * (Optional) Draft rules to preview. The showtime's saved rules are used if left out.
+    */
+    @IsOptional()
+    @ValidateNested()
+    @Type(() => DynamicPricingDto)
+    rules?: DynamicPricingDto;
+}
+
+export class PricePointDto {
+    /**
+    * Whole days left until the show.
+    */
+    daysBefore: number;
+
+    /**
+    * Share of the theater's seats booked or held, in percent.
+    */
+    occupancyPercent: number;
+
+    /**
+    * Multiplier of the regular price, after the floor and ceiling.
+    */
+    multiplier: number;
+
+    /**
+    * Price of a seat charged the showtime's base price.
+    */
+    price: number;
+}
+
+export class PricePreviewDto {
+    /**
+    * ID of the previewed showtime.
+    */
+    showtimeId: number;
+
+    /**
+    * The showtime's regular base price.
+    */
+    basePrice: number;
+
+    /**
+    * Whether the previewed rules are switched on.
+    */
+    enabled: boolean;
+
+    /**
+    * Whether the showtime falls in its movie's opening weekend.
+    */
+    isOpeningWeekend: boolean;
+
+    /**
+    * The price at each combination of days before the show and occupancy.
+    */
+    curve: PricePointDto[];
+}
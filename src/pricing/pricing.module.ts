@@ -0,0 +1,27 @@
+/**
+* pricing.module.ts
+*
+* This file defines the PricingModule, which encapsulates the dynamic pricing of showtimes.
+*
+* Responsibilities:
+* - Provides and exports the 'PricingService', used by bookings to work out the current price.
+* - Declares the 'PricingController' to preview a showtime's price curve.
+* - Imports 'ShowTimeModule' to read showtimes and their rules.
+*/
+
+import { Module } from "@nestjs/common";
+import { PricingController } from "./pricing.controller";
+import { PricingService } from "./pricing.service";
+import { ShowTimeModule } from "src/showTime/showTime.module";
+
+@Module({
+    imports: [ShowTimeModule],
+    controllers: [PricingController],
+    providers: [PricingService],
+    exports: [PricingService]
+})
+export class PricingModule {
+    constructor() {
+        console.log('PricingModule loaded');
+    }
+}
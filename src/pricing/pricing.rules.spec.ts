@@ -0,0 +1,142 @@
+/**
+* pricing.rules.spec.ts
+*
+* This file contains unit tests for the dynamic pricing engine: how each rule adjusts the price
+* multiplier, the floor and ceiling, the movie's opening weekend, and the checks on the rules.
+*/
+
+import { BadRequestException } from '@nestjs/common';
+import { DynamicPricingRules, PricingContext, computePriceMultiplier, getOpeningWeekend, validateDynamicPricing } from './pricing.rules';
+
+describe('computePriceMultiplier', () => {
+  // Friday 10 January 2025, 20:00 local time
+  const startTime = new Date(2025, 0, 10, 20, 0);
+  const context: PricingContext = { startTime, now: new Date(2025, 0, 1, 12, 0), occupancyPercent: 0, isOpeningWeekend: false };
+  const rules: DynamicPricingRules = { enabled: true, floorMultiplier: 0.5, ceilingMultiplier: 2 };
+
+  /**
+  * Should keep the regular price when no rule applies.
+  */
+  it('should return 1 without matching rules', () => {
+    expect(computePriceMultiplier(rules, context)).toBe(1);
+  });
+
+  /**
+  * Should apply the highest occupancy tier reached.
+  */
+  it('should apply the highest occupancy tier reached', () => {
+    const withTiers = { ...rules, occupancyTiers: [{ minOccupancyPercent: 50, adjustmentPercent: 10 }, { minOccupancyPercent: 80, adjustmentPercent: 25 }] };
+
+    expect(computePriceMultiplier(withTiers, { ...context, occupancyPercent: 40 })).toBe(1);
+    expect(computePriceMultiplier(withTiers, { ...context, occupancyPercent: 50 })).toBe(1.1);
+    expect(computePriceMultiplier(withTiers, { ...context, occupancyPercent: 95 })).toBe(1.25);
+  });
+
+  /**
+  * Should apply the first time slot the showtime falls in.
+  */
+  it('should apply the first matching time slot', () => {
+    const withSlots = {
+      ...rules,
+      timeSlots: [
+        { daysOfWeek: [1, 2, 3], adjustmentPercent: -20 },
+        { daysOfWeek: [5, 6], startTimeFrom: '18:00', adjustmentPercent: 15 },
+        { adjustmentPercent: 5 },
+      ],
+    };
+
+    expect(computePriceMultiplier(withSlots, context)).toBe(1.15);
+    expect(computePriceMultiplier(withSlots, { ...context, startTime: new Date(2025, 0, 7, 20, 0), now: new Date(2024, 11, 25) })).toBe(0.8);
+    expect(computePriceMultiplier(withSlots, { ...context, startTime: new Date(2025, 0, 10, 14, 0) })).toBe(1.05);
+  });
+
+  /**
+  * Should apply the first lead time tier matching the whole days left until the show.
+  */
+  it('should apply lead time tiers', () => {
+    const withLeadTimes = { ...rules, leadTimeTiers: [{ maxDaysBefore: 1, adjustmentPercent: 20 }, { minDaysBefore: 14, adjustmentPercent: -10 }] };
+
+    expect(computePriceMultiplier(withLeadTimes, context)).toBe(1);
+    expect(computePriceMultiplier(withLeadTimes, { ...context, now: new Date(2025, 0, 9, 8, 0) })).toBe(1.2);
+    expect(computePriceMultiplier(withLeadTimes, { ...context, now: new Date(2024, 11, 20) })).toBe(0.9);
+  });
+
+  /**
+  * Should add the opening weekend surcharge only in the opening weekend.
+  */
+  it('should apply the opening weekend surcharge', () => {
+    const withOpening = { ...rules, openingWeekendPercent: 30 };
+
+    expect(computePriceMultiplier(withOpening, context)).toBe(1);
+    expect(computePriceMultiplier(withOpening, { ...context, isOpeningWeekend: true })).toBe(1.3);
+  });
+
+  /**
+  * Should add up every applying rule and clamp the result to the floor and ceiling.
+  */
+  it('should clamp the multiplier to the floor and ceiling', () => {
+    const stacked: DynamicPricingRules = {
+      enabled: true,
+      floorMultiplier: 0.9,
+      ceilingMultiplier: 1.4,
+      occupancyTiers: [{ minOccupancyPercent: 0, adjustmentPercent: 30 }],
+      openingWeekendPercent: 30,
+      leadTimeTiers: [{ minDaysBefore: 7, adjustmentPercent: -50 }],
+    };
+
+    expect(computePriceMultiplier(stacked, { ...context, now: new Date(2025, 0, 9), isOpeningWeekend: true })).toBe(1.4);
+    expect(computePriceMultiplier({ ...stacked, occupancyTiers: [], openingWeekendPercent: 0 }, context)).toBe(0.9);
+  });
+});
+
+describe('getOpeningWeekend', () => {
+  /**
+  * Should use the following weekend when the first showing is on a weekday.
+  */
+  it('should use the next weekend after a weekday first showing', () => {
+    // Wednesday 8 January 2025
+    const { from, until } = getOpeningWeekend(new Date('2025-01-08T19:00:00Z'), 'UTC');
+
+    expect(from).toEqual(new Date('2025-01-10T00:00:00Z'));
+    expect(until).toEqual(new Date('2025-01-13T00:00:00Z'));
+  });
+
+  /**
+  * Should use the same weekend when the first showing is on a Saturday or Sunday.
+  */
+  it('should use the same weekend for a weekend first showing', () => {
+    // Sunday 12 January 2025
+    expect(getOpeningWeekend(new Date('2025-01-12T11:00:00Z'), 'UTC').from).toEqual(new Date('2025-01-10T00:00:00Z'));
+  });
+
+  /**
+  * Should start and end the weekend at midnight on the cinema's clocks, even across a daylight-saving change.
+  */
+  it('should use local midnights in the cinema time zone', () => {
+    // Wednesday 26 March 2025 in Jerusalem; clocks go forward on Friday 28 March
+    const { from, until } = getOpeningWeekend(new Date('2025-03-26T18:00:00Z'), 'Asia/Jerusalem');
+
+    expect(from).toEqual(new Date('2025-03-27T22:00:00Z'));
+    expect(until).toEqual(new Date('2025-03-30T21:00:00Z'));
+  });
+});
+
+describe('validateDynamicPricing', () => {
+  /**
+  * Should reject a floor above the ceiling.
+  */
+  it('should reject a floor above the ceiling', () => {
+    expect(() => validateDynamicPricing({ enabled: true, floorMultiplier: 1.2, ceilingMultiplier: 1 })).toThrow(BadRequestException);
+  });
+
+  /**
+  * Should reject empty time slots and lead time tiers.
+  */
+  it('should reject empty time slots and lead time tiers', () => {
+    const rules = { enabled: true, floorMultiplier: 1, ceilingMultiplier: 1 };
+
+    expect(() => validateDynamicPricing({ ...rules, timeSlots: [{ startTimeFrom: '20:00', startTimeTo: '18:00', adjustmentPercent: 5 }] })).toThrow(BadRequestException);
+    expect(() => validateDynamicPricing({ ...rules, leadTimeTiers: [{ minDaysBefore: 7, maxDaysBefore: 3, adjustmentPercent: 5 }] })).toThrow(BadRequestException);
+    expect(() => validateDynamicPricing(rules)).not.toThrow();
+  });
+});
@@ -0,0 +1,145 @@
+/**
+* pricing.rules.ts
+*
+* The dynamic pricing engine: the rules a showtime can be priced by, and the helpers that turn
+* them into a price multiplier. Each rule that applies adds its percentage to the seat's regular
+* price (see ShowTime.price and ShowTime.categoryPrices); the total is then clamped to the floor
+* and ceiling. Days and times of day are taken in the cinema's time zone (see CINEMA_TIME_ZONE).
+*/
+
+import { BadRequestException } from "@nestjs/common";
+import { CINEMA_TIME_ZONE } from "src/showTime/showTime.constants";
+import { addDays, fromLocalDateTime, getLocalDateTime } from "src/showTime/timeZone";
+import { isInTimeSlot, TimeSlot } from "src/showTime/timeSlot";
+
+/**
+* Surcharge once a share of the theater is booked or held.
+*/
+export interface OccupancyTier {
+    minOccupancyPercent: number;
+    adjustmentPercent: number;
+}
+
+/**
+* Adjustment for showtimes starting on some days of the week and/or between two times of day ("HH:MM").
+*/
+export interface TimeSlotAdjustment extends TimeSlot {
+    adjustmentPercent: number;
+}
+
+/**
+* Adjustment by the number of whole days left until the show, e.g. early-bird or last-minute prices.
+*/
+export interface LeadTimeTier {
+    minDaysBefore?: number | null;
+    maxDaysBefore?: number | null;
+    adjustmentPercent: number;
+}
+
+/**
+* The dynamic pricing rules of a showtime.
+*/
+export interface DynamicPricingRules {
+    /** Whether bookings are charged the dynamic price; rules can be previewed while off. */
+    enabled: boolean;
+    /** Lowest multiplier of the regular price. */
+    floorMultiplier: number;
+    /** Highest multiplier of the regular price. */
+    ceilingMultiplier: number;
+    /** The highest tier reached applies. */
+    occupancyTiers?: OccupancyTier[];
+    /** The first matching slot applies. */
+    timeSlots?: TimeSlotAdjustment[];
+    /** The first matching tier applies. */
+    leadTimeTiers?: LeadTimeTier[];
+    /** Surcharge for showtimes in the movie's opening weekend. */
+    openingWeekendPercent?: number | null;
+}
+
+/**
+* What a price depends on at the moment a seat is sold.
+*/
+export interface PricingContext {
+    startTime: Date;
+    now: Date;
+    occupancyPercent: number;
+    isOpeningWeekend: boolean;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+* Rounds an amount to cents.
+*/
+export function roundPrice(amount: number): number {
+    return Math.round(amount * 100) / 100;
+}
+
+/**
+* Returns the movie's opening weekend (Friday 00:00 to Monday 00:00 on the cinema's clocks): the first weekend
+* on or after its first showing, or the weekend of the first showing if it is on a Saturday or Sunday.
+*/
+export function getOpeningWeekend(firstShowing: Date, timeZone = CINEMA_TIME_ZONE): { from: Date; until: Date } {
+    const { date, dayOfWeek: day } = getLocalDateTime(firstShowing, timeZone);
+    const offsetToFriday = day === 6 ? -1 : day === 0 ? -2 : 5 - day;
+
+    const friday = addDays(date, offsetToFriday);
+    const from = fromLocalDateTime(friday, '00:00', timeZone);
+    const until = fromLocalDateTime(addDays(friday, 3), '00:00', timeZone);
+    return { from, until };
+}
+
+/**
+* Computes the price multiplier of a showtime under its rules, clamped to the floor and ceiling.
+*
+* @param rules - The showtime's dynamic pricing rules.
+* @param context - The showtime's start, the current time and occupancy, and whether it is in the opening weekend.
+* @returns the multiplier to apply to every seat's regular price.
+*/
+export function computePriceMultiplier(rules: DynamicPricingRules, context: PricingContext): number {
+    let adjustmentPercent = 0;
+
+    const occupancyTier = [...(rules.occupancyTiers ?? [])]
+        .sort((a, b) => b.minOccupancyPercent - a.minOccupancyPercent)
+        .find(tier => context.occupancyPercent >= tier.minOccupancyPercent);
+    adjustmentPercent += occupancyTier?.adjustmentPercent ?? 0;
+
+    const timeSlot = (rules.timeSlots ?? []).find(slot => isInTimeSlot(slot, context.startTime));
+    adjustmentPercent += timeSlot?.adjustmentPercent ?? 0;
+
+    const daysBefore = Math.max(Math.floor((context.startTime.getTime() - context.now.getTime()) / DAY_MS), 0);
+    const leadTimeTier = (rules.leadTimeTiers ?? []).find(tier =>
+        (tier.minDaysBefore == null || daysBefore >= tier.minDaysBefore) &&
+        (tier.maxDaysBefore == null || daysBefore <= tier.maxDaysBefore));
+    adjustmentPercent += leadTimeTier?.adjustmentPercent ?? 0;
+
+    if (context.isOpeningWeekend) {
+        adjustmentPercent += rules.openingWeekendPercent ?? 0;
+    }
+
+    const multiplier = 1 + adjustmentPercent / 100;
+    return Math.min(Math.max(multiplier, rules.floorMultiplier), rules.ceilingMultiplier);
+}
+
+/**
+* Checks the rules that depend on several fields.
+*
+* @throws BadRequestException if the floor is above the ceiling, or a time slot or lead time tier is empty.
+*/
+export function validateDynamicPricing(rules: DynamicPricingRules): void {
+    if (rules.floorMultiplier > rules.ceilingMultiplier) {
+        throw new BadRequestException('The price floor must not be above the price ceiling.');
+    }
+
+    for (const slot of rules.timeSlots ?? []) {
+        if (slot.startTimeFrom && slot.startTimeTo && slot.startTimeTo <= slot.startTimeFrom) {
+            throw new BadRequestException('A time slot must end after it starts.');
+        }
+    }
+
+    for (const tier of rules.leadTimeTiers ?? []) {
+        if (tier.minDaysBefore != null && tier.maxDaysBefore != null && tier.maxDaysBefore < tier.minDaysBefore) {
+            throw new BadRequestException('A lead time tier must not end before it starts.');
+        }
+    }
+}
@@ -0,0 +1,138 @@
+/**
+* pricing.service.spec.ts
+*
+* This file contains unit tests for the PricingService class using Jest and the NestJS testing framework.
+* It tests working out the current price multiplier of a showtime (occupancy, opening weekend, rules
+* switched off) and previewing the price curve of saved or draft rules.
+* The showtime repository is mocked to isolate and validate service logic and behavior.
+*/
+
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException, NotFoundException } from '@nestjs/common';
+import { PricingService } from './pricing.service';
+import { ShowTimeRepository } from 'src/showTime/showTime.repository';
+import { ShowTime } from 'src/showTime/showTime.entity';
+
+describe('PricingService', () => {
+  let service: PricingService;
+  let mockShowTimeRepository: Partial<Record<keyof ShowTimeRepository, jest.Mock>>;
+
+  // Saturday 11 January 2025, 20:00 local time
+  const showtime = {
+    id: 1,
+    movieId: 2,
+    theaterId: 3,
+    startTime: new Date(2025, 0, 11, 20, 0).toISOString(),
+    endTime: new Date(2025, 0, 11, 22, 0).toISOString(),
+    price: 10,
+    categoryPrices: null,
+    dynamicPricing: {
+      enabled: true,
+      floorMultiplier: 0.8,
+      ceilingMultiplier: 1.5,
+      occupancyTiers: [{ minOccupancyPercent: 50, adjustmentPercent: 20 }],
+      openingWeekendPercent: 10,
+    },
+  } as ShowTime;
+
+  beforeEach(async () => {
+    mockShowTimeRepository = {
+      fetchShowTimeById: jest.fn(),
+      fetchFirstShowTimeStart: jest.fn().mockResolvedValue(null)
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        PricingService,
+        { provide: 'ShowTimeRepository', useValue: mockShowTimeRepository }
+      ]
+    }).compile();
+
+    service = module.get<PricingService>(PricingService);
+  });
+
+  describe('getPriceMultiplier', () => {
+
+    /**
+    * Should apply the occupancy of the theater.
+    */
+    it('should apply the occupancy tiers', async () => {
+      await expect(service.getPriceMultiplier(showtime, 40, 100)).resolves.toBe(1);
+      await expect(service.getPriceMultiplier(showtime, 60, 100)).resolves.toBe(1.2);
+    });
+
+    /**
+    * Should add the surcharge when the showtime is in its movie's opening weekend.
+    */
+    it('should apply the opening weekend surcharge', async () => {
+      // First shown on Thursday 9 January 2025
+      mockShowTimeRepository.fetchFirstShowTimeStart.mockResolvedValue(new Date(2025, 0, 9, 18, 0));
+
+      await expect(service.getPriceMultiplier(showtime, 0, 100)).resolves.toBe(1.1);
+      expect(mockShowTimeRepository.fetchFirstShowTimeStart).toHaveBeenCalledWith(2);
+    });
+
+    /**
+    * Should keep the regular price while dynamic pricing is off.
+    */
+    it('should return 1 when dynamic pricing is disabled', async () => {
+      const disabled = { ...showtime, dynamicPricing: { ...showtime.dynamicPricing, enabled: false } };
+
+      await expect(service.getPriceMultiplier(disabled, 100, 100)).resolves.toBe(1);
+      await expect(service.getPriceMultiplier({ ...showtime, dynamicPricing: null }, 100, 100)).resolves.toBe(1);
+    });
+  });
+
+  describe('previewPriceCurve', () => {
+
+    /**
+    * Should sample the saved rules at several lead times and occupancy levels.
+    */
+    it('should preview the saved rules', async () => {
+      mockShowTimeRepository.fetchShowTimeById.mockResolvedValue(showtime);
+
+      const result = await service.previewPriceCurve(1);
+
+      expect(result).toEqual(expect.objectContaining({ showtimeId: 1, basePrice: 10, enabled: true, isOpeningWeekend: false }));
+      expect(result.curve).toHaveLength(36);
+      expect(result.curve).toContainEqual({ daysBefore: 7, occupancyPercent: 25, multiplier: 1, price: 10 });
+      expect(result.curve).toContainEqual({ daysBefore: 7, occupancyPercent: 75, multiplier: 1.2, price: 12 });
+    });
+
+    /**
+    * Should preview draft rules without saving them, even while switched off.
+    */
+    it('should preview draft rules', async () => {
+      mockShowTimeRepository.fetchShowTimeById.mockResolvedValue({ ...showtime, dynamicPricing: null });
+
+      const result = await service.previewPriceCurve(1, {
+        enabled: false,
+        floorMultiplier: 0.5,
+        ceilingMultiplier: 2,
+        leadTimeTiers: [{ maxDaysBefore: 1, adjustmentPercent: 25 }],
+      });
+
+      expect(result.enabled).toBe(false);
+      expect(result.curve).toContainEqual({ daysBefore: 0, occupancyPercent: 0, multiplier: 1.25, price: 12.5 });
+      expect(result.curve).toContainEqual({ daysBefore: 14, occupancyPercent: 0, multiplier: 1, price: 10 });
+    });
+
+    /**
+    * Should reject invalid draft rules.
+    */
+    it('should throw BadRequestException for invalid draft rules', async () => {
+      mockShowTimeRepository.fetchShowTimeById.mockResolvedValue(showtime);
+
+      await expect(service.previewPriceCurve(1, { enabled: true, floorMultiplier: 2, ceilingMultiplier: 1 })).rejects.toThrow(BadRequestException);
+    });
+
+    /**
+    * Should throw NotFoundException if the showtime does not exist.
+    */
+    it('should throw NotFoundException if the showtime does not exist', async () => {
+      mockShowTimeRepository.fetchShowTimeById.mockResolvedValue(null);
+
+      await expect(service.previewPriceCurve(99)).rejects.toThrow(NotFoundException);
+    });
+  });
+});
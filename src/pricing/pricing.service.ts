@@ -0,0 +1,108 @@
+/**
+* pricing.service.ts
+*
+* This file defines the PricingService class, which works out the dynamic price of a showtime's seats.
+* Bookings call it under the showtime's seat lock with the current occupancy, so the price matches
+* the seats already taken. Managers use the preview to see the price curve of a showtime's rules
+* (saved or draft) before turning them on.
+*/
+
+import { Injectable, Inject, NotFoundException } from "@nestjs/common";
+import { ShowTimeRepository } from "src/showTime/showTime.repository";
+import { ShowTime } from "src/showTime/showTime.entity";
+import { DynamicPricingRules, computePriceMultiplier, getOpeningWeekend, roundPrice, validateDynamicPricing } from "./pricing.rules";
+import { PricePointDto, PricePreviewDto } from "./pricing.dto";
+
+/** Days before the show at which the preview curve is sampled. */
+const PREVIEW_DAYS_BEFORE = [30, 14, 7, 3, 1, 0];
+
+/** Occupancy percentages at which the preview curve is sampled. */
+const PREVIEW_OCCUPANCY_PERCENTS = [0, 25, 50, 75, 90, 100];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+@Injectable()
+export class PricingService {
+    constructor(
+        @Inject('ShowTimeRepository') private readonly showTimeRepository: ShowTimeRepository,
+    ) {}
+
+    /**
+    * Checks whether a showtime falls in its movie's opening weekend.
+    */
+    private async isOpeningWeekend(showtime: ShowTime): Promise<boolean> {
+        const firstShowing = await this.showTimeRepository.fetchFirstShowTimeStart(showtime.movieId);
+        if (!firstShowing) {
+            return false;
+        }
+
+        const startTime = new Date(showtime.startTime);
+        const { from, until } = getOpeningWeekend(firstShowing);
+        return startTime >= from && startTime < until;
+    }
+
+    /**
+    * Works out the multiplier of a showtime's regular seat prices right now.
+    * Returns 1 unless the showtime's dynamic pricing is enabled.
+    *
+    * @param showtime - The showtime being sold.
+    * @param occupiedSeats - Seats already booked or held (see BookingRepository.countOccupiedSeats).
+    * @param capacity - Number of seats in the showtime's theater.
+    * @returns the multiplier to apply to every seat's regular price.
+    */
+    async getPriceMultiplier(showtime: ShowTime, occupiedSeats: number, capacity: number): Promise<number> {
+        const rules = showtime.dynamicPricing;
+        if (!rules?.enabled) {
+            return 1;
+        }
+
+        return computePriceMultiplier(rules, {
+            startTime: new Date(showtime.startTime),
+            now: new Date(),
+            occupancyPercent: capacity > 0 ? occupiedSeats / capacity * 100 : 100,
+            isOpeningWeekend: await this.isOpeningWeekend(showtime),
+        });
+    }
+
+    /**
+    * Previews the price curve of a showtime: the price of a base-price seat at several
+    * days before the show and occupancy levels. Works whether or not the rules are enabled.
+    *
+    * @param showtimeId - The showtime ID.
+    * @param draftRules - Optional rules to preview instead of the showtime's saved ones.
+    * @returns the price curve.
+    * @throws NotFoundException if the showtime does not exist.
+    * @throws BadRequestException if the rules are invalid.
+    */
+    async previewPriceCurve(showtimeId: number, draftRules?: DynamicPricingRules): Promise<PricePreviewDto> {
+        const showtime = await this.showTimeRepository.fetchShowTimeById(showtimeId);
+        if (!showtime) {
+            throw new NotFoundException(`Showtime with ID ${showtimeId} not found.`);
+        }
+
+        const rules = draftRules ?? showtime.dynamicPricing;
+        if (draftRules) {
+            validateDynamicPricing(draftRules);
+        }
+
+        const startTime = new Date(showtime.startTime);
+        const isOpeningWeekend = await this.isOpeningWeekend(showtime);
+
+        const curve: PricePointDto[] = [];
+        for (const daysBefore of PREVIEW_DAYS_BEFORE) {
+            for (const occupancyPercent of PREVIEW_OCCUPANCY_PERCENTS) {
+                const multiplier = rules
+                    ? computePriceMultiplier(rules, {
+                        startTime,
+                        now: new Date(startTime.getTime() - daysBefore * DAY_MS),
+                        occupancyPercent,
+                        isOpeningWeekend,
+                    })
+                    : 1;
+                curve.push({ daysBefore, occupancyPercent, multiplier, price: roundPrice(showtime.price * multiplier) });
+            }
+        }
+
+        return { showtimeId, basePrice: showtime.price, enabled: rules?.enabled ?? false, isOpeningWeekend, curve };
+    }
+}
@@ -0,0 +1,112 @@
+/**
+* promo.controller.spec.ts
+*
+* This file contains unit tests for the PromoController.
+* It validates controller-level functionality for adding, retrieving, updating, and deleting promo codes
+* by mocking the underlying PromoService and testing expected behaviors and error responses.
+*/
+
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException, NotFoundException } from '@nestjs/common';
+import { PromoController } from './promo.controller';
+import { PromoService } from './promo.service';
+import { PromoCodeDto } from './promo.dto';
+import { DiscountType } from './promo.entity';
+
+describe('PromoController', () => {
+    let controller: PromoController;
+    let mockPromoService: Partial<Record<keyof PromoService, jest.Mock>>;
+
+    const data: PromoCodeDto = {
+        code: 'STUDENT',
+        discountType: DiscountType.FIXED_PRICE,
+        value: 7,
+        validFrom: '2025-01-01T00:00:00.000Z',
+        validUntil: '2025-12-31T23:59:59.000Z',
+    };
+
+    beforeEach(async () => {
+        mockPromoService = {
+            addNewPromoCode: jest.fn(),
+            fetchAllPromoCodes: jest.fn(),
+            fetchPromoCodeById: jest.fn(),
+            updatePromoCode: jest.fn(),
+            deletePromoCode: jest.fn()
+        };
+
+        const module: TestingModule = await Test.createTestingModule({
+            controllers: [PromoController],
+            providers: [
+                { provide: PromoService, useValue: mockPromoService }
+            ]
+        }).compile();
+
+        controller = module.get<PromoController>(PromoController);
+    });
+
+    /**
+    * Should return the created promo code.
+    */
+    it('should add a new promo code', async () => {
+        const promo = { id: 1, ...data };
+        mockPromoService.addNewPromoCode.mockResolvedValue(promo);
+
+        await expect(controller.addNewPromoCode(data)).resolves.toEqual(promo);
+        expect(mockPromoService.addNewPromoCode).toHaveBeenCalledWith(data);
+    });
+
+    /**
+    * Should propagate BadRequestException when the code is taken.
+    */
+    it('should throw BadRequestException if the code is taken', async () => {
+        mockPromoService.addNewPromoCode.mockRejectedValue(new BadRequestException('Promo code STUDENT already exists.'));
+
+        await expect(controller.addNewPromoCode(data)).rejects.toThrow(BadRequestException);
+    });
+
+    /**
+    * Should return all promo codes.
+    */
+    it('should fetch all promo codes', async () => {
+        mockPromoService.fetchAllPromoCodes.mockResolvedValue([{ id: 1, ...data }]);
+
+        await expect(controller.fetchAllPromoCodes()).resolves.toEqual([{ id: 1, ...data }]);
+    });
+
+    /**
+    * Should propagate NotFoundException when the promo code does not exist.
+    */
+    it('should throw NotFoundException if promo code not found', async () => {
+        mockPromoService.fetchPromoCodeById.mockRejectedValue(new NotFoundException('Promo code with ID 99 not found.'));
+
+        await expect(controller.fetchPromoCodeById(99)).rejects.toThrow(NotFoundException);
+    });
+
+    /**
+    * Should return a success message on update.
+    */
+    it('should update a promo code', async () => {
+        mockPromoService.updatePromoCode.mockResolvedValue(undefined);
+
+        await expect(controller.updatePromoCode(1, data)).resolves.toEqual({ message: 'Promo code with ID 1 successfully updated.' });
+        expect(mockPromoService.updatePromoCode).toHaveBeenCalledWith(1, data);
+    });
+
+    /**
+    * Should return a success message on delete.
+    */
+    it('should delete a promo code', async () => {
+        mockPromoService.deletePromoCode.mockResolvedValue(undefined);
+
+        await expect(controller.deletePromoCode(1)).resolves.toEqual({ message: 'Promo code with ID 1 successfully deleted.' });
+    });
+
+    /**
+    * Should propagate BadRequestException when deleting a used code.
+    */
+    it('should throw BadRequestException if the code was used', async () => {
+        mockPromoService.deletePromoCode.mockRejectedValue(new BadRequestException('Promo code STUDENT cannot be deleted because it was used.'));
+
+        await expect(controller.deletePromoCode(1)).rejects.toThrow(BadRequestException);
+    });
+});
@@ -0,0 +1,97 @@
+/**
+* promo.controller.ts
+*
+* This controller handles incoming HTTP requests for managing promo codes (admin).
+* It defines endpoints for creating, retrieving, updating, and deleting promo codes.
+* Customers use a code by passing it as `promoCode` when booking.
+* Each endpoint delegates business logic to the PromoService.
+*
+* Routes:
+* - POST    /promo-codes
+* - GET     /promo-codes/all
+* - GET     /promo-codes/:id
+* - POST    /promo-codes/update/:id
+* - DELETE  /promo-codes/:id
+*/
+
+import { Body, Controller, Get, Post, Delete, Param, ParseIntPipe } from '@nestjs/common';
+import { PromoService } from './promo.service';
+import { PromoCodeDto } from './promo.dto';
+import { PromoCode } from './promo.entity';
+
+@Controller('promo-codes')
+export class PromoController {
+    private readonly promoService: PromoService;
+
+    constructor(promoService: PromoService) {
+        this.promoService = promoService;
+    }
+
+    /**
+    * Handles POST /promo-codes
+    *
+    * Adds a new promo code.
+    * @param promoData - DTO containing the code, its discount, validity dates, limits and scope.
+    * @returns The created promo code.
+    * @throws BadRequestException if the code is taken or the promo code is invalid.
+    */
+    @Post()
+    async addNewPromoCode(@Body() promoData: PromoCodeDto): Promise<PromoCode> {
+        return this.promoService.addNewPromoCode(promoData);
+    }
+
+    /**
+    * Handles GET /promo-codes/all
+    *
+    * Fetches all promo codes.
+    * @returns An array of PromoCode entities.
+    */
+    @Get('all')
+    async fetchAllPromoCodes(): Promise<PromoCode[]> {
+        return this.promoService.fetchAllPromoCodes();
+    }
+
+    /**
+    * Handles GET /promo-codes/:id
+    *
+    * Fetches a promo code by its ID.
+    * @param id - The promo code ID.
+    * @returns The promo code.
+    * @throws NotFoundException if the promo code does not exist.
+    */
+    @Get(':id')
+    async fetchPromoCodeById(@Param('id', ParseIntPipe) id: number): Promise<PromoCode> {
+        return this.promoService.fetchPromoCodeById(id);
+    }
+
+    /**
+    * Handles POST /promo-codes/update/:id
+    *
+    * Updates a promo code.
+    * @param id - The promo code ID.
+    * @param promoData - Full promo code object to update to.
+    * @returns A message confirming the update.
+    * @throws BadRequestException if validation fails or the code is taken.
+    * @throws NotFoundException if the promo code does not exist.
+    */
+    @Post('update/:id')
+    async updatePromoCode(@Param('id', ParseIntPipe) id: number, @Body() promoData: PromoCodeDto): Promise<{ message: string }> {
+        await this.promoService.updatePromoCode(id, promoData);
+        return { message: `Promo code with ID ${id} successfully updated.` };
+    }
+
+    /**
+    * Handles DELETE /promo-codes/:id
+    *
+    * Deletes a promo code that has never been used.
+    * @param id - The promo code ID.
+    * @returns A message confirming the deletion.
+    * @throws BadRequestException if bookings were made with it.
+    * @throws NotFoundException if the promo code does not exist.
+    */
+    @Delete(':id')
+    async deletePromoCode(@Param('id', ParseIntPipe) id: number): Promise<{ message: string }> {
+        await this.promoService.deletePromoCode(id);
+        return { message: `Promo code with ID ${id} successfully deleted.` };
+    }
+}
@@ -0,0 +1,42 @@
+/**
+* promo.discount.spec.ts
+*
+* This file contains unit tests for the promo code helpers:
+* computing the discount of each discount type.
+*/
+
+import { computeDiscounts } from './promo.discount';
+import { DiscountType } from './promo.entity';
+
+describe('promo discounts', () => {
+  /**
+  * Should take the percentage off every seat, rounded to cents.
+  */
+  it('should compute a percentage discount', () => {
+    expect(computeDiscounts({ discountType: DiscountType.PERCENTAGE, value: 20 }, [10, 12.5])).toEqual([2, 2.5]);
+    expect(computeDiscounts({ discountType: DiscountType.PERCENTAGE, value: 15 }, [9.99])).toEqual([1.5]);
+  });
+
+  /**
+  * Should take a fixed amount off every seat, never more than its price.
+  */
+  it('should compute a fixed amount discount', () => {
+    expect(computeDiscounts({ discountType: DiscountType.FIXED_AMOUNT, value: 3 }, [10, 2])).toEqual([3, 2]);
+  });
+
+  /**
+  * Should bring every seat down to the fixed price, leaving cheaper seats alone.
+  */
+  it('should compute a fixed price discount', () => {
+    expect(computeDiscounts({ discountType: DiscountType.FIXED_PRICE, value: 7 }, [10, 6])).toEqual([3, 0]);
+  });
+
+  /**
+  * Should make one seat in every group free, the cheapest first.
+  */
+  it('should compute a multi-buy discount', () => {
+    expect(computeDiscounts({ discountType: DiscountType.MULTI_BUY, value: 2 }, [12, 10])).toEqual([0, 10]);
+    expect(computeDiscounts({ discountType: DiscountType.MULTI_BUY, value: 2 }, [12, 10, 15, 8, 20])).toEqual([0, 10, 0, 8, 0]);
+    expect(computeDiscounts({ discountType: DiscountType.MULTI_BUY, value: 3 }, [10, 10])).toEqual([0, 0]);
+  });
+});
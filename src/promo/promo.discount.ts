@@ -0,0 +1,47 @@
+/**
+* promo.discount.ts
+*
+* Helpers for applying a promo code: computing the discount on each booked seat.
+* Whether a showtime falls in the code's time slot is checked with isInTimeSlot (see src/showTime/timeSlot.ts).
+*/
+
+import { DiscountType, PromoCode } from "./promo.entity";
+
+/**
+* Rounds an amount to cents.
+*/
+function roundPrice(amount: number): number {
+    return Math.round(amount * 100) / 100;
+}
+
+/**
+* Computes the discount on each seat of a booking. A discount never exceeds the seat's price.
+*
+* @param promo - The promo code's discount type and value.
+* @param prices - The price of each seat before the discount.
+* @returns the discount on each seat, in the same order as `prices`.
+*/
+export function computeDiscounts(promo: Pick<PromoCode, 'discountType' | 'value'>, prices: number[]): number[] {
+    switch (promo.discountType) {
+        case DiscountType.PERCENTAGE:
+            return prices.map(price => roundPrice(price * Math.min(promo.value, 100) / 100));
+
+        case DiscountType.FIXED_AMOUNT:
+            return prices.map(price => roundPrice(Math.min(promo.value, price)));
+
+        case DiscountType.FIXED_PRICE:
+            return prices.map(price => roundPrice(Math.max(price - promo.value, 0)));
+
+        case DiscountType.MULTI_BUY: {
+            // The cheapest seats are the free ones
+            const freeSeats = Math.floor(prices.length / promo.value);
+            const cheapestFirst = prices.map((price, index) => ({ price, index })).sort((a, b) => a.price - b.price);
+            const discounts = prices.map(() => 0);
+            cheapestFirst.slice(0, freeSeats).forEach(seat => discounts[seat.index] = seat.price);
+            return discounts;
+        }
+
+        default:
+            return prices.map(() => 0);
+    }
+}
@@ -0,0 +1,118 @@
+/**
+* promo.dto.ts
+*
+* This file defines the Data Transfer Object (DTO) for creating or updating a promo code.
+* It ensures the payload includes a well-formed code, a discount type and value, ISO date-time
+* formatted validity dates, and optional usage limits and movie/theater/time slot scopes.
+* Rules that depend on several fields (e.g. a percentage of at most 100) are checked by PromoService.
+*/
+
+import {
+    IsString, Matches, IsOptional, MaxLength, IsEnum, IsNumber, Min, Max, IsDateString, IsNotEmpty,
+    IsInt, IsArray, ArrayUnique,
+} from 'class-validator';
+import { DiscountType } from './promo.entity';
+
+const TIME_OF_DAY_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+export class PromoCodeDto {
+    /**
+    * The code customers enter: 3-32 letters, digits, dashes or underscores.
+    * Stored upper-case.
+    */
+    @IsString({ message: 'Code must be a string.' })
+    @Matches(/^[A-Za-z0-9_-]{3,32}$/, { message: 'Code must be 3-32 letters, digits, dashes or underscores.' })
+    code: string;
+
+    /**
+    * (Optional) What the code offers, for admins.
+    */
+    @IsOptional()
+    @IsString({ message: 'Description must be a string.' })
+    @MaxLength(255, { message: 'Description must be at most 255 characters.' })
+    description?: string;
+
+    /**
+    * How the discount is computed.
+    */
+    @IsEnum(DiscountType, { message: `Discount type must be one of: ${Object.values(DiscountType).join(', ')}.` })
+    discountType: DiscountType;
+
+    /**
+    * The percentage, amount, price or group size of the discount, depending on its type.
+    */
+    @IsNumber({}, { message: 'Value must be a valid number.' })
+    @Min(0, { message: 'Value must be at least 0.' })
+    value: number;
+
+    /**
+    * When the code becomes valid, in ISO 8601 format.
+    */
+    @IsDateString({}, { message: 'Valid from must be a valid date-time string.' })
+    @IsNotEmpty({ message: 'Valid from is required.' })
+    validFrom: string;
+
+    /**
+    * When the code stops being valid, in ISO 8601 format.
+    */
+    @IsDateString({}, { message: 'Valid until must be a valid date-time string.' })
+    @IsNotEmpty({ message: 'Valid until is required.' })
+    validUntil: string;
+
+    /**
+    * (Optional) How many bookings can use the code in total.
+    */
+    @IsOptional()
+    @IsInt({ message: 'Max uses must be an integer.' })
+    @Min(1, { message: 'Max uses must be at least 1.' })
+    maxUses?: number;
+
+    /**
+    * (Optional) How many bookings each user can make with the code.
+    */
+    @IsOptional()
+    @IsInt({ message: 'Max uses per user must be an integer.' })
+    @Min(1, { message: 'Max uses per user must be at least 1.' })
+    maxUsesPerUser?: number;
+
+    /**
+    * (Optional) Only showtimes of this movie qualify.
+    */
+    @IsOptional()
+    @IsInt({ message: 'Movie ID must be an integer.' })
+    @Min(1, { message: 'Movie ID must be greater than 0.' })
+    movieId?: number;
+
+    /**
+    * (Optional) Only showtimes in this theater qualify.
+    */
+    @IsOptional()
+    @IsInt({ message: 'Theater ID must be an integer.' })
+    @Min(1, { message: 'Theater ID must be greater than 0.' })
+    theaterId?: number;
+
+    /**
+    * (Optional) Only showtimes starting on these days qualify (0 = Sunday ... 6 = Saturday).
+    */
+    @IsOptional()
+    @IsArray({ message: 'Days of week must be an array.' })
+    @ArrayUnique({ message: 'Days of week must not repeat.' })
+    @IsInt({ each: true, message: 'Each day of week must be an integer.' })
+    @Min(0, { each: true, message: 'Day of week must be between 0 (Sunday) and 6 (Saturday).' })
+    @Max(6, { each: true, message: 'Day of week must be between 0 (Sunday) and 6 (Saturday).' })
+    daysOfWeek?: number[];
+
+    /**
+    * (Optional) Only showtimes starting at or after this time of day ("HH:MM") qualify.
+    */
+    @IsOptional()
+    @Matches(TIME_OF_DAY_PATTERN, { message: 'Start time from must be a time of day (HH:MM).' })
+    startTimeFrom?: string;
+
+    /**
+    * (Optional) Only showtimes starting before this time of day ("HH:MM") qualify.
+    */
+    @IsOptional()
+    @Matches(TIME_OF_DAY_PATTERN, { message: 'Start time to must be a time of day (HH:MM).' })
+    startTimeTo?: string;
+}
@@ -0,0 +1,120 @@
+/**
+* promo.entity.ts
+*
+* This entity defines the structure of the "promo_codes" table in the PostgreSQL database.
+* A promo code gives a discount on the seats of a booking. It is only valid between its
+* validity dates, can be used a limited number of times overall and per user, and can be
+* limited to one movie, one theater and/or a time slot (days of the week and start times).
+* Codes are stored upper-case and matched case-insensitively.
+*/
+
+import { Entity, PrimaryGeneratedColumn, Column, CreateDateColumn } from "typeorm";
+
+/**
+* How a promo code reduces the price of the booked seats.
+* - percentage: `value` percent off every seat (e.g. 20% off)
+* - fixed_amount: `value` off every seat
+* - fixed_price: every seat costs `value` (e.g. a student price), unless it is already cheaper
+* - multi_buy: one seat in every `value` seats is free, the cheapest first (2 = "2-for-1")
+*/
+export enum DiscountType {
+    PERCENTAGE = 'percentage',
+    FIXED_AMOUNT = 'fixed_amount',
+    FIXED_PRICE = 'fixed_price',
+    MULTI_BUY = 'multi_buy',
+}
+
+@Entity('promo_codes')
+export class PromoCode {
+    /**
+    * Auto-generated unique ID for the promo code (primary key).
+    */
+    @PrimaryGeneratedColumn()
+    id: number;
+
+    /**
+    * The code customers enter (upper-case, unique).
+    */
+    @Column({ type: 'varchar', length: 32, unique: true })
+    code: string;
+
+    /**
+    * What the code offers, shown to admins (e.g. "20% off Tuesday shows").
+    */
+    @Column({ type: 'varchar', length: 255, nullable: true })
+    description: string | null;
+
+    /**
+    * How the discount is computed (see DiscountType).
+    */
+    @Column({ type: 'enum', enum: DiscountType })
+    discountType: DiscountType;
+
+    /**
+    * The percentage, amount, price or group size of the discount, depending on its type.
+    */
+    @Column({ type: 'float' })
+    value: number;
+
+    /**
+    * When the code becomes valid.
+    */
+    @Column({ type: 'timestamp' })
+    validFrom: Date;
+
+    /**
+    * When the code stops being valid.
+    */
+    @Column({ type: 'timestamp' })
+    validUntil: Date;
+
+    /**
+    * How many bookings can use the code in total, or null for no limit.
+    * Bookings that were cancelled, refunded or never paid for give their use back.
+    */
+    @Column({ type: 'int', nullable: true })
+    maxUses: number | null;
+
+    /**
+    * How many bookings each user can make with the code, or null for no limit.
+    */
+    @Column({ type: 'int', nullable: true })
+    maxUsesPerUser: number | null;
+
+    /**
+    * Only showtimes of this movie qualify, or null for any movie.
+    */
+    @Column({ type: 'int', nullable: true })
+    movieId: number | null;
+
+    /**
+    * Only showtimes in this theater qualify, or null for any theater.
+    */
+    @Column({ type: 'int', nullable: true })
+    theaterId: number | null;
+
+    /**
+    * Only showtimes starting on these days of the week qualify (0 = Sunday ... 6 = Saturday),
+    * or null for any day.
+    */
+    @Column({ type: 'int', array: true, nullable: true })
+    daysOfWeek: number[] | null;
+
+    /**
+    * Only showtimes starting at or after this time of day ("HH:MM") qualify, or null for no lower bound.
+    */
+    @Column({ type: 'varchar', length: 5, nullable: true })
+    startTimeFrom: string | null;
+
+    /**
+    * Only showtimes starting before this time of day ("HH:MM") qualify, or null for no upper bound.
+    */
+    @Column({ type: 'varchar', length: 5, nullable: true })
+    startTimeTo: string | null;
+
+    /**
+    * When the code was created.
+    */
+    @CreateDateColumn({ type: 'timestamp' })
+    createdAt: Date;
+}
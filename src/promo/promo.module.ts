@@ -0,0 +1,37 @@
+/**
+* promo.module.ts
+*
+* This module bundles all logic related to promo codes.
+*
+* - Registers the 'PromoCode' and 'PromoRedemption' entities with TypeORM.
+* - Imports MovieModule and TheaterModule to check the movie or theater a code is limited to.
+* - Provides the 'PromoController' to handle incoming HTTP requests.
+* - Provides the 'PromoService' to encapsulate business logic.
+* - Uses a custom factory to instantiate 'PromoRepository' with TypeORM's DataSource.
+* - Exports 'PromoService' so bookings can apply promo codes.
+*/
+
+import { Module } from "@nestjs/common";
+import { TypeOrmModule } from "@nestjs/typeorm";
+import { DataSource } from "typeorm";
+import { PromoController } from "./promo.controller";
+import { PromoService } from "./promo.service";
+import { PromoRepository } from "./promo.repository";
+import { PromoCode } from "./promo.entity";
+import { PromoRedemption } from "./promoRedemption.entity";
+import { MovieModule } from "src/movie/movie.module";
+import { TheaterModule } from "src/theater/theater.module";
+
+@Module({
+    imports: [TypeOrmModule.forFeature([PromoCode, PromoRedemption]), MovieModule, TheaterModule],
+    controllers: [PromoController],
+    providers: [PromoService,
+        {provide: 'PromoRepository', useFactory: (dataSource: DataSource) => new PromoRepository(dataSource), inject: [DataSource]}
+    ],
+    exports: [PromoService]
+})
+export class PromoModule {
+    constructor() {
+        console.log('PromoModule loaded');
+    }
+}
@@ -0,0 +1,60 @@
+/**
+* promo.repository.spec.ts
+*
+* This file contains unit tests for the usage counts of the PromoRepository: only uses that still
+* hold an active booking count toward a code's limits, so a checkout that was abandoned, cancelled
+* or refunded gives the use back. The DataSource is mocked to check the queries sent.
+*/
+
+import { DataSource, EntityManager } from 'typeorm';
+import { PromoRepository } from './promo.repository';
+import { ACTIVE_BOOKING_STATUSES, BookingStatus } from 'src/booking/booking.entity';
+
+describe('PromoRepository', () => {
+  const userId = 'abcabcab-1111-2222-3333-abcabcabcabc';
+  let query: jest.Mock;
+  let repository: PromoRepository;
+
+  beforeEach(() => {
+    query = jest.fn();
+    repository = new PromoRepository({ query, manager: { query } } as unknown as DataSource);
+  });
+
+  describe('countRedemptions', () => {
+    /**
+    * Should leave out uses whose bookings were all released unpaid, cancelled or refunded.
+    */
+    it('should not count an abandoned checkout toward the limits', async () => {
+      query.mockResolvedValue([{ count: 0 }]);
+
+      await expect(repository.countRedemptions(1, userId, { query } as unknown as EntityManager)).resolves.toBe(0);
+
+      const [sql, params] = query.mock.calls[0];
+      expect(sql).toMatch(/EXISTS \(SELECT 1 FROM bookings b\s+WHERE b\."bookingId" = ANY\(r\."bookingIds"\) AND b\.status = ANY\(\$3\)\)/);
+      expect(params).toEqual([1, userId, ACTIVE_BOOKING_STATUSES]);
+      expect(params[2]).not.toContain(BookingStatus.PAYMENT_FAILED);
+    });
+
+    /**
+    * Should count the uses of every user when no user is given.
+    */
+    it('should count the uses of all users', async () => {
+      query.mockResolvedValue([{ count: 4 }]);
+
+      await expect(repository.countRedemptions(1)).resolves.toBe(4);
+      expect(query.mock.calls[0][1]).toEqual([1, null, ACTIVE_BOOKING_STATUSES]);
+    });
+  });
+
+  describe('hasRedemptions', () => {
+    /**
+    * Should still see a use whose bookings are gone, so a used code cannot be deleted.
+    */
+    it('should report any use of the code', async () => {
+      query.mockResolvedValue([{ '?column?': 1 }]);
+
+      await expect(repository.hasRedemptions(1)).resolves.toBe(true);
+      expect(query.mock.calls[0][0]).not.toContain('bookings');
+    });
+  });
+});
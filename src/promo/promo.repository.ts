@@ -0,0 +1,195 @@
+/**
+* promo.repository.ts
+*
+* This file defines the PromoRepository class, responsible for executing raw SQL queries
+* related to promo codes and their redemptions. It handles inserting, updating, deleting and
+* retrieving promo codes, and counting and recording their uses using TypeORM's DataSource.
+*
+* Methods used while booking take the booking's transactional EntityManager. The code's row
+* is locked while its usage limits are checked, so concurrent bookings cannot overuse it.
+*/
+
+import { Injectable, InternalServerErrorException } from "@nestjs/common";
+import { DataSource, EntityManager } from "typeorm";
+import { PromoCode } from "./promo.entity";
+import { ACTIVE_BOOKING_STATUSES } from "src/booking/booking.entity";
+
+@Injectable()
+export class PromoRepository {
+    private readonly dataSource: DataSource;
+
+    constructor(dataSource: DataSource) {
+        this.dataSource = dataSource;
+    }
+
+    /**
+    * Retrieves all promo codes, newest first.
+    * @returns Promise<PromoCode[]>
+    */
+    async getAllPromoCodes(): Promise<PromoCode[]> {
+        try {
+            return await this.dataSource.query('SELECT * FROM promo_codes ORDER BY "createdAt" DESC, id DESC');
+        }
+        catch (error) {
+            console.error('Error fetching all promo codes:', error);
+            throw new InternalServerErrorException('Error fetching all promo codes');
+        }
+    }
+
+    /**
+    * Fetches a promo code by its ID.
+    * @param id - The ID of the promo code.
+    * @returns The promo code or null if not found.
+    */
+    async fetchPromoCodeById(id: number): Promise<PromoCode | null> {
+        try {
+            const result = await this.dataSource.query('SELECT * FROM promo_codes WHERE id = $1', [id]);
+            return result.length > 0 ? result[0] : null;
+        }
+        catch (error) {
+            console.error('DB Error on fetchPromoCodeById:', error);
+            throw new InternalServerErrorException('Failed to get the promo code by its id.');
+        }
+    }
+
+    /**
+    * Finds a promo code by its code (case-insensitive).
+    * With `lock`, the row stays locked until the transaction ends, so its uses can be counted safely.
+    * @param code - The code to search for.
+    * @param manager - Optional transactional EntityManager.
+    * @param lock - Whether to lock the promo code's row.
+    * @returns The promo code or null if not found.
+    */
+    async findPromoCodeByCode(code: string, manager: EntityManager = this.dataSource.manager, lock = false): Promise<PromoCode | null> {
+        try {
+            const result = await manager.query(
+                `SELECT * FROM promo_codes WHERE code = UPPER($1)${lock ? ' FOR UPDATE' : ''}`,
+                [code.trim()]);
+            return result.length > 0 ? result[0] : null;
+        }
+        catch (error) {
+            console.error('DB Error on findPromoCodeByCode:', error);
+            throw new InternalServerErrorException('Failed to get the promo code.');
+        }
+    }
+
+    /**
+    * Creates a new promo code and returns it with its generated ID.
+    * @param promo - Promo code to insert.
+    */
+    async addNewPromoCode(promo: Omit<PromoCode, 'id' | 'createdAt'>): Promise<PromoCode> {
+        try {
+            const result = await this.dataSource.query(
+                `INSERT INTO promo_codes (code, description, "discountType", value, "validFrom", "validUntil", "maxUses",
+                                          "maxUsesPerUser", "movieId", "theaterId", "daysOfWeek", "startTimeFrom", "startTimeTo")
+                 VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13)
+                 RETURNING *`,
+                [promo.code, promo.description, promo.discountType, promo.value, promo.validFrom, promo.validUntil, promo.maxUses,
+                    promo.maxUsesPerUser, promo.movieId, promo.theaterId, promo.daysOfWeek, promo.startTimeFrom, promo.startTimeTo]);
+
+            return result[0];
+        }
+        catch (error) {
+            console.error('Error adding new promo code:', error);
+            throw new InternalServerErrorException('Failed to add promo code to the database.');
+        }
+    }
+
+    /**
+    * Updates a promo code by its ID.
+    * @param id - Promo code ID.
+    * @param promo - The updated promo code fields.
+    */
+    async updatePromoCode(id: number, promo: Omit<PromoCode, 'id' | 'createdAt'>): Promise<void> {
+        try {
+            await this.dataSource.query(
+                `UPDATE promo_codes
+                 SET code = $1, description = $2, "discountType" = $3, value = $4, "validFrom" = $5, "validUntil" = $6,
+                     "maxUses" = $7, "maxUsesPerUser" = $8, "movieId" = $9, "theaterId" = $10, "daysOfWeek" = $11,
+                     "startTimeFrom" = $12, "startTimeTo" = $13
+                 WHERE id = $14`,
+                [promo.code, promo.description, promo.discountType, promo.value, promo.validFrom, promo.validUntil, promo.maxUses,
+                    promo.maxUsesPerUser, promo.movieId, promo.theaterId, promo.daysOfWeek, promo.startTimeFrom, promo.startTimeTo, id]);
+        }
+        catch (error) {
+            console.error('Error updating promo code:', error);
+            throw new InternalServerErrorException('Failed to update the promo code.');
+        }
+    }
+
+    /**
+    * Deletes a promo code by its ID.
+    * @param id - Promo code ID.
+    */
+    async deletePromoCode(id: number): Promise<void> {
+        try {
+            await this.dataSource.query('DELETE FROM promo_codes WHERE id = $1', [id]);
+        }
+        catch (error) {
+            console.error('Error deleting promo code:', error);
+            throw new InternalServerErrorException('Failed to delete the promo code.');
+        }
+    }
+
+    /**
+    * Checks whether bookings were ever made with a promo code, whatever became of them.
+    * @param promoCodeId - Promo code ID.
+    * @returns true if the code was used at least once.
+    */
+    async hasRedemptions(promoCodeId: number): Promise<boolean> {
+        try {
+            const result = await this.dataSource.query(
+                `SELECT 1 FROM promo_redemptions WHERE "promoCodeId" = $1 LIMIT 1`,
+                [promoCodeId]);
+            return result.length > 0;
+        }
+        catch (error) {
+            console.error('DB Error on hasRedemptions:', error);
+            throw new InternalServerErrorException('Failed to check the promo code uses.');
+        }
+    }
+
+    /**
+    * Counts the uses of a promo code that still hold at least one active booking, overall or by one user.
+    * Uses whose bookings were all cancelled, refunded or released unpaid (e.g. an abandoned checkout)
+    * no longer count toward the code's limits.
+    * @param promoCodeId - Promo code ID.
+    * @param userId - Optional user to count the uses of.
+    * @param manager - Optional transactional EntityManager.
+    * @returns The number of booking requests that used the code and still stand.
+    */
+    async countRedemptions(promoCodeId: number, userId?: string, manager: EntityManager = this.dataSource.manager): Promise<number> {
+        try {
+            const result = await manager.query(
+                `SELECT COUNT(*)::int AS count FROM promo_redemptions r
+                 WHERE r."promoCodeId" = $1 AND ($2::uuid IS NULL OR r."userId" = $2)
+                   AND EXISTS (SELECT 1 FROM bookings b
+                               WHERE b."bookingId" = ANY(r."bookingIds") AND b.status = ANY($3))`,
+                [promoCodeId, userId ?? null, ACTIVE_BOOKING_STATUSES]);
+            return result[0]?.count ?? 0;
+        }
+        catch (error) {
+            console.error('DB Error on countRedemptions:', error);
+            throw new InternalServerErrorException('Failed to count the promo code uses.');
+        }
+    }
+
+    /**
+    * Records a use of a promo code.
+    * @param promoCodeId - Promo code ID.
+    * @param userId - The user who used the code.
+    * @param bookingIds - The bookings made with the code.
+    * @param manager - Optional transactional EntityManager.
+    */
+    async addRedemption(promoCodeId: number, userId: string, bookingIds: string[], manager: EntityManager = this.dataSource.manager): Promise<void> {
+        try {
+            await manager.query(
+                `INSERT INTO promo_redemptions ("promoCodeId", "userId", "bookingIds") VALUES ($1, $2, $3)`,
+                [promoCodeId, userId, bookingIds]);
+        }
+        catch (error) {
+            console.error('DB Error on addRedemption:', error);
+            throw new InternalServerErrorException('Failed to record the promo code use.');
+        }
+    }
+}
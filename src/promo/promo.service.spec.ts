@@ -0,0 +1,278 @@
+/**
+* promo.service.spec.ts
+*
+* This file contains unit tests for the PromoService class using Jest and the NestJS testing framework.
+* It tests the admin CRUD of promo codes (discount rules, validity dates, scope checks, protection of
+* used codes) and applying a code to a booking (validity, movie/theater/time slot scope, usage limits).
+* Repository methods are mocked to isolate and validate service logic and behavior.
+*/
+
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException, NotFoundException } from '@nestjs/common';
+import { PromoService } from './promo.service';
+import { PromoRepository } from './promo.repository';
+import { PromoCodeDto } from './promo.dto';
+import { DiscountType, PromoCode } from './promo.entity';
+import { ShowTime } from 'src/showTime/showTime.entity';
+
+describe('PromoService', () => {
+  let service: PromoService;
+  let mockPromoRepository: Partial<Record<keyof PromoRepository, jest.Mock>>;
+  let mockMovieRepository: { fetchMovieById: jest.Mock };
+  let mockTheaterRepository: { fetchTheaterById: jest.Mock };
+
+  const userId = 'abcabcab-1111-2222-3333-abcabcabcabc';
+
+  const data: PromoCodeDto = {
+    code: 'tuesday20',
+    description: '20% off Tuesday shows',
+    discountType: DiscountType.PERCENTAGE,
+    value: 20,
+    validFrom: '2025-01-01T00:00:00.000Z',
+    validUntil: '2099-01-01T00:00:00.000Z',
+    daysOfWeek: [2],
+  };
+
+  const promo: PromoCode = {
+    id: 1,
+    code: 'TUESDAY20',
+    description: '20% off Tuesday shows',
+    discountType: DiscountType.PERCENTAGE,
+    value: 20,
+    validFrom: new Date('2025-01-01T00:00:00.000Z'),
+    validUntil: new Date('2099-01-01T00:00:00.000Z'),
+    maxUses: null,
+    maxUsesPerUser: null,
+    movieId: null,
+    theaterId: null,
+    daysOfWeek: null,
+    startTimeFrom: null,
+    startTimeTo: null,
+    createdAt: new Date('2025-01-01T00:00:00.000Z'),
+  };
+
+  // Tuesday 7 January 2025, 19:30 local time
+  const showtime = { id: 5, movieId: 2, theaterId: 3, startTime: new Date(2025, 0, 7, 19, 30) } as unknown as ShowTime;
+
+  beforeEach(async () => {
+    mockPromoRepository = {
+      getAllPromoCodes: jest.fn(),
+      fetchPromoCodeById: jest.fn(),
+      findPromoCodeByCode: jest.fn(),
+      addNewPromoCode: jest.fn(),
+      updatePromoCode: jest.fn(),
+      deletePromoCode: jest.fn(),
+      countRedemptions: jest.fn().mockResolvedValue(0),
+      hasRedemptions: jest.fn().mockResolvedValue(false),
+      addRedemption: jest.fn()
+    };
+    mockMovieRepository = { fetchMovieById: jest.fn().mockResolvedValue({ id: 2 }) };
+    mockTheaterRepository = { fetchTheaterById: jest.fn().mockResolvedValue({ id: 3 }) };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        PromoService,
+        { provide: 'PromoRepository', useValue: mockPromoRepository },
+        { provide: 'MovieRepository', useValue: mockMovieRepository },
+        { provide: 'TheaterRepository', useValue: mockTheaterRepository }
+      ]
+    }).compile();
+
+    service = module.get<PromoService>(PromoService);
+  });
+
+  describe('addNewPromoCode', () => {
+
+    /**
+    * Should store the code upper-case with its limits and scope.
+    */
+    it('should add a promo code', async () => {
+      mockPromoRepository.findPromoCodeByCode.mockResolvedValue(null);
+      mockPromoRepository.addNewPromoCode.mockImplementation(async created => ({ id: 1, ...created }));
+
+      const result = await service.addNewPromoCode(data);
+
+      expect(mockPromoRepository.addNewPromoCode).toHaveBeenCalledWith(expect.objectContaining({
+        code: 'TUESDAY20', discountType: DiscountType.PERCENTAGE, value: 20, daysOfWeek: [2], maxUses: null, movieId: null,
+      }));
+      expect(result.code).toBe('TUESDAY20');
+    });
+
+    /**
+    * Should reject a code that already exists.
+    */
+    it('should throw BadRequestException if the code is taken', async () => {
+      mockPromoRepository.findPromoCodeByCode.mockResolvedValue(promo);
+
+      await expect(service.addNewPromoCode(data)).rejects.toThrow(BadRequestException);
+      expect(mockPromoRepository.addNewPromoCode).not.toHaveBeenCalled();
+    });
+
+    /**
+    * Should reject a percentage above 100.
+    */
+    it('should throw BadRequestException for a percentage above 100', async () => {
+      await expect(service.addNewPromoCode({ ...data, value: 150 })).rejects.toThrow(BadRequestException);
+    });
+
+    /**
+    * Should reject a multi-buy group smaller than 2.
+    */
+    it('should throw BadRequestException for a multi-buy group smaller than 2', async () => {
+      await expect(service.addNewPromoCode({ ...data, discountType: DiscountType.MULTI_BUY, value: 1 })).rejects.toThrow(BadRequestException);
+    });
+
+    /**
+    * Should reject validity dates in the wrong order.
+    */
+    it('should throw BadRequestException if valid until is before valid from', async () => {
+      await expect(service.addNewPromoCode({ ...data, validUntil: '2024-01-01T00:00:00.000Z' })).rejects.toThrow(BadRequestException);
+    });
+
+    /**
+    * Should reject a scope to a movie that does not exist.
+    */
+    it('should throw BadRequestException if the movie does not exist', async () => {
+      mockMovieRepository.fetchMovieById.mockResolvedValue(null);
+
+      await expect(service.addNewPromoCode({ ...data, movieId: 99 })).rejects.toThrow(BadRequestException);
+    });
+  });
+
+  describe('fetchPromoCodeById', () => {
+
+    /**
+    * Should throw NotFoundException if the promo code does not exist.
+    */
+    it('should throw NotFoundException if not found', async () => {
+      mockPromoRepository.fetchPromoCodeById.mockResolvedValue(null);
+
+      await expect(service.fetchPromoCodeById(99)).rejects.toThrow(NotFoundException);
+    });
+  });
+
+  describe('updatePromoCode', () => {
+
+    /**
+    * Should update a promo code keeping its code.
+    */
+    it('should update a promo code', async () => {
+      mockPromoRepository.fetchPromoCodeById.mockResolvedValue(promo);
+
+      await service.updatePromoCode(1, { ...data, value: 25 });
+
+      expect(mockPromoRepository.findPromoCodeByCode).not.toHaveBeenCalled();
+      expect(mockPromoRepository.updatePromoCode).toHaveBeenCalledWith(1, expect.objectContaining({ code: 'TUESDAY20', value: 25 }));
+    });
+
+    /**
+    * Should reject renaming to a code that already exists.
+    */
+    it('should throw BadRequestException if the new code is taken', async () => {
+      mockPromoRepository.fetchPromoCodeById.mockResolvedValue(promo);
+      mockPromoRepository.findPromoCodeByCode.mockResolvedValue({ ...promo, id: 2, code: 'STUDENT' });
+
+      await expect(service.updatePromoCode(1, { ...data, code: 'student' })).rejects.toThrow(BadRequestException);
+    });
+  });
+
+  describe('deletePromoCode', () => {
+
+    /**
+    * Should delete a code that was never used.
+    */
+    it('should delete an unused promo code', async () => {
+      mockPromoRepository.fetchPromoCodeById.mockResolvedValue(promo);
+
+      await service.deletePromoCode(1);
+
+      expect(mockPromoRepository.deletePromoCode).toHaveBeenCalledWith(1);
+    });
+
+    /**
+    * Should refuse to delete a code bookings were made with.
+    */
+    it('should throw BadRequestException if the code was used', async () => {
+      mockPromoRepository.fetchPromoCodeById.mockResolvedValue(promo);
+      mockPromoRepository.hasRedemptions.mockResolvedValue(true);
+
+      await expect(service.deletePromoCode(1)).rejects.toThrow(BadRequestException);
+      expect(mockPromoRepository.deletePromoCode).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('applyPromoCode', () => {
+
+    /**
+    * Should lock the code and compute the discount of each seat.
+    */
+    it('should apply a valid promo code', async () => {
+      mockPromoRepository.findPromoCodeByCode.mockResolvedValue({ ...promo, daysOfWeek: [2] });
+
+      const result = await service.applyPromoCode('tuesday20', showtime, userId, [10, 15], 'tx-manager' as any);
+
+      expect(mockPromoRepository.findPromoCodeByCode).toHaveBeenCalledWith('tuesday20', 'tx-manager', true);
+      expect(result).toEqual({ promoCodeId: 1, code: 'TUESDAY20', discounts: [2, 3] });
+    });
+
+    /**
+    * Should reject a code that does not exist.
+    */
+    it('should throw BadRequestException for an unknown code', async () => {
+      mockPromoRepository.findPromoCodeByCode.mockResolvedValue(null);
+
+      await expect(service.applyPromoCode('nope', showtime, userId, [10], 'tx-manager' as any)).rejects.toThrow(BadRequestException);
+    });
+
+    /**
+    * Should reject an expired code.
+    */
+    it('should throw BadRequestException for an expired code', async () => {
+      mockPromoRepository.findPromoCodeByCode.mockResolvedValue({ ...promo, validUntil: new Date('2025-01-02T00:00:00.000Z') });
+
+      await expect(service.applyPromoCode('TUESDAY20', showtime, userId, [10], 'tx-manager' as any)).rejects.toThrow('has expired');
+    });
+
+    /**
+    * Should reject a code limited to another movie or theater.
+    */
+    it('should throw BadRequestException outside the code scope', async () => {
+      mockPromoRepository.findPromoCodeByCode.mockResolvedValueOnce({ ...promo, movieId: 9 });
+      await expect(service.applyPromoCode('TUESDAY20', showtime, userId, [10], 'tx-manager' as any)).rejects.toThrow('not valid for this movie');
+
+      mockPromoRepository.findPromoCodeByCode.mockResolvedValueOnce({ ...promo, theaterId: 9 });
+      await expect(service.applyPromoCode('TUESDAY20', showtime, userId, [10], 'tx-manager' as any)).rejects.toThrow('not valid in this theater');
+    });
+
+    /**
+    * Should reject a showtime outside the code's days of the week.
+    */
+    it('should throw BadRequestException outside the time slot', async () => {
+      mockPromoRepository.findPromoCodeByCode.mockResolvedValue({ ...promo, daysOfWeek: [5, 6] });
+
+      await expect(service.applyPromoCode('TUESDAY20', showtime, userId, [10], 'tx-manager' as any)).rejects.toThrow(BadRequestException);
+    });
+
+    /**
+    * Should need a full group of seats for a multi-buy code.
+    */
+    it('should throw BadRequestException if a multi-buy code has too few seats', async () => {
+      mockPromoRepository.findPromoCodeByCode.mockResolvedValue({ ...promo, discountType: DiscountType.MULTI_BUY, value: 2 });
+
+      await expect(service.applyPromoCode('TUESDAY20', showtime, userId, [10], 'tx-manager' as any)).rejects.toThrow('at least 2 seats');
+    });
+
+    /**
+    * Should enforce the usage limits, overall and per user.
+    */
+    it('should throw BadRequestException once the usage limits are reached', async () => {
+      mockPromoRepository.findPromoCodeByCode.mockResolvedValue({ ...promo, maxUses: 100, maxUsesPerUser: 1 });
+      mockPromoRepository.countRedemptions.mockResolvedValueOnce(100);
+      await expect(service.applyPromoCode('TUESDAY20', showtime, userId, [10], 'tx-manager' as any)).rejects.toThrow('used up');
+
+      mockPromoRepository.countRedemptions.mockResolvedValueOnce(5).mockResolvedValueOnce(1);
+      await expect(service.applyPromoCode('TUESDAY20', showtime, userId, [10], 'tx-manager' as any)).rejects.toThrow('maximum number of times');
+      expect(mockPromoRepository.countRedemptions).toHaveBeenLastCalledWith(1, userId, 'tx-manager');
+    });
+  });
+});
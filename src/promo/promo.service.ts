@@ -0,0 +1,236 @@
+/**
+* promo.service.ts
+*
+* This file defines the PromoService class, which provides the business logic for promo codes.
+* Admins create, update and delete codes; the rules of each discount type, the validity dates and
+* the movie/theater the code is limited to are checked here.
+*
+* When a booking uses a code, the code is checked against the showtime (validity dates, movie,
+* theater, time slot) and its usage limits, and the discount on each seat is computed.
+* This runs inside the booking's transaction, with the code's row locked until the booking commits.
+*/
+
+import { Injectable, BadRequestException, NotFoundException, Inject } from "@nestjs/common";
+import { EntityManager } from "typeorm";
+import { PromoRepository } from "./promo.repository";
+import { PromoCode, DiscountType } from "./promo.entity";
+import { PromoCodeDto } from "./promo.dto";
+import { computeDiscounts } from "./promo.discount";
+import { isInTimeSlot } from "src/showTime/timeSlot";
+import { MovieRepository } from "src/movie/movie.repository";
+import { TheaterRepository } from "src/theater/theater.repository";
+import { ShowTime } from "src/showTime/showTime.entity";
+
+/**
+* A promo code applied to the seats of a booking.
+*/
+export interface AppliedPromoCode {
+    promoCodeId: number;
+    code: string;
+    /** The discount on each seat, in the order the prices were given. */
+    discounts: number[];
+}
+
+@Injectable()
+export class PromoService {
+    constructor(
+        @Inject('PromoRepository') private readonly promoRepository: PromoRepository,
+        @Inject('MovieRepository') private readonly movieRepository: MovieRepository,
+        @Inject('TheaterRepository') private readonly theaterRepository: TheaterRepository,
+    ) {}
+
+    /**
+    * Builds the stored promo code from the DTO, checking the rules that depend on several fields.
+    *
+    * @throws BadRequestException if the value does not fit the discount type, the validity dates
+    * or start times are in the wrong order, or the movie or theater does not exist.
+    */
+    private async buildPromoCode(promoData: PromoCodeDto): Promise<Omit<PromoCode, 'id' | 'createdAt'>> {
+        const { discountType, value } = promoData;
+
+        if (discountType === DiscountType.PERCENTAGE && (value <= 0 || value > 100)) {
+            throw new BadRequestException('A percentage discount must be more than 0 and at most 100.');
+        }
+        if (discountType === DiscountType.FIXED_AMOUNT && value <= 0) {
+            throw new BadRequestException('A fixed amount discount must be more than 0.');
+        }
+        if (discountType === DiscountType.MULTI_BUY && (!Number.isInteger(value) || value < 2)) {
+            throw new BadRequestException('A multi-buy discount needs a whole group size of at least 2.');
+        }
+
+        const validFrom = new Date(promoData.validFrom);
+        const validUntil = new Date(promoData.validUntil);
+        if (validUntil <= validFrom) {
+            throw new BadRequestException('Valid until must be after valid from.');
+        }
+
+        if (promoData.startTimeFrom && promoData.startTimeTo && promoData.startTimeTo <= promoData.startTimeFrom) {
+            throw new BadRequestException('Start time to must be after start time from.');
+        }
+
+        if (promoData.movieId && !await this.movieRepository.fetchMovieById(promoData.movieId)) {
+            throw new BadRequestException(`Movie with ID ${promoData.movieId} does not exist.`);
+        }
+        if (promoData.theaterId && !await this.theaterRepository.fetchTheaterById(promoData.theaterId)) {
+            throw new BadRequestException(`Theater with ID ${promoData.theaterId} does not exist.`);
+        }
+
+        return {
+            code: promoData.code.toUpperCase(),
+            description: promoData.description?.trim() || null,
+            discountType,
+            value,
+            validFrom,
+            validUntil,
+            maxUses: promoData.maxUses ?? null,
+            maxUsesPerUser: promoData.maxUsesPerUser ?? null,
+            movieId: promoData.movieId ?? null,
+            theaterId: promoData.theaterId ?? null,
+            daysOfWeek: promoData.daysOfWeek?.length ? [...promoData.daysOfWeek].sort((a, b) => a - b) : null,
+            startTimeFrom: promoData.startTimeFrom ?? null,
+            startTimeTo: promoData.startTimeTo ?? null,
+        };
+    }
+
+    /**
+    * Adds a new promo code.
+    *
+    * @param promoData - The promo code to add (validated by DTO).
+    * @returns The created promo code.
+    * @throws BadRequestException if the code is taken or the promo code is invalid.
+    */
+    async addNewPromoCode(promoData: PromoCodeDto): Promise<PromoCode> {
+        const promo = await this.buildPromoCode(promoData);
+
+        const existing = await this.promoRepository.findPromoCodeByCode(promo.code);
+        if (existing) {
+            throw new BadRequestException(`Promo code ${promo.code} already exists.`);
+        }
+
+        return this.promoRepository.addNewPromoCode(promo);
+    }
+
+    /**
+    * Fetches all promo codes.
+    *
+    * @returns An array of promo codes (possibly empty).
+    */
+    async fetchAllPromoCodes(): Promise<PromoCode[]> {
+        return this.promoRepository.getAllPromoCodes();
+    }
+
+    /**
+    * Fetches a promo code by its ID.
+    *
+    * @param id - The promo code ID.
+    * @throws NotFoundException if the promo code does not exist.
+    */
+    async fetchPromoCodeById(id: number): Promise<PromoCode> {
+        const promo = await this.promoRepository.fetchPromoCodeById(id);
+        if (!promo) {
+            throw new NotFoundException(`Promo code with ID ${id} not found.`);
+        }
+        return promo;
+    }
+
+    /**
+    * Updates a promo code. Bookings already made with it keep their discount.
+    *
+    * @param id - The promo code ID.
+    * @param promoData - The updated promo code.
+    * @throws NotFoundException if the promo code does not exist.
+    * @throws BadRequestException if the code is taken or the promo code is invalid.
+    */
+    async updatePromoCode(id: number, promoData: PromoCodeDto): Promise<void> {
+        const existing = await this.fetchPromoCodeById(id);
+        const updated = await this.buildPromoCode(promoData);
+
+        if (updated.code !== existing.code) {
+            const duplicate = await this.promoRepository.findPromoCodeByCode(updated.code);
+            if (duplicate) {
+                throw new BadRequestException(`Promo code ${updated.code} already exists.`);
+            }
+        }
+
+        return this.promoRepository.updatePromoCode(id, updated);
+    }
+
+    /**
+    * Deletes a promo code that has never been used.
+    *
+    * @param id - The promo code ID.
+    * @throws NotFoundException if the promo code does not exist.
+    * @throws BadRequestException if bookings were made with it.
+    */
+    async deletePromoCode(id: number): Promise<void> {
+        const promo = await this.fetchPromoCodeById(id);
+
+        if (await this.promoRepository.hasRedemptions(id)) {
+            throw new BadRequestException(`Promo code ${promo.code} cannot be deleted because it was used. End its validity instead.`);
+        }
+
+        return this.promoRepository.deletePromoCode(id);
+    }
+
+    /**
+    * Checks that a promo code can be used for a booking and computes the discount on each seat.
+    * Must run inside the booking's transaction; the code stays locked until it commits.
+    *
+    * @param code - The code entered by the customer.
+    * @param showtime - The booked showtime.
+    * @param userId - The user making the booking.
+    * @param prices - The price of each booked seat before the discount.
+    * @param manager - The booking's transactional EntityManager.
+    * @returns The promo code and the discount on each seat.
+    * @throws BadRequestException if the code does not exist, is not valid for this booking, or has been used up.
+    */
+    async applyPromoCode(code: string, showtime: ShowTime, userId: string, prices: number[], manager: EntityManager): Promise<AppliedPromoCode> {
+        const promo = await this.promoRepository.findPromoCodeByCode(code, manager, true);
+        if (!promo) {
+            throw new BadRequestException(`Promo code ${code} does not exist.`);
+        }
+
+        const now = new Date();
+        if (now < new Date(promo.validFrom)) {
+            throw new BadRequestException(`Promo code ${promo.code} is not valid yet.`);
+        }
+        if (now > new Date(promo.validUntil)) {
+            throw new BadRequestException(`Promo code ${promo.code} has expired.`);
+        }
+
+        if (promo.movieId && promo.movieId !== showtime.movieId) {
+            throw new BadRequestException(`Promo code ${promo.code} is not valid for this movie.`);
+        }
+        if (promo.theaterId && promo.theaterId !== showtime.theaterId) {
+            throw new BadRequestException(`Promo code ${promo.code} is not valid in this theater.`);
+        }
+        if (!isInTimeSlot(promo, new Date(showtime.startTime))) {
+            throw new BadRequestException(`Promo code ${promo.code} is not valid for this showtime's day or time.`);
+        }
+
+        if (promo.discountType === DiscountType.MULTI_BUY && prices.length < promo.value) {
+            throw new BadRequestException(`Promo code ${promo.code} needs at least ${promo.value} seats in the same booking.`);
+        }
+
+        if (promo.maxUses !== null && await this.promoRepository.countRedemptions(promo.id, undefined, manager) >= promo.maxUses) {
+            throw new BadRequestException(`Promo code ${promo.code} has been used up.`);
+        }
+        if (promo.maxUsesPerUser !== null && await this.promoRepository.countRedemptions(promo.id, userId, manager) >= promo.maxUsesPerUser) {
+            throw new BadRequestException(`You have already used promo code ${promo.code} the maximum number of times.`);
+        }
+
+        return { promoCodeId: promo.id, code: promo.code, discounts: computeDiscounts(promo, prices) };
+    }
+
+    /**
+    * Records that a booking used a promo code, counting towards its usage limits.
+    *
+    * @param promoCodeId - The promo code ID.
+    * @param userId - The user who made the booking.
+    * @param bookingIds - The bookings made with the code.
+    * @param manager - The booking's transactional EntityManager.
+    */
+    async recordRedemption(promoCodeId: number, userId: string, bookingIds: string[], manager: EntityManager): Promise<void> {
+        return this.promoRepository.addRedemption(promoCodeId, userId, bookingIds, manager);
+    }
+}
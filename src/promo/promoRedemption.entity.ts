@@ -0,0 +1,43 @@
+/**
+* promoRedemption.entity.ts
+*
+* This entity defines the structure of the "promo_redemptions" table in the PostgreSQL database.
+* Each row records one booking request that used a promo code, with the bookings it created.
+* A group booking counts as a single use. Redemptions are counted to enforce the code's usage limits.
+*/
+
+import { Entity, PrimaryGeneratedColumn, Column, CreateDateColumn, Index } from "typeorm";
+
+@Entity('promo_redemptions')
+@Index('IDX_promo_redemptions_code_user', ['promoCodeId', 'userId'])
+export class PromoRedemption {
+    /**
+    * Auto-generated unique ID for the redemption (primary key).
+    */
+    @PrimaryGeneratedColumn('uuid')
+    id: string;
+
+    /**
+    * The promo code used.
+    */
+    @Column({ type: 'int' })
+    promoCodeId: number;
+
+    /**
+    * UUID of the user who used the code.
+    */
+    @Column({ type: 'uuid' })
+    userId: string;
+
+    /**
+    * The bookings made with the code.
+    */
+    @Column({ type: 'uuid', array: true })
+    bookingIds: string[];
+
+    /**
+    * When the code was used.
+    */
+    @CreateDateColumn({ type: 'timestamp' })
+    createdAt: Date;
+}
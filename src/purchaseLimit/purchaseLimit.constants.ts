@@ -0,0 +1,32 @@
+/**
+* purchaseLimit.constants.ts
+*
+* Tunable ticket limits per customer, and the error codes returned when a booking goes over one.
+* Values can be overridden through environment variables.
+*/
+
+/**
+* Most tickets (booked or held) one user can have for a single showtime.
+*/
+export const MAX_TICKETS_PER_SHOWTIME = Number(process.env.MAX_TICKETS_PER_SHOWTIME ?? 10);
+
+/**
+* Most tickets (booked or held) one user can have for a single premiere showtime.
+*/
+export const MAX_TICKETS_PER_PREMIERE = Number(process.env.MAX_TICKETS_PER_PREMIERE ?? 4);
+
+/**
+* Most tickets one user can book or hold per calendar day in the cinema's time zone
+* (see CINEMA_TIME_ZONE), across all showtimes.
+*/
+export const MAX_TICKETS_PER_DAY = Number(process.env.MAX_TICKETS_PER_DAY ?? 20);
+
+/**
+* Error codes returned in the body of a booking refused for going over a limit.
+*/
+export enum PurchaseLimitErrorCode {
+    SHOWTIME_LIMIT = 'PURCHASE_LIMIT_SHOWTIME',
+    PREMIERE_LIMIT = 'PURCHASE_LIMIT_PREMIERE',
+    DAILY_LIMIT = 'PURCHASE_LIMIT_DAILY',
+    OVERRIDE_LIMIT = 'PURCHASE_LIMIT_OVERRIDE',
+}
@@ -0,0 +1,79 @@
+/**
+* purchaseLimit.controller.spec.ts
+*
+* This file contains unit tests for the PurchaseLimitController.
+* It validates controller-level functionality for granting, listing and revoking purchase limit overrides
+* by mocking the underlying PurchaseLimitService and testing expected behaviors and error responses.
+*/
+
+import { Test, TestingModule } from '@nestjs/testing';
+import { NotFoundException } from '@nestjs/common';
+import { PurchaseLimitController } from './purchaseLimit.controller';
+import { PurchaseLimitService } from './purchaseLimit.service';
+import { PurchaseLimitOverrideDto } from './purchaseLimit.dto';
+
+describe('PurchaseLimitController', () => {
+    let controller: PurchaseLimitController;
+    let mockPurchaseLimitService: Partial<Record<keyof PurchaseLimitService, jest.Mock>>;
+
+    const data: PurchaseLimitOverrideDto = {
+        userId: 'abcabcab-1111-2222-3333-abcabcabcabc',
+        showtimeId: 5,
+        maxTickets: 30,
+        reason: 'School trip',
+    };
+
+    beforeEach(async () => {
+        mockPurchaseLimitService = {
+            addNewOverride: jest.fn(),
+            fetchAllOverrides: jest.fn(),
+            deleteOverride: jest.fn()
+        };
+
+        const module: TestingModule = await Test.createTestingModule({
+            controllers: [PurchaseLimitController],
+            providers: [
+                { provide: PurchaseLimitService, useValue: mockPurchaseLimitService }
+            ]
+        }).compile();
+
+        controller = module.get<PurchaseLimitController>(PurchaseLimitController);
+    });
+
+    /**
+    * Should return the created override.
+    */
+    it('should add a new override', async () => {
+        const override = { id: 1, ...data };
+        mockPurchaseLimitService.addNewOverride.mockResolvedValue(override);
+
+        await expect(controller.addNewOverride(data)).resolves.toEqual(override);
+        expect(mockPurchaseLimitService.addNewOverride).toHaveBeenCalledWith(data);
+    });
+
+    /**
+    * Should return all overrides.
+    */
+    it('should fetch all overrides', async () => {
+        mockPurchaseLimitService.fetchAllOverrides.mockResolvedValue([{ id: 1, ...data }]);
+
+        await expect(controller.fetchAllOverrides()).resolves.toEqual([{ id: 1, ...data }]);
+    });
+
+    /**
+    * Should confirm the deletion of an override.
+    */
+    it('should delete an override', async () => {
+        await expect(controller.deleteOverride(1)).resolves.toEqual({ message: 'Purchase limit override with ID 1 successfully deleted.' });
+        expect(mockPurchaseLimitService.deleteOverride).toHaveBeenCalledWith(1);
+    });
+
+    /**
+    * Should propagate NotFoundException when the override does not exist.
+    */
+    it('should throw NotFoundException if the override does not exist', async () => {
+        mockPurchaseLimitService.deleteOverride.mockRejectedValue(new NotFoundException());
+
+        await expect(controller.deleteOverride(1)).rejects.toThrow(NotFoundException);
+    });
+});
@@ -0,0 +1,61 @@
+/**
+* purchaseLimit.controller.ts
+*
+* This controller handles incoming HTTP requests for purchase limit overrides (admin).
+* An override lets a user book more tickets than the usual limits allow, e.g. for a group sale.
+* Each endpoint delegates business logic to the PurchaseLimitService.
+*
+* Routes:
+* - POST    /purchase-limits/overrides
+* - GET     /purchase-limits/overrides/all
+* - DELETE  /purchase-limits/overrides/:id
+*/
+
+import { Body, Controller, Get, Post, Delete, Param, ParseIntPipe } from '@nestjs/common';
+import { PurchaseLimitService } from './purchaseLimit.service';
+import { PurchaseLimitOverrideDto } from './purchaseLimit.dto';
+import { PurchaseLimitOverride } from './purchaseLimitOverride.entity';
+
+@Controller('purchase-limits/overrides')
+export class PurchaseLimitController {
+    constructor(private readonly purchaseLimitService: PurchaseLimitService) {}
+
+    /**
+    * Handles POST /purchase-limits/overrides
+    *
+    * Grants a user a purchase limit override.
+    * @param data - DTO containing the user, the optional showtime, the ticket limit, reason and expiry.
+    * @returns The created override.
+    * @throws NotFoundException if the showtime does not exist.
+    * @throws BadRequestException if the override has already expired.
+    */
+    @Post()
+    async addNewOverride(@Body() data: PurchaseLimitOverrideDto): Promise<PurchaseLimitOverride> {
+        return this.purchaseLimitService.addNewOverride(data);
+    }
+
+    /**
+    * Handles GET /purchase-limits/overrides/all
+    *
+    * Fetches all purchase limit overrides.
+    * @returns An array of overrides.
+    */
+    @Get('all')
+    async fetchAllOverrides(): Promise<PurchaseLimitOverride[]> {
+        return this.purchaseLimitService.fetchAllOverrides();
+    }
+
+    /**
+    * Handles DELETE /purchase-limits/overrides/:id
+    *
+    * Revokes a purchase limit override.
+    * @param id - The override ID.
+    * @returns A message confirming the deletion.
+    * @throws NotFoundException if the override does not exist.
+    */
+    @Delete(':id')
+    async deleteOverride(@Param('id', ParseIntPipe) id: number): Promise<{ message: string }> {
+        await this.purchaseLimitService.deleteOverride(id);
+        return { message: `Purchase limit override with ID ${id} successfully deleted.` };
+    }
+}
@@ -0,0 +1,47 @@
+/**
+* purchaseLimit.dto.ts
+*
+* This file defines the Data Transfer Object (DTO) for granting a user a purchase limit override,
+* e.g. for a group sale. It ensures the payload includes a valid user ID and ticket limit, and an
+* optional showtime, reason and ISO date-time formatted expiry.
+*/
+
+import { IsUUID, IsInt, Min, IsOptional, IsString, MaxLength, IsDateString } from 'class-validator';
+
+export class PurchaseLimitOverrideDto {
+    /**
+    * UUID of the user allowed to book more tickets.
+    */
+    @IsUUID(undefined, { message: 'User ID must be a valid UUID.' })
+    userId: string;
+
+    /**
+    * (Optional) The showtime the override is for. Applies to every showtime if left out.
+    */
+    @IsOptional()
+    @IsInt({ message: 'Showtime ID must be an integer.' })
+    @Min(1, { message: 'Showtime ID must be greater than 0.' })
+    showtimeId?: number;
+
+    /**
+    * Most tickets the user can have per showtime under the override.
+    */
+    @IsInt({ message: 'Max tickets must be an integer.' })
+    @Min(1, { message: 'Max tickets must be at least 1.' })
+    maxTickets: number;
+
+    /**
+    * (Optional) Why the override was granted.
+    */
+    @IsOptional()
+    @IsString({ message: 'Reason must be a string.' })
+    @MaxLength(255, { message: 'Reason must be at most 255 characters.' })
+    reason?: string;
+
+    /**
+    * (Optional) When the override stops applying, in ISO 8601 format.
+    */
+    @IsOptional()
+    @IsDateString({}, { message: 'Expires at must be a valid date-time string.' })
+    expiresAt?: string;
+}
@@ -0,0 +1,35 @@
+/**
+* purchaseLimit.module.ts
+*
+* This module bundles the anti-scalping ticket limits per customer.
+*
+* - Registers the 'PurchaseLimitOverride' entity with TypeORM.
+* - Imports ShowTimeModule to check the showtime an override is for.
+* - Provides the 'PurchaseLimitController' to manage overrides.
+* - Provides the 'PurchaseLimitService' to enforce the limits.
+* - Uses a custom factory to instantiate 'PurchaseLimitRepository' with TypeORM's DataSource.
+* - Exports 'PurchaseLimitService' so bookings can enforce the limits.
+*/
+
+import { Module } from "@nestjs/common";
+import { TypeOrmModule } from "@nestjs/typeorm";
+import { DataSource } from "typeorm";
+import { PurchaseLimitController } from "./purchaseLimit.controller";
+import { PurchaseLimitService } from "./purchaseLimit.service";
+import { PurchaseLimitRepository } from "./purchaseLimit.repository";
+import { PurchaseLimitOverride } from "./purchaseLimitOverride.entity";
+import { ShowTimeModule } from "src/showTime/showTime.module";
+
+@Module({
+    imports: [TypeOrmModule.forFeature([PurchaseLimitOverride]), ShowTimeModule],
+    controllers: [PurchaseLimitController],
+    providers: [PurchaseLimitService,
+        {provide: 'PurchaseLimitRepository', useFactory: (dataSource: DataSource) => new PurchaseLimitRepository(dataSource), inject: [DataSource]}
+    ],
+    exports: [PurchaseLimitService]
+})
+export class PurchaseLimitModule {
+    constructor() {
+        console.log('PurchaseLimitModule loaded');
+    }
+}
@@ -0,0 +1,113 @@
+/**
+* purchaseLimit.repository.ts
+*
+* This file defines the PurchaseLimitRepository class, responsible for executing raw SQL queries
+* related to purchase limit overrides. It handles inserting, deleting and retrieving overrides,
+* and finding the override that applies to a booking, using TypeORM's DataSource.
+*/
+
+import { Injectable, InternalServerErrorException } from "@nestjs/common";
+import { DataSource, EntityManager } from "typeorm";
+import { PurchaseLimitOverride } from "./purchaseLimitOverride.entity";
+
+@Injectable()
+export class PurchaseLimitRepository {
+    private readonly dataSource: DataSource;
+
+    constructor(dataSource: DataSource) {
+        this.dataSource = dataSource;
+    }
+
+    /**
+    * Retrieves all overrides, newest first.
+    * @returns Promise<PurchaseLimitOverride[]>
+    */
+    async getAllOverrides(): Promise<PurchaseLimitOverride[]> {
+        try {
+            return await this.dataSource.query('SELECT * FROM purchase_limit_overrides ORDER BY "createdAt" DESC, id DESC');
+        }
+        catch (error) {
+            console.error('DB Error on getAllOverrides:', error);
+            throw new InternalServerErrorException('Failed to fetch purchase limit overrides.');
+        }
+    }
+
+    /**
+    * Fetches an override by its ID.
+    * @param id - The override ID.
+    * @returns The override or null if not found.
+    */
+    async fetchOverrideById(id: number): Promise<PurchaseLimitOverride | null> {
+        try {
+            const result = await this.dataSource.query('SELECT * FROM purchase_limit_overrides WHERE id = $1', [id]);
+            return result[0] ?? null;
+        }
+        catch (error) {
+            console.error('DB Error on fetchOverrideById:', error);
+            throw new InternalServerErrorException('Failed to get the purchase limit override by its id.');
+        }
+    }
+
+    /**
+    * Finds the unexpired override that applies to a user booking a showtime.
+    * An override for the showtime wins over one for every showtime.
+    * @param userId - The user booking.
+    * @param showtimeId - The showtime being booked.
+    * @param manager - Optional transactional EntityManager.
+    * @returns The override or null if none applies.
+    */
+    async findActiveOverride(
+        userId: string,
+        showtimeId: number,
+        manager: EntityManager = this.dataSource.manager): Promise<PurchaseLimitOverride | null> {
+        try {
+            const result = await manager.query(
+                `SELECT * FROM purchase_limit_overrides
+                 WHERE "userId" = $1 AND ("showtimeId" = $2 OR "showtimeId" IS NULL)
+                   AND ("expiresAt" IS NULL OR "expiresAt" > NOW())
+                 ORDER BY "showtimeId" NULLS LAST, "maxTickets" DESC
+                 LIMIT 1`,
+                [userId, showtimeId]);
+            return result[0] ?? null;
+        }
+        catch (error) {
+            console.error('DB Error on findActiveOverride:', error);
+            throw new InternalServerErrorException('Failed to find the purchase limit override.');
+        }
+    }
+
+    /**
+    * Inserts a new override.
+    * @param override - The override to add.
+    * @returns The created override.
+    */
+    async addNewOverride(override: Omit<PurchaseLimitOverride, 'id' | 'createdAt'>): Promise<PurchaseLimitOverride> {
+        const { userId, showtimeId, maxTickets, reason, expiresAt } = override;
+        try {
+            const result = await this.dataSource.query(
+                `INSERT INTO purchase_limit_overrides ("userId", "showtimeId", "maxTickets", reason, "expiresAt")
+                 VALUES ($1, $2, $3, $4, $5)
+                 RETURNING *`,
+                [userId, showtimeId, maxTickets, reason, expiresAt]);
+            return result[0];
+        }
+        catch (error) {
+            console.error('DB Error on addNewOverride:', error);
+            throw new InternalServerErrorException('Failed to add the purchase limit override.');
+        }
+    }
+
+    /**
+    * Deletes an override by its ID.
+    * @param id - The override ID.
+    */
+    async deleteOverride(id: number): Promise<void> {
+        try {
+            await this.dataSource.query('DELETE FROM purchase_limit_overrides WHERE id = $1', [id]);
+        }
+        catch (error) {
+            console.error('DB Error on deleteOverride:', error);
+            throw new InternalServerErrorException('Failed to delete the purchase limit override.');
+        }
+    }
+}
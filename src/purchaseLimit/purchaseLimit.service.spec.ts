@@ -0,0 +1,165 @@
+/**
+* purchaseLimit.service.spec.ts
+*
+* This file contains unit tests for the PurchaseLimitService class using Jest and the NestJS testing framework.
+* It tests the ticket limits per showtime, per premiere and per day, the admin overrides that replace them,
+* the error codes returned when a limit is exceeded, and granting and revoking overrides.
+* Repository methods are mocked to isolate and validate service logic and behavior.
+*/
+
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException, NotFoundException } from '@nestjs/common';
+import { EntityManager } from 'typeorm';
+import { PurchaseLimitService } from './purchaseLimit.service';
+import { PurchaseLimitRepository } from './purchaseLimit.repository';
+import { MAX_TICKETS_PER_DAY, MAX_TICKETS_PER_PREMIERE, MAX_TICKETS_PER_SHOWTIME, PurchaseLimitErrorCode } from './purchaseLimit.constants';
+import { ShowTime } from 'src/showTime/showTime.entity';
+
+describe('PurchaseLimitService', () => {
+  let service: PurchaseLimitService;
+  let mockPurchaseLimitRepository: Partial<Record<keyof PurchaseLimitRepository, jest.Mock>>;
+  let mockShowTimeRepository: { fetchShowTimeById: jest.Mock };
+
+  const userId = 'abcabcab-1111-2222-3333-abcabcabcabc';
+  const manager = 'tx-manager' as unknown as EntityManager;
+  const showtime = { id: 5, movieId: 2, theaterId: 3, isPremiere: false } as ShowTime;
+  const premiere = { ...showtime, isPremiere: true } as ShowTime;
+
+  beforeEach(async () => {
+    mockPurchaseLimitRepository = {
+      getAllOverrides: jest.fn(),
+      fetchOverrideById: jest.fn(),
+      findActiveOverride: jest.fn().mockResolvedValue(null),
+      addNewOverride: jest.fn(),
+      deleteOverride: jest.fn()
+    };
+    mockShowTimeRepository = { fetchShowTimeById: jest.fn().mockResolvedValue(showtime) };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        PurchaseLimitService,
+        { provide: 'PurchaseLimitRepository', useValue: mockPurchaseLimitRepository },
+        { provide: 'ShowTimeRepository', useValue: mockShowTimeRepository }
+      ]
+    }).compile();
+
+    service = module.get<PurchaseLimitService>(PurchaseLimitService);
+  });
+
+  describe('assertWithinLimits', () => {
+    /**
+    * Should let a booking through when every limit holds.
+    */
+    it('should allow a booking within the limits', async () => {
+      await expect(service.assertWithinLimits(userId, showtime, 2, { forShowtime: 1, today: 3 }, manager)).resolves.toBeUndefined();
+      expect(mockPurchaseLimitRepository.findActiveOverride).toHaveBeenCalledWith(userId, 5, manager);
+    });
+
+    /**
+    * Should refuse going over the per-showtime limit, reporting the limit and tickets already taken.
+    */
+    it('should throw the showtime limit error code', async () => {
+      const error = await service.assertWithinLimits(userId, showtime, 2, { forShowtime: MAX_TICKETS_PER_SHOWTIME - 1, today: 0 }, manager).catch(e => e);
+
+      expect(error).toBeInstanceOf(BadRequestException);
+      expect(error.getResponse()).toEqual(expect.objectContaining({
+        errorCode: PurchaseLimitErrorCode.SHOWTIME_LIMIT,
+        limit: MAX_TICKETS_PER_SHOWTIME,
+        alreadyTaken: MAX_TICKETS_PER_SHOWTIME - 1
+      }));
+    });
+
+    /**
+    * Should apply the tighter premiere limit to premieres only.
+    */
+    it('should throw the premiere limit error code for a premiere', async () => {
+      const error = await service.assertWithinLimits(userId, premiere, MAX_TICKETS_PER_PREMIERE + 1, { forShowtime: 0, today: 0 }, manager).catch(e => e);
+
+      expect(error.getResponse()).toEqual(expect.objectContaining({ errorCode: PurchaseLimitErrorCode.PREMIERE_LIMIT, limit: MAX_TICKETS_PER_PREMIERE }));
+      await expect(service.assertWithinLimits(userId, showtime, MAX_TICKETS_PER_PREMIERE + 1, { forShowtime: 0, today: 0 }, manager)).resolves.toBeUndefined();
+    });
+
+    /**
+    * Should refuse going over the daily limit across showtimes.
+    */
+    it('should throw the daily limit error code', async () => {
+      const error = await service.assertWithinLimits(userId, showtime, 1, { forShowtime: 0, today: MAX_TICKETS_PER_DAY }, manager).catch(e => e);
+
+      expect(error.getResponse()).toEqual(expect.objectContaining({ errorCode: PurchaseLimitErrorCode.DAILY_LIMIT, alreadyTaken: MAX_TICKETS_PER_DAY }));
+    });
+
+    /**
+    * Should replace every limit with the override's maximum, e.g. for a group sale.
+    */
+    it('should allow a group sale under an override', async () => {
+      mockPurchaseLimitRepository.findActiveOverride.mockResolvedValue({ id: 1, userId, showtimeId: 5, maxTickets: 40 });
+
+      await expect(service.assertWithinLimits(userId, premiere, 30, { forShowtime: 0, today: MAX_TICKETS_PER_DAY }, manager)).resolves.toBeUndefined();
+    });
+
+    /**
+    * Should still refuse going over the override's own maximum.
+    */
+    it('should throw the override limit error code', async () => {
+      mockPurchaseLimitRepository.findActiveOverride.mockResolvedValue({ id: 1, userId, showtimeId: null, maxTickets: 40 });
+
+      const error = await service.assertWithinLimits(userId, showtime, 5, { forShowtime: 38, today: 38 }, manager).catch(e => e);
+
+      expect(error.getResponse()).toEqual(expect.objectContaining({ errorCode: PurchaseLimitErrorCode.OVERRIDE_LIMIT, limit: 40, alreadyTaken: 38 }));
+    });
+  });
+
+  describe('addNewOverride', () => {
+    /**
+    * Should insert the override with optional fields normalized.
+    */
+    it('should add a new override', async () => {
+      const override = { id: 1, userId, showtimeId: 5, maxTickets: 30 };
+      mockPurchaseLimitRepository.addNewOverride.mockResolvedValue(override);
+
+      await expect(service.addNewOverride({ userId, showtimeId: 5, maxTickets: 30, reason: '  School trip ' })).resolves.toEqual(override);
+      expect(mockPurchaseLimitRepository.addNewOverride).toHaveBeenCalledWith({
+        userId, showtimeId: 5, maxTickets: 30, reason: 'School trip', expiresAt: null
+      });
+    });
+
+    /**
+    * Should throw NotFoundException if the showtime does not exist.
+    */
+    it('should throw NotFoundException if the showtime does not exist', async () => {
+      mockShowTimeRepository.fetchShowTimeById.mockResolvedValue(null);
+
+      await expect(service.addNewOverride({ userId, showtimeId: 99, maxTickets: 30 })).rejects.toThrow(NotFoundException);
+      expect(mockPurchaseLimitRepository.addNewOverride).not.toHaveBeenCalled();
+    });
+
+    /**
+    * Should throw BadRequestException if the override has already expired.
+    */
+    it('should throw BadRequestException if the override has already expired', async () => {
+      await expect(service.addNewOverride({ userId, maxTickets: 30, expiresAt: '2020-01-01T00:00:00.000Z' })).rejects.toThrow(BadRequestException);
+    });
+  });
+
+  describe('deleteOverride', () => {
+    /**
+    * Should delete an existing override.
+    */
+    it('should delete the override', async () => {
+      mockPurchaseLimitRepository.fetchOverrideById.mockResolvedValue({ id: 1 });
+
+      await service.deleteOverride(1);
+
+      expect(mockPurchaseLimitRepository.deleteOverride).toHaveBeenCalledWith(1);
+    });
+
+    /**
+    * Should throw NotFoundException if the override does not exist.
+    */
+    it('should throw NotFoundException if the override does not exist', async () => {
+      mockPurchaseLimitRepository.fetchOverrideById.mockResolvedValue(null);
+
+      await expect(service.deleteOverride(1)).rejects.toThrow(NotFoundException);
+    });
+  });
+});
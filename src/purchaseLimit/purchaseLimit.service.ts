@@ -0,0 +1,138 @@
+/**
+* purchaseLimit.service.ts
+*
+* This file defines the PurchaseLimitService class, which enforces how many tickets one customer can buy,
+* to stop scalpers from buying up a showtime:
+* - at most MAX_TICKETS_PER_SHOWTIME tickets per showtime (MAX_TICKETS_PER_PREMIERE for a premiere)
+* - at most MAX_TICKETS_PER_DAY tickets booked or held per day, across showtimes
+*
+* Held seats count as tickets. Admins can grant a user an override for group sales, which replaces
+* these limits with its own per-showtime maximum. A refused booking gets a BadRequestException whose
+* body carries an `errorCode` (see PurchaseLimitErrorCode), the limit and the tickets already taken.
+*/
+
+import { Injectable, BadRequestException, NotFoundException, Inject } from "@nestjs/common";
+import { EntityManager } from "typeorm";
+import { PurchaseLimitRepository } from "./purchaseLimit.repository";
+import { PurchaseLimitOverride } from "./purchaseLimitOverride.entity";
+import { PurchaseLimitOverrideDto } from "./purchaseLimit.dto";
+import { MAX_TICKETS_PER_DAY, MAX_TICKETS_PER_PREMIERE, MAX_TICKETS_PER_SHOWTIME, PurchaseLimitErrorCode } from "./purchaseLimit.constants";
+import { ShowTimeRepository } from "src/showTime/showTime.repository";
+import { ShowTime } from "src/showTime/showTime.entity";
+
+/**
+* Tickets a user already has, booked or held.
+*/
+export interface TicketCounts {
+    /** For the showtime being booked. */
+    forShowtime: number;
+    /** Booked or held today, across showtimes. */
+    today: number;
+}
+
+/**
+* Builds the error for a booking that would go over a limit.
+*/
+function limitExceeded(errorCode: PurchaseLimitErrorCode, message: string, limit: number, alreadyTaken: number): BadRequestException {
+    return new BadRequestException({ message, errorCode, limit, alreadyTaken });
+}
+
+@Injectable()
+export class PurchaseLimitService {
+    constructor(
+        @Inject('PurchaseLimitRepository') private readonly purchaseLimitRepository: PurchaseLimitRepository,
+        @Inject('ShowTimeRepository') private readonly showTimeRepository: ShowTimeRepository,
+    ) {}
+
+    /**
+    * Checks that a user can take more tickets for a showtime.
+    * Must run inside the booking's transaction, after the user's purchases are locked.
+    *
+    * @param userId - The user booking or holding the seats.
+    * @param showtime - The showtime being booked.
+    * @param requested - The number of seats requested.
+    * @param counts - The tickets the user already has (see BookingRepository.countUserTickets).
+    * @param manager - The booking's transactional EntityManager.
+    * @throws BadRequestException with an `errorCode` if a limit would be exceeded.
+    */
+    async assertWithinLimits(userId: string, showtime: ShowTime, requested: number, counts: TicketCounts, manager: EntityManager): Promise<void> {
+        const override = await this.purchaseLimitRepository.findActiveOverride(userId, showtime.id, manager);
+        if (override) {
+            if (counts.forShowtime + requested > override.maxTickets) {
+                throw limitExceeded(PurchaseLimitErrorCode.OVERRIDE_LIMIT,
+                    `You can have at most ${override.maxTickets} tickets for this showtime under your group sale allowance.`,
+                    override.maxTickets, counts.forShowtime);
+            }
+            return;
+        }
+
+        if (showtime.isPremiere && counts.forShowtime + requested > MAX_TICKETS_PER_PREMIERE) {
+            throw limitExceeded(PurchaseLimitErrorCode.PREMIERE_LIMIT,
+                `You can have at most ${MAX_TICKETS_PER_PREMIERE} tickets for a premiere.`,
+                MAX_TICKETS_PER_PREMIERE, counts.forShowtime);
+        }
+
+        if (counts.forShowtime + requested > MAX_TICKETS_PER_SHOWTIME) {
+            throw limitExceeded(PurchaseLimitErrorCode.SHOWTIME_LIMIT,
+                `You can have at most ${MAX_TICKETS_PER_SHOWTIME} tickets per showtime.`,
+                MAX_TICKETS_PER_SHOWTIME, counts.forShowtime);
+        }
+
+        if (counts.today + requested > MAX_TICKETS_PER_DAY) {
+            throw limitExceeded(PurchaseLimitErrorCode.DAILY_LIMIT,
+                `You can book at most ${MAX_TICKETS_PER_DAY} tickets per day.`,
+                MAX_TICKETS_PER_DAY, counts.today);
+        }
+    }
+
+    /**
+    * Grants a user a purchase limit override.
+    *
+    * @param data - The override to grant (validated by DTO).
+    * @returns The created override.
+    * @throws NotFoundException if the showtime does not exist.
+    * @throws BadRequestException if the override has already expired.
+    */
+    async addNewOverride(data: PurchaseLimitOverrideDto): Promise<PurchaseLimitOverride> {
+        if (data.showtimeId && !await this.showTimeRepository.fetchShowTimeById(data.showtimeId)) {
+            throw new NotFoundException(`Showtime with ID ${data.showtimeId} not found.`);
+        }
+
+        const expiresAt = data.expiresAt ? new Date(data.expiresAt) : null;
+        if (expiresAt && expiresAt <= new Date()) {
+            throw new BadRequestException('Expires at must be in the future.');
+        }
+
+        return this.purchaseLimitRepository.addNewOverride({
+            userId: data.userId,
+            showtimeId: data.showtimeId ?? null,
+            maxTickets: data.maxTickets,
+            reason: data.reason?.trim() || null,
+            expiresAt,
+        });
+    }
+
+    /**
+    * Fetches all purchase limit overrides.
+    *
+    * @returns An array of overrides (possibly empty).
+    */
+    async fetchAllOverrides(): Promise<PurchaseLimitOverride[]> {
+        return this.purchaseLimitRepository.getAllOverrides();
+    }
+
+    /**
+    * Revokes a purchase limit override. Tickets already booked under it are kept.
+    *
+    * @param id - The override ID.
+    * @throws NotFoundException if the override does not exist.
+    */
+    async deleteOverride(id: number): Promise<void> {
+        const override = await this.purchaseLimitRepository.fetchOverrideById(id);
+        if (!override) {
+            throw new NotFoundException(`Purchase limit override with ID ${id} not found.`);
+        }
+
+        return this.purchaseLimitRepository.deleteOverride(id);
+    }
+}
@@ -0,0 +1,56 @@
+/**
+* purchaseLimitOverride.entity.ts
+*
+* This entity defines the structure of the "purchase_limit_overrides" table in the PostgreSQL database.
+* An override, granted by an admin for group sales, lets one user book more tickets than the usual
+* limits allow: up to `maxTickets` for one showtime, or for every showtime if no showtime is given.
+*/
+
+import { Entity, PrimaryGeneratedColumn, Column, CreateDateColumn, Index } from "typeorm";
+
+@Entity('purchase_limit_overrides')
+@Index('IDX_purchase_limit_overrides_user', ['userId'])
+export class PurchaseLimitOverride {
+    /**
+    * Auto-generated ID for the override (primary key).
+    */
+    @PrimaryGeneratedColumn()
+    id: number;
+
+    /**
+    * UUID of the user allowed to book more tickets.
+    */
+    @Column({ type: 'uuid' })
+    userId: string;
+
+    /**
+    * The showtime the override is for, or null for every showtime.
+    */
+    @Column({ type: 'int', nullable: true })
+    showtimeId: number | null;
+
+    /**
+    * Most tickets the user can have per showtime under the override. Replaces the per-showtime,
+    * premiere and daily limits.
+    */
+    @Column({ type: 'int' })
+    maxTickets: number;
+
+    /**
+    * Why the override was granted (e.g. the school or company booking), for admins.
+    */
+    @Column({ type: 'varchar', length: 255, nullable: true })
+    reason: string | null;
+
+    /**
+    * When the override stops applying, or null if it does not expire.
+    */
+    @Column({ type: 'timestamp', nullable: true })
+    expiresAt: Date | null;
+
+    /**
+    * When the override was granted.
+    */
+    @CreateDateColumn({ type: 'timestamp' })
+    createdAt: Date;
+}
@@ -0,0 +1,74 @@
+/**
+* salesWindow.spec.ts
+*
+* This file contains unit tests for a showtime's ticket sales window: the cinema-wide defaults,
+* per-showtime overrides, the check on the window and the errors for booking outside it.
+*/
+
+import { BadRequestException } from '@nestjs/common';
+import { assertSalesOpen, getSalesWindow, validateSalesWindow } from './salesWindow';
+import { DEFAULT_SALES_CLOSE_MINUTES_AFTER_START, DEFAULT_SALES_OPEN_DAYS_BEFORE_START, SalesWindowErrorCode } from './showTime.constants';
+
+describe('salesWindow', () => {
+  const startTime = '2025-01-10T20:00:00.000Z';
+  const showtime = { startTime, salesOpenAt: null, salesCloseMinutesAfterStart: null };
+
+  /**
+  * Should open and close sales by the cinema-wide defaults when the showtime sets nothing.
+  */
+  it('should use the default window', () => {
+    const { opensAt, closesAt } = getSalesWindow(showtime);
+
+    expect(opensAt.getTime()).toBe(new Date(startTime).getTime() - DEFAULT_SALES_OPEN_DAYS_BEFORE_START * 24 * 60 * 60 * 1000);
+    expect(closesAt.getTime()).toBe(new Date(startTime).getTime() + DEFAULT_SALES_CLOSE_MINUTES_AFTER_START * 60 * 1000);
+  });
+
+  /**
+  * Should use the showtime's own opening time and cutoff, including a cutoff before the start.
+  */
+  it('should use the showtime window', () => {
+    const window = getSalesWindow({ startTime, salesOpenAt: '2025-01-05T09:00:00.000Z', salesCloseMinutesAfterStart: -30 });
+
+    expect(window).toEqual({ opensAt: new Date('2025-01-05T09:00:00.000Z'), closesAt: new Date('2025-01-10T19:30:00.000Z') });
+  });
+
+  /**
+  * Should reject a window that opens after it closes.
+  */
+  it('should reject an empty window', () => {
+    expect(() => validateSalesWindow({ startTime, salesOpenAt: '2025-01-11T00:00:00.000Z', salesCloseMinutesAfterStart: null }))
+      .toThrow(BadRequestException);
+    expect(() => validateSalesWindow(showtime)).not.toThrow();
+  });
+
+  /**
+  * Should allow booking from the opening time until just before the cutoff.
+  */
+  it('should allow booking inside the window', () => {
+    const salesShowtime = { startTime, salesOpenAt: '2025-01-05T09:00:00.000Z', salesCloseMinutesAfterStart: 15 };
+
+    expect(() => assertSalesOpen(salesShowtime, new Date('2025-01-05T09:00:00.000Z'))).not.toThrow();
+    expect(() => assertSalesOpen(salesShowtime, new Date('2025-01-10T20:14:59.000Z'))).not.toThrow();
+  });
+
+  /**
+  * Should refuse booking before sales open, with the matching error code.
+  */
+  it('should refuse booking before sales open', () => {
+    const salesShowtime = { startTime, salesOpenAt: '2025-01-05T09:00:00.000Z', salesCloseMinutesAfterStart: 15 };
+
+    expect(() => assertSalesOpen(salesShowtime, new Date('2025-01-05T08:59:00.000Z'))).toThrow(expect.objectContaining({
+      response: expect.objectContaining({ errorCode: SalesWindowErrorCode.NOT_OPEN, salesOpenAt: new Date('2025-01-05T09:00:00.000Z') }),
+    }));
+  });
+
+  /**
+  * Should refuse booking once the cutoff has passed, e.g. for a showtime that ended last week.
+  */
+  it('should refuse booking after sales close', () => {
+    expect(() => assertSalesOpen(showtime, new Date('2025-01-10T20:15:00.000Z'))).toThrow(expect.objectContaining({
+      response: expect.objectContaining({ errorCode: SalesWindowErrorCode.CLOSED }),
+    }));
+    expect(() => assertSalesOpen(showtime, new Date('2025-01-17T20:00:00.000Z'))).toThrow(BadRequestException);
+  });
+});
@@ -0,0 +1,70 @@
+/**
+* salesWindow.ts
+*
+* Helpers for a showtime's ticket sales window: tickets are on sale from `salesOpenAt` until the
+* cutoff `salesCloseMinutesAfterStart` minutes after the show starts. Showtimes that do not set
+* them use the cinema-wide defaults (see showTime.constants.ts).
+*/
+
+import { BadRequestException } from "@nestjs/common";
+import { ShowTime } from "./showTime.entity";
+import { DEFAULT_SALES_CLOSE_MINUTES_AFTER_START, DEFAULT_SALES_OPEN_DAYS_BEFORE_START, SalesWindowErrorCode } from "./showTime.constants";
+
+/**
+* When tickets to a showtime go on sale and when sales close.
+*/
+export interface SalesWindow {
+    opensAt: Date;
+    closesAt: Date;
+}
+
+/**
+* Works out a showtime's sales window, falling back to the cinema-wide defaults.
+*/
+export function getSalesWindow(showtime: Pick<ShowTime, 'startTime' | 'salesOpenAt' | 'salesCloseMinutesAfterStart'>): SalesWindow {
+    const startTime = new Date(showtime.startTime).getTime();
+    const opensAt = showtime.salesOpenAt
+        ? new Date(showtime.salesOpenAt)
+        : new Date(startTime - DEFAULT_SALES_OPEN_DAYS_BEFORE_START * 24 * 60 * 60 * 1000);
+    const closeMinutes = showtime.salesCloseMinutesAfterStart ?? DEFAULT_SALES_CLOSE_MINUTES_AFTER_START;
+
+    return { opensAt, closesAt: new Date(startTime + closeMinutes * 60 * 1000) };
+}
+
+/**
+* Checks that a showtime's sales window opens before it closes.
+*
+* @throws BadRequestException if the window is empty.
+*/
+export function validateSalesWindow(showtime: Pick<ShowTime, 'startTime' | 'salesOpenAt' | 'salesCloseMinutesAfterStart'>): void {
+    const { opensAt, closesAt } = getSalesWindow(showtime);
+    if (opensAt >= closesAt) {
+        throw new BadRequestException("Ticket sales must open before they close.");
+    }
+}
+
+/**
+* Checks that tickets to a showtime are on sale at the given time.
+*
+* @throws BadRequestException with an `errorCode` (see SalesWindowErrorCode) and the window's
+* `salesOpenAt` and `salesCloseAt` if sales have not opened yet or have closed.
+*/
+export function assertSalesOpen(showtime: Pick<ShowTime, 'startTime' | 'salesOpenAt' | 'salesCloseMinutesAfterStart'>, now = new Date()): void {
+    const { opensAt, closesAt } = getSalesWindow(showtime);
+    if (now < opensAt) {
+        throw new BadRequestException({
+            message: `Ticket sales for this showtime open at ${opensAt.toISOString()}.`,
+            errorCode: SalesWindowErrorCode.NOT_OPEN,
+            salesOpenAt: opensAt,
+            salesCloseAt: closesAt,
+        });
+    }
+    if (now >= closesAt) {
+        throw new BadRequestException({
+            message: `Ticket sales for this showtime closed at ${closesAt.toISOString()}.`,
+            errorCode: SalesWindowErrorCode.CLOSED,
+            salesOpenAt: opensAt,
+            salesCloseAt: closesAt,
+        });
+    }
+}
@@ -0,0 +1,46 @@
+/**
+* showTime.constants.ts
+*
+* The cinema's time zone, cinema-wide defaults for when tickets to a showtime are on sale, the error
+* codes returned when a booking is made outside that window, the longest recurring showtime series
+* and the default prime time the daily schedule generator favours top movies in.
+* Values can be overridden through environment variables.
+*/
+
+/**
+* The IANA time zone the cinema is in (e.g. "Asia/Jerusalem"). Showtimes are stored as absolute
+* instants; this zone gives their local wall-clock times, and the meaning of times sent without an offset.
+*/
+export const CINEMA_TIME_ZONE = process.env.CINEMA_TIME_ZONE ?? 'UTC';
+
+
+/**
+* How many days before the show starts ticket sales open, unless the showtime sets its own `salesOpenAt`.
+*/
+export const DEFAULT_SALES_OPEN_DAYS_BEFORE_START = Number(process.env.DEFAULT_SALES_OPEN_DAYS_BEFORE_START ?? 30);
+
+/**
+* How many minutes after the show starts ticket sales close, unless the showtime sets its own cutoff.
+* A negative value closes sales before the start.
+*/
+export const DEFAULT_SALES_CLOSE_MINUTES_AFTER_START = Number(process.env.DEFAULT_SALES_CLOSE_MINUTES_AFTER_START ?? 15);
+
+/**
+* The most days a recurring showtime series may span, so one request cannot create years of shows.
+*/
+export const MAX_SERIES_DAYS = Number(process.env.MAX_SERIES_DAYS ?? 366);
+
+/**
+* When prime time starts and ends (HH:mm, in the cinema's time zone), unless a schedule request sets its own.
+* The daily schedule generator gives the shows starting in it to the highest-priority movies.
+*/
+export const DEFAULT_PRIME_TIME_START = process.env.DEFAULT_PRIME_TIME_START ?? '18:00';
+export const DEFAULT_PRIME_TIME_END = process.env.DEFAULT_PRIME_TIME_END ?? '22:00';
+
+/**
+* Error codes returned in the body of a booking refused for being outside the sales window.
+*/
+export enum SalesWindowErrorCode {
+    NOT_OPEN = 'SALES_NOT_OPEN',
+    CLOSED = 'SALES_CLOSED',
+}
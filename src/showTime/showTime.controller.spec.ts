@@ -4,6 +4,8 @@
 * This file contains unit tests for the ShowTimeController in a NestJS application.
 * It uses Jest to mock the ShowTimeService and test all controller-level endpoints:
 * - Creating a new showtime
+* - Creating a recurring showtime series
+* - Searching the showtime listing
 * - Fetching a showtime by ID
 * - Updating an existing showtime
 * - Deleting a showtime
@@ -17,6 +19,7 @@ import { ShowTimeController } from "./showTime.controller";
 import { ShowTimeService } from "./showTime.service";
 import { BadRequestException, NotFoundException } from "@nestjs/common";
 import { ShowTimeDto } from "./showTime.dto";
+import { ShowTimeSortField, SortOrder } from "./showTimeSearch.dto";
 
 describe('ShowTimeController', () => {
     let controller: ShowTimeController;
@@ -26,6 +29,10 @@ describe('ShowTimeController', () => {
         mockShowTimeService = {
             addNewShowTime: jest.fn(),
             fetchShowTimeById: jest.fn(),
+            searchShowTimes: jest.fn(),
+            addShowTimeSeries: jest.fn(),
+            previewSchedule: jest.fn(),
+            commitSchedule: jest.fn(),
             updateShowTimeInfo: jest.fn(),
             deleteShowTime: jest.fn()
         };
@@ -46,7 +53,7 @@ describe('ShowTimeController', () => {
         it('should add a new showtime successfully', async () => {
             const dto: ShowTimeDto = {
                 movieId: 1,
-                theater: 'Theater A',
+                theaterId: 1,
                 startTime: '2025-03-25T10:00:00Z',
                 endTime: '2025-03-25T12:00:00Z',
                 price: 30
@@ -70,7 +77,7 @@ describe('ShowTimeController', () => {
         it('should throw BadRequestException if invalid', async () => {
             const dto: ShowTimeDto = {
                 movieId: 1,
-                theater: 'Theater A',
+                theaterId: 1,
                 startTime: 'invalid',
                 endTime: 'invalid',
                 price: 0
@@ -87,7 +94,7 @@ describe('ShowTimeController', () => {
         it('should throw NotFoundException if movie does not exist', async () => {
             const dto: ShowTimeDto = {
                 movieId: 999,
-                theater: 'Theater A',
+                theaterId: 1,
                 startTime: '2025-03-25T10:00:00Z',
                 endTime: '2025-03-25T12:00:00Z',
                 price: 30
@@ -109,7 +116,7 @@ describe('ShowTimeController', () => {
             const showtime = {
                 id,
                 movieId: 1,
-                theater: 'Theater A',
+                theaterId: 1,
                 startTime: '2025-03-25T10:00:00Z',
                 endTime: '2025-03-25T12:00:00Z',
                 price: 30
@@ -149,7 +156,7 @@ describe('ShowTimeController', () => {
             const id = 1;
             const dto: ShowTimeDto = {
                 movieId: 1,
-                theater: 'Updated Theater',
+                theaterId: 1,
                 startTime: '2025-03-25T13:00:00Z',
                 endTime: '2025-03-25T15:00:00Z',
                 price: 35
@@ -168,7 +175,7 @@ describe('ShowTimeController', () => {
             const id = 1;
             const dto: ShowTimeDto = {
                 movieId: 1,
-                theater: '',
+                theaterId: 0,
                 startTime: '',
                 endTime: '',
                 price: 0
@@ -186,7 +193,7 @@ describe('ShowTimeController', () => {
             const id = 1;
             const dto: ShowTimeDto = {
                 movieId: 999,
-                theater: 'Test',
+                theaterId: 1,
                 startTime: '2025-03-25T10:00:00Z',
                 endTime: '2025-03-25T12:00:00Z',
                 price: 30
@@ -198,6 +205,82 @@ describe('ShowTimeController', () => {
         });
     });
 
+    describe('addShowTimeSeries', () => {
+
+        /**
+        * Should create the series and return the created showtimes and conflicts.
+        */
+        it('should create a showtime series', async () => {
+            const dto = { movieId: 1, theaterId: 1, startTimeOfDay: '20:30', daysOfWeek: [5], fromDate: '2025-12-01', toDate: '2025-12-07', price: 40 };
+            const report = { created: [{ id: 1 }], conflicts: [] };
+            mockShowTimeService.addShowTimeSeries.mockResolvedValue(report);
+
+            const result = await controller.addShowTimeSeries(dto);
+
+            expect(result).toEqual(report);
+            expect(mockShowTimeService.addShowTimeSeries).toHaveBeenCalledWith(dto);
+        });
+    });
+
+    describe('schedule', () => {
+
+        /**
+        * Should return the draft schedule without creating it.
+        */
+        it('should preview a draft schedule', async () => {
+            const dto = { date: '2025-03-28', movies: [{ movieId: 1, price: 40 }], theaters: [{ theaterId: 1, opensAt: '10:00', closesAt: '23:00' }] };
+            const draft = { date: '2025-03-28', showtimes: [], movies: [] };
+            mockShowTimeService.previewSchedule.mockResolvedValue(draft);
+
+            const result = await controller.previewSchedule(dto);
+
+            expect(result).toEqual(draft);
+            expect(mockShowTimeService.previewSchedule).toHaveBeenCalledWith(dto);
+        });
+
+        /**
+        * Should commit the draft's showtimes and return the created and rejected ones.
+        */
+        it('should commit a draft schedule', async () => {
+            const dto = { showtimes: [{ movieId: 1, theaterId: 1, startTime: '2025-03-28T18:00:00Z', endTime: '2025-03-28T20:00:00Z', price: 40 }] };
+            const report = { created: [{ id: 1 }], rejected: [] };
+            mockShowTimeService.commitSchedule.mockResolvedValue(report);
+
+            const result = await controller.commitSchedule(dto);
+
+            expect(result).toEqual(report);
+            expect(mockShowTimeService.commitSchedule).toHaveBeenCalledWith(dto);
+        });
+    });
+
+    describe('searchShowTimes', () => {
+
+        /**
+        * Should pass the filters, sort, limit and cursor to the service and return its page.
+        */
+        it('should return a page of showtimes', async () => {
+            const page = { items: [], limit: 10, nextCursor: null };
+            mockShowTimeService.searchShowTimes.mockResolvedValue(page);
+
+            const result = await controller.searchShowTimes(3, undefined, '2025-01-10', '2025-01-11', undefined, 50, 4,
+                ShowTimeSortField.PRICE, SortOrder.DESC, 10, 'cursor');
+
+            expect(result).toEqual(page);
+            expect(mockShowTimeService.searchShowTimes).toHaveBeenCalledWith(
+                { movieId: 3, theaterId: undefined, from: '2025-01-10', to: '2025-01-11', minPrice: undefined, maxPrice: 50, minAvailableSeats: 4 },
+                ShowTimeSortField.PRICE, SortOrder.DESC, 10, 'cursor');
+        });
+
+        /**
+        * Should throw BadRequestException for invalid filters.
+        */
+        it('should throw BadRequestException for invalid filters', async () => {
+            mockShowTimeService.searchShowTimes.mockRejectedValue(new BadRequestException('Invalid filters'));
+
+            await expect(controller.searchShowTimes(undefined, undefined, 'tomorrow')).rejects.toThrow(BadRequestException);
+        });
+    });
+
     describe('deleteShowTime', () => {
 
         /**
@@ -4,21 +4,29 @@
  * This controller handles all HTTP endpoints related to movie showtimes.
  * It delegates business logic to the ShowTimeService and exposes endpoints for:
  *  - Creating a new showtime
+ *  - Creating a recurring showtime series
+ *  - Searching the showtime listing
  *  - Fetching a showtime by ID
  *  - Updating a showtime
  *  - Deleting a showtime
  * 
  * Routes match the following spec:
  * - POST    /showtimes
+ * - POST    /showtimes/series
+ * - POST    /showtimes/schedule/preview
+ * - POST    /showtimes/schedule/commit
+ * - GET     /showtimes
  * - GET     /showtimes/:id
  * - POST    /showtimes/update/:id
  * - DELETE  /showtimes/:id
  */
 
-import { Body, Controller, Get, Post, Delete, Param, ParseIntPipe } from "@nestjs/common";
+import { Body, Controller, Get, Post, Delete, Param, ParseIntPipe, Query, ParseFloatPipe, DefaultValuePipe, ParseEnumPipe } from "@nestjs/common";
 import { ShowTimeService } from "./showTime.service";
-import { ShowTimeDto } from "./showTime.dto";
-import { ShowTime } from "./showTime.entity";
+import { LocalizedShowTime, ShowTimeDto } from "./showTime.dto";
+import { ShowTimeSeriesDto, ShowTimeSeriesResultDto } from "./showTimeSeries.dto";
+import { CommitScheduleDto, ScheduleCommitResultDto, ScheduleDraftDto, ScheduleRequestDto } from "./showTimeSchedule.dto";
+import { ShowTimePageDto, ShowTimeSortField, SortOrder } from "./showTimeSearch.dto";
 
 @Controller('showtimes')
 export class ShowTimeController {
@@ -32,29 +40,114 @@ export class ShowTimeController {
      * Handles POST /showtimes
      * 
      * Creates a new showtime and returns the created showtime object.
+     * Times without an offset are read as the cinema's local time.
      * 
-     * @param dto - ShowTimeDto containing movieId, price, theater, startTime, endTime
-     * @returns The created showtime.
+     * @param dto - ShowTimeDto containing movieId, price, theaterId, startTime, endTime
+     * @returns The created showtime, with its UTC and local times.
      * @throws BadRequestException if validation fails.
-     * @throws NotFoundException if the movie does not exist.
+     * @throws NotFoundException if the movie or theater does not exist.
      */
     @Post()
-    async addNewShowTime(@Body() dto: ShowTimeDto): Promise<ShowTime> {
+    async addNewShowTime(@Body() dto: ShowTimeDto): Promise<LocalizedShowTime> {
         return this.showTimeService.addNewShowTime(dto);
     }
 
+    /**
+     * Handles POST /showtimes/series
+     * 
+     * Creates a showtime on each chosen day of the week in a date range, e.g. every Friday and
+     * Saturday at 20:30 in December, and reports the dates that conflicted with existing showtimes.
+     * 
+     * @param dto - ShowTimeSeriesDto with the movie, theater, time of day, days of week, date range and price
+     * @returns The created showtimes and the conflicting dates
+     * @throws BadRequestException if validation fails, or with `allOrNothing` if any date conflicts
+     * @throws NotFoundException if the movie or theater does not exist
+     */
+    @Post('series')
+    async addShowTimeSeries(@Body() dto: ShowTimeSeriesDto): Promise<ShowTimeSeriesResultDto> {
+        return this.showTimeService.addShowTimeSeries(dto);
+    }
+
+    /**
+     * Handles POST /showtimes/schedule/preview
+     * 
+     * Drafts a conflict-free programme for a day across several theaters, giving prime time to the
+     * highest-priority movies. Nothing is created until the draft is committed.
+     * 
+     * @param dto - ScheduleRequestDto with the day, the movies (priority, target shows, price) and the theaters (opening hours, turnaround)
+     * @returns The draft showtimes and how many shows each movie got
+     * @throws BadRequestException if validation fails
+     * @throws NotFoundException if a movie or theater does not exist
+     */
+    @Post('schedule/preview')
+    async previewSchedule(@Body() dto: ScheduleRequestDto): Promise<ScheduleDraftDto> {
+        return this.showTimeService.previewSchedule(dto);
+    }
+
+    /**
+     * Handles POST /showtimes/schedule/commit
+     * 
+     * Creates the showtimes of a draft, each validated like POST /showtimes, and reports the ones rejected.
+     * 
+     * @param dto - CommitScheduleDto with the draft's showtimes
+     * @returns The created showtimes and the rejected ones, with the reason
+     * @throws BadRequestException if validation of the request body fails
+     */
+    @Post('schedule/commit')
+    async commitSchedule(@Body() dto: CommitScheduleDto): Promise<ScheduleCommitResultDto> {
+        return this.showTimeService.commitSchedule(dto);
+    }
+
+    /**
+     * Handles GET /showtimes
+     * 
+     * Searches the showtime listing, e.g. GET /showtimes?movieId=3&from=2025-01-10&to=2025-01-11&minAvailableSeats=4.
+     * Every filter is optional. Pass the returned `nextCursor` as `cursor` to get the next page.
+     * 
+     * @param movieId - Only showtimes of this movie
+     * @param theaterId - Only showtimes in this theater
+     * @param from - Only showtimes starting at or after this date and time
+     * @param to - Only showtimes starting before this date and time
+     * @param minPrice - Minimum base ticket price
+     * @param maxPrice - Maximum base ticket price
+     * @param minAvailableSeats - Only showtimes with at least this many seats for sale
+     * @param sortBy - startTime (default), price or availableSeats
+     * @param order - asc (default) or desc
+     * @param limit - Showtimes per page (default 20, at most 100)
+     * @param cursor - Cursor of the page to fetch
+     * @returns One page of showtimes and the cursor of the next page
+     * @throws BadRequestException for invalid filters, sort, limit or cursor
+     */
+    @Get()
+    async searchShowTimes(
+        @Query('movieId', new ParseIntPipe({ optional: true })) movieId?: number,
+        @Query('theaterId', new ParseIntPipe({ optional: true })) theaterId?: number,
+        @Query('from') from?: string,
+        @Query('to') to?: string,
+        @Query('minPrice', new ParseFloatPipe({ optional: true })) minPrice?: number,
+        @Query('maxPrice', new ParseFloatPipe({ optional: true })) maxPrice?: number,
+        @Query('minAvailableSeats', new ParseIntPipe({ optional: true })) minAvailableSeats?: number,
+        @Query('sortBy', new DefaultValuePipe(ShowTimeSortField.START_TIME), new ParseEnumPipe(ShowTimeSortField)) sortBy?: ShowTimeSortField,
+        @Query('order', new DefaultValuePipe(SortOrder.ASC), new ParseEnumPipe(SortOrder)) order?: SortOrder,
+        @Query('limit', new DefaultValuePipe(20), ParseIntPipe) limit?: number,
+        @Query('cursor') cursor?: string): Promise<ShowTimePageDto> {
+        return this.showTimeService.searchShowTimes(
+            { movieId, theaterId, from, to, minPrice, maxPrice, minAvailableSeats },
+            sortBy, order, limit, cursor);
+    }
+
     /**
      * Handles GET /showtimes/:id
      * 
      * Fetches a showtime by its ID.
      * 
      * @param id - ID of the showtime
-     * @returns The showtime object
+     * @returns The showtime object, with its UTC and local times
      * @throws BadRequestException if ID is invalid
      * @throws NotFoundException if showtime does not exist
      */
     @Get(':id')
-    async fetchShowTimeById(@Param('id', ParseIntPipe) id: number): Promise<ShowTime> {
+    async fetchShowTimeById(@Param('id', ParseIntPipe) id: number): Promise<LocalizedShowTime> {
         return this.showTimeService.fetchShowTimeById(id);
     }
 
@@ -77,11 +170,12 @@ export class ShowTimeController {
     /**
      * Handles DELETE /showtimes/:id
      * 
-     * Deletes a showtime by ID.
+     * Deletes a showtime by ID. A showtime with bookings cannot be deleted; cancel it
+     * instead (POST /showtimes/:id/cancel), which cancels and refunds its bookings.
      * 
      * @param id - Showtime ID
      * @returns A message confirming deletion
-     * @throws BadRequestException if ID is invalid
+     * @throws BadRequestException if ID is invalid, or the showtime has bookings
      * @throws NotFoundException if showtime does not exist
      */
     @Delete(':id')
@@ -2,11 +2,52 @@
 * showtime.dto.ts
 *
 * This file defines the Data Transfer Object (DTO) for creating or updating a showtime entry.
-* It ensures the payload includes a valid movieId, ISO date-time formatted start/end times,
-* a non-empty theater name, and a non-negative price.
+* It ensures the payload includes a valid movieId, a valid theaterId, ISO date-time formatted
+* start/end times, and a non-negative price, plus optional prices per seat category and
+* optional dynamic pricing rules, premiere flag and ticket sales window.
+* Date-times with an offset (e.g. "+03:00" or "Z") are taken as given; date-times without one
+* are read as the cinema's local time (see CINEMA_TIME_ZONE).
 */
 
-import { IsInt, IsString, IsNotEmpty, IsDateString, IsNumber, Min } from 'class-validator';
+import { IsInt, IsNotEmpty, IsDateString, IsNumber, Min, IsOptional, ValidateNested, IsBoolean } from 'class-validator';
+import { Type } from 'class-transformer';
+import { DynamicPricingDto } from '../pricing/pricing.dto';
+import { ShowTime } from './showTime.entity';
+import { LocalShowTimes } from './timeZone';
+
+export class CategoryPricesDto {
+    /**
+    * Price of a standard seat.
+    */
+    @IsOptional()
+    @IsNumber({}, { message: 'Standard seat price must be a valid number.' })
+    @Min(0, { message: 'Standard seat price must be at least 0.' })
+    standard?: number;
+
+    /**
+    * Price of a premium/VIP seat.
+    */
+    @IsOptional()
+    @IsNumber({}, { message: 'Premium seat price must be a valid number.' })
+    @Min(0, { message: 'Premium seat price must be at least 0.' })
+    premium?: number;
+
+    /**
+    * Price of a couple seat.
+    */
+    @IsOptional()
+    @IsNumber({}, { message: 'Couple seat price must be a valid number.' })
+    @Min(0, { message: 'Couple seat price must be at least 0.' })
+    couple?: number;
+
+    /**
+    * Price of a wheelchair-accessible seat.
+    */
+    @IsOptional()
+    @IsNumber({}, { message: 'Accessible seat price must be a valid number.' })
+    @Min(0, { message: 'Accessible seat price must be at least 0.' })
+    accessible?: number;
+}
 
 export class ShowTimeDto {
     /**
@@ -18,22 +59,22 @@ export class ShowTimeDto {
     movieId: number;
 
     /**
-    * Name of the theater hosting the showtime.
-    * Cannot be empty and must be a valid string.
+    * ID of the theater hosting the showtime.
+    * Must be a valid positive integer.
     */
-    @IsString({ message: 'Theater must be a string.' })
-    @IsNotEmpty({ message: 'Theater is required.' })
-    theater: string;
+    @IsInt({ message: 'Theater ID must be an integer.' })
+    @Min(1, { message: 'Theater ID must be greater than 0.' })
+    theaterId: number;
 
     /**
-    * Start time of the show in ISO 8601 format.
+    * Start time of the show in ISO 8601 format, with an offset or in the cinema's local time.
     */
     @IsDateString({}, { message: 'Start time must be a valid date-time string.' })
     @IsNotEmpty({ message: 'Start time is required.' })
     startTime: string;
 
     /**
-    * End time of the show in ISO 8601 format.
+    * End time of the show in ISO 8601 format, with an offset or in the cinema's local time.
     */
     @IsDateString({}, { message: 'End time must be a valid date-time string.' })
     @IsNotEmpty({ message: 'End time is required.' })
@@ -46,4 +87,52 @@ export class ShowTimeDto {
     @IsNumber({}, { message: 'Price must be a valid number.' })
     @Min(0, { message: 'Price must be at least 0.' })
     price: number;
+
+    /**
+    * (Optional) Ticket price per seat category.
+    * Categories left out are charged `price`.
+    */
+    @IsOptional()
+    @ValidateNested()
+    @Type(() => CategoryPricesDto)
+    categoryPrices?: CategoryPricesDto;
+
+    /**
+    * (Optional) Dynamic pricing rules. Saved switched off, they can be previewed
+    * (POST /showtimes/:id/pricing/preview) before being turned on.
+    */
+    @IsOptional()
+    @ValidateNested()
+    @Type(() => DynamicPricingDto)
+    dynamicPricing?: DynamicPricingDto;
+
+    /**
+    * (Optional) Whether the show is a premiere, with a tighter ticket limit per customer.
+    * Defaults to false.
+    */
+    @IsOptional()
+    @IsBoolean({ message: 'Is premiere must be a boolean.' })
+    isPremiere?: boolean;
+
+    /**
+    * (Optional) When ticket sales open, in ISO 8601 format, with an offset or in the cinema's local time.
+    * Defaults to DEFAULT_SALES_OPEN_DAYS_BEFORE_START days before the start time.
+    */
+    @IsOptional()
+    @IsDateString({}, { message: 'Sales open at must be a valid date-time string.' })
+    salesOpenAt?: string;
+
+    /**
+    * (Optional) How many minutes after the start time ticket sales close; negative closes them
+    * before the start. Defaults to DEFAULT_SALES_CLOSE_MINUTES_AFTER_START.
+    */
+    @IsOptional()
+    @IsInt({ message: 'Sales close minutes after start must be an integer.' })
+    salesCloseMinutesAfterStart?: number;
 }
+
+/**
+* A showtime as returned to clients: its UTC start and end times, plus the same times on the
+* cinema's clocks (e.g. "2025-03-28T20:30:00+03:00") and the cinema's time zone.
+*/
+export type LocalizedShowTime = ShowTime & LocalShowTimes;
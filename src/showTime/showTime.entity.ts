@@ -4,16 +4,27 @@
 * This file defines the ShowTime entity using TypeORM decorators.
 * It represents a showtime record in the database, including:
 *  - A reference to the movie (via movieId)
-*  - Theater name
-*  - Start and end times (stored as time only)
-*  - Ticket price
+*  - A reference to the theater (via theaterId)
+*  - Start and end times, stored as absolute instants (see timeZone.ts for the cinema's local times)
+*  - Ticket price, optionally overridden per seat category
+*  - Optional dynamic pricing rules (see pricing.rules.ts)
+*  - Whether the show is a premiere, which has a tighter ticket limit per customer
+*  - When ticket sales open and close (see salesWindow.ts)
+*  - Whether, when and why the showtime was cancelled (see ShowTimeCancellationService)
 * 
-* This entity is mapped to the 'showtimes' table.
+* This entity is mapped to the 'showtimes' table, indexed for the showtime listing's
+* filters on movie, theater and start time (see ShowTimeRepository.searchShowTimes).
 */
 
-import { Entity, PrimaryGeneratedColumn, Column } from "typeorm";
+import { Entity, PrimaryGeneratedColumn, Column, Index } from "typeorm";
+import { SeatCategory } from "../theater/theater.entity";
+import { DynamicPricingRules } from "../pricing/pricing.rules";
 
 @Entity('showtimes')
+@Index('IDX_showtimes_start', ['startTime'])
+@Index('IDX_showtimes_movie_start', ['movieId', 'startTime'])
+@Index('IDX_showtimes_theater_start', ['theaterId', 'startTime'])
+@Index('IDX_showtimes_price', ['price'])
 export class ShowTime {
     /**
     * Primary key for the showtime entity.
@@ -30,24 +41,24 @@ export class ShowTime {
     movieId: number;
 
     /**
-    * Name of the theater where the showtime will be held.
-    * Stored as text and cannot be null.
+    * Foreign key referencing the theater where the showtime will be held.
+    * Must be a valid theater ID.
     */
-    @Column({ type: 'text', nullable: false })
-    theater: string;
+    @Column({ name: 'theater_id', type: 'int', nullable: false })
+    theaterId: number;
 
     /**
-    * Start time of the show.
+    * Start time of the show, with its time zone.
     * Cannot be null.
     */
-    @Column({ type: 'timestamp', nullable: false })
+    @Column({ type: 'timestamptz', nullable: false })
     startTime: string;
 
     /**
-    * End time of the show.
+    * End time of the show, with its time zone.
     * Cannot be null.
     */
-    @Column({ type: 'timestamp', nullable: false })
+    @Column({ type: 'timestamptz', nullable: false })
     endTime: string;
 
     /**
@@ -56,4 +67,50 @@ export class ShowTime {
     */
     @Column({ type: 'float', nullable: false })
     price: number;
+
+    /**
+    * Ticket price per seat category (e.g. premium, couple).
+    * Categories without a price here are charged the showtime's `price`.
+    */
+    @Column({ type: 'jsonb', nullable: true })
+    categoryPrices: Partial<Record<SeatCategory, number>> | null;
+
+    /**
+    * Rules that raise or lower the price by occupancy, time slot, days until the show and
+    * opening weekend. Bookings are only charged the dynamic price while the rules are enabled.
+    */
+    @Column({ type: 'jsonb', nullable: true })
+    dynamicPricing: DynamicPricingRules | null;
+
+    /**
+    * Whether the show is a premiere. Premieres have a tighter limit on tickets per customer.
+    */
+    @Column({ type: 'boolean', default: false })
+    isPremiere: boolean;
+
+    /**
+    * When ticket sales open. Null opens them DEFAULT_SALES_OPEN_DAYS_BEFORE_START days before the start.
+    */
+    @Column({ type: 'timestamptz', nullable: true })
+    salesOpenAt: string | null;
+
+    /**
+    * How many minutes after the start ticket sales close (negative to close them before the start).
+    * Null uses DEFAULT_SALES_CLOSE_MINUTES_AFTER_START.
+    */
+    @Column({ type: 'int', nullable: true })
+    salesCloseMinutesAfterStart: number | null;
+
+    /**
+    * When the showtime was cancelled, or null while it is still on.
+    * A cancelled showtime cannot be booked or changed, and no longer takes its theater's time slot.
+    */
+    @Column({ type: 'timestamptz', nullable: true })
+    cancelledAt: string | null;
+
+    /**
+    * Why the showtime was cancelled, or null while it is still on.
+    */
+    @Column({ type: 'text', nullable: true })
+    cancellationReason: string | null;
 }
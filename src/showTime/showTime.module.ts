@@ -8,7 +8,7 @@
 * - Registers the 'ShowTime' entity with TypeORM.
 * - Provides and exports the 'ShowTimeService' for business logic.
 * - Registers the 'ShowTimeRepository' via a custom provider using a factory.
-* - Imports 'MovieModule' to enable showtime validation with existing movies.
+* - Imports 'MovieModule' and 'TheaterModule' to validate showtimes against existing movies and theaters.
 * - Declares the 'ShowTimeController' to expose HTTP endpoints.
 * 
 * This module is self-contained and can be imported by other modules that
@@ -22,11 +22,12 @@ import { ShowTimeService } from "./showTime.service";
 import { ShowTimeRepository } from "./showTime.repository";
 import { ShowTime } from "./showTime.entity";
 import { MovieModule } from "src/movie/movie.module";
+import { TheaterModule } from "src/theater/theater.module";
 import { DataSource } from "typeorm";
 
 
 @Module({
-    imports: [TypeOrmModule.forFeature([ShowTime]), MovieModule],
+    imports: [TypeOrmModule.forFeature([ShowTime]), MovieModule, TheaterModule],
     controllers: [ShowTimeController],
     providers: [ShowTimeService, {provide: 'ShowTimeRepository',
         useFactory: (datasource: DataSource) => new ShowTimeRepository(datasource), inject: [DataSource]}],
@@ -7,8 +7,19 @@
 */
 
 import { Injectable, InternalServerErrorException } from "@nestjs/common";
-import { DataSource } from "typeorm";
+import { DataSource, EntityManager } from "typeorm";
 import { ShowTime } from "./showTime.entity";
+import { ACTIVE_BOOKING_STATUSES } from "../booking/booking.entity";
+import { ShowTimeCursor, ShowTimeListRow, ShowTimeSearchFilter, ShowTimeSortField, SortOrder } from "./showTimeSearch.dto";
+
+/**
+* The column each sort field of the showtime listing reads, and the SQL type its cursor value is cast back to.
+*/
+const SORT_COLUMNS: Record<ShowTimeSortField, { column: string; type: string }> = {
+    [ShowTimeSortField.START_TIME]: { column: '"startTime"', type: 'timestamptz' },
+    [ShowTimeSortField.PRICE]: { column: 'price', type: 'float8' },
+    [ShowTimeSortField.AVAILABLE_SEATS]: { column: '"availableSeats"', type: 'int' },
+};
 
 @Injectable()
 export class ShowTimeRepository {
@@ -18,14 +29,19 @@ export class ShowTimeRepository {
     * Inserts a new showtime and returns the created object with its generated ID.
     */
     async addNewShowTime(newShowTime: Omit<ShowTime, 'id'>): Promise<ShowTime> {
-        const { movieId, theater, startTime, endTime, price } = newShowTime;
+        const { movieId, theaterId, startTime, endTime, price, categoryPrices, dynamicPricing, isPremiere,
+            salesOpenAt, salesCloseMinutesAfterStart } = newShowTime;
 
         try {
             const result = await this.dataSource.query(
-                `INSERT INTO showtimes (movie_id, theater, "startTime", "endTime", price)
-                VALUES ($1, $2, $3, $4, $5)
+                `INSERT INTO showtimes (movie_id, theater_id, "startTime", "endTime", price, "categoryPrices", "dynamicPricing", "isPremiere",
+                                        "salesOpenAt", "salesCloseMinutesAfterStart")
+                VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)
                  RETURNING *`,
-                [movieId, theater, startTime, endTime, price]
+                [movieId, theaterId, startTime, endTime, price,
+                    categoryPrices ? JSON.stringify(categoryPrices) : null,
+                    dynamicPricing ? JSON.stringify(dynamicPricing) : null,
+                    isPremiere ?? false, salesOpenAt ?? null, salesCloseMinutesAfterStart ?? null]
             );
 
             return result[0]; // Return the inserted showtime row
@@ -35,6 +51,36 @@ export class ShowTimeRepository {
         }
     }
 
+    /**
+    * Inserts several showtimes in a single statement, so either all of them are created or none is.
+    * 
+    * @param newShowTimes - The showtimes to insert.
+    * @returns The created showtimes, in the given order.
+    */
+    async addNewShowTimes(newShowTimes: Omit<ShowTime, 'id'>[]): Promise<ShowTime[]> {
+        const params: any[] = [];
+        const rows = newShowTimes.map(showTime => {
+            params.push(showTime.movieId, showTime.theaterId, showTime.startTime, showTime.endTime, showTime.price,
+                showTime.categoryPrices ? JSON.stringify(showTime.categoryPrices) : null,
+                showTime.dynamicPricing ? JSON.stringify(showTime.dynamicPricing) : null,
+                showTime.isPremiere ?? false, showTime.salesOpenAt ?? null, showTime.salesCloseMinutesAfterStart ?? null);
+            const first = params.length - 9;
+            return `(${Array.from({ length: 10 }, (_, i) => `$${first + i}`).join(', ')})`;
+        });
+
+        try {
+            return await this.dataSource.query(
+                `INSERT INTO showtimes (movie_id, theater_id, "startTime", "endTime", price, "categoryPrices", "dynamicPricing", "isPremiere",
+                                        "salesOpenAt", "salesCloseMinutesAfterStart")
+                 VALUES ${rows.join(', ')}
+                 RETURNING *`,
+                params);
+        } catch (error) {
+            console.error('DB Error on addNewShowTimes:', error);
+            throw new InternalServerErrorException('Failed to add showtimes to the database.');
+        }
+    }
+
     /**
     * Updates an existing showtime by ID.
     * 
@@ -42,17 +88,26 @@ export class ShowTimeRepository {
     * @param showTime - Partial fields to update.
     */
     async updateShowTimeInfo(id: number, showTime: Partial<ShowTime>): Promise<void> {
-        const { movieId, theater, startTime, endTime, price } = showTime;
+        const { movieId, theaterId, startTime, endTime, price, categoryPrices, dynamicPricing, isPremiere,
+            salesOpenAt, salesCloseMinutesAfterStart } = showTime;
         try {
             await this.dataSource.query(
                 `UPDATE showtimes
                  SET movie_id = $1,
-                     theater = $2,
+                     theater_id = $2,
                      "startTime" = $3,
                      "endTime" = $4,
-                     price = $5
-                 WHERE id = $6`,
-                [movieId, theater?.trim(), startTime, endTime, price, id]);
+                     price = $5,
+                     "categoryPrices" = $6,
+                     "dynamicPricing" = $7,
+                     "isPremiere" = $8,
+                     "salesOpenAt" = $9,
+                     "salesCloseMinutesAfterStart" = $10
+                 WHERE id = $11`,
+                [movieId, theaterId, startTime, endTime, price,
+                    categoryPrices ? JSON.stringify(categoryPrices) : null,
+                    dynamicPricing ? JSON.stringify(dynamicPricing) : null,
+                    isPremiere ?? false, salesOpenAt ?? null, salesCloseMinutesAfterStart ?? null, id]);
         } 
         catch (error) {
             console.error('DB Error on updateShowTimeInfo:', error);
@@ -98,33 +153,253 @@ export class ShowTimeRepository {
       }
 
     /**
-    * Checks for overlapping showtimes in the same theater.
+    * Checks whether a showtime has any bookings, whatever their status.
+    * 
+    * @param id - Showtime ID.
+    * @returns true if at least one booking points at the showtime.
+    */
+    async hasBookings(id: number): Promise<boolean> {
+        try {
+            const result = await this.dataSource.query(
+                `SELECT 1 FROM bookings WHERE "showtimeId" = $1 LIMIT 1`,
+                [id]);
+            return result.length > 0;
+        }
+        catch (error) {
+            console.error('DB Error on hasBookings:', error);
+            throw new InternalServerErrorException('Failed to check the bookings of the showtime.');
+        }
+    }
+
+    /**
+    * Checks whether a showtime has seats held for a customer or blocked for this showtime only.
+    * 
+    * @param id - Showtime ID.
+    * @returns true if at least one seat of the showtime is held (and the hold has not expired) or blocked.
+    */
+    async hasHeldOrBlockedSeats(id: number): Promise<boolean> {
+        try {
+            const result = await this.dataSource.query(
+                `SELECT 1 FROM seat_holds WHERE "showtimeId" = $1 AND "expiresAt" > NOW()
+                 UNION ALL
+                 SELECT 1 FROM blocked_seats WHERE "showtimeId" = $1
+                 LIMIT 1`,
+                [id]);
+            return result.length > 0;
+        }
+        catch (error) {
+            console.error('DB Error on hasHeldOrBlockedSeats:', error);
+            throw new InternalServerErrorException('Failed to check the held and blocked seats of the showtime.');
+        }
+    }
+
+    /**
+    * Marks a showtime as cancelled, unless it already is.
+    * 
+    * @param id - Showtime ID.
+    * @param reason - Why it is cancelled.
+    * @param manager - Optional transactional EntityManager.
+    * @returns The cancelled showtime, or null if it was already cancelled.
+    */
+    async markShowTimeCancelled(id: number, reason: string, manager: EntityManager = this.dataSource.manager): Promise<ShowTime | null> {
+        try {
+            const [rows] = await manager.query(
+                `UPDATE showtimes SET "cancelledAt" = NOW(), "cancellationReason" = $2
+                 WHERE id = $1 AND "cancelledAt" IS NULL
+                 RETURNING *`,
+                [id, reason]);
+            return rows[0] ?? null;
+        }
+        catch (error) {
+            console.error('DB Error on markShowTimeCancelled:', error);
+            throw new InternalServerErrorException('Failed to cancel the showtime.');
+        }
+    }
+
+    /**
+    * Fetches when a movie is first shown, to find its opening weekend.
+    * 
+    * @param movieId - Movie ID.
+    * @returns The start of the movie's earliest showtime, or null if it has none.
+    */
+    async fetchFirstShowTimeStart(movieId: number): Promise<Date | null> {
+        try {
+            const result = await this.dataSource.query(
+                `SELECT MIN("startTime") AS "firstStart" FROM showtimes WHERE movie_id = $1`,
+                [movieId]);
+            return result[0]?.firstStart ? new Date(result[0].firstStart) : null;
+        }
+        catch (error) {
+            console.error('DB Error on fetchFirstShowTimeStart:', error);
+            throw new InternalServerErrorException('Failed to get the first showtime of the movie.');
+        }
+    }
+
+    /**
+    * Lists the showtimes matching the filters that are not cancelled, one page at a time, with the seats each still has for sale:
+    * its theater's capacity less the seats booked, held by a live seat hold or blocked (see blockedSeat.entity.ts).
+    * Pages are read by keyset: the rows sorted after the cursor, ordered by the sort field and then by ID,
+    * so the filters on movie, theater and start time can use the showtime indexes.
+    * 
+    * @param filter - Movie, theater, start time, price and availability filters.
+    * @param sortBy - Field to sort by.
+    * @param order - Sort direction, also applied to the ID tiebreaker.
+    * @param limit - Maximum number of rows to return.
+    * @param after - Optional cursor of the last row of the previous page.
+    * @returns The matching showtimes, each with its sort value as text.
+    */
+    async searchShowTimes(
+        filter: ShowTimeSearchFilter,
+        sortBy: ShowTimeSortField,
+        order: SortOrder,
+        limit: number,
+        after?: ShowTimeCursor
+    ): Promise<ShowTimeListRow[]> {
+        const params: any[] = [ACTIVE_BOOKING_STATUSES];
+        const conditions: string[] = [];
+        const addCondition = (condition: string, value: unknown) => {
+            params.push(value);
+            conditions.push(condition.replace('?', `$${params.length}`));
+        };
+
+        if (filter.movieId !== undefined) addCondition('s.movie_id = ?', filter.movieId);
+        if (filter.theaterId !== undefined) addCondition('s.theater_id = ?', filter.theaterId);
+        if (filter.from !== undefined) addCondition('s."startTime" >= ?', filter.from);
+        if (filter.to !== undefined) addCondition('s."startTime" < ?', filter.to);
+        if (filter.minPrice !== undefined) addCondition('s.price >= ?', filter.minPrice);
+        if (filter.maxPrice !== undefined) addCondition('s.price <= ?', filter.maxPrice);
+
+        const pageConditions: string[] = [];
+        if (filter.minAvailableSeats !== undefined) {
+            params.push(filter.minAvailableSeats);
+            pageConditions.push(`"availableSeats" >= $${params.length}`);
+        }
+
+        const { column, type } = SORT_COLUMNS[sortBy];
+        const direction = order === SortOrder.DESC ? 'DESC' : 'ASC';
+        if (after) {
+            params.push(after.value, after.id);
+            const comparison = order === SortOrder.DESC ? '<' : '>';
+            pageConditions.push(`(${column}, id) ${comparison} ($${params.length - 1}::${type}, $${params.length})`);
+        }
+
+        params.push(limit);
+
+        try {
+            return await this.dataSource.query(
+                `WITH listed AS (
+                   SELECT s.id, s.movie_id AS "movieId", m.title AS "movieTitle", s.theater_id AS "theaterId",
+                          t.name AS "theaterName", s."startTime", s."endTime", s.price, s."categoryPrices", s."isPremiere",
+                          t.capacity
+                            - (SELECT COUNT(*) FROM bookings b
+                               WHERE b."showtimeId" = s.id AND b.status = ANY($1))::int
+                            - (SELECT COUNT(*) FROM seat_holds h
+                               WHERE h."showtimeId" = s.id AND h."expiresAt" > NOW())::int
+                            - (SELECT COUNT(DISTINCT bs."seatNumber") FROM blocked_seats bs
+                               WHERE (bs."showtimeId" = s.id OR bs."theaterId" = s.theater_id)
+                                 AND bs."seatNumber" <= t.capacity
+                                 AND NOT EXISTS (SELECT 1 FROM bookings b
+                                                 WHERE b."showtimeId" = s.id AND b."seatNumber" = bs."seatNumber" AND b.status = ANY($1))
+                                 AND NOT EXISTS (SELECT 1 FROM seat_holds h
+                                                 WHERE h."showtimeId" = s.id AND h."seatNumber" = bs."seatNumber" AND h."expiresAt" > NOW()))::int
+                            AS "availableSeats"
+                   FROM showtimes s
+                   JOIN movies m ON m.id = s.movie_id
+                   JOIN theaters t ON t.id = s.theater_id
+                   WHERE s."cancelledAt" IS NULL
+                   ${conditions.map(condition => `AND ${condition}`).join(' ')}
+                 )
+                 SELECT *, ${column}::text AS "sortValue"
+                 FROM listed
+                 ${pageConditions.length > 0 ? `WHERE ${pageConditions.join(' AND ')}` : ''}
+                 ORDER BY ${column} ${direction}, id ${direction}
+                 LIMIT $${params.length}`,
+                params);
+        }
+        catch (error) {
+            console.error('DB Error on searchShowTimes:', error);
+            throw new InternalServerErrorException('Failed to search the showtimes.');
+        }
+    }
+
+    /**
+    * Fetches the start and end of the showtimes that are not cancelled in the given theaters
+    * and overlap a period, in start order.
+    * 
+    * @param theaterIds - Theater IDs.
+    * @param from - Start of the period.
+    * @param to - End of the period.
+    * @returns The theater, start and end of each showtime.
+    */
+    async getTheaterShowTimes(theaterIds: number[], from: string, to: string): Promise<Pick<ShowTime, 'theaterId' | 'startTime' | 'endTime'>[]> {
+        try {
+            return await this.dataSource.query(
+                `SELECT theater_id AS "theaterId", "startTime", "endTime"
+                 FROM showtimes
+                 WHERE theater_id = ANY($1::int[]) AND "cancelledAt" IS NULL
+                   AND "startTime" < $3::timestamptz AND "endTime" > $2::timestamptz
+                 ORDER BY "startTime"`,
+                [theaterIds, from, to]);
+        }
+        catch (error) {
+            console.error('DB Error on getTheaterShowTimes:', error);
+            throw new InternalServerErrorException('Failed to get the showtimes of the theaters.');
+        }
+    }
+
+    /**
+    * Fetches the IDs of the showtimes of a theater that are not cancelled and have not started yet.
+    * 
+    * @param theaterId - Theater ID.
+    * @returns The showtime IDs, in start order.
+    */
+    async getUpcomingShowTimeIds(theaterId: number): Promise<number[]> {
+        try {
+            const rows: { id: number }[] = await this.dataSource.query(
+                `SELECT id FROM showtimes
+                 WHERE theater_id = $1 AND "cancelledAt" IS NULL AND "startTime" > NOW()
+                 ORDER BY "startTime"`,
+                [theaterId]);
+            return rows.map(row => row.id);
+        }
+        catch (error) {
+            console.error('DB Error on getUpcomingShowTimeIds:', error);
+            throw new InternalServerErrorException('Failed to get the upcoming showtimes of the theater.');
+        }
+    }
+
+    /**
+    * Checks for overlapping showtimes in the same theater. Cancelled showtimes are ignored.
+    * Every show keeps the theater busy for the turnaround time after it ends (cleaning),
+    * so a show overlaps if it starts before another show's end plus the turnaround,
+    * or ends less than the turnaround before another show starts.
     * 
-    * @param theater - Theater name.
+    * @param theaterId - Theater ID.
     * @param startTime - Proposed start time.
     * @param endTime - Proposed end time.
+    * @param turnaroundMinutes - Minutes the theater stays busy after each show.
+    * @param excludeId - Optional showtime to leave out, when it is the one being moved.
     * @returns true if overlap found, false otherwise.
     */
     async hasOverlappingShowTime(
-        theater: string,
+        theaterId: number,
         startTime: string,
         endTime: string,
+        turnaroundMinutes: number,
         excludeId?: number
       ): Promise<boolean> {
         let query = `
           SELECT 1 FROM showtimes
-          WHERE LOWER(theater) = LOWER($1)
-          AND (
-            ($2 >= "startTime" AND $2 < "endTime") OR
-            ($3 > "startTime" AND $3 <= "endTime") OR
-            ($2 <= "startTime" AND $3 >= "endTime")
-          )
+          WHERE theater_id = $1
+          AND "cancelledAt" IS NULL
+          AND $2::timestamptz < "endTime" + make_interval(mins => $4)
+          AND $3::timestamptz + make_interval(mins => $4) > "startTime"
         `;
       
-        const params: any[] = [theater, startTime, endTime];
+        const params: any[] = [theaterId, startTime, endTime, turnaroundMinutes];
       
         if (excludeId) {
-          query += ` AND id != $4`;
+          query += ` AND id != $5`;
           params.push(excludeId);
         }
       
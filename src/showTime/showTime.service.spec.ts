@@ -3,12 +3,16 @@
 * 
 * This file contains unit tests for the ShowTimeService class in a NestJS application.
 * 
-* The tests use Jest to mock the ShowTimeRepository and MovieRepository dependencies,
+* The tests use Jest to mock the ShowTimeRepository, MovieRepository and TheaterRepository dependencies,
 * and validate the business logic for:
-*  - Adding a showtime (with validations: movie existence, time range, overlaps, duration)
+*  - Adding a showtime (with validations: movie and theater existence, time range, overlaps, duration, sales window,
+*    and the theater's pre-show and cleaning buffers)
+*  - Creating a recurring showtime series (expansion, conflict report, all-or-nothing)
+*  - Drafting a day's schedule around existing showtimes, and committing it showtime by showtime
 *  - Updating a showtime (with logic for patching, revalidating, and avoiding conflicts)
 *  - Deleting a showtime (with proper error handling for missing entries)
-*  - Fetching a showtime by ID
+*  - Fetching a showtime by ID (with its local times)
+*  - Searching the showtime listing (filter checks and cursor pagination)
 * 
 * Each test validates functional correctness, error handling, and integration of service-repository logic.
 */
@@ -17,32 +21,45 @@ import { Test, TestingModule } from "@nestjs/testing";
 import { ShowTimeService } from "./showTime.service";
 import { ShowTimeRepository } from "./showTime.repository";
 import { MovieRepository } from "../movie/movie.repository";
+import { TheaterRepository } from "../theater/theater.repository";
 import { BadRequestException, NotFoundException } from "@nestjs/common";
 import { ShowTimeDto } from "./showTime.dto";
+import { ShowTimeSortField, SortOrder } from "./showTimeSearch.dto";
 
 describe("ShowTimeService", () => {
   let service: ShowTimeService;
   let mockShowTimeRepository: Partial<Record<keyof ShowTimeRepository, jest.Mock>>;
   let mockMovieRepository: Partial<Record<keyof MovieRepository, jest.Mock>>;
+  let mockTheaterRepository: Partial<Record<keyof TheaterRepository, jest.Mock>>;
 
   beforeEach(async () => {
     mockShowTimeRepository = {
       addNewShowTime: jest.fn(),
+      addNewShowTimes: jest.fn().mockImplementation(async (showtimes) => showtimes.map((showtime, i) => ({ id: i + 1, ...showtime }))),
       hasOverlappingShowTime: jest.fn(),
       fetchShowTimeById: jest.fn(),
       updateShowTimeInfo: jest.fn(),
       deleteShowTime: jest.fn(),
+      hasBookings: jest.fn().mockResolvedValue(false),
+      hasHeldOrBlockedSeats: jest.fn().mockResolvedValue(false),
+      getTheaterShowTimes: jest.fn().mockResolvedValue([]),
+      searchShowTimes: jest.fn(),
     };
 
     mockMovieRepository = {
       fetchMovieById: jest.fn(),
     };
 
+    mockTheaterRepository = {
+      fetchTheaterById: jest.fn().mockResolvedValue({ id: 1, name: "Hall 1", rows: [{ label: "A", seats: 10 }], capacity: 10, preShowMinutes: 0, postShowMinutes: 0 }),
+    };
+
     const module: TestingModule = await Test.createTestingModule({
       providers: [
         ShowTimeService,
         { provide: "ShowTimeRepository", useValue: mockShowTimeRepository },
         { provide: "MovieRepository", useValue: mockMovieRepository },
+        { provide: "TheaterRepository", useValue: mockTheaterRepository },
       ],
     }).compile();
 
@@ -56,7 +73,7 @@ describe("ShowTimeService", () => {
     it("should create a new showtime", async () => {
       const dto: ShowTimeDto = {
         movieId: 1,
-        theater: "  My Theater ",
+        theaterId: 1,
         startTime: "2025-03-25T10:00:00.000Z",
         endTime: "2025-03-25T12:00:00.000Z",
         price: 20,
@@ -71,11 +88,42 @@ describe("ShowTimeService", () => {
       const result = await service.addNewShowTime(dto);
 
       expect(mockMovieRepository.fetchMovieById).toHaveBeenCalledWith(1);
+      expect(mockTheaterRepository.fetchTheaterById).toHaveBeenCalledWith(1);
       expect(mockShowTimeRepository.addNewShowTime).toHaveBeenCalledWith({
-        ...dto,
-        theater: "My Theater",
+        ...dto, categoryPrices: null, dynamicPricing: null, isPremiere: false, salesOpenAt: null, salesCloseMinutesAfterStart: null,
+        cancelledAt: null, cancellationReason: null,
+      });
+      expect(result).toEqual({
+        id: 1, ...dto, timeZone: "UTC", startTimeLocal: "2025-03-25T10:00:00+00:00", endTimeLocal: "2025-03-25T12:00:00+00:00",
       });
-      expect(result).toEqual({ id: 1, ...dto });
+    });
+
+    /**
+    * Should store times sent with an offset as UTC instants and check the duration by real elapsed time,
+    * even when clocks go back during the show.
+    */
+    it("should normalize offsets and measure durations across a daylight-saving change", async () => {
+      mockMovieRepository.fetchMovieById!.mockResolvedValue({ id: 1, duration: 120 });
+      mockShowTimeRepository.hasOverlappingShowTime!.mockResolvedValue(false);
+      mockShowTimeRepository.addNewShowTime!.mockImplementation(async showtime => ({ id: 1, ...showtime }));
+
+      const result = await service.addNewShowTime({
+        movieId: 1, theaterId: 1, startTime: "2025-11-02T00:30:00-04:00", endTime: "2025-11-02T01:30:00-05:00", price: 20,
+      });
+
+      expect(mockShowTimeRepository.addNewShowTime).toHaveBeenCalledWith(expect.objectContaining({
+        startTime: "2025-11-02T04:30:00.000Z", endTime: "2025-11-02T06:30:00.000Z",
+      }));
+      expect(result.startTimeLocal).toBe("2025-11-02T04:30:00+00:00");
+    });
+
+    /**
+    * Should reject a date-time that cannot be parsed.
+    */
+    it("should throw BadRequestException for an invalid date-time", async () => {
+      await expect(
+        service.addNewShowTime({ movieId: 1, theaterId: 1, startTime: "tonight", endTime: "2025-01-01T12:00:00Z", price: 5 })
+      ).rejects.toThrow(BadRequestException);
     });
 
     /**
@@ -83,20 +131,54 @@ describe("ShowTimeService", () => {
     */
     it("should throw BadRequestException for non-positive price", async () => {
       await expect(
-        service.addNewShowTime({ movieId: 1, theater: "Theater", startTime: "2025-01-01T10:00:00Z", endTime: "2025-01-01T11:00:00Z", price: 0 })
+        service.addNewShowTime({ movieId: 1, theaterId: 1, startTime: "2025-01-01T10:00:00Z", endTime: "2025-01-01T11:00:00Z", price: 0 })
       ).rejects.toThrow(BadRequestException);
     });
 
+    /**
+    * Should throw if a seat category price is zero or less.
+    */
+    it("should throw BadRequestException for non-positive category price", async () => {
+      await expect(
+        service.addNewShowTime({ movieId: 1, theaterId: 1, startTime: "2025-01-01T10:00:00Z", endTime: "2025-01-01T11:00:00Z", price: 5, categoryPrices: { premium: 0 } })
+      ).rejects.toThrow(BadRequestException);
+    });
+
+    /**
+    * Should throw if the dynamic price floor is above its ceiling.
+    */
+    it("should throw BadRequestException for a price floor above the ceiling", async () => {
+      await expect(
+        service.addNewShowTime({
+          movieId: 1, theaterId: 1, startTime: "2025-01-01T10:00:00Z", endTime: "2025-01-01T11:00:00Z", price: 5,
+          dynamicPricing: { enabled: false, floorMultiplier: 1.5, ceilingMultiplier: 1.2 }
+        })
+      ).rejects.toThrow(BadRequestException);
+      expect(mockShowTimeRepository.addNewShowTime).not.toHaveBeenCalled();
+    });
+
     /**
     * Should throw if movie is not found.
     */
     it("should throw NotFoundException if movie does not exist", async () => {
       mockMovieRepository.fetchMovieById!.mockResolvedValue(null);
       await expect(
-        service.addNewShowTime({ movieId: 99, theater: "T", startTime: "2025-01-01T10:00:00Z", endTime: "2025-01-01T11:00:00Z", price: 5 })
+        service.addNewShowTime({ movieId: 99, theaterId: 1, startTime: "2025-01-01T10:00:00Z", endTime: "2025-01-01T11:00:00Z", price: 5 })
       ).rejects.toThrow(NotFoundException);
     });
 
+    /**
+    * Should throw if theater is not found.
+    */
+    it("should throw NotFoundException if theater does not exist", async () => {
+      mockMovieRepository.fetchMovieById!.mockResolvedValue({ id: 1, duration: 60 });
+      mockTheaterRepository.fetchTheaterById!.mockResolvedValue(null);
+      await expect(
+        service.addNewShowTime({ movieId: 1, theaterId: 99, startTime: "2025-01-01T10:00:00Z", endTime: "2025-01-01T11:00:00Z", price: 5 })
+      ).rejects.toThrow(NotFoundException);
+      expect(mockShowTimeRepository.addNewShowTime).not.toHaveBeenCalled();
+    });
+
     /**
     * Should throw if startTime >= endTime.
     */
@@ -105,7 +187,7 @@ describe("ShowTimeService", () => {
       mockMovieRepository.fetchMovieById!.mockResolvedValue(movie);
 
       await expect(
-        service.addNewShowTime({ movieId: 1, theater: "T", startTime: "2025-01-01T12:00:00Z", endTime: "2025-01-01T10:00:00Z", price: 5 })
+        service.addNewShowTime({ movieId: 1, theaterId: 1, startTime: "2025-01-01T12:00:00Z", endTime: "2025-01-01T10:00:00Z", price: 5 })
       ).rejects.toThrow(BadRequestException);
     });
 
@@ -117,7 +199,7 @@ describe("ShowTimeService", () => {
       mockMovieRepository.fetchMovieById!.mockResolvedValue(movie);
 
       await expect(
-        service.addNewShowTime({ movieId: 1, theater: "T", startTime: "2025-01-01T10:00:00Z", endTime: "2025-01-01T12:00:00Z", price: 5 })
+        service.addNewShowTime({ movieId: 1, theaterId: 1, startTime: "2025-01-01T10:00:00Z", endTime: "2025-01-01T12:00:00Z", price: 5 })
       ).rejects.toThrow(BadRequestException);
     });
 
@@ -130,8 +212,165 @@ describe("ShowTimeService", () => {
       mockShowTimeRepository.hasOverlappingShowTime!.mockResolvedValue(true);
 
       await expect(
-        service.addNewShowTime({ movieId: 1, theater: "T", startTime: "2025-01-01T10:00:00Z", endTime: "2025-01-01T12:00:00Z", price: 5 })
+        service.addNewShowTime({ movieId: 1, theaterId: 1, startTime: "2025-01-01T10:00:00Z", endTime: "2025-01-01T12:00:00Z", price: 5 })
+      ).rejects.toThrow(BadRequestException);
+    });
+
+    /**
+    * Should expect the theater's pre-show time before the movie and keep its cleaning time free after other shows.
+    */
+    it("should schedule around the theater's pre-show and cleaning buffers", async () => {
+      mockMovieRepository.fetchMovieById!.mockResolvedValue({ id: 1, duration: 120 });
+      mockTheaterRepository.fetchTheaterById!.mockResolvedValue({ id: 1, name: "Hall 1", capacity: 10, preShowMinutes: 20, postShowMinutes: 15 });
+      mockShowTimeRepository.hasOverlappingShowTime!.mockResolvedValue(false);
+      mockShowTimeRepository.addNewShowTime!.mockImplementation(async showtime => ({ id: 1, ...showtime }));
+
+      await expect(
+        service.addNewShowTime({ movieId: 1, theaterId: 1, startTime: "2025-01-01T10:00:00Z", endTime: "2025-01-01T12:00:00Z", price: 5 })
       ).rejects.toThrow(BadRequestException);
+
+      await service.addNewShowTime({ movieId: 1, theaterId: 1, startTime: "2025-01-01T10:00:00Z", endTime: "2025-01-01T12:20:00Z", price: 5 });
+      expect(mockShowTimeRepository.hasOverlappingShowTime).toHaveBeenCalledWith(1, "2025-01-01T10:00:00.000Z", "2025-01-01T12:20:00.000Z", 15);
+    });
+
+    /**
+    * Should throw if ticket sales would open after they close.
+    */
+    it("should throw BadRequestException for an empty sales window", async () => {
+      mockMovieRepository.fetchMovieById!.mockResolvedValue({ id: 1, duration: 120 });
+
+      await expect(
+        service.addNewShowTime({
+          movieId: 1, theaterId: 1, startTime: "2025-01-01T10:00:00Z", endTime: "2025-01-01T12:00:00Z", price: 5,
+          salesOpenAt: "2025-01-01T09:00:00Z", salesCloseMinutesAfterStart: -60,
+        })
+      ).rejects.toThrow("Ticket sales must open before they close.");
+      expect(mockShowTimeRepository.addNewShowTime).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("addShowTimeSeries", () => {
+    const series = {
+      movieId: 1, theaterId: 1, startTimeOfDay: "20:30", daysOfWeek: [5, 6], fromDate: "2025-12-01", toDate: "2025-12-14", price: 40,
+    };
+
+    beforeEach(() => {
+      mockMovieRepository.fetchMovieById!.mockResolvedValue({ id: 1, duration: 150 });
+      mockShowTimeRepository.hasOverlappingShowTime!.mockImplementation(async (theaterId, startTime) => startTime.startsWith("2025-12-12"));
+    });
+
+    /**
+    * Should create the free dates matching the days of the week and report the conflicting ones.
+    */
+    it("should create the free dates and report conflicts", async () => {
+      const result = await service.addShowTimeSeries(series);
+
+      expect(result.created.map(showtime => showtime.startTime)).toEqual([
+        "2025-12-05T20:30:00.000Z", "2025-12-06T20:30:00.000Z", "2025-12-13T20:30:00.000Z",
+      ]);
+      expect(result.created[0]).toEqual(expect.objectContaining({ endTime: "2025-12-05T23:00:00.000Z", price: 40, isPremiere: false }));
+      expect(result.conflicts).toEqual([{
+        date: "2025-12-12", startTime: "2025-12-12T20:30:00.000Z", endTime: "2025-12-12T23:00:00.000Z",
+        reason: "An overlapping showtime already exists in this theater.",
+      }]);
+      expect(mockShowTimeRepository.addNewShowTimes).toHaveBeenCalledTimes(1);
+    });
+
+    /**
+    * Should create nothing when all-or-nothing is set and a date conflicts.
+    */
+    it("should throw BadRequestException with the conflicts when all or nothing", async () => {
+      await expect(service.addShowTimeSeries({ ...series, allOrNothing: true })).rejects.toThrow(expect.objectContaining({
+        response: expect.objectContaining({ conflicts: [expect.objectContaining({ date: "2025-12-12" })] }),
+      }));
+      expect(mockShowTimeRepository.addNewShowTimes).not.toHaveBeenCalled();
+    });
+
+    /**
+    * Should reject reversed, overlong and empty date ranges.
+    */
+    it("should throw BadRequestException for invalid date ranges", async () => {
+      await expect(service.addShowTimeSeries({ ...series, fromDate: "2025-12-14", toDate: "2025-12-01" })).rejects.toThrow(BadRequestException);
+      await expect(service.addShowTimeSeries({ ...series, toDate: "2027-12-01" })).rejects.toThrow(BadRequestException);
+      await expect(service.addShowTimeSeries({ ...series, toDate: "2025-12-04" })).rejects.toThrow(BadRequestException);
+      expect(mockShowTimeRepository.addNewShowTimes).not.toHaveBeenCalled();
+    });
+
+    /**
+    * Should throw if the movie does not exist.
+    */
+    it("should throw NotFoundException if movie does not exist", async () => {
+      mockMovieRepository.fetchMovieById!.mockResolvedValue(null);
+
+      await expect(service.addShowTimeSeries(series)).rejects.toThrow(NotFoundException);
+    });
+  });
+
+  describe("previewSchedule", () => {
+    const request = {
+      date: "2025-03-28",
+      movies: [{ movieId: 1, priority: 5, targetShows: 1, price: 40 }, { movieId: 2, price: 30 }],
+      theaters: [{ theaterId: 1, opensAt: "17:00", closesAt: "23:00" }],
+    };
+
+    beforeEach(() => {
+      mockMovieRepository.fetchMovieById!.mockImplementation(async id => ({ id, title: `Movie ${id}`, duration: id === 1 ? 120 : 60 }));
+      mockShowTimeRepository.getTheaterShowTimes!.mockResolvedValue([
+        { theaterId: 1, startTime: new Date("2025-03-28T22:00:00Z"), endTime: new Date("2025-03-28T23:00:00Z") },
+      ]);
+    });
+
+    /**
+    * Should draft the day around the existing showtime, with prime time for the top movie, without creating anything.
+    */
+    it("should draft a schedule around existing showtimes", async () => {
+      const draft = await service.previewSchedule(request);
+
+      expect(mockShowTimeRepository.getTheaterShowTimes).toHaveBeenCalledWith([1], "2025-03-27T00:00:00.000Z", "2025-03-30T00:00:00.000Z");
+      expect(draft.showtimes.map(showtime => [showtime.movieId, showtime.startTime])).toEqual([
+        [2, "2025-03-28T17:00:00.000Z"], [1, "2025-03-28T18:00:00.000Z"], [2, "2025-03-28T20:00:00.000Z"], [2, "2025-03-28T21:00:00.000Z"],
+      ]);
+      expect(draft.showtimes[1]).toEqual({
+        movieId: 1, movieTitle: "Movie 1", theaterId: 1, theaterName: "Hall 1",
+        startTime: "2025-03-28T18:00:00.000Z", endTime: "2025-03-28T20:00:00.000Z", price: 40, categoryPrices: null, primeTime: true,
+        timeZone: "UTC", startTimeLocal: "2025-03-28T18:00:00+00:00", endTimeLocal: "2025-03-28T20:00:00+00:00",
+      });
+      expect(draft.movies).toEqual([
+        { movieId: 1, priority: 5, targetShows: 1, scheduledShows: 1, primeTimeShows: 1 },
+        { movieId: 2, priority: 1, targetShows: null, scheduledShows: 3, primeTimeShows: 2 },
+      ]);
+      expect(mockShowTimeRepository.addNewShowTime).not.toHaveBeenCalled();
+    });
+
+    /**
+    * Should reject a movie listed twice and movies that do not exist.
+    */
+    it("should throw for duplicate or missing movies", async () => {
+      await expect(service.previewSchedule({ ...request, movies: [request.movies[0], request.movies[0]] })).rejects.toThrow(BadRequestException);
+
+      mockMovieRepository.fetchMovieById!.mockResolvedValue(null);
+      await expect(service.previewSchedule(request)).rejects.toThrow(NotFoundException);
+    });
+  });
+
+  describe("commitSchedule", () => {
+    const showtime = (startTime: string, endTime: string) => ({ movieId: 1, theaterId: 1, startTime, endTime, price: 40 });
+
+    /**
+    * Should create each showtime through the single showtime checks and report the ones rejected.
+    */
+    it("should create the draft's showtimes and report the rejected ones", async () => {
+      const first = showtime("2025-03-28T18:00:00.000Z", "2025-03-28T20:00:00.000Z");
+      const second = showtime("2025-03-28T20:30:00.000Z", "2025-03-28T22:30:00.000Z");
+      const add = jest.spyOn(service, "addNewShowTime")
+        .mockResolvedValueOnce({ id: 1, ...first } as any)
+        .mockRejectedValueOnce(new BadRequestException("An overlapping showtime already exists in this theater."));
+
+      const result = await service.commitSchedule({ showtimes: [first, second] });
+
+      expect(add).toHaveBeenCalledTimes(2);
+      expect(result.created).toEqual([{ id: 1, ...first }]);
+      expect(result.rejected).toEqual([{ showtime: second, reason: "An overlapping showtime already exists in this theater." }]);
     });
   });
 
@@ -141,7 +380,7 @@ describe("ShowTimeService", () => {
     */
     it("should update an existing showtime", async () => {
       const id = 1;
-      const existing = { id, movieId: 1, theater: "T", startTime: "2025-01-01T10:00:00Z", endTime: "2025-01-01T12:00:00Z", price: 5 };
+      const existing = { id, movieId: 1, theaterId: 1, startTime: "2025-01-01T10:00:00Z", endTime: "2025-01-01T12:00:00Z", price: 5 };
       const movie = { id: 1, duration: 120 };
       const update = { ...existing, price: 6 };
 
@@ -161,11 +400,28 @@ describe("ShowTimeService", () => {
       await expect(service.updateShowTimeInfo(1, {} as any)).rejects.toThrow(NotFoundException);
     });
 
+    /**
+    * Should keep a showtime with booked, held or blocked seats in its theater, whose layout those seats belong to.
+    */
+    it("should not move a showtime with booked, held or blocked seats to another theater", async () => {
+      const existing = { id: 1, movieId: 1, theaterId: 1, startTime: "2025-01-01T10:00:00Z", endTime: "2025-01-01T12:00:00Z", price: 5 };
+      mockShowTimeRepository.fetchShowTimeById!.mockResolvedValue(existing);
+
+      mockShowTimeRepository.hasBookings!.mockResolvedValueOnce(true);
+      await expect(service.updateShowTimeInfo(1, { ...existing, theaterId: 2 })).rejects.toThrow("has bookings and cannot move to another theater");
+
+      mockShowTimeRepository.hasHeldOrBlockedSeats!.mockResolvedValueOnce(true);
+      await expect(service.updateShowTimeInfo(1, { ...existing, theaterId: 2 })).rejects.toThrow("has held or blocked seats");
+
+      expect(mockShowTimeRepository.hasHeldOrBlockedSeats).toHaveBeenCalledWith(1);
+      expect(mockShowTimeRepository.updateShowTimeInfo).not.toHaveBeenCalled();
+    });
+
     /**
     * Should throw if movie not found during update.
     */
     it("should throw NotFoundException if movie not found during update", async () => {
-      const existing = { id: 1, movieId: 1, theater: "T", startTime: "2025-01-01T10:00:00Z", endTime: "2025-01-01T12:00:00Z", price: 5 };
+      const existing = { id: 1, movieId: 1, theaterId: 1, startTime: "2025-01-01T10:00:00Z", endTime: "2025-01-01T12:00:00Z", price: 5 };
 
       mockShowTimeRepository.fetchShowTimeById!.mockResolvedValue(existing);
       mockMovieRepository.fetchMovieById!.mockResolvedValue(null);
@@ -177,7 +433,7 @@ describe("ShowTimeService", () => {
     * Should throw if updated duration is invalid.
     */
     it("should throw BadRequestException for duration mismatch on update", async () => {
-      const existing = { id: 1, movieId: 1, theater: "T", startTime: "2025-01-01T10:00:00Z", endTime: "2025-01-01T12:00:00Z", price: 5 };
+      const existing = { id: 1, movieId: 1, theaterId: 1, startTime: "2025-01-01T10:00:00Z", endTime: "2025-01-01T12:00:00Z", price: 5 };
 
       mockShowTimeRepository.fetchShowTimeById!.mockResolvedValue(existing);
       mockMovieRepository.fetchMovieById!.mockResolvedValue({ id: 1, duration: 60 });
@@ -189,7 +445,7 @@ describe("ShowTimeService", () => {
     * Should throw if time is changed and it overlaps.
     */
     it("should throw BadRequestException if time update causes overlap", async () => {
-      const existing = { id: 1, movieId: 1, theater: "T", startTime: "2025-01-01T10:00:00Z", endTime: "2025-01-01T12:00:00Z", price: 5 };
+      const existing = { id: 1, movieId: 1, theaterId: 1, startTime: "2025-01-01T10:00:00Z", endTime: "2025-01-01T12:00:00Z", price: 5 };
       const movie = { id: 1, duration: 120 };
       const update = { ...existing, startTime: "2025-01-01T14:00:00Z", endTime: "2025-01-01T16:00:00Z" };
 
@@ -206,13 +462,24 @@ describe("ShowTimeService", () => {
     * Should delete showtime if it exists.
     */
     it("should delete a showtime", async () => {
-      const existing = { id: 1, movieId: 1, theater: "T", startTime: "2025-01-01T10:00:00Z", endTime: "2025-01-01T12:00:00Z", price: 5 };
+      const existing = { id: 1, movieId: 1, theaterId: 1, startTime: "2025-01-01T10:00:00Z", endTime: "2025-01-01T12:00:00Z", price: 5 };
       mockShowTimeRepository.fetchShowTimeById!.mockResolvedValue(existing);
       mockShowTimeRepository.deleteShowTime!.mockResolvedValue(undefined);
 
       await expect(service.deleteShowTime(1)).resolves.toBeUndefined();
     });
 
+    /**
+    * Should refuse to delete a showtime with bookings, which has to be cancelled instead.
+    */
+    it("should throw BadRequestException if the showtime has bookings", async () => {
+      mockShowTimeRepository.fetchShowTimeById!.mockResolvedValue({ id: 1, cancelledAt: null });
+      mockShowTimeRepository.hasBookings!.mockResolvedValue(true);
+
+      await expect(service.deleteShowTime(1)).rejects.toThrow(BadRequestException);
+      expect(mockShowTimeRepository.deleteShowTime).not.toHaveBeenCalled();
+    });
+
     /**
     * Should throw if showtime not found.
     */
@@ -227,12 +494,14 @@ describe("ShowTimeService", () => {
     * Should fetch a showtime if it exists.
     */
     it("should fetch and return a showtime", async () => {
-      const showtime = { id: 1, movieId: 1, theater: "T", startTime: "2025-01-01T10:00:00Z", endTime: "2025-01-01T12:00:00Z", price: 5 };
+      const showtime = { id: 1, movieId: 1, theaterId: 1, startTime: "2025-01-01T10:00:00Z", endTime: "2025-01-01T12:00:00Z", price: 5 };
 
       mockShowTimeRepository.fetchShowTimeById!.mockResolvedValue(showtime);
       const result = await service.fetchShowTimeById(1);
 
-      expect(result).toEqual(showtime);
+      expect(result).toEqual({
+        ...showtime, timeZone: "UTC", startTimeLocal: "2025-01-01T10:00:00+00:00", endTimeLocal: "2025-01-01T12:00:00+00:00",
+      });
     });
 
     /**
@@ -243,4 +512,64 @@ describe("ShowTimeService", () => {
       await expect(service.fetchShowTimeById(1)).rejects.toThrow(NotFoundException);
     });
   });
+
+  describe("searchShowTimes", () => {
+    const row = (id: number, sortValue: string) => ({
+      id, movieId: 1, movieTitle: "Inception", theaterId: 1, theaterName: "Hall 1",
+      startTime: "2025-01-10T20:00:00Z", endTime: "2025-01-10T22:00:00Z", price: 40, categoryPrices: null,
+      isPremiere: false, availableSeats: 12, sortValue
+    });
+
+    /**
+    * Should return the first page without the sort values, and a cursor when more rows follow.
+    */
+    it("should return a page and the cursor of the next one", async () => {
+      mockShowTimeRepository.searchShowTimes!.mockResolvedValue([row(1, "40"), row(2, "45"), row(3, "50")]);
+
+      const result = await service.searchShowTimes({ movieId: 1 }, ShowTimeSortField.PRICE, SortOrder.ASC, 2);
+
+      expect(mockShowTimeRepository.searchShowTimes).toHaveBeenCalledWith({ movieId: 1 }, ShowTimeSortField.PRICE, SortOrder.ASC, 3, undefined);
+      expect(result.items.map(item => item.id)).toEqual([1, 2]);
+      expect(result.items[0]).not.toHaveProperty("sortValue");
+      expect(result.nextCursor).not.toBeNull();
+
+      mockShowTimeRepository.searchShowTimes!.mockResolvedValue([row(3, "50")]);
+      const next = await service.searchShowTimes({ movieId: 1 }, ShowTimeSortField.PRICE, SortOrder.ASC, 2, result.nextCursor!);
+
+      expect(mockShowTimeRepository.searchShowTimes).toHaveBeenLastCalledWith(
+        { movieId: 1 }, ShowTimeSortField.PRICE, SortOrder.ASC, 3, { sortBy: ShowTimeSortField.PRICE, value: "45", id: 2 });
+      expect(next.items.map(item => item.id)).toEqual([3]);
+      expect(next.nextCursor).toBeNull();
+    });
+
+    /**
+    * Should reject malformed cursors and cursors of a listing sorted by another field.
+    */
+    it("should throw BadRequestException for an invalid cursor", async () => {
+      mockShowTimeRepository.searchShowTimes!.mockResolvedValue([row(1, "40"), row(2, "45")]);
+      const { nextCursor } = await service.searchShowTimes({}, ShowTimeSortField.PRICE, SortOrder.ASC, 1);
+
+      await expect(service.searchShowTimes({}, ShowTimeSortField.START_TIME, SortOrder.ASC, 1, nextCursor!)).rejects.toThrow(BadRequestException);
+      await expect(service.searchShowTimes({}, ShowTimeSortField.PRICE, SortOrder.ASC, 1, "not-a-cursor")).rejects.toThrow(BadRequestException);
+      for (const decoded of [null, 42, [], { sortBy: ShowTimeSortField.PRICE, value: 40, id: 1 }, { sortBy: ShowTimeSortField.PRICE, value: "40", id: "1" }]) {
+        const cursor = Buffer.from(JSON.stringify(decoded)).toString('base64url');
+        await expect(service.searchShowTimes({}, ShowTimeSortField.PRICE, SortOrder.ASC, 1, cursor)).rejects.toThrow("Invalid cursor.");
+      }
+    });
+
+    /**
+    * Should reject invalid limits, dates and ranges without querying.
+    */
+    it("should throw BadRequestException for invalid filters", async () => {
+      const search = (filter: object, limit = 20) => service.searchShowTimes(filter, ShowTimeSortField.START_TIME, SortOrder.ASC, limit);
+
+      await expect(search({}, 0)).rejects.toThrow(BadRequestException);
+      await expect(search({}, 101)).rejects.toThrow(BadRequestException);
+      await expect(search({ from: "tomorrow" })).rejects.toThrow(BadRequestException);
+      await expect(search({ from: "2025-01-11", to: "2025-01-10" })).rejects.toThrow(BadRequestException);
+      await expect(search({ minPrice: 50, maxPrice: 20 })).rejects.toThrow(BadRequestException);
+      await expect(search({ minAvailableSeats: -1 })).rejects.toThrow(BadRequestException);
+      expect(mockShowTimeRepository.searchShowTimes).not.toHaveBeenCalled();
+    });
+  });
 });
\ No newline at end of file
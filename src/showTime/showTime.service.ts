@@ -2,24 +2,58 @@
  * showTime.service.ts
  *
  * This service handles business logic for creating, updating, fetching, and deleting movie showtimes.
- * It validates against movie duration, prevents overlaps, and ensures time integrity.
+ * It validates against movie duration and theater existence, prevents overlaps, and ensures time integrity,
+ * including that the ticket sales window opens before it closes (see salesWindow.ts).
+ * Durations and overlaps take into account each theater's pre-show time (trailers) and post-show cleaning time.
+ * Times are stored as UTC instants and returned with the cinema's local times too (see timeZone.ts);
+ * times sent without an offset are read as the cinema's local time.
+ * It also searches the showtime listing, filtered, sorted and paged by cursor, creates
+ * recurring showtime series, reporting the dates that conflict with existing showtimes, and
+ * drafts a day's programme across theaters (see showTimeScheduler.ts) that is committed
+ * showtime by showtime through the same checks as a single new showtime.
  */
 
 import { Injectable, BadRequestException, NotFoundException, Inject } from "@nestjs/common";
 import { ShowTimeRepository } from "./showTime.repository";
 import { MovieRepository } from "../movie/movie.repository";
-import { ShowTimeDto } from "./showTime.dto";
+import { TheaterRepository } from "../theater/theater.repository";
+import { LocalizedShowTime, ShowTimeDto } from "./showTime.dto";
 import { ShowTime } from "./showTime.entity";
+import { Movie } from "../movie/movie.entity";
+import { Theater } from "../theater/theater.entity";
+import { validateDynamicPricing } from "../pricing/pricing.rules";
+import { validateSalesWindow } from "./salesWindow";
+import { ShowTimeSeriesConflict, ShowTimeSeriesDto, ShowTimeSeriesResultDto } from "./showTimeSeries.dto";
+import { DEFAULT_PRIME_TIME_END, DEFAULT_PRIME_TIME_START, MAX_SERIES_DAYS } from "./showTime.constants";
+import { addDays, fromLocalDateTime, parseShowTimeInstant, withLocalTimes } from "./timeZone";
+import { CommitScheduleDto, RejectedDraftShowTime, ScheduleCommitResultDto, ScheduleDraftDto, ScheduleRequestDto } from "./showTimeSchedule.dto";
+import { buildDailySchedule } from "./showTimeScheduler";
+import { ShowTimeCursor, ShowTimeListItem, ShowTimeListRow, ShowTimePageDto, ShowTimeSearchFilter, ShowTimeSortField, SortOrder } from "./showTimeSearch.dto";
 
 @Injectable()
 export class ShowTimeService {
     constructor(
         @Inject('ShowTimeRepository') private readonly showTimeRepository: ShowTimeRepository,
-        @Inject('MovieRepository') private readonly movieRepository: MovieRepository
+        @Inject('MovieRepository') private readonly movieRepository: MovieRepository,
+        @Inject('TheaterRepository') private readonly theaterRepository: TheaterRepository
     ) {}
 
+    /**
+     * Parses a date-time sent by a client into a UTC ISO string (see parseShowTimeInstant).
+     * 
+     * @throws BadRequestException if the value is not a valid date-time.
+     */
+    private toInstant(value: string, field: string): string {
+        const instant = parseShowTimeInstant(value);
+        if (isNaN(instant.getTime())) {
+            throw new BadRequestException(`${field} must be a valid date-time.`);
+        }
+        return instant.toISOString();
+    }
+
     /**
      * Calculates the time difference in minutes between two ISO date strings.
+     * Both are absolute instants, so a daylight-saving change between them does not affect the result.
      */
     private calculateDuration(start: string, end: string): number {
         const startDate = new Date(start);
@@ -27,21 +61,49 @@ export class ShowTimeService {
         return (endDate.getTime() - startDate.getTime()) / (1000 * 60);
     }
 
+    /**
+     * Calculates how long a showtime of the movie runs in the theater: the theater's pre-show time
+     * (trailers and ads) followed by the movie.
+     */
+    private getShowDuration(movie: Movie, theater: Theater): number {
+        return theater.preShowMinutes + movie.duration;
+    }
+
+    /**
+     * Checks that the ticket price and every seat category price are greater than 0.
+     */
+    private validatePrices(price: number, categoryPrices?: ShowTime['categoryPrices']): void {
+        if (price <= 0) {
+            throw new BadRequestException("Price must be greater than 0.");
+        }
+
+        for (const [category, categoryPrice] of Object.entries(categoryPrices ?? {})) {
+            if (categoryPrice <= 0) {
+                throw new BadRequestException(`Price of ${category} seats must be greater than 0.`);
+            }
+        }
+    }
+
     /**
      * Adds a new showtime after validating:
      * - Valid movie ID
+     * - Valid theater ID
      * - Valid time range
-     * - Duration matches movie
-     * - No overlapping showtime
+     * - Duration matches the theater's pre-show time plus the movie
+     * - No overlapping showtime, keeping the theater's cleaning time free between shows
      * 
      * @param data - New showtime input
-     * @returns The newly created showtime
+     * @returns The newly created showtime, with its local times
      */
-    async addNewShowTime(data: ShowTimeDto): Promise<ShowTime> {
-        const { movieId, theater, startTime, endTime, price } = data;
+    async addNewShowTime(data: ShowTimeDto): Promise<LocalizedShowTime> {
+        const { movieId, theaterId, price, categoryPrices, dynamicPricing, isPremiere, salesCloseMinutesAfterStart } = data;
+        const startTime = this.toInstant(data.startTime, 'Start time');
+        const endTime = this.toInstant(data.endTime, 'End time');
+        const salesOpenAt = data.salesOpenAt ? this.toInstant(data.salesOpenAt, 'Sales open at') : null;
 
-        if (price <= 0) {
-            throw new BadRequestException("Price must be greater than 0.");
+        this.validatePrices(price, categoryPrices);
+        if (dynamicPricing) {
+            validateDynamicPricing(dynamicPricing);
         }
 
         const movie = await this.movieRepository.fetchMovieById(movieId);
@@ -49,33 +111,266 @@ export class ShowTimeService {
             throw new NotFoundException(`Movie with ID ${movieId} not found.`);
         }
 
+        const theater = await this.theaterRepository.fetchTheaterById(theaterId);
+        if (!theater) {
+            throw new NotFoundException(`Theater with ID ${theaterId} not found.`);
+        }
+
         if (new Date(startTime) >= new Date(endTime)) {
             throw new BadRequestException("End time must be after start time.");
         }
 
+        const expectedDuration = this.getShowDuration(movie, theater);
         const actualDuration = this.calculateDuration(startTime, endTime);
-        if (actualDuration !== movie.duration) {
-            throw new BadRequestException(`Showtime duration must match movie duration (${movie.duration} minutes). You provided ${actualDuration} minutes.`);
+        if (actualDuration !== expectedDuration) {
+            throw new BadRequestException(`Showtime duration must match the movie duration plus the theater's pre-show time (${expectedDuration} minutes). You provided ${actualDuration} minutes.`);
         }
 
-        const overlap = await this.showTimeRepository.hasOverlappingShowTime(theater.trim(), startTime, endTime);
+        validateSalesWindow({ startTime, salesOpenAt, salesCloseMinutesAfterStart });
+
+        const overlap = await this.showTimeRepository.hasOverlappingShowTime(theaterId, startTime, endTime, theater.postShowMinutes);
         if (overlap) {
             throw new BadRequestException("An overlapping showtime already exists in this theater.");
         }
 
         const newShowTime: Omit<ShowTime, 'id'> = {
             movieId,
-            theater: theater.trim(),
+            theaterId,
             startTime,
             endTime,
-            price
+            price,
+            categoryPrices: categoryPrices ?? null,
+            dynamicPricing: dynamicPricing ?? null,
+            isPremiere: isPremiere ?? false,
+            salesOpenAt: salesOpenAt ?? null,
+            salesCloseMinutesAfterStart: salesCloseMinutesAfterStart ?? null,
+            cancelledAt: null,
+            cancellationReason: null
         };
 
-        return await this.showTimeRepository.addNewShowTime(newShowTime);
+        return withLocalTimes(await this.showTimeRepository.addNewShowTime(newShowTime));
+    }
+
+    /**
+     * Creates a recurring showtime series: one showtime on each chosen day of the week in the date
+     * range, starting at the same local time of day and ending after the theater's pre-show time and the movie.
+     * Dates and times of day are the cinema's, so a show at 20:30 stays at 20:30 across a daylight-saving change.
+     * Each date is checked for overlaps in the theater, like a single showtime.
+     * Dates that conflict are reported; the others are created unless `allOrNothing` is set,
+     * in which case any conflict fails the whole series.
+     * 
+     * @param data - The series pattern, date range and price
+     * @returns The created showtimes and the conflicting dates
+     * @throws BadRequestException for an invalid range or price, a series without dates,
+     * or, with `allOrNothing`, any conflict (listed in the body's `conflicts`)
+     * @throws NotFoundException if the movie or theater does not exist
+     */
+    async addShowTimeSeries(data: ShowTimeSeriesDto): Promise<ShowTimeSeriesResultDto> {
+        const { movieId, theaterId, startTimeOfDay, daysOfWeek, fromDate, toDate, price, categoryPrices, isPremiere,
+            allOrNothing } = data;
+
+        this.validatePrices(price, categoryPrices);
+
+        const firstDate = fromDate.slice(0, 10);
+        const lastDate = toDate.slice(0, 10);
+        const days = (Date.parse(lastDate) - Date.parse(firstDate)) / (24 * 60 * 60 * 1000) + 1;
+        if (days < 1) {
+            throw new BadRequestException("From date must not be after to date.");
+        }
+        if (days > MAX_SERIES_DAYS) {
+            throw new BadRequestException(`A series can span at most ${MAX_SERIES_DAYS} days.`);
+        }
+
+        const movie = await this.movieRepository.fetchMovieById(movieId);
+        if (!movie) {
+            throw new NotFoundException(`Movie with ID ${movieId} not found.`);
+        }
+
+        const theater = await this.theaterRepository.fetchTheaterById(theaterId);
+        if (!theater) {
+            throw new NotFoundException(`Theater with ID ${theaterId} not found.`);
+        }
+
+        const duration = this.getShowDuration(movie, theater);
+        const occurrences: Omit<ShowTime, 'id'>[] = [];
+        const conflicts: ShowTimeSeriesConflict[] = [];
+        for (let date = firstDate; date <= lastDate; date = addDays(date, 1)) {
+            if (!daysOfWeek.includes(new Date(date).getUTCDay())) {
+                continue;
+            }
+
+            const start = fromLocalDateTime(date, startTimeOfDay);
+            const startTime = start.toISOString();
+            const endTime = new Date(start.getTime() + duration * 60 * 1000).toISOString();
+
+            const overlap = await this.showTimeRepository.hasOverlappingShowTime(theaterId, startTime, endTime, theater.postShowMinutes);
+            if (overlap) {
+                conflicts.push({ date, startTime, endTime, reason: "An overlapping showtime already exists in this theater." });
+                continue;
+            }
+
+            occurrences.push({
+                movieId,
+                theaterId,
+                startTime,
+                endTime,
+                price,
+                categoryPrices: categoryPrices ?? null,
+                dynamicPricing: null,
+                isPremiere: isPremiere ?? false,
+                salesOpenAt: null,
+                salesCloseMinutesAfterStart: null,
+                cancelledAt: null,
+                cancellationReason: null
+            });
+        }
+
+        if (occurrences.length === 0 && conflicts.length === 0) {
+            throw new BadRequestException("The series has no dates: none of the days of the week fall in the date range.");
+        }
+        if (allOrNothing && conflicts.length > 0) {
+            throw new BadRequestException({
+                message: `The series was not created: ${conflicts.length} of its dates conflict with existing showtimes.`,
+                conflicts
+            });
+        }
+
+        const created = occurrences.length > 0 ? await this.showTimeRepository.addNewShowTimes(occurrences) : [];
+        return { created: created.map(showtime => withLocalTimes(showtime)), conflicts };
+    }
+
+    /**
+     * Works out the instants a local period of a day starts and ends. An end at or before the
+     * start is on the next day, e.g. 10:00 to 01:00.
+     */
+    private getLocalPeriod(date: string, start: string, end: string): { start: number; end: number } {
+        const endDate = end <= start ? addDays(date, 1) : date;
+        return { start: fromLocalDateTime(date, start).getTime(), end: fromLocalDateTime(endDate, end).getTime() };
+    }
+
+    /**
+     * Drafts a day's programme: fills each theater's opening hours with shows of the given movies,
+     * around the showtimes it already has, giving prime time to the highest-priority movies first
+     * (see buildDailySchedule). Nothing is created; the draft is committed with commitSchedule.
+     * 
+     * @param data - The day, the movies with their priorities, targets and prices, and the theaters with their opening hours
+     * @returns The draft showtimes and how many shows each movie got
+     * @throws BadRequestException if a movie or theater is listed twice, or for an invalid price
+     * @throws NotFoundException if a movie or theater does not exist
+     */
+    async previewSchedule(data: ScheduleRequestDto): Promise<ScheduleDraftDto> {
+        const date = data.date.slice(0, 10);
+        const movieIds = data.movies.map(movie => movie.movieId);
+        const theaterIds = data.theaters.map(theater => theater.theaterId);
+        if (new Set(movieIds).size !== movieIds.length) {
+            throw new BadRequestException("Each movie can only be listed once.");
+        }
+        if (new Set(theaterIds).size !== theaterIds.length) {
+            throw new BadRequestException("Each theater can only be listed once.");
+        }
+        for (const { price, categoryPrices } of data.movies) {
+            this.validatePrices(price, categoryPrices);
+        }
+
+        const movies = new Map<number, Movie>();
+        for (const movieId of movieIds) {
+            const movie = await this.movieRepository.fetchMovieById(movieId);
+            if (!movie) {
+                throw new NotFoundException(`Movie with ID ${movieId} not found.`);
+            }
+            movies.set(movieId, movie);
+        }
+
+        const theaters = new Map<number, Theater>();
+        for (const theaterId of theaterIds) {
+            const theater = await this.theaterRepository.fetchTheaterById(theaterId);
+            if (!theater) {
+                throw new NotFoundException(`Theater with ID ${theaterId} not found.`);
+            }
+            theaters.set(theaterId, theater);
+        }
+
+        // The day before and after cover shows running past midnight and theaters closing after it.
+        const existing = await this.showTimeRepository.getTheaterShowTimes(theaterIds,
+            fromLocalDateTime(addDays(date, -1), '00:00').toISOString(), fromLocalDateTime(addDays(date, 2), '00:00').toISOString());
+
+        const primeTime = this.getLocalPeriod(date, data.primeTimeStart ?? DEFAULT_PRIME_TIME_START, data.primeTimeEnd ?? DEFAULT_PRIME_TIME_END);
+        const shows = buildDailySchedule(
+            data.movies.map(movie => ({
+                movieId: movie.movieId,
+                duration: movies.get(movie.movieId).duration,
+                priority: movie.priority ?? 1,
+                targetShows: movie.targetShows ?? null,
+            })),
+            data.theaters.map(request => {
+                const theater = theaters.get(request.theaterId);
+                const hours = this.getLocalPeriod(date, request.opensAt, request.closesAt);
+                return {
+                    theaterId: theater.id,
+                    opensAt: hours.start,
+                    closesAt: hours.end,
+                    preShowMinutes: theater.preShowMinutes,
+                    turnaroundMinutes: Math.max(request.turnaroundMinutes ?? 0, theater.postShowMinutes),
+                    existingShows: existing
+                        .filter(showtime => showtime.theaterId === theater.id)
+                        .map(showtime => ({ startTime: new Date(showtime.startTime).getTime(), endTime: new Date(showtime.endTime).getTime() })),
+                };
+            }),
+            primeTime);
+
+        const requests = new Map(data.movies.map(movie => [movie.movieId, movie]));
+        return {
+            date,
+            showtimes: shows.map(show => withLocalTimes({
+                movieId: show.movieId,
+                movieTitle: movies.get(show.movieId).title,
+                theaterId: show.theaterId,
+                theaterName: theaters.get(show.theaterId).name,
+                startTime: new Date(show.startTime).toISOString(),
+                endTime: new Date(show.endTime).toISOString(),
+                price: requests.get(show.movieId).price,
+                categoryPrices: requests.get(show.movieId).categoryPrices ?? null,
+                primeTime: show.primeTime,
+            })),
+            movies: data.movies.map(movie => ({
+                movieId: movie.movieId,
+                priority: movie.priority ?? 1,
+                targetShows: movie.targetShows ?? null,
+                scheduledShows: shows.filter(show => show.movieId === movie.movieId).length,
+                primeTimeShows: shows.filter(show => show.movieId === movie.movieId && show.primeTime).length,
+            })),
+        };
+    }
+
+    /**
+     * Commits a draft schedule: creates its showtimes one by one, each checked like a single new
+     * showtime (see addNewShowTime). Showtimes that fail the checks, e.g. because a showtime added
+     * since the preview now overlaps them, are reported and the others are still created.
+     * 
+     * @param data - The showtimes to create, usually those of a previewed draft
+     * @returns The created showtimes and the rejected ones, with the reason
+     */
+    async commitSchedule(data: CommitScheduleDto): Promise<ScheduleCommitResultDto> {
+        const created: LocalizedShowTime[] = [];
+        const rejected: RejectedDraftShowTime[] = [];
+        for (const showtime of data.showtimes) {
+            try {
+                created.push(await this.addNewShowTime(showtime));
+            }
+            catch (error) {
+                if (!(error instanceof BadRequestException || error instanceof NotFoundException)) {
+                    throw error;
+                }
+                rejected.push({ showtime, reason: error.message });
+            }
+        }
+        return { created, rejected };
     }
 
     /**
      * Updates a showtime after performing all relevant validations.
+     * A showtime cannot move to another theater once seats are booked, held or blocked for it:
+     * their seat numbers, labels and categories belong to the current theater's layout.
      * 
      * @param id - Showtime ID to update
      * @param dto - Fields to update
@@ -89,19 +384,39 @@ export class ShowTimeService {
         if (!existing) {
             throw new NotFoundException(`Showtime with ID ${id} not found.`);
         }
+        if (existing.cancelledAt) {
+            throw new BadRequestException(`Showtime ${id} was cancelled and cannot be changed.`);
+        }
 
+        const existingStartTime = new Date(existing.startTime).toISOString();
+        const existingEndTime = new Date(existing.endTime).toISOString();
         const updated: ShowTime = {
             ...existing,
             movieId: dto.movieId ?? existing.movieId,
-            theater: dto.theater?.trim() ?? existing.theater,
-            startTime: dto.startTime ?? existing.startTime,
-            endTime: dto.endTime ?? existing.endTime,
+            theaterId: dto.theaterId ?? existing.theaterId,
+            startTime: dto.startTime ? this.toInstant(dto.startTime, 'Start time') : existingStartTime,
+            endTime: dto.endTime ? this.toInstant(dto.endTime, 'End time') : existingEndTime,
             price: dto.price ?? existing.price,
+            categoryPrices: dto.categoryPrices ?? existing.categoryPrices,
+            dynamicPricing: dto.dynamicPricing ?? existing.dynamicPricing,
+            isPremiere: dto.isPremiere ?? existing.isPremiere,
+            salesOpenAt: dto.salesOpenAt ? this.toInstant(dto.salesOpenAt, 'Sales open at') : existing.salesOpenAt,
+            salesCloseMinutesAfterStart: dto.salesCloseMinutesAfterStart ?? existing.salesCloseMinutesAfterStart,
             id
         };
 
-        if (updated.price <= 0) {
-            throw new BadRequestException("Price must be greater than 0.");
+        this.validatePrices(updated.price, updated.categoryPrices);
+        if (updated.dynamicPricing) {
+            validateDynamicPricing(updated.dynamicPricing);
+        }
+
+        if (updated.theaterId !== existing.theaterId) {
+            if (await this.showTimeRepository.hasBookings(id)) {
+                throw new BadRequestException(`Showtime ${id} has bookings and cannot move to another theater. Cancel it instead.`);
+            }
+            if (await this.showTimeRepository.hasHeldOrBlockedSeats(id)) {
+                throw new BadRequestException(`Showtime ${id} has held or blocked seats and cannot move to another theater.`);
+            }
         }
 
         const movie = await this.movieRepository.fetchMovieById(updated.movieId);
@@ -109,25 +424,34 @@ export class ShowTimeService {
             throw new NotFoundException(`Movie with ID ${updated.movieId} not found.`);
         }
 
+        const theater = await this.theaterRepository.fetchTheaterById(updated.theaterId);
+        if (!theater) {
+            throw new NotFoundException(`Theater with ID ${updated.theaterId} not found.`);
+        }
+
         if (new Date(updated.startTime) >= new Date(updated.endTime)) {
             throw new BadRequestException("End time must be after start time.");
         }
 
+        const expectedDuration = this.getShowDuration(movie, theater);
         const actualDuration = this.calculateDuration(updated.startTime, updated.endTime);
-        if (actualDuration !== movie.duration) {
-            throw new BadRequestException(`Showtime duration must match movie duration (${movie.duration} minutes). You provided ${actualDuration} minutes.`);
+        if (actualDuration !== expectedDuration) {
+            throw new BadRequestException(`Showtime duration must match the movie duration plus the theater's pre-show time (${expectedDuration} minutes). You provided ${actualDuration} minutes.`);
         }
 
+        validateSalesWindow(updated);
+
         const changedTimeOrTheater =
-            updated.startTime !== existing.startTime ||
-            updated.endTime !== existing.endTime ||
-            updated.theater !== existing.theater;
+            updated.startTime !== existingStartTime ||
+            updated.endTime !== existingEndTime ||
+            updated.theaterId !== existing.theaterId;
 
         if (changedTimeOrTheater) {
             const overlap = await this.showTimeRepository.hasOverlappingShowTime(
-                updated.theater,
+                updated.theaterId,
                 updated.startTime,
                 updated.endTime,
+                theater.postShowMinutes,
                 id
             );
         
@@ -142,6 +466,8 @@ export class ShowTimeService {
 
     /**
      * Deletes a showtime by its ID.
+     * A showtime with bookings cannot be deleted, since they would point at a missing showtime;
+     * it has to be cancelled instead (POST /showtimes/:id/cancel), which cancels its bookings.
      */
     async deleteShowTime(id: number): Promise<void> {
         if (!id || id <= 0) {
@@ -153,13 +479,104 @@ export class ShowTimeService {
             throw new NotFoundException(`Showtime with ID ${id} not found.`);
         }
 
+        if (await this.showTimeRepository.hasBookings(id)) {
+            throw new BadRequestException(`Showtime ${id} has bookings and cannot be deleted. Cancel it instead.`);
+        }
+
         await this.showTimeRepository.deleteShowTime(id);
     }
 
+    /**
+     * Searches the showtime listing, one page at a time.
+     * Pages are chained by an opaque cursor: pass each page's `nextCursor` to get the one after it,
+     * with the same filters and sort order.
+     * 
+     * @param filter - Movie, theater, start time, price and availability filters
+     * @param sortBy - Field to sort by
+     * @param order - Sort direction
+     * @param limit - Maximum number of showtimes per page (1-100)
+     * @param cursor - Optional cursor returned with the previous page
+     * @returns The page of showtimes and the cursor of the next page
+     * @throws BadRequestException for an invalid range, limit or cursor
+     */
+    async searchShowTimes(
+        filter: ShowTimeSearchFilter,
+        sortBy: ShowTimeSortField,
+        order: SortOrder,
+        limit: number,
+        cursor?: string
+    ): Promise<ShowTimePageDto> {
+        if (limit < 1 || limit > 100) {
+            throw new BadRequestException("Limit must be between 1 and 100.");
+        }
+        const from = filter.from !== undefined ? this.toInstant(filter.from, "'from'") : undefined;
+        const to = filter.to !== undefined ? this.toInstant(filter.to, "'to'") : undefined;
+        if (from !== undefined && to !== undefined && from >= to) {
+            throw new BadRequestException("'from' must be before 'to'.");
+        }
+        if (filter.minPrice !== undefined && filter.maxPrice !== undefined && filter.minPrice > filter.maxPrice) {
+            throw new BadRequestException("Minimum price cannot be above the maximum price.");
+        }
+        if (filter.minAvailableSeats !== undefined && filter.minAvailableSeats < 0) {
+            throw new BadRequestException("Minimum available seats cannot be negative.");
+        }
+
+        const after = cursor !== undefined ? this.decodeCursor(cursor, sortBy) : undefined;
+        const rows = await this.showTimeRepository.searchShowTimes({ ...filter, from, to }, sortBy, order, limit + 1, after);
+
+        const hasMore = rows.length > limit;
+        const pageRows = rows.slice(0, limit);
+        const items = pageRows.map(row => {
+            const item: Partial<ShowTimeListRow> = { ...row };
+            delete item.sortValue;
+            return withLocalTimes(item as ShowTimeListItem);
+        });
+        const last = pageRows[pageRows.length - 1];
+
+        return {
+            items,
+            limit,
+            nextCursor: hasMore ? this.encodeCursor({ sortBy, value: last.sortValue, id: last.id }) : null
+        };
+    }
+
+    /**
+     * Encodes where the next page of the listing starts as an opaque, URL-safe cursor.
+     */
+    private encodeCursor(cursor: ShowTimeCursor): string {
+        return Buffer.from(JSON.stringify(cursor)).toString('base64url');
+    }
+
+    /**
+     * Decodes a cursor returned with a previous page of the listing sorted the same way.
+     * 
+     * @throws BadRequestException if the cursor is malformed or was returned for another sort field
+     */
+    private decodeCursor(cursor: string, sortBy: ShowTimeSortField): ShowTimeCursor {
+        let decoded: unknown;
+        try {
+            decoded = JSON.parse(Buffer.from(cursor, 'base64url').toString());
+        } catch {
+            throw new BadRequestException("Invalid cursor.");
+        }
+        if (typeof decoded !== 'object' || decoded === null || Array.isArray(decoded)) {
+            throw new BadRequestException("Invalid cursor.");
+        }
+
+        const { sortBy: cursorSortBy, value, id } = decoded as Record<string, unknown>;
+        if (typeof value !== 'string' || typeof id !== 'number' || !Number.isInteger(id)) {
+            throw new BadRequestException("Invalid cursor.");
+        }
+        if (cursorSortBy !== sortBy) {
+            throw new BadRequestException("The cursor belongs to a listing with a different sort order.");
+        }
+        return { sortBy, value, id };
+    }
+
     /**
      * Fetches a showtime by its ID.
      */
-    async fetchShowTimeById(id: number): Promise<ShowTime> {
+    async fetchShowTimeById(id: number): Promise<LocalizedShowTime> {
         if (!id || id <= 0) {
             throw new BadRequestException("Invalid showtime ID.");
         }
@@ -169,6 +586,6 @@ export class ShowTimeService {
             throw new NotFoundException(`Showtime with ID ${id} not found.`);
         }
 
-        return showtime;
+        return withLocalTimes(showtime);
     }
 }
@@ -0,0 +1,207 @@
+/**
+* showTimeSchedule.dto.ts
+*
+* This file defines the Data Transfer Objects (DTOs) for the daily schedule generator: the request
+* for a draft programme (the movies with their priorities and target show counts, and the theaters
+* with their opening hours and turnaround buffers), the draft itself, and the request to commit a
+* draft's showtimes together with the report of which of them were created.
+*/
+
+import { IsInt, IsNumber, Min, Max, IsOptional, ValidateNested, IsMilitaryTime, IsArray, ArrayNotEmpty,
+    IsDateString, IsNotEmpty } from 'class-validator';
+import { Type } from 'class-transformer';
+import { CategoryPricesDto, LocalizedShowTime, ShowTimeDto } from './showTime.dto';
+import { LocalShowTimes } from './timeZone';
+
+export class ScheduleMovieDto {
+    /**
+    * ID of the movie to show.
+    */
+    @IsInt({ message: 'Movie ID must be an integer.' })
+    @Min(1, { message: 'Movie ID must be greater than 0.' })
+    movieId: number;
+
+    /**
+    * (Optional) Priority of the movie, from 1 to 10; higher priorities get prime time first. Defaults to 1.
+    */
+    @IsOptional()
+    @IsInt({ message: 'Priority must be an integer.' })
+    @Min(1, { message: 'Priority must be between 1 and 10.' })
+    @Max(10, { message: 'Priority must be between 1 and 10.' })
+    priority?: number;
+
+    /**
+    * (Optional) How many shows of the movie to schedule at most. Without a target, the movie
+    * fills whatever time the movies with a target leave.
+    */
+    @IsOptional()
+    @IsInt({ message: 'Target shows must be an integer.' })
+    @Min(1, { message: 'Target shows must be at least 1.' })
+    targetShows?: number;
+
+    /**
+    * Ticket price of the movie's shows.
+    */
+    @IsNumber({}, { message: 'Price must be a valid number.' })
+    @Min(0, { message: 'Price must be at least 0.' })
+    price: number;
+
+    /**
+    * (Optional) Ticket price per seat category of the movie's shows.
+    */
+    @IsOptional()
+    @ValidateNested()
+    @Type(() => CategoryPricesDto)
+    categoryPrices?: CategoryPricesDto;
+}
+
+export class ScheduleTheaterDto {
+    /**
+    * ID of the theater to fill.
+    */
+    @IsInt({ message: 'Theater ID must be an integer.' })
+    @Min(1, { message: 'Theater ID must be greater than 0.' })
+    theaterId: number;
+
+    /**
+    * Time the theater opens, in HH:mm format (in the cinema's time zone). No show starts before it.
+    */
+    @IsMilitaryTime({ message: 'Opens at must be in HH:mm format.' })
+    opensAt: string;
+
+    /**
+    * Time the theater closes, in HH:mm format (in the cinema's time zone). Every show ends by then.
+    * A time at or before the opening time is on the next day (e.g. open 10:00 to 01:00).
+    */
+    @IsMilitaryTime({ message: 'Closes at must be in HH:mm format.' })
+    closesAt: string;
+
+    /**
+    * (Optional) Minutes to keep free between shows. Defaults to the theater's cleaning time,
+    * and is never less than it.
+    */
+    @IsOptional()
+    @IsInt({ message: 'Turnaround minutes must be an integer.' })
+    @Min(0, { message: 'Turnaround minutes must be between 0 and 240.' })
+    @Max(240, { message: 'Turnaround minutes must be between 0 and 240.' })
+    turnaroundMinutes?: number;
+}
+
+export class ScheduleRequestDto {
+    /**
+    * The day to schedule (YYYY-MM-DD, in the cinema's time zone).
+    */
+    @IsDateString({}, { message: 'Date must be a valid date string.' })
+    @IsNotEmpty({ message: 'Date is required.' })
+    date: string;
+
+    /**
+    * The movies to show, each at most once.
+    */
+    @IsArray({ message: 'Movies must be an array.' })
+    @ArrayNotEmpty({ message: 'Movies must include at least one movie.' })
+    @ValidateNested({ each: true })
+    @Type(() => ScheduleMovieDto)
+    movies: ScheduleMovieDto[];
+
+    /**
+    * The theaters to fill, each at most once.
+    */
+    @IsArray({ message: 'Theaters must be an array.' })
+    @ArrayNotEmpty({ message: 'Theaters must include at least one theater.' })
+    @ValidateNested({ each: true })
+    @Type(() => ScheduleTheaterDto)
+    theaters: ScheduleTheaterDto[];
+
+    /**
+    * (Optional) When prime time starts, in HH:mm format. Defaults to DEFAULT_PRIME_TIME_START.
+    */
+    @IsOptional()
+    @IsMilitaryTime({ message: 'Prime time start must be in HH:mm format.' })
+    primeTimeStart?: string;
+
+    /**
+    * (Optional) When prime time ends, in HH:mm format; at or before its start is on the next day.
+    * Defaults to DEFAULT_PRIME_TIME_END.
+    */
+    @IsOptional()
+    @IsMilitaryTime({ message: 'Prime time end must be in HH:mm format.' })
+    primeTimeEnd?: string;
+}
+
+/**
+* A showtime of a draft schedule. Its fields are those of a new showtime (see ShowTimeDto),
+* plus the movie title, the theater name and whether it starts in prime time.
+*/
+export interface DraftShowTime extends LocalShowTimes {
+    movieId: number;
+    movieTitle: string;
+    theaterId: number;
+    theaterName: string;
+    startTime: string;
+    endTime: string;
+    price: number;
+    categoryPrices: CategoryPricesDto | null;
+    primeTime: boolean;
+}
+
+/**
+* How many shows a movie got in a draft, against its target.
+*/
+export interface ScheduledMovieSummary {
+    movieId: number;
+    priority: number;
+    targetShows: number | null;
+    scheduledShows: number;
+    primeTimeShows: number;
+}
+
+export class ScheduleDraftDto {
+
+    /**
+    * The day scheduled.
+    */
+    date: string;
+
+    /**
+    * The showtimes of the draft, by start time and theater. None is created until the draft is committed.
+    */
+    showtimes: DraftShowTime[];
+
+    /**
+    * The shows each movie got, in the order of the request.
+    */
+    movies: ScheduledMovieSummary[];
+}
+
+export class CommitScheduleDto {
+    /**
+    * The showtimes to create, usually those of a draft as previewed (or edited).
+    */
+    @IsArray({ message: 'Showtimes must be an array.' })
+    @ArrayNotEmpty({ message: 'Showtimes must include at least one showtime.' })
+    @ValidateNested({ each: true })
+    @Type(() => ShowTimeDto)
+    showtimes: ShowTimeDto[];
+}
+
+/**
+* A showtime of a committed draft that was not created, and why.
+*/
+export interface RejectedDraftShowTime {
+    showtime: ShowTimeDto;
+    reason: string;
+}
+
+export class ScheduleCommitResultDto {
+
+    /**
+    * The showtimes created, with their local times.
+    */
+    created: LocalizedShowTime[];
+
+    /**
+    * The showtimes that failed validation (e.g. a showtime added since the preview now overlaps them).
+    */
+    rejected: RejectedDraftShowTime[];
+}
@@ -0,0 +1,92 @@
+/**
+* showTimeScheduler.spec.ts
+*
+* This file contains unit tests for the daily schedule generator: giving prime time to the
+* highest-priority movies, packing the hours before and after it, keeping the turnaround free
+* around existing showtimes, and spreading movies across theaters.
+*/
+
+import { buildDailySchedule, ScheduleMovie, ScheduleTheater, ScheduledShow } from './showTimeScheduler';
+
+describe('buildDailySchedule', () => {
+  const at = (time: string, day = '2025-03-28') => Date.parse(`${day}T${time}:00Z`);
+  const primeTime = { start: at('18:00'), end: at('22:00') };
+
+  const theater = (theaterId: number, overrides: Partial<ScheduleTheater> = {}): ScheduleTheater => ({
+    theaterId, opensAt: at('10:00'), closesAt: at('00:00', '2025-03-29'), preShowMinutes: 0, turnaroundMinutes: 30,
+    existingShows: [], ...overrides,
+  });
+
+  const movie = (movieId: number, duration: number, priority: number, targetShows: number | null): ScheduleMovie =>
+    ({ movieId, duration, priority, targetShows });
+
+  const times = (shows: ScheduledShow[]) => shows.map(show => ({
+    movieId: show.movieId, theaterId: show.theaterId, startTime: new Date(show.startTime).toISOString().slice(11, 16),
+  }));
+
+  /**
+  * Should give prime time to the top movie and pack the lower-priority movie into the hours before it.
+  */
+  it('should give prime time to the highest priority', () => {
+    const shows = buildDailySchedule([movie(1, 120, 5, 2), movie(2, 90, 1, 3)], [theater(1)], primeTime);
+
+    expect(times(shows)).toEqual([
+      { movieId: 2, theaterId: 1, startTime: '12:00' },
+      { movieId: 2, theaterId: 1, startTime: '14:00' },
+      { movieId: 2, theaterId: 1, startTime: '16:00' },
+      { movieId: 1, theaterId: 1, startTime: '18:00' },
+      { movieId: 1, theaterId: 1, startTime: '20:30' },
+    ]);
+    expect(shows.filter(show => show.primeTime).map(show => show.movieId)).toEqual([1, 1]);
+  });
+
+  /**
+  * Should leave the theater's turnaround free around a showtime it already has.
+  */
+  it('should schedule around existing showtimes', () => {
+    const existingShows = [{ startTime: at('18:00'), endTime: at('20:00') }];
+
+    const shows = buildDailySchedule([movie(1, 90, 5, 1)], [theater(1, { existingShows })], primeTime);
+
+    expect(times(shows)).toEqual([{ movieId: 1, theaterId: 1, startTime: '20:30' }]);
+  });
+
+  /**
+  * Should spread a movie's shows across theaters and fill the remaining time with the movie without a target.
+  */
+  it('should spread shows across theaters and fill the rest', () => {
+    const theaters = [1, 2].map(id => theater(id, { opensAt: at('17:00'), closesAt: at('23:00'), turnaroundMinutes: 0 }));
+
+    const shows = buildDailySchedule([movie(1, 120, 10, 2), movie(2, 60, 1, null)], theaters, primeTime);
+
+    expect(shows.filter(show => show.movieId === 1).map(show => show.theaterId)).toEqual([1, 2]);
+    for (const theaterId of [1, 2]) {
+      expect(times(shows.filter(show => show.theaterId === theaterId)).map(show => `${show.movieId}@${show.startTime}`))
+        .toEqual(['2@17:00', '1@18:00', '2@20:00', '2@21:00', '2@22:00']);
+    }
+  });
+
+  /**
+  * Should keep every show within opening hours, after the pre-show, and apart by the turnaround.
+  */
+  it('should never overlap or run past closing time', () => {
+    const theaters = [theater(1, { preShowMinutes: 20, closesAt: at('01:00', '2025-03-29') }), theater(2)];
+
+    const shows = buildDailySchedule([movie(1, 135, 3, null), movie(2, 100, 2, 4), movie(3, 95, 1, 2)], theaters, primeTime);
+
+    for (const { theaterId, opensAt, closesAt, preShowMinutes, turnaroundMinutes } of theaters) {
+      const inTheater = shows.filter(show => show.theaterId === theaterId);
+      inTheater.forEach((show, index) => {
+        const duration = [135, 100, 95][show.movieId - 1];
+        expect(show.endTime - show.startTime).toBe((preShowMinutes + duration) * 60 * 1000);
+        expect(show.startTime).toBeGreaterThanOrEqual(opensAt);
+        expect(show.endTime).toBeLessThanOrEqual(closesAt);
+        if (index > 0) {
+          expect(show.startTime).toBeGreaterThanOrEqual(inTheater[index - 1].endTime + turnaroundMinutes * 60 * 1000);
+        }
+      });
+    }
+    expect(shows.filter(show => show.movieId === 2)).toHaveLength(4);
+    expect(shows.filter(show => show.movieId === 3)).toHaveLength(2);
+  });
+});
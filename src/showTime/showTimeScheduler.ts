@@ -0,0 +1,226 @@
+/**
+* showTimeScheduler.ts
+*
+* Builds a draft programme for one day across several theaters, so managers do not have to place
+* every showtime by hand. Each movie has a priority and, optionally, a target number of shows;
+* movies without a target fill whatever time is left. Each theater is open between its opening
+* and closing time, runs its pre-show before every movie and keeps its turnaround time free after
+* every show, around the showtimes it already has.
+*
+* The day is filled in three passes:
+* 1. Prime time: from the start of prime time, the highest-priority movie that still wants shows
+*    takes the next slot, so the best slots go to the top movies
+* 2. After prime time: the rest of the evening is packed forward, shows with a target first
+* 3. Before prime time: the earlier hours are packed backward from the first evening show,
+*    so no gap is left just before prime time
+*
+* Theaters take turns within each pass, so a movie's shows are spread across them. The result
+* never overlaps itself or the existing showtimes; it is still only a draft until committed.
+*/
+
+const MINUTE_MS = 60 * 1000;
+
+/**
+* A movie to schedule.
+*/
+export interface ScheduleMovie {
+    movieId: number;
+    duration: number;               // Minutes
+    priority: number;               // Higher goes first
+    targetShows: number | null;     // null: as many shows as fit
+}
+
+/**
+* A theater to schedule, with its opening hours and the showtimes it already has. Times are epoch milliseconds.
+*/
+export interface ScheduleTheater {
+    theaterId: number;
+    opensAt: number;
+    closesAt: number;               // Shows must end by then
+    preShowMinutes: number;
+    turnaroundMinutes: number;
+    existingShows: { startTime: number; endTime: number }[];
+}
+
+/**
+* A show placed in the draft. Times are epoch milliseconds.
+*/
+export interface ScheduledShow {
+    movieId: number;
+    theaterId: number;
+    startTime: number;
+    endTime: number;
+    primeTime: boolean;
+}
+
+/**
+* The period a show keeps a theater busy: from its start until its turnaround after it ends.
+*/
+interface Occupancy {
+    start: number;
+    end: number;
+}
+
+/**
+* A theater's day as it is being filled.
+*/
+class TheaterTimeline {
+    readonly occupied: Occupancy[];
+
+    constructor(readonly theater: ScheduleTheater) {
+        this.occupied = theater.existingShows
+            .map(show => ({ start: show.startTime, end: show.endTime + this.turnaround }))
+            .sort((a, b) => a.start - b.start);
+    }
+
+    get turnaround(): number {
+        return this.theater.turnaroundMinutes * MINUTE_MS;
+    }
+
+    /**
+    * How long a show of the movie keeps the theater busy, turnaround included.
+    */
+    occupancy(movie: ScheduleMovie): number {
+        return (this.theater.preShowMinutes + movie.duration) * MINUTE_MS + this.turnaround;
+    }
+
+    /**
+    * Finds the earliest start at or after `from` where a show of the movie fits, or null.
+    */
+    earliestStart(movie: ScheduleMovie, from: number): number | null {
+        const length = this.occupancy(movie);
+        let start = Math.max(from, this.theater.opensAt);
+        for (const busy of this.occupied) {
+            if (busy.end <= start) {
+                continue;
+            }
+            if (start + length <= busy.start) {
+                break;
+            }
+            start = busy.end;
+        }
+        return start + length <= this.theater.closesAt + this.turnaround ? start : null;
+    }
+
+    /**
+    * Finds the latest start where a show of the movie fits and is over, turnaround included, by `until`, or null.
+    */
+    latestStart(movie: ScheduleMovie, until: number): number | null {
+        const length = this.occupancy(movie);
+        let end = Math.min(until, this.theater.closesAt + this.turnaround);
+        for (const busy of [...this.occupied].reverse()) {
+            if (busy.start >= end) {
+                continue;
+            }
+            if (busy.end <= end - length) {
+                break;
+            }
+            end = busy.start;
+        }
+        return end - length >= this.theater.opensAt ? end - length : null;
+    }
+
+    /**
+    * Marks the theater busy for a show of the movie starting at `start`.
+    */
+    place(movie: ScheduleMovie, start: number): void {
+        this.occupied.push({ start, end: start + this.occupancy(movie) });
+        this.occupied.sort((a, b) => a.start - b.start);
+    }
+}
+
+/**
+* A movie picked for a theater's next slot, and when its show starts.
+*/
+interface Pick {
+    movie: ScheduleMovie;
+    start: number;
+}
+
+/**
+* Picks the candidate whose show starts the soonest (or, going backward, the latest), the one
+* listed first on a tie.
+*/
+function pickBySlot(candidates: ScheduleMovie[], startOf: (movie: ScheduleMovie) => number | null, backward: boolean): Pick | null {
+    let best: Pick | null = null;
+    for (const movie of candidates) {
+        const start = startOf(movie);
+        if (start !== null && (!best || (backward ? start > best.start : start < best.start))) {
+            best = { movie, start };
+        }
+    }
+    return best;
+}
+
+/**
+* Builds a conflict-free draft programme for a day.
+*
+* @param movies - The movies to show, with their priority and target number of shows
+* @param theaters - The theaters to fill, with their opening hours, buffers and existing showtimes
+* @param primeTime - When prime time starts and ends, as epoch milliseconds
+* @returns the shows of the draft, ordered by start time and theater
+*/
+export function buildDailySchedule(
+    movies: ScheduleMovie[], theaters: ScheduleTheater[], primeTime: { start: number; end: number }): ScheduledShow[] {
+    const timelines = theaters.map(theater => new TheaterTimeline(theater));
+    const remaining = new Map(movies.map(movie => [movie.movieId, movie.targetShows]));
+    const shows: ScheduledShow[] = [];
+
+    // Prime time goes to the highest priority; outside it, movies with a target come before those filling time.
+    const byPriority = [...movies].sort((a, b) => b.priority - a.priority || a.movieId - b.movieId);
+    const byTarget = [...byPriority].sort((a, b) => Number(a.targetShows === null) - Number(b.targetShows === null));
+    const wantingShows = (candidates: ScheduleMovie[]) => candidates.filter(movie => remaining.get(movie.movieId) !== 0);
+
+    /**
+    * Runs one pass: the theater furthest behind (or, going backward, furthest ahead) takes turns
+    * picking a movie for its next slot, until no theater can fit another show.
+    */
+    const fill = (cursors: Map<TheaterTimeline, number>, backward: boolean,
+        choose: (timeline: TheaterTimeline, cursor: number) => Pick | null) => {
+        while (cursors.size > 0) {
+            const [timeline, cursor] = [...cursors].reduce((next, entry) => (backward ? entry[1] > next[1] : entry[1] < next[1]) ? entry : next);
+            const pick = choose(timeline, cursor);
+            if (!pick) {
+                cursors.delete(timeline);
+                continue;
+            }
+
+            timeline.place(pick.movie, pick.start);
+            const left = remaining.get(pick.movie.movieId);
+            remaining.set(pick.movie.movieId, left === null ? null : left - 1);
+            shows.push({
+                movieId: pick.movie.movieId,
+                theaterId: timeline.theater.theaterId,
+                startTime: pick.start,
+                endTime: pick.start + (timeline.theater.preShowMinutes + pick.movie.duration) * MINUTE_MS,
+                primeTime: pick.start >= primeTime.start && pick.start < primeTime.end,
+            });
+            cursors.set(timeline, backward ? pick.start : pick.start + timeline.occupancy(pick.movie));
+        }
+    };
+
+    // 1. Prime time: the top movie that can still start before prime time ends takes the slot.
+    const primeStarts = new Map(timelines.map(timeline => [timeline, Math.max(primeTime.start, timeline.theater.opensAt)]));
+    fill(new Map(primeStarts), false, (timeline, cursor) => {
+        for (const movie of wantingShows(byPriority)) {
+            const start = timeline.earliestStart(movie, cursor);
+            if (start !== null && start < primeTime.end) {
+                return { movie, start };
+            }
+        }
+        return null;
+    });
+
+    // 2. After prime time: pack forward, taking whichever movie can start the soonest.
+    fill(new Map(primeStarts), false,
+        (timeline, cursor) => pickBySlot(wantingShows(byTarget), movie => timeline.earliestStart(movie, cursor), false));
+
+    // 3. Before prime time: pack backward from the theater's first new show, taking whichever movie can start the latest.
+    const firstShows = new Map(timelines.map(timeline => [timeline, shows
+        .filter(show => show.theaterId === timeline.theater.theaterId)
+        .reduce((first, show) => Math.min(first, show.startTime), timeline.theater.closesAt + timeline.turnaround)]));
+    fill(firstShows, true,
+        (timeline, cursor) => pickBySlot(wantingShows(byTarget), movie => timeline.latestStart(movie, cursor), true));
+
+    return shows.sort((a, b) => a.startTime - b.startTime || a.theaterId - b.theaterId);
+}
@@ -0,0 +1,94 @@
+/**
+* showTimeSearch.dto.ts
+*
+* These types describe a search of the showtime listing (GET /showtimes): the filters, the sort
+* order, and one page of matching showtimes with the cursor to fetch the next page from.
+*/
+
+import { SeatCategory } from "../theater/theater.entity";
+import { LocalShowTimes } from "./timeZone";
+
+/**
+* The field the showtime listing is sorted by. Ties are broken by showtime ID.
+*/
+export enum ShowTimeSortField {
+    START_TIME = 'startTime',
+    PRICE = 'price',
+    AVAILABLE_SEATS = 'availableSeats',
+}
+
+/**
+* The direction the showtime listing is sorted in.
+*/
+export enum SortOrder {
+    ASC = 'asc',
+    DESC = 'desc',
+}
+
+/**
+* Filters for the showtime listing. Every filter is optional; showtimes must match all given ones.
+* - from / to: the show starts at or after `from` and before `to` (without an offset, in the cinema's local time)
+* - minPrice / maxPrice: the showtime's base ticket price is within the range (inclusive)
+* - minAvailableSeats: at least this many seats are still for sale
+*/
+export interface ShowTimeSearchFilter {
+    movieId?: number;
+    theaterId?: number;
+    from?: string;
+    to?: string;
+    minPrice?: number;
+    maxPrice?: number;
+    minAvailableSeats?: number;
+}
+
+/**
+* Where a page of the listing starts: right after the showtime with this sort value and ID,
+* in the listing sorted by `sortBy`.
+*/
+export interface ShowTimeCursor {
+    sortBy: ShowTimeSortField;
+    value: string;
+    id: number;
+}
+
+/**
+* A showtime in the listing, with its movie title, theater name and the seats still for sale.
+*/
+export interface ShowTimeListItem {
+    id: number;
+    movieId: number;
+    movieTitle: string;
+    theaterId: number;
+    theaterName: string;
+    startTime: string;
+    endTime: string;
+    price: number;
+    categoryPrices: Partial<Record<SeatCategory, number>> | null;
+    isPremiere: boolean;
+    availableSeats: number;
+}
+
+/**
+* A listed showtime as read from the database, with its sort value as text for the cursor.
+*/
+export interface ShowTimeListRow extends ShowTimeListItem {
+    sortValue: string;
+}
+
+export class ShowTimePageDto {
+
+    /**
+    * The showtimes on this page, in the requested order, with their local times.
+    */
+    items: (ShowTimeListItem & LocalShowTimes)[];
+
+    /**
+    * The maximum number of showtimes per page.
+    */
+    limit: number;
+
+    /**
+    * The cursor to pass to fetch the next page, or null on the last page.
+    */
+    nextCursor: string | null;
+}
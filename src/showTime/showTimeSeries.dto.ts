@@ -0,0 +1,113 @@
+/**
+* showTimeSeries.dto.ts
+*
+* This file defines the Data Transfer Objects (DTOs) for a recurring showtime series: a movie shown
+* in a theater at the same time of day on the chosen days of the week over a date range, and the
+* report of which of its dates were created and which conflicted with existing showtimes.
+*/
+
+import { IsInt, IsNotEmpty, IsDateString, IsNumber, Min, Max, IsOptional, ValidateNested, IsBoolean,
+    IsMilitaryTime, IsArray, ArrayNotEmpty, ArrayUnique } from 'class-validator';
+import { Type } from 'class-transformer';
+import { CategoryPricesDto, LocalizedShowTime } from './showTime.dto';
+
+export class ShowTimeSeriesDto {
+    /**
+    * ID of the movie shown in every occurrence.
+    */
+    @IsInt({ message: 'Movie ID must be an integer.' })
+    @Min(1, { message: 'Movie ID must be greater than 0.' })
+    movieId: number;
+
+    /**
+    * ID of the theater hosting every occurrence.
+    */
+    @IsInt({ message: 'Theater ID must be an integer.' })
+    @Min(1, { message: 'Theater ID must be greater than 0.' })
+    theaterId: number;
+
+    /**
+    * Time of day every occurrence starts, in HH:mm format (24-hour, in the cinema's time zone).
+    * Each occurrence ends after the theater's pre-show time and the movie's duration.
+    */
+    @IsMilitaryTime({ message: 'Start time of day must be in HH:mm format.' })
+    startTimeOfDay: string;
+
+    /**
+    * Days of the week the movie is shown, from 0 (Sunday) to 6 (Saturday).
+    */
+    @IsArray({ message: 'Days of week must be an array.' })
+    @ArrayNotEmpty({ message: 'Days of week must include at least one day.' })
+    @ArrayUnique({ message: 'Days of week must not repeat.' })
+    @IsInt({ each: true, message: 'Each day of week must be an integer.' })
+    @Min(0, { each: true, message: 'Each day of week must be between 0 (Sunday) and 6 (Saturday).' })
+    @Max(6, { each: true, message: 'Each day of week must be between 0 (Sunday) and 6 (Saturday).' })
+    daysOfWeek: number[];
+
+    /**
+    * First date of the series (YYYY-MM-DD, in the cinema's time zone), included.
+    */
+    @IsDateString({}, { message: 'From date must be a valid date string.' })
+    @IsNotEmpty({ message: 'From date is required.' })
+    fromDate: string;
+
+    /**
+    * Last date of the series (YYYY-MM-DD, in the cinema's time zone), included.
+    */
+    @IsDateString({}, { message: 'To date must be a valid date string.' })
+    @IsNotEmpty({ message: 'To date is required.' })
+    toDate: string;
+
+    /**
+    * Ticket price of every occurrence.
+    */
+    @IsNumber({}, { message: 'Price must be a valid number.' })
+    @Min(0, { message: 'Price must be at least 0.' })
+    price: number;
+
+    /**
+    * (Optional) Ticket price per seat category of every occurrence.
+    */
+    @IsOptional()
+    @ValidateNested()
+    @Type(() => CategoryPricesDto)
+    categoryPrices?: CategoryPricesDto;
+
+    /**
+    * (Optional) Whether the occurrences are premieres. Defaults to false.
+    */
+    @IsOptional()
+    @IsBoolean({ message: 'Is premiere must be a boolean.' })
+    isPremiere?: boolean;
+
+    /**
+    * (Optional) Whether to create nothing if any date conflicts. Defaults to false,
+    * which creates the dates that are free and reports the others.
+    */
+    @IsOptional()
+    @IsBoolean({ message: 'All or nothing must be a boolean.' })
+    allOrNothing?: boolean;
+}
+
+/**
+* A date of a series that could not be created, and why.
+*/
+export interface ShowTimeSeriesConflict {
+    date: string;
+    startTime: string;
+    endTime: string;
+    reason: string;
+}
+
+export class ShowTimeSeriesResultDto {
+
+    /**
+    * The showtimes created, one per date, with their local times.
+    */
+    created: LocalizedShowTime[];
+
+    /**
+    * The dates that were not created because they conflicted with existing showtimes.
+    */
+    conflicts: ShowTimeSeriesConflict[];
+}
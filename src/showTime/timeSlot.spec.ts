@@ -0,0 +1,48 @@
+/**
+* timeSlot.spec.ts
+*
+* This file contains unit tests for checking a showtime against a time slot: its days of the week
+* and start times of day, read on the cinema's clocks.
+*/
+
+import { isInTimeSlot } from './timeSlot';
+
+describe('time slots', () => {
+  // Tuesday 7 January 2025, 19:30 in the cinema's time zone (UTC unless CINEMA_TIME_ZONE is set)
+  const tuesdayEvening = new Date('2025-01-07T19:30:00Z');
+
+  /**
+  * Should accept any showtime when there is no time slot.
+  */
+  it('should accept any showtime without a time slot', () => {
+    expect(isInTimeSlot({ daysOfWeek: null, startTimeFrom: null, startTimeTo: null }, tuesdayEvening)).toBe(true);
+  });
+
+  /**
+  * Should only accept showtimes on the slot's days of the week.
+  */
+  it('should check the day of the week', () => {
+    expect(isInTimeSlot({ daysOfWeek: [2], startTimeFrom: null, startTimeTo: null }, tuesdayEvening)).toBe(true);
+    expect(isInTimeSlot({ daysOfWeek: [0, 6], startTimeFrom: null, startTimeTo: null }, tuesdayEvening)).toBe(false);
+  });
+
+  /**
+  * Should accept start times from `startTimeFrom` (inclusive) up to `startTimeTo` (exclusive).
+  */
+  it('should check the start time of day', () => {
+    expect(isInTimeSlot({ daysOfWeek: null, startTimeFrom: '19:30', startTimeTo: '22:00' }, tuesdayEvening)).toBe(true);
+    expect(isInTimeSlot({ daysOfWeek: null, startTimeFrom: '12:00', startTimeTo: '19:30' }, tuesdayEvening)).toBe(false);
+    expect(isInTimeSlot({ daysOfWeek: null, startTimeFrom: '20:00', startTimeTo: null }, tuesdayEvening)).toBe(false);
+  });
+
+  /**
+  * Should read the day and time of day on the cinema's clocks, not the server's.
+  */
+  it('should check the time slot in the cinema time zone', () => {
+    // Tuesday 23:30 UTC is already Wednesday 01:30 in Jerusalem
+    const lateTuesday = new Date('2025-01-07T23:30:00Z');
+
+    expect(isInTimeSlot({ daysOfWeek: [3], startTimeFrom: '01:00', startTimeTo: '02:00' }, lateTuesday, 'Asia/Jerusalem')).toBe(true);
+    expect(isInTimeSlot({ daysOfWeek: [2], startTimeFrom: null, startTimeTo: null }, lateTuesday, 'Asia/Jerusalem')).toBe(false);
+  });
+});
@@ -0,0 +1,47 @@
+/**
+* timeSlot.ts
+*
+* Helpers for matching a showtime against a time slot: some days of the week and/or a range of
+* start times of day, as used by promo codes and dynamic pricing rules.
+* Days of the week and times of day are read on the cinema's clocks (see CINEMA_TIME_ZONE),
+* and times of day are compared as "HH:MM" strings.
+*/
+
+import { CINEMA_TIME_ZONE } from "./showTime.constants";
+import { getLocalDateTime } from "./timeZone";
+
+/**
+* Days of the week (0 for Sunday to 6 for Saturday) and/or start times of day ("HH:MM", from inclusive,
+* to exclusive). A missing or empty field does not restrict the slot.
+*/
+export interface TimeSlot {
+    daysOfWeek?: number[] | null;
+    startTimeFrom?: string | null;
+    startTimeTo?: string | null;
+}
+
+/**
+* Formats the time of day of a date on the cinema's clocks as "HH:MM".
+*/
+export function toTimeOfDay(date: Date, timeZone = CINEMA_TIME_ZONE): string {
+    return getLocalDateTime(date, timeZone).time.slice(0, 5);
+}
+
+/**
+* Checks whether a showtime starting at `startTime` falls on one of the slot's days of the week and
+* between its start times.
+*/
+export function isInTimeSlot(slot: TimeSlot, startTime: Date, timeZone = CINEMA_TIME_ZONE): boolean {
+    if (slot.daysOfWeek?.length && !slot.daysOfWeek.includes(getLocalDateTime(startTime, timeZone).dayOfWeek)) {
+        return false;
+    }
+
+    const timeOfDay = toTimeOfDay(startTime, timeZone);
+    if (slot.startTimeFrom && timeOfDay < slot.startTimeFrom) {
+        return false;
+    }
+    if (slot.startTimeTo && timeOfDay >= slot.startTimeTo) {
+        return false;
+    }
+    return true;
+}
@@ -0,0 +1,90 @@
+/**
+* timeZone.spec.ts
+*
+* This file contains unit tests for reading showtimes in the cinema's time zone: converting instants
+* to wall-clock times and back, parsing date-times with and without an offset, and the
+* daylight-saving edge cases (skipped and repeated wall-clock times, offsets changing mid-show).
+*/
+
+import { addDays, fromLocalDateTime, getLocalDateTime, parseShowTimeInstant, toLocalIsoString, withLocalTimes } from './timeZone';
+
+describe('timeZone', () => {
+  /**
+  * Should read an instant on the cinema's clocks, with the offset in effect at that instant.
+  */
+  it('should read local date, time and offset', () => {
+    expect(getLocalDateTime(new Date('2025-03-28T17:30:00Z'), 'Asia/Jerusalem'))
+      .toEqual({ date: '2025-03-28', time: '20:30:00', dayOfWeek: 5, offsetMinutes: 180 });
+    expect(getLocalDateTime(new Date('2025-01-07T23:30:00Z'), 'America/New_York'))
+      .toEqual({ date: '2025-01-07', time: '18:30:00', dayOfWeek: 2, offsetMinutes: -300 });
+  });
+
+  /**
+  * Should format local times with the offset before and after clocks go forward.
+  */
+  it('should format local ISO strings across a daylight-saving change', () => {
+    expect(toLocalIsoString(new Date('2025-03-09T06:59:00Z'), 'America/New_York')).toBe('2025-03-09T01:59:00-05:00');
+    expect(toLocalIsoString(new Date('2025-03-09T07:00:00Z'), 'America/New_York')).toBe('2025-03-09T03:00:00-04:00');
+    expect(toLocalIsoString(new Date('2025-03-09T07:00:00Z'), 'UTC')).toBe('2025-03-09T07:00:00+00:00');
+  });
+
+  /**
+  * Should turn a wall-clock time into an instant using the offset of that day.
+  */
+  it('should convert local times to instants', () => {
+    expect(fromLocalDateTime('2025-07-01', '20:30', 'America/New_York')).toEqual(new Date('2025-07-02T00:30:00Z'));
+    expect(fromLocalDateTime('2025-12-01', '20:30', 'America/New_York')).toEqual(new Date('2025-12-02T01:30:00Z'));
+    expect(fromLocalDateTime('2025-12-01', '20:30:15', 'UTC')).toEqual(new Date('2025-12-01T20:30:15Z'));
+  });
+
+  /**
+  * Should move a wall-clock time skipped when clocks go forward by the length of the gap.
+  */
+  it('should move a skipped local time forward', () => {
+    const instant = fromLocalDateTime('2025-03-09', '02:30', 'America/New_York');
+
+    expect(instant).toEqual(new Date('2025-03-09T07:30:00Z'));
+    expect(toLocalIsoString(instant, 'America/New_York')).toBe('2025-03-09T03:30:00-04:00');
+  });
+
+  /**
+  * Should take a wall-clock time repeated when clocks go back at its first occurrence.
+  */
+  it('should take the first occurrence of a repeated local time', () => {
+    expect(fromLocalDateTime('2025-11-02', '01:30', 'America/New_York')).toEqual(new Date('2025-11-02T05:30:00Z'));
+  });
+
+  /**
+  * Should keep date-times with an offset as given and read the others as local time.
+  */
+  it('should parse date-times with and without an offset', () => {
+    expect(parseShowTimeInstant('2025-03-28T20:30:00+03:00', 'UTC')).toEqual(new Date('2025-03-28T17:30:00Z'));
+    expect(parseShowTimeInstant('2025-03-28T20:30:00Z', 'Asia/Jerusalem')).toEqual(new Date('2025-03-28T20:30:00Z'));
+    expect(parseShowTimeInstant('2025-03-28T20:30', 'Asia/Jerusalem')).toEqual(new Date('2025-03-28T17:30:00Z'));
+    expect(parseShowTimeInstant('2025-03-27T20:30:00.000', 'Asia/Jerusalem')).toEqual(new Date('2025-03-27T18:30:00Z'));
+    expect(parseShowTimeInstant('2025-03-28', 'Asia/Jerusalem')).toEqual(new Date('2025-03-27T22:00:00Z'));
+    expect(parseShowTimeInstant('tomorrow', 'UTC').getTime()).toBeNaN();
+  });
+
+  /**
+  * Should measure a show spanning the change by its real length, not its wall-clock length.
+  */
+  it('should keep durations exact when clocks go back mid-show', () => {
+    const start = parseShowTimeInstant('2025-11-02T00:30:00', 'America/New_York');
+    const end = parseShowTimeInstant('2025-11-02T01:30:00-05:00', 'America/New_York');
+
+    expect((end.getTime() - start.getTime()) / 60000).toBe(120);
+    expect(withLocalTimes({ startTime: start, endTime: end }, 'America/New_York')).toEqual(expect.objectContaining({
+      timeZone: 'America/New_York', startTimeLocal: '2025-11-02T00:30:00-04:00', endTimeLocal: '2025-11-02T01:30:00-05:00',
+    }));
+  });
+
+  /**
+  * Should add calendar days regardless of daylight-saving changes.
+  */
+  it('should add calendar days', () => {
+    expect(addDays('2025-03-08', 1)).toBe('2025-03-09');
+    expect(addDays('2025-12-31', 1)).toBe('2026-01-01');
+    expect(addDays('2025-03-10', -2)).toBe('2025-03-08');
+  });
+});
@@ -0,0 +1,156 @@
+/**
+* timeZone.ts
+*
+* Helpers for showtimes in the cinema's time zone (see CINEMA_TIME_ZONE). Showtimes are stored as
+* absolute instants; these helpers turn an instant into the cinema's wall-clock date and time,
+* and a wall-clock date and time back into an instant, across daylight-saving changes:
+* - A wall-clock time skipped when clocks go forward is moved forward by the gap (02:30 becomes 03:30)
+* - A wall-clock time repeated when clocks go back is taken at its first occurrence
+*/
+
+import { CINEMA_TIME_ZONE } from "./showTime.constants";
+
+/**
+* An instant as read on the cinema's clocks.
+*/
+export interface LocalDateTime {
+    date: string;           // YYYY-MM-DD
+    time: string;           // HH:mm:ss
+    dayOfWeek: number;      // 0 (Sunday) to 6 (Saturday)
+    offsetMinutes: number;  // Offset from UTC, e.g. 180 for +03:00
+}
+
+/**
+* A showtime's start and end as read on the cinema's clocks, returned next to the UTC times.
+*/
+export interface LocalShowTimes {
+    timeZone: string;
+    startTimeLocal: string;
+    endTimeLocal: string;
+}
+
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+const OFFSET_PATTERN = /(Z|[+-]\d{2}:?\d{2})$/i;
+const LOCAL_DATE_TIME_PATTERN = /^(\d{4}-\d{2}-\d{2})(?:[T ](\d{2}:\d{2}(?::\d{2})?)(?:\.\d+)?)?$/;
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+/**
+* Returns a cached formatter reading instants on the clocks of the given time zone.
+*/
+function getFormatter(timeZone: string): Intl.DateTimeFormat {
+    let formatter = formatters.get(timeZone);
+    if (!formatter) {
+        formatter = new Intl.DateTimeFormat('en-US', {
+            timeZone,
+            hourCycle: 'h23',
+            year: 'numeric',
+            month: '2-digit',
+            day: '2-digit',
+            hour: '2-digit',
+            minute: '2-digit',
+            second: '2-digit',
+        });
+        formatters.set(timeZone, formatter);
+    }
+    return formatter;
+}
+
+/**
+* Reads an instant on the clocks of the given time zone.
+*/
+export function getLocalDateTime(instant: Date, timeZone = CINEMA_TIME_ZONE): LocalDateTime {
+    const parts = Object.fromEntries(getFormatter(timeZone).formatToParts(instant).map(part => [part.type, part.value]));
+    const date = `${parts.year}-${parts.month}-${parts.day}`;
+    const time = `${parts.hour}:${parts.minute}:${parts.second}`;
+
+    const wallClock = Date.UTC(Number(parts.year), Number(parts.month) - 1, Number(parts.day),
+        Number(parts.hour), Number(parts.minute), Number(parts.second));
+    const offsetMinutes = Math.round((wallClock - Math.floor(instant.getTime() / 1000) * 1000) / MINUTE_MS);
+
+    return { date, time, dayOfWeek: new Date(wallClock).getUTCDay(), offsetMinutes };
+}
+
+/**
+* Formats an instant as the cinema's wall-clock time with its offset, e.g. "2025-03-28T20:30:00+03:00".
+*/
+export function toLocalIsoString(instant: Date, timeZone = CINEMA_TIME_ZONE): string {
+    const { date, time, offsetMinutes } = getLocalDateTime(instant, timeZone);
+    const sign = offsetMinutes < 0 ? '-' : '+';
+    const hours = String(Math.floor(Math.abs(offsetMinutes) / 60)).padStart(2, '0');
+    const minutes = String(Math.abs(offsetMinutes) % 60).padStart(2, '0');
+    return `${date}T${time}${sign}${hours}:${minutes}`;
+}
+
+/**
+* Finds the instant at which the cinema's clocks show the given date and time.
+*
+* @param date - The wall-clock date, as YYYY-MM-DD.
+* @param time - The wall-clock time, as HH:mm or HH:mm:ss.
+* @returns the instant, or an invalid date if the date or time is malformed.
+*/
+export function fromLocalDateTime(date: string, time: string, timeZone = CINEMA_TIME_ZONE): Date {
+    const wallClock = new Date(`${date}T${time.length === 5 ? `${time}:00` : time}Z`).getTime();
+    if (isNaN(wallClock)) {
+        return new Date(NaN);
+    }
+
+    // The offsets a day before and after cover both sides of any daylight-saving change that day.
+    const offsets = [wallClock - DAY_MS, wallClock + DAY_MS]
+        .map(instant => getLocalDateTime(new Date(instant), timeZone).offsetMinutes);
+    const matches = offsets
+        .map(offset => wallClock - offset * MINUTE_MS)
+        .filter(instant => Date.UTC(...toUtcFields(getLocalDateTime(new Date(instant), timeZone))) === wallClock)
+        .sort((a, b) => a - b);
+
+    // No match: the time was skipped when clocks went forward, so read it with the offset from before the change.
+    return new Date(matches[0] ?? wallClock - offsets[0] * MINUTE_MS);
+}
+
+/**
+* Splits a wall-clock date and time into the fields of Date.UTC.
+*/
+function toUtcFields({ date, time }: LocalDateTime): [number, number, number, number, number, number] {
+    const [year, month, day] = date.split('-').map(Number);
+    const [hours, minutes, seconds] = time.split(':').map(Number);
+    return [year, month - 1, day, hours, minutes, seconds];
+}
+
+/**
+* Parses a showtime date-time. Times with an offset or "Z" are taken as given; times without one
+* are the cinema's wall-clock time.
+*
+* @returns the instant, or an invalid date if the value cannot be parsed.
+*/
+export function parseShowTimeInstant(value: string, timeZone = CINEMA_TIME_ZONE): Date {
+    if (OFFSET_PATTERN.test(value)) {
+        return new Date(value);
+    }
+
+    const match = LOCAL_DATE_TIME_PATTERN.exec(value);
+    if (!match) {
+        return new Date(NaN);
+    }
+    return fromLocalDateTime(match[1], match[2] ?? '00:00', timeZone);
+}
+
+/**
+* Adds days to a calendar date (YYYY-MM-DD), whatever the clocks do that day.
+*/
+export function addDays(date: string, days: number): string {
+    return new Date(new Date(`${date}T00:00:00Z`).getTime() + days * DAY_MS).toISOString().slice(0, 10);
+}
+
+/**
+* Adds the cinema's wall-clock start and end times to a showtime.
+*/
+export function withLocalTimes<T extends { startTime: string | Date; endTime: string | Date }>(
+    showtime: T, timeZone = CINEMA_TIME_ZONE): T & LocalShowTimes {
+    return {
+        ...showtime,
+        timeZone,
+        startTimeLocal: toLocalIsoString(new Date(showtime.startTime), timeZone),
+        endTimeLocal: toLocalIsoString(new Date(showtime.endTime), timeZone),
+    };
+}
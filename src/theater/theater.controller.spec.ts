@@ -0,0 +1,97 @@
+/**
+* theater.controller.spec.ts
+*
+* This file contains unit tests for the TheaterController.
+* It validates controller-level functionality for adding, retrieving, updating, and deleting theaters
+* by mocking the underlying TheaterService and testing expected behaviors and error responses.
+*/
+
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException, NotFoundException } from '@nestjs/common';
+import { TheaterController } from './theater.controller';
+import { TheaterService } from './theater.service';
+import { TheaterDto } from './theater.dto';
+
+describe('TheaterController', () => {
+    let controller: TheaterController;
+    let mockTheaterService: Partial<Record<keyof TheaterService, jest.Mock>>;
+
+    const data: TheaterDto = { name: 'Hall 1', rows: [{ label: 'A', seats: 10 }, { label: 'B', seats: 12 }] };
+
+    beforeEach(async () => {
+        mockTheaterService = {
+            addNewTheater: jest.fn(),
+            fetchAllTheaters: jest.fn(),
+            fetchTheaterById: jest.fn(),
+            updateTheaterInfo: jest.fn(),
+            deleteTheater: jest.fn()
+        };
+
+        const module: TestingModule = await Test.createTestingModule({
+            controllers: [TheaterController],
+            providers: [
+                { provide: TheaterService, useValue: mockTheaterService }
+            ]
+        }).compile();
+
+        controller = module.get<TheaterController>(TheaterController);
+    });
+
+    /**
+    * Should return the created theater, including its capacity.
+    */
+    it('should add a new theater', async () => {
+        const theater = { id: 1, ...data, capacity: 22 };
+        mockTheaterService.addNewTheater.mockResolvedValue(theater);
+
+        await expect(controller.addNewTheater(data)).resolves.toEqual(theater);
+        expect(mockTheaterService.addNewTheater).toHaveBeenCalledWith(data);
+    });
+
+    /**
+    * Should return every theater.
+    */
+    it('should fetch all theaters', async () => {
+        const theaters = [{ id: 1, ...data, capacity: 22 }];
+        mockTheaterService.fetchAllTheaters.mockResolvedValue(theaters);
+
+        await expect(controller.fetchAllTheaters()).resolves.toEqual(theaters);
+    });
+
+    /**
+    * Should propagate NotFoundException for an unknown theater.
+    */
+    it('should throw NotFoundException if theater not found', async () => {
+        mockTheaterService.fetchTheaterById.mockRejectedValue(new NotFoundException('Theater not found'));
+
+        await expect(controller.fetchTheaterById(99)).rejects.toThrow(NotFoundException);
+    });
+
+    /**
+    * Should return a success message after updating.
+    */
+    it('should update a theater', async () => {
+        mockTheaterService.updateTheaterInfo.mockResolvedValue(undefined);
+
+        await expect(controller.updateTheaterInfo(1, data)).resolves.toEqual({ message: 'Theater with ID 1 successfully updated.' });
+        expect(mockTheaterService.updateTheaterInfo).toHaveBeenCalledWith(1, data);
+    });
+
+    /**
+    * Should return a success message after deleting.
+    */
+    it('should delete a theater', async () => {
+        mockTheaterService.deleteTheater.mockResolvedValue(undefined);
+
+        await expect(controller.deleteTheater(1)).resolves.toEqual({ message: 'Theater with ID 1 successfully deleted.' });
+    });
+
+    /**
+    * Should propagate BadRequestException when showtimes are scheduled in the theater.
+    */
+    it('should throw BadRequestException if theater has showtimes', async () => {
+        mockTheaterService.deleteTheater.mockRejectedValue(new BadRequestException('Theater has showtimes'));
+
+        await expect(controller.deleteTheater(1)).rejects.toThrow(BadRequestException);
+    });
+});
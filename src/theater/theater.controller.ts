@@ -0,0 +1,96 @@
+/**
+* theater.controller.ts
+*
+* This controller handles incoming HTTP requests related to theater (hall) management.
+* It defines endpoints for creating, retrieving, updating, and deleting theaters.
+* Each endpoint delegates business logic to the TheaterService.
+* 
+* Routes:
+* - POST    /theaters
+* - GET     /theaters/all
+* - GET     /theaters/:id
+* - POST    /theaters/update/:id
+* - DELETE  /theaters/:id
+*/
+
+import { Body, Controller, Get, Post, Delete, Param, ParseIntPipe } from '@nestjs/common';
+import { TheaterService } from './theater.service';
+import { TheaterDto } from './theater.dto';
+import { Theater } from './theater.entity';
+
+@Controller('theaters')
+export class TheaterController {
+    private readonly theaterService: TheaterService;
+
+    constructor(theaterService: TheaterService) {
+        this.theaterService = theaterService;
+    }
+
+    /**
+    * Handles POST /theaters
+    * 
+    * Adds a new theater with its row/seat layout.
+    * @param theaterData - DTO containing the name and rows of the theater.
+    * @returns The created theater, including its derived capacity.
+    * @throws BadRequestException if the name is taken or the layout is invalid.
+    */
+    @Post()
+    async addNewTheater(@Body() theaterData: TheaterDto): Promise<Theater> {
+        return this.theaterService.addNewTheater(theaterData);
+    }
+
+    /**
+    * Handles GET /theaters/all
+    * 
+    * Fetches all theaters.
+    * @returns An array of Theater entities.
+    */
+    @Get('all')
+    async fetchAllTheaters(): Promise<Theater[]> {
+        return this.theaterService.fetchAllTheaters();
+    }
+
+    /**
+    * Handles GET /theaters/:id
+    * 
+    * Fetches a theater by its ID.
+    * @param id - The theater ID.
+    * @returns The theater.
+    * @throws NotFoundException if the theater does not exist.
+    */
+    @Get(':id')
+    async fetchTheaterById(@Param('id', ParseIntPipe) id: number): Promise<Theater> {
+        return this.theaterService.fetchTheaterById(id);
+    }
+
+    /**
+    * Handles POST /theaters/update/:id
+    * 
+    * Updates a theater's name and layout.
+    * @param id - The theater ID.
+    * @param theaterData - Full theater object to update to.
+    * @returns A message confirming the update.
+    * @throws BadRequestException if validation fails or showtimes depend on the current layout.
+    * @throws NotFoundException if the theater does not exist.
+    */
+    @Post('update/:id')
+    async updateTheaterInfo(@Param('id', ParseIntPipe) id: number, @Body() theaterData: TheaterDto): Promise<{ message: string }> {
+        await this.theaterService.updateTheaterInfo(id, theaterData);
+        return { message: `Theater with ID ${id} successfully updated.` };
+    }
+
+    /**
+    * Handles DELETE /theaters/:id
+    * 
+    * Deletes a theater.
+    * @param id - The theater ID.
+    * @returns A message confirming the deletion.
+    * @throws BadRequestException if showtimes are scheduled in it.
+    * @throws NotFoundException if the theater does not exist.
+    */
+    @Delete(':id')
+    async deleteTheater(@Param('id', ParseIntPipe) id: number): Promise<{ message: string }> {
+        await this.theaterService.deleteTheater(id);
+        return { message: `Theater with ID ${id} successfully deleted.` };
+    }
+}
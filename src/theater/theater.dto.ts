@@ -0,0 +1,104 @@
+/**
+* theater.dto.ts
+*
+* This file defines the Data Transfer Objects (DTOs) used when creating or updating a theater.
+* A theater has a name and a layout of lettered rows, each with its number of seats
+* and optionally the category of its seats, plus its pre-show and cleaning buffers.
+*/
+
+import { IsString, IsNotEmpty, IsInt, Min, Max, Matches, IsArray, ArrayNotEmpty, ValidateNested, IsEnum, IsOptional } from 'class-validator';
+import { Type } from 'class-transformer';
+import { SeatCategory } from './theater.entity';
+
+export class SeatCategoryOverrideDto {
+
+    /**
+    * Position of the seat in its row.
+    * - Must be an integer of at least 1, and within the row.
+    */
+    @IsInt({ message: "Seat position must be a whole number." })
+    @Min(1, { message: "Seat position must be at least 1." })
+    seat: number;
+
+    /**
+    * The category of that seat.
+    */
+    @IsEnum(SeatCategory, { message: `Seat category must be one of: ${Object.values(SeatCategory).join(', ')}.` })
+    category: SeatCategory;
+}
+
+export class TheaterRowDto {
+
+    /**
+    * The row label.
+    * - Must be one or two capital letters (e.g. "A", "F", "AA").
+    */
+    @Matches(/^[A-Z]{1,2}$/, { message: "Row label must be one or two capital letters." })
+    label: string;
+
+    /**
+    * Number of seats in the row.
+    * - Must be an integer between 1 and 60.
+    */
+    @IsInt({ message: "Row's seats must be a whole number." })
+    @Min(1, { message: "Row must have at least 1 seat." })
+    @Max(60, { message: "Row can have at most 60 seats." })
+    seats: number;
+
+    /**
+    * (Optional) Category of every seat in the row. Defaults to standard.
+    */
+    @IsOptional()
+    @IsEnum(SeatCategory, { message: `Row category must be one of: ${Object.values(SeatCategory).join(', ')}.` })
+    category?: SeatCategory;
+
+    /**
+    * (Optional) Seats of the row whose category differs from the row's category.
+    */
+    @IsOptional()
+    @IsArray({ message: "Row's seat categories must be an array." })
+    @ValidateNested({ each: true })
+    @Type(() => SeatCategoryOverrideDto)
+    seatCategories?: SeatCategoryOverrideDto[];
+}
+
+export class TheaterDto {
+
+    /**
+    * The name of the theater.
+    * - Must be a non-empty string.
+    */
+    @IsString({ message: "Theater's name must be string." })
+    @IsNotEmpty({ message: "Theater's name is a required field." })
+    name: string;
+
+    /**
+    * The seat layout, ordered from the screen backwards.
+    * - Must contain at least one row, with unique row labels.
+    */
+    @IsArray({ message: "Theater's rows must be an array." })
+    @ArrayNotEmpty({ message: "Theater must have at least one row." })
+    @ValidateNested({ each: true })
+    @Type(() => TheaterRowDto)
+    rows: TheaterRowDto[];
+
+    /**
+    * (Optional) Minutes of trailers and ads before the film starts.
+    * - Must be an integer between 0 and 120. Defaults to 0, or the current value on update.
+    */
+    @IsOptional()
+    @IsInt({ message: "Pre-show minutes must be a whole number." })
+    @Min(0, { message: "Pre-show minutes must be at least 0." })
+    @Max(120, { message: "Pre-show minutes can be at most 120." })
+    preShowMinutes?: number;
+
+    /**
+    * (Optional) Minutes needed to clean the theater after a show.
+    * - Must be an integer between 0 and 120. Defaults to 0, or the current value on update.
+    */
+    @IsOptional()
+    @IsInt({ message: "Post-show minutes must be a whole number." })
+    @Min(0, { message: "Post-show minutes must be at least 0." })
+    @Max(120, { message: "Post-show minutes can be at most 120." })
+    postShowMinutes?: number;
+}
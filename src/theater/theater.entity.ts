@@ -0,0 +1,103 @@
+/**
+* theater.entity.ts
+* 
+* This entity defines the structure of the "theaters" table in the PostgreSQL database.
+* Each theater (hall) has a unique name and a seat layout made of lettered rows.
+* Seats are numbered 1..capacity row by row, so seat "F12" is the 12th seat of row F.
+* The capacity is derived from the layout and stored for fast capacity checks.
+* Every seat has a category (standard unless the layout says otherwise), which showtimes can price differently.
+* Pre-show and post-show buffers (trailers, cleaning) are added around every showtime scheduled in the theater.
+*/
+
+import { Entity, PrimaryGeneratedColumn, Column } from "typeorm";
+
+/**
+* Category of a seat, which decides its price for a showtime.
+*/
+export enum SeatCategory {
+    STANDARD = 'standard',
+    PREMIUM = 'premium',
+    COUPLE = 'couple',
+    ACCESSIBLE = 'accessible',
+}
+
+/**
+* Overrides the category of a single seat within its row.
+*/
+export interface SeatCategoryOverride {
+    /**
+    * Position of the seat in its row (1 = first seat of the row).
+    */
+    seat: number;
+
+    /**
+    * The category of that seat.
+    */
+    category: SeatCategory;
+}
+
+/**
+* A single row of a theater layout.
+*/
+export interface TheaterRow {
+    /**
+    * The row label (e.g. "A", "F").
+    */
+    label: string;
+
+    /**
+    * Number of seats in the row.
+    */
+    seats: number;
+
+    /**
+    * Category of every seat in the row, unless overridden. Defaults to standard.
+    */
+    category?: SeatCategory;
+
+    /**
+    * Seats of the row whose category differs from the row's category.
+    */
+    seatCategories?: SeatCategoryOverride[];
+}
+
+@Entity('theaters')
+export class Theater {
+
+    /**
+    * The unique ID of the theater (auto-generated).
+    */
+    @PrimaryGeneratedColumn()
+    id: number;
+
+    /**
+    * The name of the theater (e.g. "Hall 3").
+    * - Must be a unique, non-null string.
+    */
+    @Column({ type: 'text', nullable: false, unique: true })
+    name: string;
+
+    /**
+    * The seat layout, as an ordered list of rows from the screen backwards.
+    */
+    @Column({ type: 'jsonb', nullable: false })
+    rows: TheaterRow[];
+
+    /**
+    * Total number of seats, derived from the layout.
+    */
+    @Column({ type: 'int', nullable: false })
+    capacity: number;
+
+    /**
+    * Minutes of trailers and ads before the film starts. A showtime runs this long plus the movie's duration.
+    */
+    @Column({ type: 'int', default: 0 })
+    preShowMinutes: number;
+
+    /**
+    * Minutes needed to clean the theater after a show. The next show cannot start before it is done.
+    */
+    @Column({ type: 'int', default: 0 })
+    postShowMinutes: number;
+}
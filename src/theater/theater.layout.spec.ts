@@ -0,0 +1,97 @@
+/**
+* theater.layout.spec.ts
+*
+* This file contains unit tests for the theater layout helpers:
+* deriving capacity, converting between seat numbers and seat labels (e.g. "F12"),
+* resolving seat categories, and resolving seats picked by number or by label.
+*/
+
+import { BadRequestException } from '@nestjs/common';
+import { getCapacity, getSeatCategory, getSeatLabel, getSeatNumber, resolveSeatNumbers } from './theater.layout';
+import { SeatCategory } from './theater.entity';
+
+describe('theater layout', () => {
+  const rows = [{ label: 'A', seats: 10 }, { label: 'B', seats: 12 }, { label: 'C', seats: 8 }];
+
+  /**
+  * Should add up the seats of every row.
+  */
+  it('should derive the capacity', () => {
+    expect(getCapacity(rows)).toBe(30);
+  });
+
+  /**
+  * Should number seats row by row in layout order.
+  */
+  it('should convert seat numbers to labels', () => {
+    expect(getSeatLabel(rows, 1)).toBe('A1');
+    expect(getSeatLabel(rows, 10)).toBe('A10');
+    expect(getSeatLabel(rows, 11)).toBe('B1');
+    expect(getSeatLabel(rows, 30)).toBe('C8');
+    expect(getSeatLabel(rows, 0)).toBeNull();
+    expect(getSeatLabel(rows, 31)).toBeNull();
+  });
+
+  /**
+  * Should convert labels back to seat numbers, case-insensitively.
+  */
+  it('should convert labels to seat numbers', () => {
+    expect(getSeatNumber(rows, 'A1')).toBe(1);
+    expect(getSeatNumber(rows, 'b12')).toBe(22);
+    expect(getSeatNumber(rows, 'C8')).toBe(30);
+  });
+
+  /**
+  * Should reject labels that are malformed or outside the layout.
+  */
+  it('should return null for unknown labels', () => {
+    expect(getSeatNumber(rows, 'C9')).toBeNull();
+    expect(getSeatNumber(rows, 'D1')).toBeNull();
+    expect(getSeatNumber(rows, 'A0')).toBeNull();
+    expect(getSeatNumber(rows, '12')).toBeNull();
+  });
+
+  /**
+  * Should use the seat's override, then its row's category, then standard.
+  */
+  it('should resolve seat categories', () => {
+    const categorized = [
+      { label: 'A', seats: 4, category: SeatCategory.ACCESSIBLE },
+      { label: 'B', seats: 4, seatCategories: [{ seat: 2, category: SeatCategory.COUPLE }] },
+    ];
+
+    expect(getSeatCategory(categorized, 1)).toBe(SeatCategory.ACCESSIBLE);
+    expect(getSeatCategory(categorized, 5)).toBe(SeatCategory.STANDARD);
+    expect(getSeatCategory(categorized, 6)).toBe(SeatCategory.COUPLE);
+    expect(getSeatCategory(categorized, 9)).toBeNull();
+  });
+
+  describe('resolveSeatNumbers', () => {
+    const theater = { id: 1, name: 'Hall 1', rows, capacity: 30, preShowMinutes: 0, postShowMinutes: 0 };
+
+    /**
+    * Should convert labels to seat numbers in the order given, and keep seat numbers as they are.
+    */
+    it('should resolve seats given by label or by number', () => {
+      expect(resolveSeatNumbers(theater, undefined, ['b3', 'A1'])).toEqual([13, 1]);
+      expect(resolveSeatNumbers(theater, [30, 2])).toEqual([30, 2]);
+    });
+
+    /**
+    * Should require exactly one of the seat numbers and the seat labels.
+    */
+    it('should reject both or neither of numbers and labels', () => {
+      expect(() => resolveSeatNumbers(theater)).toThrow(BadRequestException);
+      expect(() => resolveSeatNumbers(theater, [1], ['A1'])).toThrow(BadRequestException);
+    });
+
+    /**
+    * Should reject seats outside the layout and labels naming the same seat twice.
+    */
+    it('should reject unknown and repeated seats', () => {
+      expect(() => resolveSeatNumbers(theater, undefined, ['D1'])).toThrow('Seats D1 do not exist in Hall 1.');
+      expect(() => resolveSeatNumbers(theater, [31])).toThrow('Seats 31 do not exist in Hall 1, which has 30 seats.');
+      expect(() => resolveSeatNumbers(theater, undefined, ['A1', 'a1'])).toThrow('Seat labels must not repeat.');
+    });
+  });
+});
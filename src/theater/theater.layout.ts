@@ -0,0 +1,116 @@
+/**
+* theater.layout.ts
+* 
+* Helpers for working with a theater's row/seat layout.
+* Seats are numbered 1..capacity row by row in layout order, and labelled by
+* row letter plus position in the row: in a layout of rows A (10 seats) and B (12 seats),
+* seat number 13 is "B3".
+* A seat's category comes from its row, unless the row overrides it for that seat.
+*/
+
+import { BadRequestException } from "@nestjs/common";
+import { SeatCategory, Theater, TheaterRow } from "./theater.entity";
+
+const SEAT_LABEL_PATTERN = /^([A-Z]+)(\d+)$/;
+
+/**
+* Returns the total number of seats of a layout.
+*/
+export function getCapacity(rows: TheaterRow[]): number {
+    return rows.reduce((total, row) => total + row.seats, 0);
+}
+
+/**
+* Converts a seat number to its label (e.g. 13 -> "B3").
+* 
+* @returns the seat label, or null if the seat number is outside the layout.
+*/
+export function getSeatLabel(rows: TheaterRow[], seatNumber: number): string | null {
+    let firstSeatOfRow = 1;
+    for (const row of rows) {
+        if (seatNumber < firstSeatOfRow + row.seats) {
+            return seatNumber >= firstSeatOfRow ? `${row.label}${seatNumber - firstSeatOfRow + 1}` : null;
+        }
+        firstSeatOfRow += row.seats;
+    }
+    return null;
+}
+
+/**
+* Converts a seat label to its seat number (e.g. "B3" -> 13). Labels are case-insensitive.
+* 
+* @returns the seat number, or null if the label does not exist in the layout.
+*/
+export function getSeatNumber(rows: TheaterRow[], seatLabel: string): number | null {
+    const match = SEAT_LABEL_PATTERN.exec(seatLabel.trim().toUpperCase());
+    if (!match) {
+        return null;
+    }
+
+    const [, rowLabel, position] = match;
+    let firstSeatOfRow = 1;
+    for (const row of rows) {
+        if (row.label === rowLabel) {
+            const seatInRow = Number(position);
+            return seatInRow >= 1 && seatInRow <= row.seats ? firstSeatOfRow + seatInRow - 1 : null;
+        }
+        firstSeatOfRow += row.seats;
+    }
+    return null;
+}
+
+/**
+* Returns the category of a seat (e.g. premium), falling back to standard.
+* 
+* @returns the seat category, or null if the seat number is outside the layout.
+*/
+export function getSeatCategory(rows: TheaterRow[], seatNumber: number): SeatCategory | null {
+    let firstSeatOfRow = 1;
+    for (const row of rows) {
+        if (seatNumber < firstSeatOfRow + row.seats) {
+            if (seatNumber < firstSeatOfRow) {
+                return null;
+            }
+            const seatInRow = seatNumber - firstSeatOfRow + 1;
+            const override = row.seatCategories?.find(s => s.seat === seatInRow);
+            return override?.category ?? row.category ?? SeatCategory.STANDARD;
+        }
+        firstSeatOfRow += row.seats;
+    }
+    return null;
+}
+
+/**
+* Resolves seats given either by number or by label (e.g. "F12") to seat numbers of a theater's layout.
+* Used wherever seats are picked: bookings, holds, exchanges and blocked seats.
+* 
+* @param theater - The theater the seats belong to.
+* @param seatNumbers - The seat numbers, if given by number.
+* @param seatLabels - The seat labels, if given by label.
+* @returns the seat numbers, in the order given.
+* @throws BadRequestException if both or neither are given, if a label repeats, or if a seat does not exist in the theater.
+*/
+export function resolveSeatNumbers(theater: Theater, seatNumbers?: number[], seatLabels?: string[]): number[] {
+    if ((seatNumbers === undefined) === (seatLabels === undefined)) {
+        throw new BadRequestException('Provide either seat numbers or seat labels.');
+    }
+
+    if (seatLabels !== undefined) {
+        const unknownLabels = seatLabels.filter(label => getSeatNumber(theater.rows, label) === null);
+        if (unknownLabels.length > 0) {
+            throw new BadRequestException(`Seats ${unknownLabels.join(', ')} do not exist in ${theater.name}.`);
+        }
+
+        const resolved = seatLabels.map(label => getSeatNumber(theater.rows, label));
+        if (new Set(resolved).size !== resolved.length) {
+            throw new BadRequestException('Seat labels must not repeat.');
+        }
+        return resolved;
+    }
+
+    const unknownSeats = seatNumbers.filter(seatNumber => seatNumber > theater.capacity);
+    if (unknownSeats.length > 0) {
+        throw new BadRequestException(`Seats ${unknownSeats.join(', ')} do not exist in ${theater.name}, which has ${theater.capacity} seats.`);
+    }
+    return seatNumbers;
+}
@@ -0,0 +1,33 @@
+/**
+* theater.module.ts
+* 
+* This module bundles all logic related to the Theater feature.
+* 
+* - Registers the 'Theater' entity with TypeORM.
+* - Provides the 'TheaterController' to handle incoming HTTP requests.
+* - Provides the 'TheaterService' to encapsulate business logic.
+* - Uses a custom factory to instantiate 'TheaterRepository' with TypeORM's DataSource.
+* - Exports 'TheaterService' and 'TheaterRepository' so they can be injected into other modules (e.g., ShowTime, Booking).
+*/
+
+import { Module } from "@nestjs/common";
+import { TypeOrmModule } from "@nestjs/typeorm";
+import { TheaterController } from "./theater.controller";
+import { TheaterService } from "./theater.service";
+import { TheaterRepository } from "./theater.repository";
+import { Theater } from "./theater.entity";
+import { DataSource } from "typeorm";
+
+@Module({
+    imports: [TypeOrmModule.forFeature([Theater])],
+    controllers: [TheaterController],
+    providers: [TheaterService,
+        {provide: 'TheaterRepository', useFactory: (dataSource: DataSource) => new TheaterRepository(dataSource), inject: [DataSource]}
+    ],
+    exports: [TheaterService, 'TheaterRepository']
+})
+export class TheaterModule {
+    constructor() {
+        console.log('TheaterModule loaded');
+    }
+}
@@ -0,0 +1,137 @@
+/**
+* theater.repository.ts
+* 
+* This file defines the TheaterRepository class, responsible for executing raw SQL queries
+* related to the Theater entity. It handles inserting, updating, deleting and retrieving
+* theaters using TypeORM's DataSource.
+*/
+
+import { Injectable, InternalServerErrorException } from "@nestjs/common";
+import { DataSource } from "typeorm";
+import { Theater } from "./theater.entity";
+
+@Injectable()
+export class TheaterRepository {
+    private readonly dataSource: DataSource;
+
+    constructor(dataSource: DataSource) {
+        this.dataSource = dataSource;
+    }
+
+    /**
+    * Retrieves all theaters, ordered by name.
+    * @returns Promise<Theater[]>
+    */
+    async getAllTheaters(): Promise<Theater[]> {
+        try {
+            return await this.dataSource.query('SELECT * FROM theaters ORDER BY name');
+        } 
+        catch (error) {
+            console.error('Error fetching all theaters:', error);
+            throw new InternalServerErrorException('Error fetching all theaters');
+        }
+    }
+
+    /**
+    * Fetches a theater by its ID.
+    * @param id - The ID of the theater.
+    * @returns The theater or null if not found.
+    */
+    async fetchTheaterById(id: number): Promise<Theater | null> {
+        try {
+            const result = await this.dataSource.query('SELECT * FROM theaters WHERE id = $1', [id]);
+            return result.length > 0 ? result[0] : null;
+        } 
+        catch (error) {
+            console.error('DB Error on fetchTheaterById:', error);
+            throw new InternalServerErrorException('Failed to get the theater by its id.');
+        }
+    }
+
+    /**
+    * Finds a theater by its name (case-insensitive).
+    * @param name - Theater name to search for
+    * @returns Promise<Theater | null>
+    */
+    async findTheaterByName(name: string): Promise<Theater | null> {
+        try {
+            const result = await this.dataSource.query('SELECT * FROM theaters WHERE LOWER(name) = LOWER($1)', [name.trim()]);
+            return result.length > 0 ? result[0] : null;
+        } 
+        catch (error) {
+            console.error('Error fetching theater by name:', error);
+            throw new InternalServerErrorException('Error fetching theater by name');
+        }
+    }
+
+    /**
+    * Creates a new theater and returns it with its generated ID.
+    * @param newTheater - Theater object to insert
+    */
+    async addNewTheater(newTheater: Omit<Theater, 'id'>): Promise<Theater> {
+        const { name, rows, capacity, preShowMinutes, postShowMinutes } = newTheater;
+        try {
+            const result = await this.dataSource.query(
+                `INSERT INTO theaters (name, "rows", capacity, "preShowMinutes", "postShowMinutes")
+                 VALUES ($1, $2, $3, $4, $5)
+                 RETURNING *`,
+                [name.trim(), JSON.stringify(rows), capacity, preShowMinutes, postShowMinutes]);
+
+            return result[0];
+        } 
+        catch (error) {
+            console.error('Error adding new theater:', error);
+            throw new InternalServerErrorException('Failed to add theater to the database.');
+        }
+    }
+
+    /**
+    * Updates a theater's name, layout and buffers by its ID.
+    * @param id - Theater ID
+    * @param theater - The updated theater fields
+    */
+    async updateTheaterInfo(id: number, theater: Omit<Theater, 'id'>): Promise<void> {
+        const { name, rows, capacity, preShowMinutes, postShowMinutes } = theater;
+        try {
+            await this.dataSource.query(
+                `UPDATE theaters
+                 SET name = $1, "rows" = $2, capacity = $3, "preShowMinutes" = $4, "postShowMinutes" = $5
+                 WHERE id = $6`,
+                [name.trim(), JSON.stringify(rows), capacity, preShowMinutes, postShowMinutes, id]);
+        } 
+        catch (error) {
+            console.error('Error updating theater:', error);
+            throw new InternalServerErrorException('Failed to update the theater information.');
+        }
+    }
+
+    /**
+    * Deletes a theater by its ID.
+    * @param id - Theater ID
+    */
+    async deleteTheater(id: number): Promise<void> {
+        try {
+            await this.dataSource.query('DELETE FROM theaters WHERE id = $1', [id]);
+        } 
+        catch (error) {
+            console.error('Error deleting theater:', error);
+            throw new InternalServerErrorException('Failed to delete the theater.');
+        }
+    }
+
+    /**
+    * Checks whether any showtime is scheduled in the theater.
+    * @param id - Theater ID
+    * @returns true if at least one showtime references the theater.
+    */
+    async hasShowTimes(id: number): Promise<boolean> {
+        try {
+            const result = await this.dataSource.query('SELECT 1 FROM showtimes WHERE theater_id = $1 LIMIT 1', [id]);
+            return result.length > 0;
+        } 
+        catch (error) {
+            console.error('DB Error on hasShowTimes:', error);
+            throw new InternalServerErrorException('Failed to check the theater showtimes.');
+        }
+    }
+}
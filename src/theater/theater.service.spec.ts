@@ -0,0 +1,192 @@
+/**
+* theater.service.spec.ts
+*
+* This file contains unit tests for the TheaterService class using Jest and the NestJS testing framework.
+* It tests the business logic for creating, fetching, updating, and deleting theaters,
+* including layout validation, derived capacity, and protection of scheduled showtimes.
+* Repository methods are mocked to isolate and validate service logic and behavior.
+*/
+
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException, NotFoundException } from '@nestjs/common';
+import { TheaterService } from './theater.service';
+import { TheaterRepository } from './theater.repository';
+import { TheaterDto } from './theater.dto';
+import { Theater, SeatCategory } from './theater.entity';
+
+describe('TheaterService', () => {
+  let service: TheaterService;
+  let mockTheaterRepository: Partial<Record<keyof TheaterRepository, jest.Mock>>;
+
+  const existing: Theater = { id: 1, name: 'Hall 1', rows: [{ label: 'A', seats: 10 }, { label: 'B', seats: 12 }], capacity: 22,
+    preShowMinutes: 15, postShowMinutes: 10 };
+
+  beforeEach(async () => {
+    mockTheaterRepository = {
+      getAllTheaters: jest.fn(),
+      fetchTheaterById: jest.fn(),
+      findTheaterByName: jest.fn(),
+      addNewTheater: jest.fn(),
+      updateTheaterInfo: jest.fn(),
+      deleteTheater: jest.fn(),
+      hasShowTimes: jest.fn()
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        TheaterService,
+        { provide: 'TheaterRepository', useValue: mockTheaterRepository }
+      ]
+    }).compile();
+
+    service = module.get<TheaterService>(TheaterService);
+  });
+
+  describe('addNewTheater', () => {
+
+    /**
+    * Should derive the capacity from the layout and store the theater.
+    */
+    it('should add a theater with its derived capacity', async () => {
+      const data: TheaterDto = { name: ' Hall 2 ', rows: [{ label: 'A', seats: 20 }, { label: 'B', seats: 24 }] };
+      mockTheaterRepository.findTheaterByName.mockResolvedValue(null);
+      mockTheaterRepository.addNewTheater.mockImplementation(async theater => ({ id: 2, ...theater }));
+
+      const result = await service.addNewTheater(data);
+
+      expect(mockTheaterRepository.addNewTheater).toHaveBeenCalledWith({
+        name: 'Hall 2', rows: data.rows, capacity: 44, preShowMinutes: 0, postShowMinutes: 0
+      });
+      expect(result).toEqual({ id: 2, name: 'Hall 2', rows: data.rows, capacity: 44, preShowMinutes: 0, postShowMinutes: 0 });
+    });
+
+    /**
+    * Should reject a layout where a row label repeats.
+    */
+    it('should throw BadRequestException if a row label repeats', async () => {
+      const data: TheaterDto = { name: 'Hall 2', rows: [{ label: 'A', seats: 20 }, { label: 'A', seats: 24 }] };
+
+      await expect(service.addNewTheater(data)).rejects.toThrow(BadRequestException);
+      expect(mockTheaterRepository.addNewTheater).not.toHaveBeenCalled();
+    });
+
+    /**
+    * Should keep seat categories and reject overrides that point outside their row.
+    */
+    it('should validate seat category overrides', async () => {
+      mockTheaterRepository.findTheaterByName.mockResolvedValue(null);
+      const rows = [{ label: 'A', seats: 10, category: SeatCategory.PREMIUM, seatCategories: [{ seat: 1, category: SeatCategory.ACCESSIBLE }] }];
+
+      await service.addNewTheater({ name: 'VIP', rows });
+      expect(mockTheaterRepository.addNewTheater).toHaveBeenCalledWith({ name: 'VIP', rows, capacity: 10, preShowMinutes: 0, postShowMinutes: 0 });
+
+      await expect(service.addNewTheater({ name: 'VIP', rows: [{ label: 'A', seats: 10, seatCategories: [{ seat: 11, category: SeatCategory.COUPLE }] }] }))
+        .rejects.toThrow(BadRequestException);
+    });
+
+    /**
+    * Should reject a name that is already taken.
+    */
+    it('should throw BadRequestException if the name is taken', async () => {
+      mockTheaterRepository.findTheaterByName.mockResolvedValue(existing);
+
+      await expect(service.addNewTheater({ name: 'hall 1', rows: [{ label: 'A', seats: 5 }] })).rejects.toThrow(BadRequestException);
+      expect(mockTheaterRepository.addNewTheater).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('fetchTheaterById', () => {
+
+    /**
+    * Should return the theater when it exists.
+    */
+    it('should return the theater', async () => {
+      mockTheaterRepository.fetchTheaterById.mockResolvedValue(existing);
+      await expect(service.fetchTheaterById(1)).resolves.toEqual(existing);
+    });
+
+    /**
+    * Should throw NotFoundException when the theater does not exist.
+    */
+    it('should throw NotFoundException if theater not found', async () => {
+      mockTheaterRepository.fetchTheaterById.mockResolvedValue(null);
+      await expect(service.fetchTheaterById(1)).rejects.toThrow(NotFoundException);
+    });
+  });
+
+  describe('updateTheaterInfo', () => {
+
+    /**
+    * Should rename a theater even while showtimes are scheduled in it.
+    */
+    it('should rename a theater with scheduled showtimes', async () => {
+      mockTheaterRepository.fetchTheaterById.mockResolvedValue(existing);
+      mockTheaterRepository.findTheaterByName.mockResolvedValue(null);
+      mockTheaterRepository.hasShowTimes.mockResolvedValue(true);
+
+      await service.updateTheaterInfo(1, { name: 'Hall One', rows: existing.rows });
+
+      expect(mockTheaterRepository.updateTheaterInfo).toHaveBeenCalledWith(1, {
+        name: 'Hall One', rows: existing.rows, capacity: 22, preShowMinutes: 15, postShowMinutes: 10
+      });
+    });
+
+    /**
+    * Should change the buffers given and keep the others.
+    */
+    it('should update the pre-show and post-show buffers', async () => {
+      mockTheaterRepository.fetchTheaterById.mockResolvedValue(existing);
+      mockTheaterRepository.hasShowTimes.mockResolvedValue(true);
+
+      await service.updateTheaterInfo(1, { name: 'Hall 1', rows: existing.rows, postShowMinutes: 20 });
+
+      expect(mockTheaterRepository.updateTheaterInfo).toHaveBeenCalledWith(1, expect.objectContaining({ preShowMinutes: 15, postShowMinutes: 20 }));
+    });
+
+    /**
+    * Should refuse to change the layout while showtimes are scheduled in the theater.
+    */
+    it('should throw BadRequestException if the layout changes while showtimes are scheduled', async () => {
+      mockTheaterRepository.fetchTheaterById.mockResolvedValue(existing);
+      mockTheaterRepository.hasShowTimes.mockResolvedValue(true);
+
+      await expect(service.updateTheaterInfo(1, { name: 'Hall 1', rows: [{ label: 'A', seats: 30 }] })).rejects.toThrow(BadRequestException);
+      expect(mockTheaterRepository.updateTheaterInfo).not.toHaveBeenCalled();
+    });
+
+    /**
+    * Should throw NotFoundException when the theater does not exist.
+    */
+    it('should throw NotFoundException if theater not found', async () => {
+      mockTheaterRepository.fetchTheaterById.mockResolvedValue(null);
+
+      await expect(service.updateTheaterInfo(1, { name: 'Hall 1', rows: existing.rows })).rejects.toThrow(NotFoundException);
+    });
+  });
+
+  describe('deleteTheater', () => {
+
+    /**
+    * Should delete a theater with no showtimes.
+    */
+    it('should delete the theater', async () => {
+      mockTheaterRepository.fetchTheaterById.mockResolvedValue(existing);
+      mockTheaterRepository.hasShowTimes.mockResolvedValue(false);
+
+      await service.deleteTheater(1);
+
+      expect(mockTheaterRepository.deleteTheater).toHaveBeenCalledWith(1);
+    });
+
+    /**
+    * Should refuse to delete a theater that still has showtimes.
+    */
+    it('should throw BadRequestException if showtimes are scheduled', async () => {
+      mockTheaterRepository.fetchTheaterById.mockResolvedValue(existing);
+      mockTheaterRepository.hasShowTimes.mockResolvedValue(true);
+
+      await expect(service.deleteTheater(1)).rejects.toThrow(BadRequestException);
+      expect(mockTheaterRepository.deleteTheater).not.toHaveBeenCalled();
+    });
+  });
+});
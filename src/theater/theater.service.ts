@@ -0,0 +1,151 @@
+/**
+* theater.service.ts
+* 
+* This file defines the TheaterService class, which provides the business logic for managing theaters (halls).
+* It validates layouts (unique row labels, seat categories inside their row), derives each theater's capacity from its layout,
+* prevents duplicate names, and refuses changes that would break scheduled showtimes.
+* Each theater also has pre-show (trailers) and post-show (cleaning) buffers used when scheduling showtimes.
+*/
+
+import { Injectable, BadRequestException, NotFoundException, Inject } from "@nestjs/common";
+import { TheaterRepository } from "./theater.repository";
+import { Theater, TheaterRow } from "./theater.entity";
+import { TheaterDto } from "./theater.dto";
+import { getCapacity } from "./theater.layout";
+
+@Injectable()
+export class TheaterService {
+    constructor(@Inject('TheaterRepository') private readonly theaterRepository: TheaterRepository) {}
+
+    /**
+    * Builds the stored theater from the DTO, checking that row labels are unique
+    * and that every seat category override points at a single seat of its row.
+    * 
+    * @throws BadRequestException if a row label repeats or a seat category override is invalid.
+    */
+    private buildTheater(theaterData: TheaterDto): Omit<Theater, 'id'> {
+        const rows: TheaterRow[] = theaterData.rows.map(row => ({
+            label: row.label,
+            seats: row.seats,
+            ...(row.category && { category: row.category }),
+            ...(row.seatCategories?.length && {
+                seatCategories: row.seatCategories.map(s => ({ seat: s.seat, category: s.category }))
+            }),
+        }));
+
+        const labels = new Set(rows.map(row => row.label));
+        if (labels.size !== rows.length) {
+            throw new BadRequestException("Theater's row labels must be unique.");
+        }
+
+        for (const row of rows) {
+            const overridden = (row.seatCategories ?? []).map(s => s.seat);
+            if (overridden.some(seat => seat > row.seats)) {
+                throw new BadRequestException(`Row ${row.label} has only ${row.seats} seats.`);
+            }
+            if (new Set(overridden).size !== overridden.length) {
+                throw new BadRequestException(`Row ${row.label} sets the category of a seat more than once.`);
+            }
+        }
+
+        return {
+            name: theaterData.name.trim(),
+            rows,
+            capacity: getCapacity(rows),
+            preShowMinutes: theaterData.preShowMinutes ?? 0,
+            postShowMinutes: theaterData.postShowMinutes ?? 0
+        };
+    }
+
+    /**
+    * Adds a new theater.
+    * 
+    * @param theaterData - The theater to add (validated by DTO).
+    * @returns The created theater, including its derived capacity.
+    * @throws BadRequestException if the name is taken or the layout is invalid.
+    */
+    async addNewTheater(theaterData: TheaterDto): Promise<Theater> {
+        const theater = this.buildTheater(theaterData);
+
+        const existing = await this.theaterRepository.findTheaterByName(theater.name);
+        if (existing) {
+            throw new BadRequestException(`A theater named "${theater.name}" already exists.`);
+        }
+
+        return this.theaterRepository.addNewTheater(theater);
+    }
+
+    /**
+    * Fetches all theaters.
+    * 
+    * @returns An array of theaters (possibly empty).
+    */
+    async fetchAllTheaters(): Promise<Theater[]> {
+        return this.theaterRepository.getAllTheaters();
+    }
+
+    /**
+    * Fetches a theater by its ID.
+    * 
+    * @param id - The theater ID.
+    * @throws NotFoundException if the theater does not exist.
+    */
+    async fetchTheaterById(id: number): Promise<Theater> {
+        const theater = await this.theaterRepository.fetchTheaterById(id);
+        if (!theater) {
+            throw new NotFoundException(`Theater with ID ${id} not found.`);
+        }
+        return theater;
+    }
+
+    /**
+    * Updates a theater's name, layout and buffers. Buffers left out keep their current value.
+    * The layout cannot change while showtimes are scheduled, since their seat numbers follow it.
+    * New buffers apply to showtimes scheduled from now on.
+    * 
+    * @param id - The theater ID.
+    * @param theaterData - The updated theater data.
+    * @throws NotFoundException if the theater does not exist.
+    * @throws BadRequestException if the name is taken, the layout is invalid,
+    * or the layout changes while showtimes are scheduled.
+    */
+    async updateTheaterInfo(id: number, theaterData: TheaterDto): Promise<void> {
+        const existing = await this.fetchTheaterById(id);
+        const updated = {
+            ...this.buildTheater(theaterData),
+            preShowMinutes: theaterData.preShowMinutes ?? existing.preShowMinutes,
+            postShowMinutes: theaterData.postShowMinutes ?? existing.postShowMinutes
+        };
+
+        if (updated.name.toLowerCase() !== existing.name.toLowerCase()) {
+            const duplicate = await this.theaterRepository.findTheaterByName(updated.name);
+            if (duplicate) {
+                throw new BadRequestException(`A theater named "${updated.name}" already exists.`);
+            }
+        }
+
+        const layoutChanged = JSON.stringify(updated.rows) !== JSON.stringify(existing.rows);
+        if (layoutChanged && await this.theaterRepository.hasShowTimes(id)) {
+            throw new BadRequestException(`The layout of theater ${id} cannot change while showtimes are scheduled in it.`);
+        }
+
+        return this.theaterRepository.updateTheaterInfo(id, updated);
+    }
+
+    /**
+    * Deletes a theater.
+    * 
+    * @param id - The theater ID.
+    * @throws NotFoundException if the theater does not exist.
+    * @throws BadRequestException if showtimes are scheduled in it.
+    */
+    async deleteTheater(id: number): Promise<void> {
+        await this.fetchTheaterById(id);
+
+        if (await this.theaterRepository.hasShowTimes(id)) {
+            throw new BadRequestException(`Theater ${id} cannot be deleted while showtimes are scheduled in it.`);
+        }
+
+        return this.theaterRepository.deleteTheater(id);
+    }
+}
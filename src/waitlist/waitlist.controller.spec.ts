@@ -0,0 +1,100 @@
+/**
+ * waitlist.controller.spec.ts
+ *
+ * This file contains unit tests for the `WaitlistController` in a NestJS application.
+ * It tests the `/waitlist` endpoints with a mocked `WaitlistService`, verifying:
+ * - Joining the waitlist and checking an entry's position
+ * - Leaving the waitlist with a success message
+ * - Proper exception propagation
+ */
+
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException, ConflictException, NotFoundException } from '@nestjs/common';
+import { WaitlistController } from './waitlist.controller';
+import { WaitlistService } from './waitlist.service';
+import { WaitlistStatus } from './waitlist.entity';
+
+describe('WaitlistController', () => {
+  let controller: WaitlistController;
+  let mockWaitlistService: Partial<Record<keyof WaitlistService, jest.Mock>>;
+
+  const userId = 'abcabcab-1111-2222-3333-abcabcabcabc';
+  const position = {
+    entryId: 'entry-1', showtimeId: 1, seats: 2, autoBook: false, status: WaitlistStatus.WAITING,
+    position: 1, holdToken: null, offerExpiresAt: null, bookingIds: null,
+  };
+
+  beforeEach(async () => {
+    mockWaitlistService = {
+      joinWaitlist: jest.fn(),
+      getWaitlistEntry: jest.fn(),
+      leaveWaitlist: jest.fn(),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      controllers: [WaitlistController],
+      providers: [{ provide: WaitlistService, useValue: mockWaitlistService }],
+    }).compile();
+
+    controller = module.get<WaitlistController>(WaitlistController);
+  });
+
+  /**
+   * Should return the new entry with its position.
+   */
+  it('should join the waitlist', async () => {
+    const data = { showtimeId: 1, userId, seats: 2 };
+    mockWaitlistService.joinWaitlist!.mockResolvedValue(position);
+
+    await expect(controller.joinWaitlist(data)).resolves.toEqual(position);
+    expect(mockWaitlistService.joinWaitlist).toHaveBeenCalledWith(data);
+  });
+
+  /**
+   * Should propagate BadRequestException when seats can still be booked.
+   */
+  it('should throw BadRequestException if seats are still available', async () => {
+    mockWaitlistService.joinWaitlist!.mockRejectedValue(new BadRequestException('Seats available'));
+
+    await expect(controller.joinWaitlist({ showtimeId: 1, userId })).rejects.toThrow(BadRequestException);
+  });
+
+  /**
+   * Should propagate ConflictException when the user is already waiting.
+   */
+  it('should throw ConflictException if user already on the waitlist', async () => {
+    mockWaitlistService.joinWaitlist!.mockRejectedValue(new ConflictException('Already waiting'));
+
+    await expect(controller.joinWaitlist({ showtimeId: 1, userId })).rejects.toThrow(ConflictException);
+  });
+
+  /**
+   * Should return the entry with its current position.
+   */
+  it('should return a waitlist entry', async () => {
+    mockWaitlistService.getWaitlistEntry!.mockResolvedValue(position);
+
+    await expect(controller.getWaitlistEntry('entry-1')).resolves.toEqual(position);
+    expect(mockWaitlistService.getWaitlistEntry).toHaveBeenCalledWith('entry-1');
+  });
+
+  /**
+   * Should propagate NotFoundException when the entry does not exist.
+   */
+  it('should throw NotFoundException if entry not found', async () => {
+    mockWaitlistService.getWaitlistEntry!.mockRejectedValue(new NotFoundException('Entry not found'));
+
+    await expect(controller.getWaitlistEntry('missing')).rejects.toThrow(NotFoundException);
+  });
+
+  /**
+   * Should return a success message when leaving the waitlist.
+   */
+  it('should leave the waitlist', async () => {
+    mockWaitlistService.leaveWaitlist!.mockResolvedValue(undefined);
+
+    const result = await controller.leaveWaitlist('entry-1');
+    expect(result).toEqual({ message: 'Waitlist entry entry-1 successfully removed.' });
+    expect(mockWaitlistService.leaveWaitlist).toHaveBeenCalledWith('entry-1');
+  });
+});
@@ -0,0 +1,69 @@
+/**
+ * waitlist.controller.ts
+ *
+ * This controller handles HTTP requests for the waitlist of sold-out showtimes.
+ * It lets customers join a showtime's queue, check their position and leave it.
+ * Offers made from the waitlist are confirmed through the bookings API
+ * (POST /bookings/holds/:holdToken/confirm).
+ *
+ * Routes:
+ * - POST   /waitlist
+ * - GET    /waitlist/:entryId
+ * - DELETE /waitlist/:entryId
+ */
+
+import { Controller, Post, Get, Delete, Body, Param, ParseUUIDPipe } from '@nestjs/common';
+import { WaitlistService } from './waitlist.service';
+import { JoinWaitlistDto, WaitlistPositionDto } from './waitlist.dto';
+
+@Controller('waitlist')
+export class WaitlistController {
+  constructor(private readonly waitlistService: WaitlistService) {}
+
+  /**
+   * POST /waitlist
+   *
+   * Joins the waitlist of a sold-out showtime.
+   *
+   * @param joinData - The request body containing showtimeId, userId, and optionally seats and autoBook
+   * @returns The waitlist entry and its position in the queue
+   *
+   * @throws NotFoundException if the showtime does not exist
+   * @throws BadRequestException if enough seats are still available
+   * @throws ConflictException if the user is already on the waitlist for the showtime
+   */
+  @Post()
+  async joinWaitlist(@Body() joinData: JoinWaitlistDto): Promise<WaitlistPositionDto> {
+    return await this.waitlistService.joinWaitlist(joinData);
+  }
+
+  /**
+   * GET /waitlist/:entryId
+   *
+   * Fetches a waitlist entry with its current position, or its offer once one was made.
+   *
+   * @param entryId - The entry ID (UUID)
+   * @returns The waitlist entry and its position in the queue
+   * @throws NotFoundException if the entry does not exist
+   */
+  @Get(':entryId')
+  async getWaitlistEntry(@Param('entryId', ParseUUIDPipe) entryId: string): Promise<WaitlistPositionDto> {
+    return await this.waitlistService.getWaitlistEntry(entryId);
+  }
+
+  /**
+   * DELETE /waitlist/:entryId
+   *
+   * Leaves the waitlist, withdrawing any open offer.
+   *
+   * @param entryId - The entry ID (UUID)
+   * @returns A message confirming the removal
+   * @throws NotFoundException if the entry does not exist
+   * @throws BadRequestException if the entry was already booked, expired or removed
+   */
+  @Delete(':entryId')
+  async leaveWaitlist(@Param('entryId', ParseUUIDPipe) entryId: string): Promise<{ message: string }> {
+    await this.waitlistService.leaveWaitlist(entryId);
+    return { message: `Waitlist entry ${entryId} successfully removed.` };
+  }
+}
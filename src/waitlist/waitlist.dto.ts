@@ -0,0 +1,91 @@
+/**
+ * waitlist.dto.ts
+ *
+ * These Data Transfer Objects (DTOs) define the request for joining the waitlist of a
+ * sold-out showtime and the waitlist entry returned to clients, including its position in the queue.
+ */
+
+import { IsUUID, IsInt, Min, Max, IsOptional, IsBoolean } from "class-validator";
+import { WaitlistStatus } from "./waitlist.entity";
+
+export class JoinWaitlistDto {
+
+  /**
+   * UUID of the user joining the waitlist.
+   * Must be a valid UUID string.
+   */
+  @IsUUID(undefined, { message: 'User ID must be a valid UUID.' })
+  userId: string;
+
+  /**
+   * ID of the sold-out showtime.
+   * Must be a positive integer.
+   */
+  @IsInt({ message: "Showtime ID must be a valid number." })
+  @Min(1, { message: "Showtime ID must be greater than 0." })
+  showtimeId: number;
+
+  /**
+   * (Optional) Number of seats wanted together (1–10). Defaults to 1.
+   */
+  @IsOptional()
+  @IsInt({ message: "Seats must be a valid number." })
+  @Min(1, { message: "Seats must be at least 1." })
+  @Max(10, { message: "Seats must be at most 10." })
+  seats?: number;
+
+  /**
+   * (Optional) Book freed seats straight away instead of offering them. Defaults to false.
+   */
+  @IsOptional()
+  @IsBoolean({ message: "Auto-book must be true or false." })
+  autoBook?: boolean;
+}
+
+export class WaitlistPositionDto {
+
+  /**
+   * ID of the waitlist entry.
+   */
+  entryId: string;
+
+  /**
+   * The showtime waited for.
+   */
+  showtimeId: number;
+
+  /**
+   * Number of seats wanted together.
+   */
+  seats: number;
+
+  /**
+   * Whether freed seats are booked straight away.
+   */
+  autoBook: boolean;
+
+  /**
+   * Current lifecycle status of the entry.
+   */
+  status: WaitlistStatus;
+
+  /**
+   * Position in the queue (1 = next), or null if the entry is no longer waiting.
+   */
+  position: number | null;
+
+  /**
+   * Token of the offered seat hold, to confirm via POST /bookings/holds/:holdToken/confirm.
+   */
+  holdToken: string | null;
+
+  /**
+   * When the offer expires.
+   */
+  offerExpiresAt: Date | null;
+
+  /**
+   * The bookings the customer got from the waitlist.
+   */
+  bookingIds: string[] | null;
+}
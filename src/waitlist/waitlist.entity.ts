@@ -0,0 +1,103 @@
+/**
+ * waitlist.entity.ts
+ *
+ * This entity defines the structure of the `waitlist_entries` table in the database.
+ * Each entry is a customer queuing for seats of a sold-out showtime. When seats free up,
+ * the entry at the head of the queue either gets a time-limited offer (a seat hold it can
+ * confirm) or, if it asked for it, is booked automatically.
+ *
+ * A partial unique index guarantees that a customer has at most one active entry per showtime.
+ */
+
+import { Entity, PrimaryGeneratedColumn, Column, CreateDateColumn, Index } from "typeorm";
+
+/**
+ * Lifecycle states of a waitlist entry.
+ * - waiting: queued for seats
+ * - offered: seats are held for the customer until the offer expires
+ * - booked: the customer got the seats (offer confirmed, or auto-booked)
+ * - expired: the offer ran out before the customer confirmed it, or the customer can no longer
+ *   get seats (over a ticket limit, sales closed, showtime cancelled)
+ * - left: the customer left the waitlist
+ */
+export enum WaitlistStatus {
+  WAITING = 'waiting',
+  OFFERED = 'offered',
+  BOOKED = 'booked',
+  EXPIRED = 'expired',
+  LEFT = 'left',
+}
+
+/**
+ * Statuses in which an entry is still in the queue or holding an offer.
+ */
+export const ACTIVE_WAITLIST_STATUSES: WaitlistStatus[] = [WaitlistStatus.WAITING, WaitlistStatus.OFFERED];
+
+@Entity({ name: 'waitlist_entries' })
+@Index('UQ_waitlist_active_user', ['showtimeId', 'userId'], {
+  unique: true,
+  where: `"status" IN (${ACTIVE_WAITLIST_STATUSES.map(status => `'${status}'`).join(', ')})`,
+})
+@Index('IDX_waitlist_queue', ['showtimeId', 'status', 'createdAt'])
+export class WaitlistEntry {
+
+  /**
+  * Auto-generated unique ID for the entry (primary key).
+  */
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  /**
+  * The showtime the customer is waiting for.
+  */
+  @Column({ type: 'int', nullable: false })
+  showtimeId: number;
+
+  /**
+  * UUID of the waiting customer.
+  */
+  @Column({ type: 'uuid', nullable: false })
+  userId: string;
+
+  /**
+  * Number of seats the customer wants together.
+  */
+  @Column({ type: 'int', nullable: false, default: 1 })
+  seats: number;
+
+  /**
+  * Whether freed seats are booked straight away instead of offered.
+  */
+  @Column({ type: 'boolean', nullable: false, default: false })
+  autoBook: boolean;
+
+  /**
+  * Current lifecycle status of the entry.
+  */
+  @Column({ type: 'enum', enum: WaitlistStatus, default: WaitlistStatus.WAITING })
+  status: WaitlistStatus;
+
+  /**
+  * Token of the seat hold offered to the customer, confirmable via the bookings API.
+  */
+  @Column({ type: 'uuid', nullable: true })
+  holdToken: string | null;
+
+  /**
+  * When the offered seat hold expires.
+  */
+  @Column({ type: 'timestamp', nullable: true })
+  offerExpiresAt: Date | null;
+
+  /**
+  * The bookings the customer got from the waitlist.
+  */
+  @Column({ type: 'uuid', array: true, nullable: true })
+  bookingIds: string[] | null;
+
+  /**
+  * When the customer joined the waitlist. The queue is served in this order.
+  */
+  @CreateDateColumn({ type: 'timestamp' })
+  createdAt: Date;
+}
@@ -0,0 +1,32 @@
+/**
+ * waitlist.module.ts
+ *
+ * This module manages the waitlist for sold-out showtimes.
+ *
+ * It imports:
+ * - TypeORM for database access to the WaitlistEntry entity
+ * - BookingModule to read seat maps, place holds and bookings, and listen to BookingEvents
+ *
+ * This module:
+ * - Registers 'WaitlistController' to handle HTTP requests
+ * - Provides 'WaitlistService' and 'WaitlistRepository' for business and data access logic
+ */
+
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { WaitlistEntry } from './waitlist.entity';
+import { WaitlistController } from './waitlist.controller';
+import { WaitlistService } from './waitlist.service';
+import { WaitlistRepository } from './waitlist.repository';
+import { BookingModule } from 'src/booking/booking.module';
+
+@Module({
+  imports: [TypeOrmModule.forFeature([WaitlistEntry]), BookingModule],
+  controllers: [WaitlistController],
+  providers: [WaitlistService, WaitlistRepository],
+})
+export class WaitlistModule {
+  constructor() {
+    console.log('WaitlistModule loaded');
+  }
+}
@@ -0,0 +1,257 @@
+/**
+ * waitlist.repository.ts
+ *
+ * This repository provides raw SQL-based access to the `waitlist_entries` table in the database.
+ * It includes logic to:
+ * - Add an entry and fetch it by ID
+ * - Compute an entry's position in its showtime's queue
+ * - List the waiting entries of a showtime in queue order
+ * - Move entries through their lifecycle (offered, booked, expired, left, back to waiting)
+ * - Close the queue of a cancelled showtime
+ *
+ * Promotion claims an entry with a conditional update (`WHERE status = 'waiting'`), so two
+ * concurrent promotions can never hand the same entry two offers.
+ */
+
+import { Injectable, InternalServerErrorException, ConflictException } from '@nestjs/common';
+import { DataSource } from 'typeorm';
+import { WaitlistEntry, WaitlistStatus, ACTIVE_WAITLIST_STATUSES } from './waitlist.entity';
+import { UNIQUE_VIOLATION } from 'src/booking/booking.constants';
+
+@Injectable()
+export class WaitlistRepository {
+  constructor(private readonly dataSource: DataSource) {}
+
+  /**
+   * Adds a new waiting entry to the end of a showtime's queue.
+   *
+   * @param entry - The showtime, user, number of seats and auto-book preference
+   * @returns the created entry
+   * @throws ConflictException if the user already has an active entry for the showtime
+   */
+  async addEntry(entry: Pick<WaitlistEntry, 'showtimeId' | 'userId' | 'seats' | 'autoBook'>): Promise<WaitlistEntry> {
+    try {
+      const result = await this.dataSource.query(
+        `INSERT INTO waitlist_entries ("showtimeId", "userId", seats, "autoBook")
+         VALUES ($1, $2, $3, $4)
+         RETURNING *`,
+        [entry.showtimeId, entry.userId, entry.seats, entry.autoBook]);
+      return result[0];
+    }
+    catch (error) {
+      if (error?.code === UNIQUE_VIOLATION) {
+        throw new ConflictException('User is already on the waitlist for this showtime.');
+      }
+      console.error('DB Error on addEntry:', error);
+      throw new InternalServerErrorException('Failed to add the waitlist entry.');
+    }
+  }
+
+  /**
+   * Fetches a single waitlist entry by its ID.
+   *
+   * @param id - The entry ID (UUID)
+   * @returns the entry, or null if not found
+   */
+  async fetchEntryById(id: string): Promise<WaitlistEntry | null> {
+    try {
+      const result = await this.dataSource.query(
+        `SELECT * FROM waitlist_entries WHERE id = $1`,
+        [id]);
+      return result[0] ?? null;
+    }
+    catch (error) {
+      console.error('DB Error on fetchEntryById:', error);
+      throw new InternalServerErrorException('Failed to get the waitlist entry by ID.');
+    }
+  }
+
+  /**
+   * Computes the position of a waiting entry in its showtime's queue (1 = next).
+   *
+   * @param entry - The waiting entry
+   * @returns the position in the queue
+   */
+  async getPosition(entry: WaitlistEntry): Promise<number> {
+    try {
+      const result = await this.dataSource.query(
+        `SELECT COUNT(*)::int + 1 AS position FROM waitlist_entries
+         WHERE "showtimeId" = $1 AND status = $2
+           AND ("createdAt" < $3 OR ("createdAt" = $3 AND id < $4))`,
+        [entry.showtimeId, WaitlistStatus.WAITING, entry.createdAt, entry.id]);
+      return result[0]?.position ?? 1;
+    }
+    catch (error) {
+      console.error('DB Error on getPosition:', error);
+      throw new InternalServerErrorException('Failed to get the waitlist position.');
+    }
+  }
+
+  /**
+   * Lists the waiting entries of a showtime in queue order.
+   *
+   * @param showtimeId - The showtime ID
+   * @returns the waiting entries, first in line first
+   */
+  async getWaitingEntries(showtimeId: number): Promise<WaitlistEntry[]> {
+    try {
+      return await this.dataSource.query(
+        `SELECT * FROM waitlist_entries
+         WHERE "showtimeId" = $1 AND status = $2
+         ORDER BY "createdAt", id`,
+        [showtimeId, WaitlistStatus.WAITING]);
+    }
+    catch (error) {
+      console.error('DB Error on getWaitingEntries:', error);
+      throw new InternalServerErrorException('Failed to fetch the waitlist for showtime.');
+    }
+  }
+
+  /**
+   * Claims a waiting entry for promotion by moving it to `offered`.
+   *
+   * @param id - The entry ID (UUID)
+   * @returns true if this call claimed the entry, false if it was no longer waiting
+   */
+  async claimEntry(id: string): Promise<boolean> {
+    try {
+      const [rows] = await this.dataSource.query(
+        `UPDATE waitlist_entries SET status = $1
+         WHERE id = $2 AND status = $3
+         RETURNING id`,
+        [WaitlistStatus.OFFERED, id, WaitlistStatus.WAITING]);
+      return rows.length > 0;
+    }
+    catch (error) {
+      console.error('DB Error on claimEntry:', error);
+      throw new InternalServerErrorException('Failed to claim the waitlist entry.');
+    }
+  }
+
+  /**
+   * Records the seat hold offered to a claimed entry.
+   *
+   * @param id - The entry ID (UUID)
+   * @param holdToken - Token of the offered seat hold
+   * @param offerExpiresAt - When the seat hold expires
+   */
+  async markOffered(id: string, holdToken: string, offerExpiresAt: Date): Promise<void> {
+    try {
+      await this.dataSource.query(
+        `UPDATE waitlist_entries SET "holdToken" = $1, "offerExpiresAt" = $2 WHERE id = $3`,
+        [holdToken, offerExpiresAt, id]);
+    }
+    catch (error) {
+      console.error('DB Error on markOffered:', error);
+      throw new InternalServerErrorException('Failed to record the waitlist offer.');
+    }
+  }
+
+  /**
+   * Marks an entry as booked, with the bookings it got.
+   *
+   * @param id - The entry ID (UUID)
+   * @param bookingIds - The booking IDs
+   */
+  async markBooked(id: string, bookingIds: string[]): Promise<void> {
+    try {
+      await this.dataSource.query(
+        `UPDATE waitlist_entries SET status = $1, "bookingIds" = $2 WHERE id = $3`,
+        [WaitlistStatus.BOOKED, bookingIds, id]);
+    }
+    catch (error) {
+      console.error('DB Error on markBooked:', error);
+      throw new InternalServerErrorException('Failed to mark the waitlist entry as booked.');
+    }
+  }
+
+  /**
+   * Marks the entry holding the given offer as booked once its seat hold is confirmed.
+   *
+   * @param holdToken - Token of the confirmed seat hold
+   * @param bookingIds - The booking IDs created from the hold
+   */
+  async markOfferAccepted(holdToken: string, bookingIds: string[]): Promise<void> {
+    try {
+      await this.dataSource.query(
+        `UPDATE waitlist_entries SET status = $1, "bookingIds" = $2
+         WHERE "holdToken" = $3 AND status = $4`,
+        [WaitlistStatus.BOOKED, bookingIds, holdToken, WaitlistStatus.OFFERED]);
+    }
+    catch (error) {
+      console.error('DB Error on markOfferAccepted:', error);
+      throw new InternalServerErrorException('Failed to mark the waitlist offer as accepted.');
+    }
+  }
+
+  /**
+   * Puts a claimed entry back in the queue, at its original position.
+   *
+   * @param id - The entry ID (UUID)
+   */
+  async requeueEntry(id: string): Promise<void> {
+    try {
+      await this.dataSource.query(
+        `UPDATE waitlist_entries SET status = $1, "holdToken" = NULL, "offerExpiresAt" = NULL WHERE id = $2`,
+        [WaitlistStatus.WAITING, id]);
+    }
+    catch (error) {
+      console.error('DB Error on requeueEntry:', error);
+      throw new InternalServerErrorException('Failed to put the waitlist entry back in the queue.');
+    }
+  }
+
+  /**
+   * Marks the offers of a showtime whose seat hold has run out as expired.
+   *
+   * @param showtimeId - The showtime ID
+   */
+  async expireOffers(showtimeId: number): Promise<void> {
+    try {
+      await this.dataSource.query(
+        `UPDATE waitlist_entries SET status = $1
+         WHERE "showtimeId" = $2 AND status = $3 AND "offerExpiresAt" <= NOW()`,
+        [WaitlistStatus.EXPIRED, showtimeId, WaitlistStatus.OFFERED]);
+    }
+    catch (error) {
+      console.error('DB Error on expireOffers:', error);
+      throw new InternalServerErrorException('Failed to expire waitlist offers.');
+    }
+  }
+
+  /**
+   * Expires every active entry of a showtime, e.g. once the showtime is cancelled.
+   *
+   * @param showtimeId - The showtime ID
+   */
+  async closeWaitlist(showtimeId: number): Promise<void> {
+    try {
+      await this.dataSource.query(
+        `UPDATE waitlist_entries SET status = $1
+         WHERE "showtimeId" = $2 AND status = ANY($3)`,
+        [WaitlistStatus.EXPIRED, showtimeId, ACTIVE_WAITLIST_STATUSES]);
+    }
+    catch (error) {
+      console.error('DB Error on closeWaitlist:', error);
+      throw new InternalServerErrorException('Failed to close the waitlist.');
+    }
+  }
+
+  /**
+   * Changes the status of an entry.
+   *
+   * @param id - The entry ID (UUID)
+   * @param status - The new status
+   */
+  async updateStatus(id: string, status: WaitlistStatus): Promise<void> {
+    try {
+      await this.dataSource.query(
+        `UPDATE waitlist_entries SET status = $1 WHERE id = $2`,
+        [status, id]);
+    }
+    catch (error) {
+      console.error('DB Error on updateStatus:', error);
+      throw new InternalServerErrorException('Failed to update the waitlist entry status.');
+    }
+  }
+}
@@ -0,0 +1,369 @@
+/**
+ * waitlist.service.spec.ts
+ *
+ * This file contains unit tests for the `WaitlistService`, which manages the queue of
+ * customers waiting for seats of a sold-out showtime.
+ *
+ * These tests cover:
+ * - Joining only when the showtime cannot seat the customer
+ * - Reporting an entry's position, and leaving the queue (withdrawing an open offer)
+ * - Promoting the queue in order when seats are released, as offers or auto-bookings
+ * - Not skipping ahead of a customer whose party does not fit yet
+ * - Dropping customers who can never get the seats, without holding up the rest of the queue
+ * - Reacting to BookingEvents
+ */
+
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException, ConflictException, NotFoundException } from '@nestjs/common';
+import { WaitlistService } from './waitlist.service';
+import { WaitlistRepository } from './waitlist.repository';
+import { WaitlistStatus } from './waitlist.entity';
+import { BookingService } from 'src/booking/booking.service';
+import { BookingEvents } from 'src/booking/booking.events';
+import { SeatState } from 'src/booking/seatMap.dto';
+
+describe('WaitlistService', () => {
+  let service: WaitlistService;
+  let bookingEvents: BookingEvents;
+  let mockWaitlistRepository: Partial<Record<keyof WaitlistRepository, jest.Mock>>;
+  let mockBookingService: Partial<Record<keyof BookingService, jest.Mock>>;
+
+  const userId = 'abcabcab-1111-2222-3333-abcabcabcabc';
+
+  /**
+   * Builds a seat map whose first `available` seats are free and the rest booked.
+   */
+  const seatMap = (capacity: number, available: number) => ({
+    showtimeId: 1,
+    theaterId: 3,
+    seats: Array.from({ length: capacity }, (_, index) => ({
+      seatNumber: index + 1,
+      state: index < available ? SeatState.AVAILABLE : SeatState.BOOKED,
+    })),
+    totals: { capacity, sellableCapacity: capacity, available, held: 0, booked: capacity - available, blocked: 0 },
+  });
+
+  const entry = (id: string, seats = 1, autoBook = false) => ({
+    id, showtimeId: 1, userId, seats, autoBook, status: WaitlistStatus.WAITING,
+    holdToken: null, offerExpiresAt: null, bookingIds: null, createdAt: new Date('2025-01-01T10:00:00Z'),
+  });
+
+  beforeEach(async () => {
+    mockWaitlistRepository = {
+      addEntry: jest.fn(),
+      fetchEntryById: jest.fn(),
+      getPosition: jest.fn(),
+      getWaitingEntries: jest.fn(),
+      claimEntry: jest.fn().mockResolvedValue(true),
+      markOffered: jest.fn(),
+      markBooked: jest.fn(),
+      markOfferAccepted: jest.fn().mockResolvedValue(undefined),
+      requeueEntry: jest.fn(),
+      expireOffers: jest.fn(),
+      closeWaitlist: jest.fn().mockResolvedValue(undefined),
+      updateStatus: jest.fn()
+    };
+
+    mockBookingService = {
+      getSeatMap: jest.fn(),
+      addGroupBooking: jest.fn(),
+      placeSeatHold: jest.fn(),
+      releaseSeatHold: jest.fn()
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        WaitlistService,
+        BookingEvents,
+        { provide: WaitlistRepository, useValue: mockWaitlistRepository },
+        { provide: BookingService, useValue: mockBookingService },
+      ],
+    }).compile();
+
+    service = module.get<WaitlistService>(WaitlistService);
+    bookingEvents = module.get<BookingEvents>(BookingEvents);
+  });
+
+  describe('joinWaitlist', () => {
+    /**
+     * Should add the customer to the queue of a sold-out showtime and report their position.
+     */
+    it('should join the waitlist of a sold-out showtime', async () => {
+      mockBookingService.getSeatMap.mockResolvedValue(seatMap(20, 0));
+      mockWaitlistRepository.addEntry.mockResolvedValue(entry('entry-1', 2));
+      mockWaitlistRepository.getPosition.mockResolvedValue(3);
+
+      const result = await service.joinWaitlist({ showtimeId: 1, userId, seats: 2 });
+
+      expect(mockWaitlistRepository.addEntry).toHaveBeenCalledWith({ showtimeId: 1, userId, seats: 2, autoBook: false });
+      expect(result).toEqual(expect.objectContaining({ entryId: 'entry-1', status: WaitlistStatus.WAITING, position: 3 }));
+    });
+
+    /**
+     * Should let a party join when fewer seats are free than it needs.
+     */
+    it('should join when not enough seats are free for the party', async () => {
+      mockBookingService.getSeatMap.mockResolvedValue(seatMap(20, 1));
+      mockWaitlistRepository.addEntry.mockResolvedValue(entry('entry-1', 2));
+      mockWaitlistRepository.getPosition.mockResolvedValue(1);
+
+      await expect(service.joinWaitlist({ showtimeId: 1, userId, seats: 2 })).resolves.toEqual(expect.objectContaining({ position: 1 }));
+    });
+
+    /**
+     * Should refuse to queue while enough seats can still be booked.
+     */
+    it('should throw BadRequestException if seats are still available', async () => {
+      mockBookingService.getSeatMap.mockResolvedValue(seatMap(20, 5));
+
+      await expect(service.joinWaitlist({ showtimeId: 1, userId, seats: 2 })).rejects.toThrow(BadRequestException);
+      expect(mockWaitlistRepository.addEntry).not.toHaveBeenCalled();
+    });
+
+    /**
+     * Should refuse a party larger than the theater.
+     */
+    it('should throw BadRequestException if more seats are asked than the theater has', async () => {
+      mockBookingService.getSeatMap.mockResolvedValue(seatMap(4, 0));
+
+      await expect(service.joinWaitlist({ showtimeId: 1, userId, seats: 5 })).rejects.toThrow(BadRequestException);
+    });
+
+    /**
+     * Should throw NotFoundException if the showtime does not exist.
+     */
+    it('should throw NotFoundException if showtime not found', async () => {
+      mockBookingService.getSeatMap.mockRejectedValue(new NotFoundException('Showtime not found'));
+
+      await expect(service.joinWaitlist({ showtimeId: 99, userId })).rejects.toThrow(NotFoundException);
+    });
+  });
+
+  describe('getWaitlistEntry', () => {
+    /**
+     * Should return an offered entry with its hold token and no position.
+     */
+    it('should return an offered entry without a position', async () => {
+      const expiresAt = new Date('2025-01-01T10:10:00Z');
+      mockWaitlistRepository.fetchEntryById.mockResolvedValue({ ...entry('entry-1'), status: WaitlistStatus.OFFERED, holdToken: 'hold-1', offerExpiresAt: expiresAt });
+
+      const result = await service.getWaitlistEntry('entry-1');
+
+      expect(result).toEqual(expect.objectContaining({ status: WaitlistStatus.OFFERED, position: null, holdToken: 'hold-1', offerExpiresAt: expiresAt }));
+      expect(mockWaitlistRepository.getPosition).not.toHaveBeenCalled();
+    });
+
+    /**
+     * Should throw NotFoundException if the entry does not exist.
+     */
+    it('should throw NotFoundException if entry not found', async () => {
+      mockWaitlistRepository.fetchEntryById.mockResolvedValue(null);
+
+      await expect(service.getWaitlistEntry('missing')).rejects.toThrow(NotFoundException);
+    });
+  });
+
+  describe('leaveWaitlist', () => {
+    /**
+     * Should remove a waiting entry from the queue.
+     */
+    it('should leave the waitlist', async () => {
+      mockWaitlistRepository.fetchEntryById.mockResolvedValue(entry('entry-1'));
+
+      await expect(service.leaveWaitlist('entry-1')).resolves.toBeUndefined();
+      expect(mockWaitlistRepository.updateStatus).toHaveBeenCalledWith('entry-1', WaitlistStatus.LEFT);
+      expect(mockBookingService.releaseSeatHold).not.toHaveBeenCalled();
+    });
+
+    /**
+     * Should release the held seats of an open offer.
+     */
+    it('should withdraw an open offer', async () => {
+      mockWaitlistRepository.fetchEntryById.mockResolvedValue({ ...entry('entry-1'), status: WaitlistStatus.OFFERED, holdToken: 'hold-1' });
+
+      await service.leaveWaitlist('entry-1');
+
+      expect(mockWaitlistRepository.updateStatus).toHaveBeenCalledWith('entry-1', WaitlistStatus.LEFT);
+      expect(mockBookingService.releaseSeatHold).toHaveBeenCalledWith('hold-1');
+    });
+
+    /**
+     * Should still leave if the offered hold has already expired.
+     */
+    it('should ignore an offer that already expired', async () => {
+      mockWaitlistRepository.fetchEntryById.mockResolvedValue({ ...entry('entry-1'), status: WaitlistStatus.OFFERED, holdToken: 'hold-1' });
+      mockBookingService.releaseSeatHold.mockRejectedValue(new NotFoundException('Hold expired'));
+
+      await expect(service.leaveWaitlist('entry-1')).resolves.toBeUndefined();
+    });
+
+    /**
+     * Should throw BadRequestException if the entry was already booked.
+     */
+    it('should throw BadRequestException if entry already booked', async () => {
+      mockWaitlistRepository.fetchEntryById.mockResolvedValue({ ...entry('entry-1'), status: WaitlistStatus.BOOKED });
+
+      await expect(service.leaveWaitlist('entry-1')).rejects.toThrow(BadRequestException);
+      expect(mockWaitlistRepository.updateStatus).not.toHaveBeenCalled();
+    });
+
+    /**
+     * Should throw NotFoundException if the entry does not exist.
+     */
+    it('should throw NotFoundException if entry not found', async () => {
+      mockWaitlistRepository.fetchEntryById.mockResolvedValue(null);
+
+      await expect(service.leaveWaitlist('missing')).rejects.toThrow(NotFoundException);
+    });
+  });
+
+  describe('promoteWaitlist', () => {
+    /**
+     * Should offer the freed seats to the first customer as a seat hold.
+     */
+    it('should offer freed seats to the first in line', async () => {
+      const expiresAt = new Date('2025-01-01T10:10:00Z');
+      mockWaitlistRepository.getWaitingEntries.mockResolvedValue([entry('entry-1', 2), entry('entry-2')]);
+      mockBookingService.getSeatMap.mockResolvedValue(seatMap(20, 2));
+      mockBookingService.placeSeatHold.mockResolvedValue({ holdToken: 'hold-1', expiresAt, seatNumbers: [1, 2] });
+
+      await expect(service.promoteWaitlist(1)).resolves.toBe(1);
+
+      expect(mockWaitlistRepository.expireOffers).toHaveBeenCalledWith(1);
+      expect(mockBookingService.placeSeatHold).toHaveBeenCalledWith({ showtimeId: 1, userId, seatNumbers: [1, 2] });
+      expect(mockWaitlistRepository.markOffered).toHaveBeenCalledWith('entry-1', 'hold-1', expiresAt);
+      expect(mockWaitlistRepository.claimEntry).not.toHaveBeenCalledWith('entry-2');
+    });
+
+    /**
+     * Should book the freed seats straight away for an auto-book entry.
+     */
+    it('should auto-book freed seats', async () => {
+      mockWaitlistRepository.getWaitingEntries.mockResolvedValue([entry('entry-1', 1, true)]);
+      mockBookingService.getSeatMap.mockResolvedValue(seatMap(20, 1));
+      mockBookingService.addGroupBooking.mockResolvedValue({ bookingIds: ['booking-1'], seats: [], totalPrice: 10 });
+
+      await expect(service.promoteWaitlist(1)).resolves.toBe(1);
+
+      expect(mockBookingService.addGroupBooking).toHaveBeenCalledWith({ showtimeId: 1, userId, seatNumbers: [1] });
+      expect(mockWaitlistRepository.markBooked).toHaveBeenCalledWith('entry-1', ['booking-1']);
+      expect(mockBookingService.placeSeatHold).not.toHaveBeenCalled();
+    });
+
+    /**
+     * Should not serve anyone behind a customer whose party does not fit yet.
+     */
+    it('should not skip ahead of a party that does not fit', async () => {
+      mockWaitlistRepository.getWaitingEntries.mockResolvedValue([entry('entry-1', 3), entry('entry-2', 1)]);
+      mockBookingService.getSeatMap.mockResolvedValue(seatMap(20, 2));
+
+      await expect(service.promoteWaitlist(1)).resolves.toBe(0);
+      expect(mockWaitlistRepository.claimEntry).not.toHaveBeenCalled();
+    });
+
+    /**
+     * Should skip an entry another promotion already claimed.
+     */
+    it('should skip an entry claimed by another promotion', async () => {
+      mockWaitlistRepository.getWaitingEntries.mockResolvedValue([entry('entry-1'), entry('entry-2')]);
+      mockWaitlistRepository.claimEntry.mockResolvedValueOnce(false).mockResolvedValueOnce(true);
+      mockBookingService.getSeatMap.mockResolvedValue(seatMap(20, 1));
+      mockBookingService.placeSeatHold.mockResolvedValue({ holdToken: 'hold-2', expiresAt: new Date(), seatNumbers: [1] });
+
+      await expect(service.promoteWaitlist(1)).resolves.toBe(1);
+      expect(mockWaitlistRepository.markOffered).toHaveBeenCalledWith('entry-2', 'hold-2', expect.any(Date));
+    });
+
+    /**
+     * Should put the entry back in the queue if the seats were taken in the meantime.
+     */
+    it('should requeue the entry if the seats were taken', async () => {
+      mockWaitlistRepository.getWaitingEntries.mockResolvedValue([entry('entry-1'), entry('entry-2')]);
+      mockBookingService.getSeatMap.mockResolvedValue(seatMap(20, 2));
+      mockBookingService.placeSeatHold.mockRejectedValue(new ConflictException('Seats taken'));
+
+      await expect(service.promoteWaitlist(1)).resolves.toBe(0);
+      expect(mockWaitlistRepository.requeueEntry).toHaveBeenCalledWith('entry-1');
+      expect(mockBookingService.placeSeatHold).toHaveBeenCalledTimes(1);
+    });
+
+    /**
+     * Should expire an entry that can never be served, e.g. over a ticket limit, and serve the next in line.
+     */
+    it('should expire an entry that cannot get the seats and move on', async () => {
+      mockWaitlistRepository.getWaitingEntries.mockResolvedValue([entry('entry-1'), entry('entry-2')]);
+      mockBookingService.getSeatMap.mockResolvedValue(seatMap(20, 1));
+      mockBookingService.placeSeatHold
+        .mockRejectedValueOnce(new BadRequestException({ message: 'Over the limit', errorCode: 'SHOWTIME_LIMIT' }))
+        .mockResolvedValueOnce({ holdToken: 'hold-2', expiresAt: new Date(), seatNumbers: [1] });
+
+      await expect(service.promoteWaitlist(1)).resolves.toBe(1);
+      expect(mockWaitlistRepository.updateStatus).toHaveBeenCalledWith('entry-1', WaitlistStatus.EXPIRED);
+      expect(mockWaitlistRepository.requeueEntry).not.toHaveBeenCalled();
+      expect(mockBookingService.placeSeatHold).toHaveBeenLastCalledWith({ showtimeId: 1, userId, seatNumbers: [1] });
+      expect(mockWaitlistRepository.markOffered).toHaveBeenCalledWith('entry-2', 'hold-2', expect.any(Date));
+    });
+
+    /**
+     * Should keep the entry in line if a seat was blocked meanwhile, and offer the other seats to the next in line.
+     */
+    it('should requeue the entry and skip seats blocked meanwhile', async () => {
+      mockWaitlistRepository.getWaitingEntries.mockResolvedValue([entry('entry-1', 2), entry('entry-2')]);
+      mockBookingService.getSeatMap.mockResolvedValue(seatMap(20, 2));
+      mockBookingService.placeSeatHold
+        .mockRejectedValueOnce(new BadRequestException({ message: 'Seats 1 are not for sale', conflictingSeats: [1] }))
+        .mockResolvedValueOnce({ holdToken: 'hold-2', expiresAt: new Date(), seatNumbers: [2] });
+
+      await expect(service.promoteWaitlist(1)).resolves.toBe(1);
+      expect(mockWaitlistRepository.requeueEntry).toHaveBeenCalledWith('entry-1');
+      expect(mockWaitlistRepository.updateStatus).not.toHaveBeenCalled();
+      expect(mockBookingService.placeSeatHold).toHaveBeenLastCalledWith({ showtimeId: 1, userId, seatNumbers: [2] });
+    });
+
+    /**
+     * Should do nothing when nobody is waiting.
+     */
+    it('should do nothing when the waitlist is empty', async () => {
+      mockWaitlistRepository.getWaitingEntries.mockResolvedValue([]);
+
+      await expect(service.promoteWaitlist(1)).resolves.toBe(0);
+      expect(mockBookingService.getSeatMap).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('booking events', () => {
+    /**
+     * Should promote the waitlist of a showtime whose seats were released.
+     */
+    it('should promote the waitlist when seats are released', async () => {
+      service.onModuleInit();
+      const promote = jest.spyOn(service, 'promoteWaitlist').mockResolvedValue(0);
+
+      bookingEvents.emitSeatsReleased({ showtimeId: 1, seatNumbers: [4] });
+
+      expect(promote).toHaveBeenCalledWith(1);
+    });
+
+    /**
+     * Should mark the offer as booked once its hold is confirmed.
+     */
+    it('should mark the offer as accepted when its hold is confirmed', async () => {
+      service.onModuleInit();
+
+      bookingEvents.emitHoldConfirmed({ holdToken: 'hold-1', showtimeId: 1, bookingIds: ['booking-1'] });
+
+      expect(mockWaitlistRepository.markOfferAccepted).toHaveBeenCalledWith('hold-1', ['booking-1']);
+    });
+
+    /**
+     * Should close the queue of a cancelled showtime.
+     */
+    it('should close the waitlist when the showtime is cancelled', async () => {
+      service.onModuleInit();
+
+      bookingEvents.emitShowTimeCancelled({ showtimeId: 1, reason: 'Projector failure' });
+
+      expect(mockWaitlistRepository.closeWaitlist).toHaveBeenCalledWith(1);
+    });
+  });
+});
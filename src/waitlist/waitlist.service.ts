@@ -0,0 +1,216 @@
+/**
+ * waitlist.service.ts
+ *
+ * This service handles the business logic of the waitlist for sold-out showtimes.
+ * Customers can join the queue of a showtime that has no room for them, check their
+ * position, and leave it.
+ *
+ * Whenever seats of a showtime come back on sale (see BookingEvents), the queue is served
+ * strictly in order: the first waiting customer gets the freed seats, either as a seat hold
+ * they must confirm before it expires, or booked straight away if they asked for auto-booking.
+ * If the first customer needs more seats than are free, nobody behind them is served yet.
+ * An offer that runs out frees its seats again, which moves on to the next customer.
+ * When a showtime is cancelled, every entry still waiting or holding an offer for it expires.
+ */
+
+import { Injectable, BadRequestException, NotFoundException, ConflictException, OnModuleInit } from '@nestjs/common';
+import { WaitlistRepository } from './waitlist.repository';
+import { WaitlistEntry, WaitlistStatus, ACTIVE_WAITLIST_STATUSES } from './waitlist.entity';
+import { JoinWaitlistDto, WaitlistPositionDto } from './waitlist.dto';
+import { BookingService } from 'src/booking/booking.service';
+import { BookingEvents } from 'src/booking/booking.events';
+import { SeatState } from 'src/booking/seatMap.dto';
+
+@Injectable()
+export class WaitlistService implements OnModuleInit {
+  constructor(
+    private readonly waitlistRepository: WaitlistRepository,
+    private readonly bookingService: BookingService,
+    private readonly bookingEvents: BookingEvents,
+  ) {}
+
+  /**
+   * Serves the queue whenever seats are released, marks offers as booked once confirmed,
+   * and closes the queue of a cancelled showtime.
+   */
+  onModuleInit(): void {
+    this.bookingEvents.onSeatsReleased(({ showtimeId }) => {
+      this.promoteWaitlist(showtimeId)
+        .catch(error => console.error(`Failed to promote the waitlist of showtime ${showtimeId}:`, error));
+    });
+
+    this.bookingEvents.onHoldConfirmed(({ holdToken, bookingIds }) => {
+      this.waitlistRepository.markOfferAccepted(holdToken, bookingIds)
+        .catch(error => console.error('Failed to mark the waitlist offer as accepted:', error));
+    });
+
+    this.bookingEvents.onShowTimeCancelled(({ showtimeId }) => {
+      this.waitlistRepository.closeWaitlist(showtimeId)
+        .catch(error => console.error(`Failed to close the waitlist of showtime ${showtimeId}:`, error));
+    });
+  }
+
+  /**
+   * Builds the client view of an entry, including its position while it is waiting.
+   */
+  private async toPositionDto(entry: WaitlistEntry): Promise<WaitlistPositionDto> {
+    const position = entry.status === WaitlistStatus.WAITING ? await this.waitlistRepository.getPosition(entry) : null;
+
+    return {
+      entryId: entry.id,
+      showtimeId: entry.showtimeId,
+      seats: entry.seats,
+      autoBook: entry.autoBook,
+      status: entry.status,
+      position,
+      holdToken: entry.holdToken,
+      offerExpiresAt: entry.offerExpiresAt,
+      bookingIds: entry.bookingIds,
+    };
+  }
+
+  /**
+   * Adds a customer to the end of a showtime's waitlist.
+   * Only allowed when the showtime does not have enough free seats for them.
+   *
+   * @param data - The showtime, user, number of seats and auto-book preference
+   * @returns the new entry with its position in the queue
+   * @throws NotFoundException if the showtime does not exist
+   * @throws BadRequestException if enough seats are still available, or more seats are asked than the theater has
+   * @throws ConflictException if the user is already on the waitlist for the showtime
+   */
+  async joinWaitlist(data: JoinWaitlistDto): Promise<WaitlistPositionDto> {
+    const { showtimeId, userId } = data;
+    const seats = data.seats ?? 1;
+
+    const { totals } = await this.bookingService.getSeatMap(showtimeId);
+    if (seats > totals.sellableCapacity) {
+      throw new BadRequestException(`The theater only has ${totals.sellableCapacity} seats for sale.`);
+    }
+    if (totals.available >= seats) {
+      throw new BadRequestException(`${totals.available} seats are still available for this showtime. Book them instead of joining the waitlist.`);
+    }
+
+    const entry = await this.waitlistRepository.addEntry({ showtimeId, userId, seats, autoBook: data.autoBook ?? false });
+    return await this.toPositionDto(entry);
+  }
+
+  /**
+   * Fetches a waitlist entry with its current position.
+   *
+   * @param entryId - The entry ID (UUID)
+   * @returns the entry with its position in the queue
+   * @throws NotFoundException if the entry does not exist
+   */
+  async getWaitlistEntry(entryId: string): Promise<WaitlistPositionDto> {
+    const entry = await this.waitlistRepository.fetchEntryById(entryId);
+    if (!entry) {
+      throw new NotFoundException(`Waitlist entry ${entryId} not found.`);
+    }
+
+    return await this.toPositionDto(entry);
+  }
+
+  /**
+   * Removes a customer from the waitlist. An open offer is withdrawn and its seats
+   * are released to the next customer.
+   *
+   * @param entryId - The entry ID (UUID)
+   * @throws NotFoundException if the entry does not exist
+   * @throws BadRequestException if the entry is no longer waiting or offered
+   */
+  async leaveWaitlist(entryId: string): Promise<void> {
+    const entry = await this.waitlistRepository.fetchEntryById(entryId);
+    if (!entry) {
+      throw new NotFoundException(`Waitlist entry ${entryId} not found.`);
+    }
+
+    if (!ACTIVE_WAITLIST_STATUSES.includes(entry.status)) {
+      throw new BadRequestException(`Waitlist entry ${entryId} cannot be removed because it is ${entry.status}.`);
+    }
+
+    await this.waitlistRepository.updateStatus(entryId, WaitlistStatus.LEFT);
+
+    if (entry.status === WaitlistStatus.OFFERED && entry.holdToken) {
+      try {
+        await this.bookingService.releaseSeatHold(entry.holdToken);
+      }
+      catch (error) {
+        // The offer already ran out, so its seats are back on sale anyway.
+        if (!(error instanceof NotFoundException)) {
+          throw error;
+        }
+      }
+    }
+  }
+
+  /**
+   * Hands the free seats of a showtime to the waitlist, first in line first.
+   * Stops at the first customer whose party does not fit in the free seats, or whose seats
+   * were taken in the meantime. A customer who can never get the seats (over a ticket limit,
+   * sales closed, showtime cancelled) is dropped from the waitlist; one whose seats were
+   * withdrawn from sale keeps their place. Either way, the next in line is served.
+   *
+   * @param showtimeId - The showtime ID
+   * @returns the number of customers who got an offer or a booking
+   */
+  async promoteWaitlist(showtimeId: number): Promise<number> {
+    await this.waitlistRepository.expireOffers(showtimeId);
+
+    const waiting = await this.waitlistRepository.getWaitingEntries(showtimeId);
+    if (waiting.length === 0) {
+      return 0;
+    }
+
+    const { seats } = await this.bookingService.getSeatMap(showtimeId);
+    const freeSeats = seats.filter(seat => seat.state === SeatState.AVAILABLE).map(seat => seat.seatNumber);
+
+    let promoted = 0;
+    for (const entry of waiting) {
+      if (freeSeats.length < entry.seats) {
+        break;
+      }
+
+      if (!await this.waitlistRepository.claimEntry(entry.id)) {
+        continue;
+      }
+
+      const seatNumbers = freeSeats.splice(0, entry.seats);
+      try {
+        if (entry.autoBook) {
+          const { bookingIds } = await this.bookingService.addGroupBooking({ showtimeId, userId: entry.userId, seatNumbers });
+          await this.waitlistRepository.markBooked(entry.id, bookingIds);
+        }
+        else {
+          const { holdToken, expiresAt } = await this.bookingService.placeSeatHold({ showtimeId, userId: entry.userId, seatNumbers });
+          await this.waitlistRepository.markOffered(entry.id, holdToken, expiresAt);
+        }
+        promoted++;
+      }
+      catch (error) {
+        // The seats were taken in the meantime; the next release will try again.
+        if (error instanceof ConflictException) {
+          await this.waitlistRepository.requeueEntry(entry.id);
+          break;
+        }
+        if (!(error instanceof BadRequestException)) {
+          await this.waitlistRepository.requeueEntry(entry.id);
+          throw error;
+        }
+
+        const { conflictingSeats } = error.getResponse() as { conflictingSeats?: number[] };
+        if (conflictingSeats) {
+          // Some of the seats were blocked in the meantime; the others go to the next in line.
+          await this.waitlistRepository.requeueEntry(entry.id);
+          freeSeats.unshift(...seatNumbers.filter(seatNumber => !conflictingSeats.includes(seatNumber)));
+        }
+        else {
+          await this.waitlistRepository.updateStatus(entry.id, WaitlistStatus.EXPIRED);
+          freeSeats.unshift(...seatNumbers);
+        }
+      }
+    }
+
+    return promoted;
+  }
+}